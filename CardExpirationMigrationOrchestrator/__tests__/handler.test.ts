@@ -0,0 +1,139 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { context as contextMock } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import {
+  getCgnExpirationChangedMessage,
+  getEycaExpirationChangedMessage
+} from "../../utils/messages";
+import {
+  CardExpirationMigrationOrchestratorHandler,
+  MigrationOutcomeEnum
+} from "../handler";
+
+const anExpirationDate = new Date("2031-05-10T00:00:00.000Z");
+const aPreviousExpirationDate = new Date("2030-05-10T00:00:00.000Z");
+
+const anOrchestratorInput = {
+  cardType: ExpiringCardTypeEnum.CGN,
+  expirationDate: anExpirationDate.toISOString(),
+  fiscalCode: aFiscalCode,
+  previousExpirationDate: aPreviousExpirationDate.toISOString()
+};
+
+const getInputMock = jest.fn();
+const mockCallActivityWithRetry = jest.fn();
+const setCustomStatusMock = jest.fn();
+
+const contextMockWithDf = {
+  ...contextMock,
+  df: {
+    callActivityWithRetry: mockCallActivityWithRetry,
+    getInput: getInputMock,
+    isReplaying: false,
+    setCustomStatus: setCustomStatusMock
+  }
+};
+
+describe("CardExpirationMigrationOrchestrator", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getInputMock.mockImplementation(() => anOrchestratorInput);
+    mockCallActivityWithRetry.mockImplementation((name: string) => name);
+  });
+
+  it("should migrate the expiration and notify the user", () => {
+    const orchestrator = CardExpirationMigrationOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    expect(orchestrator.next().value).toBe("MigrateCardExpirationActivity");
+    expect(mockCallActivityWithRetry).toHaveBeenCalledWith(
+      "MigrateCardExpirationActivity",
+      expect.anything(),
+      anOrchestratorInput
+    );
+    expect(orchestrator.next({ isMigrated: true, kind: "SUCCESS" }).value).toBe(
+      "SendMessageActivity"
+    );
+    expect(mockCallActivityWithRetry).toHaveBeenLastCalledWith(
+      "SendMessageActivity",
+      expect.anything(),
+      {
+        checkProfile: false,
+        content: {
+          ...getCgnExpirationChangedMessage(anExpirationDate),
+          due_date: anExpirationDate.toISOString()
+        },
+        fiscalCode: aFiscalCode
+      }
+    );
+    const res = orchestrator.next({ kind: "SUCCESS" });
+
+    expect(res).toEqual({ done: true, value: MigrationOutcomeEnum.MIGRATED });
+    expect(setCustomStatusMock).toHaveBeenNthCalledWith(1, "RUNNING");
+    expect(setCustomStatusMock).toHaveBeenNthCalledWith(2, "COMPLETED");
+  });
+
+  it("should notify the EYCA expiration change", () => {
+    getInputMock.mockImplementationOnce(() => ({
+      ...anOrchestratorInput,
+      cardType: ExpiringCardTypeEnum.EYCA
+    }));
+    const orchestrator = CardExpirationMigrationOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    orchestrator.next({ isMigrated: true, kind: "SUCCESS" });
+    expect(mockCallActivityWithRetry).toHaveBeenLastCalledWith(
+      "SendMessageActivity",
+      expect.anything(),
+      expect.objectContaining({
+        content: {
+          ...getEycaExpirationChangedMessage(anExpirationDate),
+          due_date: anExpirationDate.toISOString()
+        }
+      })
+    );
+  });
+
+  it("should skip the notification if the card has not been migrated", () => {
+    const orchestrator = CardExpirationMigrationOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    const res = orchestrator.next({ isMigrated: false, kind: "SUCCESS" });
+
+    expect(res).toEqual({ done: true, value: MigrationOutcomeEnum.SKIPPED });
+    expect(mockCallActivityWithRetry).toHaveBeenCalledTimes(1);
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("COMPLETED");
+  });
+
+  it("should return a failed outcome if the card cannot be migrated", () => {
+    const orchestrator = CardExpirationMigrationOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    const res = orchestrator.next({ kind: "FAILURE", reason: "Reason" });
+
+    expect(res).toEqual({ done: true, value: MigrationOutcomeEnum.FAILED });
+    expect(mockCallActivityWithRetry).toHaveBeenCalledTimes(1);
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+
+  it("should return a failed outcome if the user cannot be notified", () => {
+    const orchestrator = CardExpirationMigrationOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    orchestrator.next({ isMigrated: true, kind: "SUCCESS" });
+    const res = orchestrator.next({ kind: "FAILURE", reason: "Reason" });
+
+    expect(res).toEqual({ done: true, value: MigrationOutcomeEnum.FAILED });
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+});
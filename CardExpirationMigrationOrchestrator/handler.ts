@@ -0,0 +1,155 @@
+import { IOrchestrationFunctionContext } from "durable-functions/lib/src/classes";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+import { Timestamp } from "../generated/definitions/Timestamp";
+import {
+  ActivityInput as MigrateCardExpirationActivityInput,
+  ActivityResult as MigrateCardExpirationActivityResult,
+  ActivityResultMigrationSuccess
+} from "../MigrateCardExpirationActivity/handler";
+import { ActivityInput as SendMessageActivityInput } from "../SendMessageActivity/handler";
+import { ActivityResult } from "../utils/activity";
+import {
+  ExpiringCardType,
+  ExpiringCardTypeEnum
+} from "../utils/card_expiration";
+import {
+  getCgnExpirationChangedMessage,
+  getEycaExpirationChangedMessage
+} from "../utils/messages";
+import {
+  getTrackExceptionAndThrowWithErrorStatus,
+  trackExceptionIfNotReplaying
+} from "../utils/orchestrators";
+import { internalRetryOptions } from "../utils/retry_policies";
+
+export const OrchestratorInput = t.interface({
+  cardType: ExpiringCardType,
+  expirationDate: Timestamp,
+  fiscalCode: FiscalCode,
+  previousExpirationDate: Timestamp
+});
+export type OrchestratorInput = t.TypeOf<typeof OrchestratorInput>;
+
+export enum MigrationOutcomeEnum {
+  MIGRATED = "MIGRATED",
+  SKIPPED = "SKIPPED",
+  FAILED = "FAILED"
+}
+
+const getExpirationChangedMessage = (
+  cardType: ExpiringCardTypeEnum
+): typeof getCgnExpirationChangedMessage =>
+  cardType === ExpiringCardTypeEnum.CGN
+    ? getCgnExpirationChangedMessage
+    : getEycaExpirationChangedMessage;
+
+/**
+ * Moves the expiration of a single card, then notifies the user.
+ * The outcome is returned instead of raising, so that a failed migration
+ * does not stop the migration of the other cards.
+ */
+export const CardExpirationMigrationOrchestratorHandler = function*(
+  context: IOrchestrationFunctionContext,
+  logPrefix: string = "CardExpirationMigrationOrchestrator"
+): Generator {
+  const trackExAndThrowWithErrorStatus = getTrackExceptionAndThrowWithErrorStatus(
+    context,
+    logPrefix
+  );
+  const trackExIfNotReplaying = trackExceptionIfNotReplaying(context);
+
+  if (!context.df.isReplaying) {
+    context.df.setCustomStatus("RUNNING");
+  }
+
+  const input = context.df.getInput();
+
+  const orchestratorInput = pipe(
+    input,
+    OrchestratorInput.decode,
+    E.getOrElseW(e =>
+      trackExAndThrowWithErrorStatus(
+        e,
+        "card.expiration.migration.exception.decode.input"
+      )
+    )
+  );
+  const { cardType, expirationDate, fiscalCode } = orchestratorInput;
+  const tagOverrides = {
+    "ai.operation.id": fiscalCode,
+    "ai.operation.parentId": fiscalCode
+  };
+
+  try {
+    const { isMigrated } = pipe(
+      yield context.df.callActivityWithRetry(
+        "MigrateCardExpirationActivity",
+        internalRetryOptions,
+        MigrateCardExpirationActivityInput.encode(orchestratorInput)
+      ),
+      MigrateCardExpirationActivityResult.decode,
+      E.getOrElseW(e =>
+        trackExAndThrowWithErrorStatus(
+          e,
+          "card.expiration.migration.exception.decode.migrateCardExpirationActivityOutput"
+        )
+      ),
+      E.fromPredicate(ActivityResultMigrationSuccess.is, () =>
+        trackExAndThrowWithErrorStatus(
+          new Error(`Cannot migrate the ${cardType} expiration`),
+          "card.expiration.migration.exception.failure.migrateCardExpirationActivityOutput"
+        )
+      ),
+      E.toUnion
+    );
+
+    if (!isMigrated) {
+      context.df.setCustomStatus("COMPLETED");
+      return MigrationOutcomeEnum.SKIPPED;
+    }
+
+    pipe(
+      yield context.df.callActivityWithRetry(
+        "SendMessageActivity",
+        internalRetryOptions,
+        SendMessageActivityInput.encode({
+          checkProfile: false,
+          content: getExpirationChangedMessage(cardType)(expirationDate),
+          fiscalCode
+        })
+      ),
+      ActivityResult.decode,
+      E.getOrElseW(e =>
+        trackExAndThrowWithErrorStatus(
+          e,
+          "card.expiration.migration.exception.decode.sendMessageActivityOutput"
+        )
+      ),
+      E.fromPredicate(
+        sendMessageResult => sendMessageResult.kind === "SUCCESS",
+        () =>
+          trackExAndThrowWithErrorStatus(
+            new Error("Cannot send the expiration changed message"),
+            "card.expiration.migration.exception.failure.sendMessageActivityOutput"
+          )
+      )
+    );
+
+    context.df.setCustomStatus("COMPLETED");
+    return MigrationOutcomeEnum.MIGRATED;
+  } catch (err) {
+    context.log.error(`${logPrefix}|ERROR|${String(err)}`);
+    trackExIfNotReplaying({
+      exception: E.toError(err),
+      properties: {
+        id: fiscalCode,
+        name: "card.expiration.migration.error"
+      },
+      tagOverrides
+    });
+    return MigrationOutcomeEnum.FAILED;
+  }
+};
@@ -0,0 +1,6 @@
+import * as df from "durable-functions";
+import { CardExpirationMigrationOrchestratorHandler } from "./handler";
+
+export const index = df.orchestrator(
+  CardExpirationMigrationOrchestratorHandler
+);
@@ -0,0 +1,111 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { context as contextMock } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import {
+  getCgnExpirationReminderMessage,
+  getEycaExpirationReminderMessage
+} from "../../utils/messages";
+import { CardExpirationReminderOrchestratorHandler } from "../handler";
+
+const anExpirationDate = new Date("2030-10-13T00:00:00.000Z");
+
+const getInputMock = jest.fn();
+const mockCallActivityWithRetry = jest.fn();
+const setCustomStatusMock = jest.fn();
+
+const contextMockWithDf = {
+  ...contextMock,
+  df: {
+    callActivityWithRetry: mockCallActivityWithRetry,
+    getInput: getInputMock,
+    isReplaying: false,
+    setCustomStatus: setCustomStatusMock
+  }
+};
+
+describe("CardExpirationReminderOrchestrator", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getInputMock.mockImplementation(() => ({
+      cardType: ExpiringCardTypeEnum.CGN,
+      daysBefore: 30,
+      expirationDate: anExpirationDate.toISOString(),
+      fiscalCode: aFiscalCode
+    }));
+    mockCallActivityWithRetry.mockImplementation((name: string) => name);
+  });
+
+  it("should send a CGN expiration reminder due on the expiration date", () => {
+    const orchestrator = CardExpirationReminderOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    expect(orchestrator.next().value).toBe("SendMessageActivity");
+    expect(mockCallActivityWithRetry).toHaveBeenCalledWith(
+      "SendMessageActivity",
+      expect.anything(),
+      {
+        checkProfile: false,
+        content: {
+          ...getCgnExpirationReminderMessage(anExpirationDate, 30),
+          due_date: anExpirationDate.toISOString()
+        },
+        fiscalCode: aFiscalCode
+      }
+    );
+    const res = orchestrator.next({ kind: "SUCCESS" });
+    expect(res.done).toBe(true);
+    expect(res.value).toBe(true);
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("COMPLETED");
+  });
+
+  it("should send an EYCA expiration reminder", () => {
+    getInputMock.mockImplementationOnce(() => ({
+      cardType: ExpiringCardTypeEnum.EYCA,
+      daysBefore: 7,
+      expirationDate: anExpirationDate.toISOString(),
+      fiscalCode: aFiscalCode
+    }));
+    const orchestrator = CardExpirationReminderOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    expect(mockCallActivityWithRetry).toHaveBeenCalledWith(
+      "SendMessageActivity",
+      expect.anything(),
+      expect.objectContaining({
+        content: {
+          ...getEycaExpirationReminderMessage(anExpirationDate, 7),
+          due_date: anExpirationDate.toISOString()
+        }
+      })
+    );
+  });
+
+  it("should fail if the reminder cannot be sent", () => {
+    const orchestrator = CardExpirationReminderOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    const res = orchestrator.next({ kind: "FAILURE", reason: "An error" });
+    expect(res.done).toBe(true);
+    expect(res.value).toBe(false);
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+
+  it("should fail with an invalid input", () => {
+    getInputMock.mockImplementationOnce(() => ({
+      cardType: "UNKNOWN",
+      fiscalCode: aFiscalCode
+    }));
+    const orchestrator = CardExpirationReminderOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    expect(() => orchestrator.next()).toThrow();
+    expect(mockCallActivityWithRetry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import { IOrchestrationFunctionContext } from "durable-functions/lib/src/classes";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+import { Timestamp } from "../generated/definitions/Timestamp";
+import { ActivityInput as SendMessageActivityInput } from "../SendMessageActivity/handler";
+import { ActivityResult } from "../utils/activity";
+import {
+  ExpiringCardType,
+  ExpiringCardTypeEnum
+} from "../utils/card_expiration";
+import { ExpirationReminderDays } from "../utils/config";
+import {
+  getCgnExpirationReminderMessage,
+  getEycaExpirationReminderMessage
+} from "../utils/messages";
+import {
+  getTrackExceptionAndThrowWithErrorStatus,
+  trackExceptionIfNotReplaying
+} from "../utils/orchestrators";
+import { internalRetryOptions } from "../utils/retry_policies";
+
+export const OrchestratorInput = t.interface({
+  cardType: ExpiringCardType,
+  daysBefore: ExpirationReminderDays,
+  expirationDate: Timestamp,
+  fiscalCode: FiscalCode
+});
+export type OrchestratorInput = t.TypeOf<typeof OrchestratorInput>;
+
+const getReminderMessage = (
+  cardType: ExpiringCardTypeEnum
+): typeof getCgnExpirationReminderMessage =>
+  cardType === ExpiringCardTypeEnum.CGN
+    ? getCgnExpirationReminderMessage
+    : getEycaExpirationReminderMessage;
+
+export const CardExpirationReminderOrchestratorHandler = function*(
+  context: IOrchestrationFunctionContext,
+  logPrefix: string = "CardExpirationReminderOrchestrator"
+): Generator {
+  const trackExAndThrowWithErrorStatus = getTrackExceptionAndThrowWithErrorStatus(
+    context,
+    logPrefix
+  );
+  const trackExIfNotReplaying = trackExceptionIfNotReplaying(context);
+
+  if (!context.df.isReplaying) {
+    context.df.setCustomStatus("RUNNING");
+  }
+
+  const input = context.df.getInput();
+
+  const { cardType, daysBefore, expirationDate, fiscalCode } = pipe(
+    input,
+    OrchestratorInput.decode,
+    E.getOrElseW(e =>
+      trackExAndThrowWithErrorStatus(
+        e,
+        "card.expiration.reminder.exception.decode.input"
+      )
+    )
+  );
+  const tagOverrides = {
+    "ai.operation.id": fiscalCode,
+    "ai.operation.parentId": fiscalCode
+  };
+
+  try {
+    pipe(
+      yield context.df.callActivityWithRetry(
+        "SendMessageActivity",
+        internalRetryOptions,
+        SendMessageActivityInput.encode({
+          checkProfile: false,
+          content: getReminderMessage(cardType)(expirationDate, daysBefore),
+          fiscalCode
+        })
+      ),
+      ActivityResult.decode,
+      E.getOrElseW(e =>
+        trackExAndThrowWithErrorStatus(
+          e,
+          "card.expiration.reminder.exception.decode.sendMessageActivityOutput"
+        )
+      ),
+      E.fromPredicate(
+        sendMessageResult => sendMessageResult.kind === "SUCCESS",
+        () =>
+          trackExAndThrowWithErrorStatus(
+            new Error("Cannot send the expiration reminder"),
+            "card.expiration.reminder.exception.failure.sendMessageActivityOutput"
+          )
+      )
+    );
+
+    context.df.setCustomStatus("COMPLETED");
+    return true;
+  } catch (err) {
+    context.log.error(`${logPrefix}|ERROR|${String(err)}`);
+    trackExIfNotReplaying({
+      exception: E.toError(err),
+      properties: {
+        id: fiscalCode,
+        name: "card.expiration.reminder.error"
+      },
+      tagOverrides
+    });
+    return false;
+  }
+};
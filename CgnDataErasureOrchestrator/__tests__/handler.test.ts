@@ -0,0 +1,137 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { context as contextMock } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { ActivationStatusEnum } from "../../generated/services-api/ActivationStatus";
+import { isValidCgnDataErasureReceipt } from "../../utils/erasure_receipt";
+import { CgnDataErasureOrchestratorHandler } from "../handler";
+
+const aReceiptSigningKey = "A_RECEIPT_SIGNING_KEY";
+const anInstanceId = `${aFiscalCode}-ERASURE`;
+const aRequestDate = new Date("2021-01-01T10:00:00.000Z");
+
+const anErasedItems = {
+  cgn_expirations: 1 as NonNegativeInteger,
+  eyca_expirations: 1 as NonNegativeInteger,
+  orchestrations: 2 as NonNegativeInteger,
+  user_cgns: 3 as NonNegativeInteger,
+  user_eyca_cards: 2 as NonNegativeInteger
+};
+
+const getInputMock = jest.fn();
+const mockCallActivityWithRetry = jest.fn();
+const setCustomStatusMock = jest.fn();
+
+const contextMockWithDf = {
+  ...contextMock,
+  df: {
+    callActivityWithRetry: mockCallActivityWithRetry,
+    currentUtcDateTime: aRequestDate,
+    getInput: getInputMock,
+    instanceId: anInstanceId,
+    isReplaying: false,
+    setCustomStatus: setCustomStatusMock
+  }
+};
+
+describe("CgnDataErasureOrchestrator", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getInputMock.mockImplementation(() => ({ fiscalCode: aFiscalCode }));
+    mockCallActivityWithRetry.mockImplementation((name: string) => name);
+  });
+
+  it("should erase the user's data and return a signed receipt", () => {
+    const orchestrator = CgnDataErasureOrchestratorHandler(
+      contextMockWithDf as any,
+      aReceiptSigningKey
+    );
+
+    expect(orchestrator.next().value).toBe(
+      "UpsertSpecialServiceActivationActivity"
+    );
+    expect(mockCallActivityWithRetry).toHaveBeenCalledWith(
+      "UpsertSpecialServiceActivationActivity",
+      expect.anything(),
+      {
+        activationStatus: ActivationStatusEnum.INACTIVE,
+        fiscalCode: aFiscalCode
+      }
+    );
+    expect(orchestrator.next({ kind: "SUCCESS" }).value).toBe(
+      "EraseCgnDataActivity"
+    );
+    expect(mockCallActivityWithRetry).toHaveBeenLastCalledWith(
+      "EraseCgnDataActivity",
+      expect.anything(),
+      {
+        fiscalCode: aFiscalCode
+      }
+    );
+    const res = orchestrator.next({
+      erasedItems: anErasedItems,
+      kind: "SUCCESS"
+    });
+
+    expect(res.done).toBe(true);
+    expect(res.value).toEqual({
+      completed_at: aRequestDate.toISOString(),
+      erased_items: anErasedItems,
+      fiscal_code: aFiscalCode,
+      instance_id: anInstanceId,
+      requested_at: aRequestDate.toISOString(),
+      signature: expect.any(String)
+    });
+    expect(
+      isValidCgnDataErasureReceipt(aReceiptSigningKey, {
+        ...(res.value as any),
+        completed_at: aRequestDate,
+        requested_at: aRequestDate
+      })
+    ).toBe(true);
+    expect(setCustomStatusMock).toHaveBeenNthCalledWith(1, "RUNNING");
+    expect(setCustomStatusMock).toHaveBeenNthCalledWith(2, "COMPLETED");
+  });
+
+  it("should not erase the user's data if the special service cannot be deactivated", () => {
+    const orchestrator = CgnDataErasureOrchestratorHandler(
+      contextMockWithDf as any,
+      aReceiptSigningKey
+    );
+
+    orchestrator.next();
+    const res = orchestrator.next({ kind: "FAILURE", reason: "Reason" });
+
+    expect(res).toEqual({ done: true, value: false });
+    expect(mockCallActivityWithRetry).toHaveBeenCalledTimes(1);
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+
+  it("should fail if the user's data cannot be erased", () => {
+    const orchestrator = CgnDataErasureOrchestratorHandler(
+      contextMockWithDf as any,
+      aReceiptSigningKey
+    );
+
+    orchestrator.next();
+    orchestrator.next({ kind: "SUCCESS" });
+    const res = orchestrator.next({ kind: "FAILURE", reason: "Reason" });
+
+    expect(res).toEqual({ done: true, value: false });
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+
+  it("should fail if the erasure output cannot be decoded", () => {
+    const orchestrator = CgnDataErasureOrchestratorHandler(
+      contextMockWithDf as any,
+      aReceiptSigningKey
+    );
+
+    orchestrator.next();
+    orchestrator.next({ kind: "SUCCESS" });
+    const res = orchestrator.next({ kind: "SUCCESS" });
+
+    expect(res).toEqual({ done: true, value: false });
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+});
@@ -0,0 +1,131 @@
+import { IOrchestrationFunctionContext } from "durable-functions/lib/src/classes";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+import {
+  ActivityInput as EraseCgnDataActivityInput,
+  ActivityResult as EraseCgnDataActivityResult,
+  ActivityResultErasureSuccess
+} from "../EraseCgnDataActivity/handler";
+import { CgnDataErasureReceipt } from "../generated/definitions/CgnDataErasureReceipt";
+import { ActivationStatusEnum } from "../generated/services-api/ActivationStatus";
+import { ActivityInput as UpsertSpecialServiceActivationActivityInput } from "../UpsertSpecialServiceActivationActivity/handler";
+import { ActivityResult } from "../utils/activity";
+import { signCgnDataErasureReceipt } from "../utils/erasure_receipt";
+import {
+  getTrackExceptionAndThrowWithErrorStatus,
+  trackExceptionIfNotReplaying
+} from "../utils/orchestrators";
+import { internalRetryOptions } from "../utils/retry_policies";
+
+export const OrchestratorInput = t.interface({
+  fiscalCode: FiscalCode
+});
+export type OrchestratorInput = t.TypeOf<typeof OrchestratorInput>;
+
+export const CgnDataErasureOrchestratorHandler = function*(
+  context: IOrchestrationFunctionContext,
+  receiptSigningKey: string,
+  logPrefix: string = "CgnDataErasureOrchestrator"
+): Generator {
+  const trackExAndThrowWithErrorStatus = getTrackExceptionAndThrowWithErrorStatus(
+    context,
+    logPrefix
+  );
+  const trackExIfNotReplaying = trackExceptionIfNotReplaying(context);
+
+  if (!context.df.isReplaying) {
+    context.df.setCustomStatus("RUNNING");
+  }
+
+  // the orchestrator time is replayed, so it is the time of the first execution
+  const requestedAt = context.df.currentUtcDateTime;
+  const input = context.df.getInput();
+
+  const { fiscalCode } = pipe(
+    input,
+    OrchestratorInput.decode,
+    E.getOrElseW(e =>
+      trackExAndThrowWithErrorStatus(e, "cgn.erasure.exception.decode.input")
+    )
+  );
+  const tagOverrides = {
+    "ai.operation.id": fiscalCode,
+    "ai.operation.parentId": fiscalCode
+  };
+
+  try {
+    pipe(
+      yield context.df.callActivityWithRetry(
+        "UpsertSpecialServiceActivationActivity",
+        internalRetryOptions,
+        UpsertSpecialServiceActivationActivityInput.encode({
+          activationStatus: ActivationStatusEnum.INACTIVE,
+          fiscalCode
+        })
+      ),
+      ActivityResult.decode,
+      E.getOrElseW(e =>
+        trackExAndThrowWithErrorStatus(
+          e,
+          "cgn.erasure.exception.decode.upsertSpecialServiceActivityOutput"
+        )
+      ),
+      E.fromPredicate(
+        upsertSpecialServiceResult =>
+          upsertSpecialServiceResult.kind === "SUCCESS",
+        () =>
+          trackExAndThrowWithErrorStatus(
+            new Error("Cannot upsert CGN Special service activation"),
+            "cgn.erasure.exception.failure.upsertSpecialServiceActivityOutput"
+          )
+      )
+    );
+
+    const { erasedItems } = pipe(
+      yield context.df.callActivityWithRetry(
+        "EraseCgnDataActivity",
+        internalRetryOptions,
+        EraseCgnDataActivityInput.encode({ fiscalCode })
+      ),
+      EraseCgnDataActivityResult.decode,
+      E.getOrElseW(e =>
+        trackExAndThrowWithErrorStatus(
+          e,
+          "cgn.erasure.exception.decode.eraseCgnDataActivityOutput"
+        )
+      ),
+      E.fromPredicate(ActivityResultErasureSuccess.is, () =>
+        trackExAndThrowWithErrorStatus(
+          new Error("Cannot erase CGN data"),
+          "cgn.erasure.exception.failure.eraseCgnDataActivityOutput"
+        )
+      ),
+      E.toUnion
+    );
+
+    context.df.setCustomStatus("COMPLETED");
+
+    return CgnDataErasureReceipt.encode(
+      signCgnDataErasureReceipt(receiptSigningKey, {
+        completed_at: context.df.currentUtcDateTime,
+        erased_items: erasedItems,
+        fiscal_code: fiscalCode,
+        instance_id: context.df.instanceId,
+        requested_at: requestedAt
+      })
+    );
+  } catch (err) {
+    context.log.error(`${logPrefix}|ERROR|${String(err)}`);
+    trackExIfNotReplaying({
+      exception: E.toError(err),
+      properties: {
+        id: fiscalCode,
+        name: "cgn.erasure.error"
+      },
+      tagOverrides
+    });
+    return false;
+  }
+};
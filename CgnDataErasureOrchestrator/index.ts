@@ -0,0 +1,9 @@
+import * as df from "durable-functions";
+import { getConfigOrThrow } from "../utils/config";
+import { CgnDataErasureOrchestratorHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+export const index = df.orchestrator(ctx =>
+  CgnDataErasureOrchestratorHandler(ctx, config.ERASURE_RECEIPT_SIGNING_KEY)
+);
@@ -1,9 +1,9 @@
 import { addYears } from "date-fns";
 import * as E from "fp-ts/lib/Either";
 import { context, mockStartNew } from "../../__mocks__/durable-functions";
-import { aFiscalCode } from "../../__mocks__/mock";
+import { aDefaultEligibilityPolicy, aFiscalCode } from "../../__mocks__/mock";
 import * as cgn_checks from "../../utils/cgn_checks";
-import { DEFAULT_EYCA_UPPER_BOUND_AGE } from "../../utils/config";
+import { systemClock } from "../../utils/clock";
 import { ContinueEycaActivationHandler } from "../handler";
 
 const extractEycaExpirationDateMock = jest
@@ -19,7 +19,8 @@ describe("ContinueEycaActivation", () => {
     const result = ContinueEycaActivationHandler(
       context,
       {},
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     return expect(result).resolves.toMatchObject({ kind: "PERMANENT" });
   });
@@ -33,7 +34,8 @@ describe("ContinueEycaActivation", () => {
       {
         fiscalCode: aFiscalCode
       },
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     return expect(result).resolves.toMatchObject({ kind: "PERMANENT" });
   });
@@ -48,7 +50,8 @@ describe("ContinueEycaActivation", () => {
         {
           fiscalCode: aFiscalCode
         },
-        DEFAULT_EYCA_UPPER_BOUND_AGE
+        aDefaultEligibilityPolicy,
+        systemClock
       );
       fail();
     } catch (e) {
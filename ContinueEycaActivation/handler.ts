@@ -1,5 +1,4 @@
 ﻿import { Context } from "@azure/functions";
-import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import { readableReport } from "@pagopa/ts-commons/lib/reporters";
 import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import * as df from "durable-functions";
@@ -11,6 +10,8 @@ import { StatusEnum } from "../generated/definitions/CardPending";
 import { OrchestratorInput } from "../StartEycaActivationOrchestrator/index";
 import { trackException } from "../utils/appinsights";
 import { extractEycaExpirationDate } from "../utils/cgn_checks";
+import { Clock } from "../utils/clock";
+import { EligibilityPolicy } from "../utils/eligibility_policy";
 import { Failure, PermanentFailure, TransientFailure } from "../utils/errors";
 import { makeEycaOrchestratorId } from "../utils/orchestrators";
 
@@ -42,7 +43,8 @@ const transientOrchestratorError = (err: unknown) =>
 export const ContinueEycaActivationHandler = (
   context: Context,
   message: unknown,
-  eycaUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): Promise<Failure | string> =>
   pipe(
     message,
@@ -51,7 +53,7 @@ export const ContinueEycaActivationHandler = (
     TE.mapLeft(permanentDecodeFailure),
     TE.chainW(({ fiscalCode }) =>
       pipe(
-        extractEycaExpirationDate(fiscalCode, eycaUpperBoundAge),
+        extractEycaExpirationDate(fiscalCode, eligibilityPolicy, clock),
         TE.fromEither,
         TE.mapLeft(e =>
           Failure.encode({
@@ -66,7 +68,7 @@ export const ContinueEycaActivationHandler = (
                 "StartEycaActivationOrchestrator",
                 makeEycaOrchestratorId(fiscalCode, StatusEnum.PENDING),
                 OrchestratorInput.encode({
-                  activationDate: new Date(),
+                  activationDate: clock(),
                   expirationDate,
                   fiscalCode
                 })
@@ -1,13 +1,18 @@
 ﻿import { AzureFunction, Context } from "@azure/functions";
+import { getClock } from "../utils/clock";
 import { getConfigOrThrow } from "../utils/config";
+import { getEligibilityPolicy } from "../utils/eligibility_policy";
 import { Failure } from "../utils/errors";
 import { ContinueEycaActivationHandler } from "./handler";
 const config = getConfigOrThrow();
+const clock = getClock(config);
+
+const eligibilityPolicy = getEligibilityPolicy(config);
 
 export const index: AzureFunction = (
   context: Context,
   message: unknown
 ): Promise<Failure | string> =>
-  ContinueEycaActivationHandler(context, message, config.EYCA_UPPER_BOUND_AGE);
+  ContinueEycaActivationHandler(context, message, eligibilityPolicy, clock);
 
 export default index;
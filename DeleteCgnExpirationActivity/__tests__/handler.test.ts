@@ -0,0 +1,81 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import { toError } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { now, testFail } from "../../__mocks__/mock";
+import * as tableUtils from "../../utils/table_storage";
+import {
+  ActivityInput,
+  getDeleteCgnExpirationActivityHandler
+} from "../handler";
+
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const tableServiceMock = jest.fn();
+const expiredCgnTableName = "aTable" as NonEmptyString;
+
+const deleteCgnExpirationMock = jest.fn();
+jest
+  .spyOn(tableUtils, "deleteCardExpiration")
+  .mockImplementation(deleteCgnExpirationMock);
+
+const anActivityInput: ActivityInput = {
+  expirationDate: date_fns.addYears(now, 5),
+  fiscalCode: aFiscalCode
+};
+
+describe("DeleteCgnExpirationActivity", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  it("should throw if an error occurs during CgnExpiration delete", async () => {
+    const deleteCgnExpirationActivityHandler = getDeleteCgnExpirationActivityHandler(
+      tableServiceMock as any,
+      expiredCgnTableName
+    );
+
+    deleteCgnExpirationMock.mockImplementationOnce(_ =>
+      jest.fn(() => TE.left(new Error("Entity Error")))
+    );
+    await pipe(
+      TE.tryCatch(
+        () => deleteCgnExpirationActivityHandler(context, anActivityInput),
+        toError
+      ),
+      TE.bimap(e => {
+        expect(e).toBeDefined();
+        expect(e.message).toContain("TRANSIENT FAILURE");
+      }, testFail)
+    )();
+  });
+
+  it("should return a permanent failure if any errors occurs on input decode", async () => {
+    const deleteCgnExpirationActivityHandler = getDeleteCgnExpirationActivityHandler(
+      tableServiceMock as any,
+      expiredCgnTableName
+    );
+    const response = await deleteCgnExpirationActivityHandler(context, {});
+    expect(response.kind).toBe("FAILURE");
+  });
+
+  it("should return success if a CgnExpiration's delete succeded", async () => {
+    const deleteCgnExpirationActivityHandler = getDeleteCgnExpirationActivityHandler(
+      tableServiceMock as any,
+      expiredCgnTableName
+    );
+
+    const deleteTaskMock = jest.fn(() => TE.of(void 0));
+    deleteCgnExpirationMock.mockImplementationOnce(_ => deleteTaskMock);
+    const response = await deleteCgnExpirationActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(response.kind).toBe("SUCCESS");
+    expect(deleteTaskMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      anActivityInput.expirationDate
+    );
+  });
+});
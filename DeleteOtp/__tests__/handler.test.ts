@@ -0,0 +1,42 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as TE from "fp-ts/lib/TaskEither";
+import { aFiscalCode } from "../../__mocks__/mock";
+import * as redis_util from "../../GenerateOtp/redis";
+import { DeleteOtpHandler } from "../handler";
+
+const anOtpSecretKey = "AN_OTP_SECRET_KEY" as NonEmptyString;
+
+const deleteOtpByFiscalCodeMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(true));
+jest
+  .spyOn(redis_util, "deleteOtpByFiscalCode")
+  .mockImplementation(deleteOtpByFiscalCodeMock);
+
+describe("DeleteOtpHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return an internal error if Redis OTP delete fails", async () => {
+    deleteOtpByFiscalCodeMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot delete OTP"))
+    );
+    const handler = DeleteOtpHandler({} as any, anOtpSecretKey);
+    const response = await handler({} as any, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return no content if the OTP has been deleted", async () => {
+    const handler = DeleteOtpHandler({} as any, anOtpSecretKey);
+    const response = await handler({} as any, aFiscalCode);
+    expect(deleteOtpByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      anOtpSecretKey,
+      aFiscalCode
+    );
+    expect(response.kind).toBe("IResponseSuccessNoContent");
+  });
+});
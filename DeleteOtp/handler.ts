@@ -0,0 +1,56 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponse,
+  IResponseErrorInternal,
+  ResponseErrorInternal,
+  ResponseSuccessNoContent
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { RedisClient } from "redis";
+import { deleteOtpByFiscalCode } from "../GenerateOtp/redis";
+
+type ResponseTypes =
+  | IResponse<"IResponseSuccessNoContent">
+  | IResponseErrorInternal;
+
+type IDeleteOtpHandler = (
+  context: Context,
+  fiscalCode: FiscalCode
+) => Promise<ResponseTypes>;
+
+export const DeleteOtpHandler = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString
+): IDeleteOtpHandler => async (_, fiscalCode): Promise<ResponseTypes> =>
+  pipe(
+    deleteOtpByFiscalCode(redisClient, otpSecretKey, fiscalCode),
+    TE.bimap(
+      e => ResponseErrorInternal(`Cannot delete OTP| ${e.message}`),
+      () => ResponseSuccessNoContent()
+    ),
+    TE.toUnion
+  )();
+
+export const DeleteOtp = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString
+): express.RequestHandler => {
+  const handler = DeleteOtpHandler(redisClient, otpSecretKey);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -13,7 +13,7 @@ import { testFail } from "../../__mocks__/mock";
 
 const enqueueEycaActivationMock = jest.fn();
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const upsertMock = jest.fn().mockImplementation(() => TE.of({}));
 const userCgnModelMock = {
   upsert: upsertMock
@@ -0,0 +1,244 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  context,
+  mockGetStatus,
+  mockPurgeInstanceHistory,
+  mockStatusCompleted,
+  mockStatusRunning,
+  mockTerminate
+} from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import * as rateLimiter from "../../GenerateOtp/rate_limiter";
+import * as redis from "../../GenerateOtp/redis";
+import * as cardExpiration from "../../utils/card_expiration";
+import { ExpirationReminderDays } from "../../utils/config";
+import * as expirationWatermark from "../../utils/expiration_watermark";
+import * as models from "../../utils/models";
+import {
+  makeExpirationReminderOrchestratorId,
+  makeUpdateCgnOrchestratorId,
+  makeUserOrchestratorIds
+} from "../../utils/orchestrators";
+import * as ledger from "../../ValidateOtp/ledger";
+import { getEraseCgnDataActivityHandler } from "../handler";
+
+const aCgnExpirationTableName = "cgnexpiration" as NonEmptyString;
+const anEycaExpirationTableName = "eycaexpiration" as NonEmptyString;
+const aWatermarkTableName = "watermark" as NonEmptyString;
+const anOtpRedemptionTableName = "otpredemption" as NonEmptyString;
+const reminderDays = ([30, 7] as ReadonlyArray<unknown>) as ReadonlyArray<
+  ExpirationReminderDays
+>;
+
+const deleteAllVersionsByFiscalCodeMock = jest.fn();
+jest
+  .spyOn(models, "deleteAllVersionsByFiscalCode")
+  .mockImplementation(deleteAllVersionsByFiscalCodeMock);
+
+const deleteCardExpirationsByFiscalCodeMock = jest.fn();
+jest
+  .spyOn(cardExpiration, "deleteCardExpirationsByFiscalCode")
+  .mockImplementation(deleteCardExpirationsByFiscalCodeMock);
+
+const deleteOtpByFiscalCodeMock = jest.fn();
+jest
+  .spyOn(redis, "deleteOtpByFiscalCode")
+  .mockImplementation(deleteOtpByFiscalCodeMock);
+
+const deleteOtpGenerationsMock = jest.fn();
+jest
+  .spyOn(rateLimiter, "deleteOtpGenerations")
+  .mockImplementation(deleteOtpGenerationsMock);
+
+const anonymiseOtpRedemptionsByFiscalCodeMock = jest.fn();
+jest
+  .spyOn(ledger, "anonymiseOtpRedemptionsByFiscalCode")
+  .mockImplementation(anonymiseOtpRedemptionsByFiscalCodeMock);
+
+const deleteFailedExpirationsByFiscalCodeMock = jest.fn();
+jest
+  .spyOn(expirationWatermark, "deleteFailedExpirationsByFiscalCode")
+  .mockImplementation(deleteFailedExpirationsByFiscalCodeMock);
+
+const userCgnModelMock = { kind: "UserCgnModel" };
+const userEycaCardModelMock = { kind: "UserEycaCardModel" };
+
+const eraseCgnDataActivityHandler = getEraseCgnDataActivityHandler(
+  userCgnModelMock as any,
+  userEycaCardModelMock as any,
+  {} as any,
+  aCgnExpirationTableName,
+  anEycaExpirationTableName,
+  aWatermarkTableName,
+  anOtpRedemptionTableName,
+  {} as any,
+  "AN_OTP_SECRET_KEY" as NonEmptyString,
+  reminderDays
+);
+
+describe("EraseCgnDataActivity", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetStatus.mockImplementation(async () => mockStatusCompleted);
+    mockPurgeInstanceHistory.mockImplementation(async () => ({
+      instancesDeleted: 1
+    }));
+    deleteOtpByFiscalCodeMock.mockImplementation(() => TE.of(true));
+    deleteOtpGenerationsMock.mockImplementation(() => TE.of(true));
+    anonymiseOtpRedemptionsByFiscalCodeMock.mockImplementation(() => TE.of(2));
+    deleteFailedExpirationsByFiscalCodeMock.mockImplementation(() =>
+      TE.of(void 0)
+    );
+    deleteCardExpirationsByFiscalCodeMock.mockImplementation(
+      (_, tableName: string) =>
+        TE.of(tableName === aCgnExpirationTableName ? 1 : 0)
+    );
+    deleteAllVersionsByFiscalCodeMock.mockImplementation(model =>
+      TE.of(model === userCgnModelMock ? 3 : 2)
+    );
+  });
+
+  it("should return a permanent failure if the input cannot be decoded", async () => {
+    const response = await eraseCgnDataActivityHandler(context, {});
+    expect(response.kind).toBe("FAILURE");
+    expect(mockPurgeInstanceHistory).not.toHaveBeenCalled();
+  });
+
+  it("should erase every piece of data stored about the user", async () => {
+    const response = await eraseCgnDataActivityHandler(context, {
+      fiscalCode: aFiscalCode
+    });
+    const orchestratorIds = makeUserOrchestratorIds(aFiscalCode, reminderDays);
+    expect(response).toEqual({
+      erasedItems: {
+        cgn_expirations: 1,
+        eyca_expirations: 0,
+        orchestrations: orchestratorIds.length,
+        user_cgns: 3,
+        user_eyca_cards: 2
+      },
+      kind: "SUCCESS"
+    });
+    orchestratorIds.forEach(orchestratorId =>
+      expect(mockPurgeInstanceHistory).toHaveBeenCalledWith(orchestratorId)
+    );
+    expect(mockPurgeInstanceHistory).toHaveBeenCalledWith(
+      makeExpirationReminderOrchestratorId(aFiscalCode, "EYCA", 7)
+    );
+    expect(deleteOtpByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      "AN_OTP_SECRET_KEY",
+      aFiscalCode
+    );
+    expect(deleteOtpGenerationsMock).toHaveBeenCalledWith({}, aFiscalCode);
+    expect(anonymiseOtpRedemptionsByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      anOtpRedemptionTableName,
+      aFiscalCode
+    );
+    expect(deleteFailedExpirationsByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      aWatermarkTableName,
+      "CGN",
+      aFiscalCode
+    );
+    expect(deleteFailedExpirationsByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      aWatermarkTableName,
+      "EYCA",
+      aFiscalCode
+    );
+    expect(deleteCardExpirationsByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      aCgnExpirationTableName,
+      aFiscalCode
+    );
+    expect(deleteCardExpirationsByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      anEycaExpirationTableName,
+      aFiscalCode
+    );
+    expect(deleteAllVersionsByFiscalCodeMock).toHaveBeenNthCalledWith(
+      1,
+      userEycaCardModelMock,
+      aFiscalCode
+    );
+    expect(deleteAllVersionsByFiscalCodeMock).toHaveBeenNthCalledWith(
+      2,
+      userCgnModelMock,
+      aFiscalCode
+    );
+  });
+
+  it("should succeed with no erased items if nothing is left to erase", async () => {
+    mockGetStatus.mockImplementation(async () => undefined);
+    mockPurgeInstanceHistory.mockImplementation(async () => ({
+      instancesDeleted: 0
+    }));
+    deleteCardExpirationsByFiscalCodeMock.mockImplementation(() => TE.of(0));
+    deleteAllVersionsByFiscalCodeMock.mockImplementation(() => TE.of(0));
+    const response = await eraseCgnDataActivityHandler(context, {
+      fiscalCode: aFiscalCode
+    });
+    expect(response).toEqual({
+      erasedItems: {
+        cgn_expirations: 0,
+        eyca_expirations: 0,
+        orchestrations: 0,
+        user_cgns: 0,
+        user_eyca_cards: 0
+      },
+      kind: "SUCCESS"
+    });
+  });
+
+  it("should terminate a running orchestrator and throw to purge it on retry", async () => {
+    const aRunningOrchestratorId = makeUpdateCgnOrchestratorId(
+      aFiscalCode,
+      "SUSPENDED"
+    );
+    mockGetStatus.mockImplementation(async (orchestratorId: string) =>
+      orchestratorId === aRunningOrchestratorId
+        ? mockStatusRunning
+        : mockStatusCompleted
+    );
+    await expect(
+      eraseCgnDataActivityHandler(context, { fiscalCode: aFiscalCode })
+    ).rejects.toBeDefined();
+    expect(mockTerminate).toHaveBeenCalledWith(
+      aRunningOrchestratorId,
+      expect.any(String)
+    );
+    expect(mockPurgeInstanceHistory).not.toHaveBeenCalledWith(
+      aRunningOrchestratorId
+    );
+    expect(deleteAllVersionsByFiscalCodeMock).not.toHaveBeenCalled();
+  });
+
+  it.each`
+    title                                         | failingMock
+    ${"the OTP generations cannot be deleted"}    | ${deleteOtpGenerationsMock}
+    ${"the OTP redemptions cannot be anonymised"} | ${anonymiseOtpRedemptionsByFiscalCodeMock}
+    ${"the failed expirations cannot be deleted"} | ${deleteFailedExpirationsByFiscalCodeMock}
+  `(
+    "should throw to trigger a retry, keeping the user's cards, if $title",
+    async ({ failingMock }) => {
+      failingMock.mockImplementation(() => TE.left(new Error("Cannot erase")));
+      await expect(
+        eraseCgnDataActivityHandler(context, { fiscalCode: aFiscalCode })
+      ).rejects.toBeDefined();
+      expect(deleteAllVersionsByFiscalCodeMock).not.toHaveBeenCalled();
+    }
+  );
+
+  it("should throw to trigger a retry if the user's cards cannot be deleted", async () => {
+    deleteAllVersionsByFiscalCodeMock.mockImplementation(() =>
+      TE.left(new Error("Cannot delete"))
+    );
+    await expect(
+      eraseCgnDataActivityHandler(context, { fiscalCode: aFiscalCode })
+    ).rejects.toBeDefined();
+  });
+});
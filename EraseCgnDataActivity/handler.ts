@@ -0,0 +1,239 @@
+/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableService } from "azure-storage";
+import * as df from "durable-functions";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
+import { toError } from "fp-ts/lib/Either";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { RedisClient } from "redis";
+import { CgnDataErasedItems } from "../generated/definitions/CgnDataErasedItems";
+import { ErasedItemsCount } from "../generated/definitions/ErasedItemsCount";
+import { deleteOtpGenerations } from "../GenerateOtp/rate_limiter";
+import { deleteOtpByFiscalCode } from "../GenerateOtp/redis";
+import { UserCgnModel } from "../models/user_cgn";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import {
+  ActivityResultFailure,
+  ActivityResultSuccess
+} from "../utils/activity";
+import {
+  deleteCardExpirationsByFiscalCode,
+  ExpiringCardTypeEnum
+} from "../utils/card_expiration";
+import { ExpirationReminderDays } from "../utils/config";
+import { errorsToError } from "../utils/conversions";
+import {
+  Failure,
+  toPermanentFailure,
+  toTransientFailure,
+  trackFailure
+} from "../utils/errors";
+import { deleteFailedExpirationsByFiscalCode } from "../utils/expiration_watermark";
+import { deleteAllVersionsByFiscalCode } from "../utils/models";
+import {
+  isOrchestratorInProgress,
+  makeUserOrchestratorIds,
+  terminateOrchestratorById
+} from "../utils/orchestrators";
+import { anonymiseOtpRedemptionsByFiscalCode } from "../ValidateOtp/ledger";
+
+export const ActivityInput = t.interface({
+  fiscalCode: FiscalCode
+});
+
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+export const ActivityResultErasureSuccess = t.intersection([
+  ActivityResultSuccess,
+  t.interface({
+    erasedItems: CgnDataErasedItems
+  })
+]);
+
+export type ActivityResultErasureSuccess = t.TypeOf<
+  typeof ActivityResultErasureSuccess
+>;
+
+export const ActivityResult = t.union([
+  ActivityResultErasureSuccess,
+  ActivityResultFailure
+]);
+
+export type ActivityResult = t.TypeOf<typeof ActivityResult>;
+
+const toErasedItemsCount = (count: number): ErasedItemsCount =>
+  count as ErasedItemsCount;
+
+/**
+ * Purges the history of an orchestrator, if any.
+ * A running orchestrator is terminated instead, and the activity fails
+ * so that its history is purged on retry, once it is terminated for real.
+ */
+const purgeOrchestrator = (
+  client: DurableOrchestrationClient,
+  orchestratorId: string
+): TE.TaskEither<Failure, number> =>
+  pipe(
+    isOrchestratorInProgress(client, orchestratorId),
+    TE.chain(isRunning =>
+      isRunning
+        ? pipe(
+            terminateOrchestratorById(
+              orchestratorId,
+              client,
+              "The user's data have been erased" as NonEmptyString
+            ),
+            TE.chain(() =>
+              TE.left(new Error(`${orchestratorId} was still running`))
+            )
+          )
+        : pipe(
+            TE.tryCatch(
+              () => client.purgeInstanceHistory(orchestratorId),
+              toError
+            ),
+            TE.map(purgeResult => purgeResult.instancesDeleted)
+          )
+    ),
+    TE.mapLeft(err =>
+      toTransientFailure(err, "Cannot purge orchestrator history")
+    )
+  );
+
+export const getEraseCgnDataActivityHandler = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  cardExpirationWatermarkTableName: NonEmptyString,
+  otpRedemptionTableName: NonEmptyString,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  reminderDays: ReadonlyArray<ExpirationReminderDays>,
+  logPrefix: string = "EraseCgnDataActivity"
+) => (context: Context, input: unknown): Promise<ActivityResult> => {
+  const fail = trackFailure(context, logPrefix);
+  const client = df.getClient(context);
+  return pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(
+      flow(errorsToError, e =>
+        toPermanentFailure(e, "Cannot decode Activity Input")
+      )
+    ),
+    // every step succeeds when there is nothing left to erase,
+    // so that the whole activity can be retried from the beginning
+    TE.chain(({ fiscalCode }) =>
+      pipe(
+        makeUserOrchestratorIds(fiscalCode, reminderDays),
+        RA.traverse(TE.ApplicativeSeq)(orchestratorId =>
+          purgeOrchestrator(client, orchestratorId)
+        ),
+        TE.map(purgedInstances =>
+          purgedInstances.reduce((acc, count) => acc + count, 0)
+        ),
+        TE.chainFirst(() =>
+          pipe(
+            deleteOtpByFiscalCode(redisClient, otpSecretKey, fiscalCode),
+            TE.chain(() => deleteOtpGenerations(redisClient, fiscalCode)),
+            TE.mapLeft(err => toTransientFailure(err, "Cannot delete OTPs"))
+          )
+        ),
+        TE.chainFirst(() =>
+          pipe(
+            anonymiseOtpRedemptionsByFiscalCode(
+              tableService,
+              otpRedemptionTableName,
+              fiscalCode
+            ),
+            TE.mapLeft(err =>
+              toTransientFailure(err, "Cannot anonymise OTP redemptions")
+            )
+          )
+        ),
+        TE.chainFirst(() =>
+          pipe(
+            [ExpiringCardTypeEnum.CGN, ExpiringCardTypeEnum.EYCA],
+            RA.traverse(TE.ApplicativeSeq)(cardType =>
+              deleteFailedExpirationsByFiscalCode(
+                tableService,
+                cardExpirationWatermarkTableName,
+                cardType,
+                fiscalCode
+              )
+            ),
+            TE.mapLeft(err =>
+              toTransientFailure(err, "Cannot delete failed card expirations")
+            )
+          )
+        ),
+        TE.chain(orchestrations =>
+          pipe(
+            deleteCardExpirationsByFiscalCode(
+              tableService,
+              cgnExpirationTableName,
+              fiscalCode
+            ),
+            TE.chain(cgnExpirations =>
+              pipe(
+                deleteCardExpirationsByFiscalCode(
+                  tableService,
+                  eycaExpirationTableName,
+                  fiscalCode
+                ),
+                TE.map(eycaExpirations => ({
+                  cgnExpirations,
+                  eycaExpirations
+                }))
+              )
+            ),
+            TE.mapLeft(err =>
+              toTransientFailure(err, "Cannot delete card expirations")
+            ),
+            TE.map(expirations => ({ ...expirations, orchestrations }))
+          )
+        ),
+        TE.chain(erasedItems =>
+          pipe(
+            // the CGN is deleted last, so that the erasure is still
+            // linked to an existing user until it is completed
+            deleteAllVersionsByFiscalCode(userEycaCardModel, fiscalCode),
+            TE.chain(userEycaCards =>
+              pipe(
+                deleteAllVersionsByFiscalCode(userCgnModel, fiscalCode),
+                TE.map(userCgns => ({
+                  ...erasedItems,
+                  userCgns,
+                  userEycaCards
+                }))
+              )
+            ),
+            TE.mapLeft(err =>
+              toTransientFailure(err, "Cannot delete user's cards")
+            )
+          )
+        )
+      )
+    ),
+    TE.bimap(fail, erasedItems =>
+      ActivityResultErasureSuccess.encode({
+        erasedItems: {
+          cgn_expirations: toErasedItemsCount(erasedItems.cgnExpirations),
+          eyca_expirations: toErasedItemsCount(erasedItems.eycaExpirations),
+          orchestrations: toErasedItemsCount(erasedItems.orchestrations),
+          user_cgns: toErasedItemsCount(erasedItems.userCgns),
+          user_eyca_cards: toErasedItemsCount(erasedItems.userEycaCards)
+        },
+        kind: "SUCCESS"
+      })
+    ),
+    TE.toUnion
+  )();
+};
@@ -0,0 +1,41 @@
+import { createTableService } from "azure-storage";
+import { USER_CGN_COLLECTION_NAME, UserCgnModel } from "../models/user_cgn";
+import {
+  USER_EYCA_CARD_COLLECTION_NAME,
+  UserEycaCardModel
+} from "../models/user_eyca_card";
+import { getConfigOrThrow } from "../utils/config";
+import { cosmosdbClient } from "../utils/cosmosdb";
+import { REDIS_CLIENT } from "../utils/redis";
+import { getEraseCgnDataActivityHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const userCgnsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_CGN_COLLECTION_NAME);
+
+const userCgnModel = new UserCgnModel(userCgnsContainer);
+
+const userEycaCardsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_EYCA_CARD_COLLECTION_NAME);
+
+const userEycaCardModel = new UserEycaCardModel(userEycaCardsContainer);
+
+const tableService = createTableService(config.CGN_STORAGE_CONNECTION_STRING);
+
+const eraseCgnDataActivityHandler = getEraseCgnDataActivityHandler(
+  userCgnModel,
+  userEycaCardModel,
+  tableService,
+  config.CGN_EXPIRATION_TABLE_NAME,
+  config.EYCA_EXPIRATION_TABLE_NAME,
+  config.CARD_EXPIRATION_WATERMARK_TABLE_NAME,
+  config.OTP_REDEMPTION_TABLE_NAME,
+  REDIS_CLIENT,
+  config.OTP_SECRET_KEY,
+  config.CARD_EXPIRATION_REMINDER_DAYS
+);
+
+export default eraseCgnDataActivityHandler;
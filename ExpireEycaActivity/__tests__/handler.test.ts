@@ -19,7 +19,7 @@ import { ActivityInput, getExpireEycaActivityHandler } from "../handler";
 import { pipe } from "fp-ts/lib/function";
 import { toError } from "fp-ts/lib/Either";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 
 const aUserEycaCardNumber = "X321-Y321-Z321-W321" as CcdbNumber;
 const anActivatedEycaCard: EycaCardActivated = {
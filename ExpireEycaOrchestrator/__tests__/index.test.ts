@@ -4,7 +4,7 @@ import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import { context as contextMock } from "../../__mocks__/durable-functions";
 import { handler } from "../index";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 
 const getInputMock = jest.fn().mockImplementation(() => ({
   fiscalCode: aFiscalCode,
@@ -0,0 +1,220 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as df from "durable-functions";
+import * as TE from "fp-ts/lib/TaskEither";
+import { inflateRawSync } from "zlib";
+import { context, mockGetStatus } from "../../__mocks__/durable-functions";
+import { aFiscalCode, cgnActivatedDates } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { DiscountId } from "../../generated/definitions/DiscountId";
+import { MerchantId } from "../../generated/definitions/MerchantId";
+import * as redis from "../../GenerateOtp/redis";
+import * as cardExpiration from "../../utils/card_expiration";
+import { systemClock } from "../../utils/clock";
+import { ExpirationReminderDays } from "../../utils/config";
+import * as models from "../../utils/models";
+import { makeUpdateCgnOrchestratorId } from "../../utils/orchestrators";
+import { ExportCgnDataHandler, ExportFormatEnum } from "../handler";
+
+const aUserCgn = {
+  card: { ...cgnActivatedDates, status: ActivatedStatusEnum.ACTIVATED },
+  fiscalCode: aFiscalCode,
+  id: "A_USER_CGN_ID" as NonEmptyString,
+  totpSecret: "AN_ENCRYPTED_TOTP_SECRET" as NonEmptyString,
+  version: 0
+};
+
+const aUserEycaCard = {
+  card: { status: "PENDING" },
+  fiscalCode: aFiscalCode,
+  id: "A_USER_EYCA_CARD_ID" as NonEmptyString,
+  version: 0
+};
+
+const aCardExpiration = {
+  activationDate: cgnActivatedDates.activation_date,
+  expirationDate: cgnActivatedDates.expiration_date,
+  fiscalCode: aFiscalCode
+};
+
+const anOtpPayload = {
+  discountId: "A_DISCOUNT_ID" as DiscountId,
+  expiresAt: new Date(),
+  fiscalCode: aFiscalCode,
+  maxUses: 3 as NonNegativeInteger,
+  merchantId: "A_MERCHANT_ID" as MerchantId,
+  ttl: 10 as NonNegativeInteger
+};
+
+const anOrchestratorId = makeUpdateCgnOrchestratorId(aFiscalCode, "ACTIVATED");
+const anOrchestrationStatus = {
+  createdTime: new Date(),
+  customStatus: "UPDATED",
+  input: {},
+  instanceId: anOrchestratorId,
+  lastUpdatedTime: new Date(),
+  name: "UpdateCgnOrchestrator",
+  output: {},
+  runtimeStatus: df.OrchestrationRuntimeStatus.Completed
+};
+
+const findAllVersionsByFiscalCodeMock = jest.fn();
+jest
+  .spyOn(models, "findAllVersionsByFiscalCode")
+  .mockImplementation(findAllVersionsByFiscalCodeMock);
+
+const getCardExpirationsByFiscalCodeMock = jest.fn();
+jest
+  .spyOn(cardExpiration, "getCardExpirationsByFiscalCode")
+  .mockImplementation(getCardExpirationsByFiscalCodeMock);
+
+const retrieveOtpPayloadsByFiscalCodeMock = jest.fn();
+jest
+  .spyOn(redis, "retrieveOtpPayloadsByFiscalCode")
+  .mockImplementation(retrieveOtpPayloadsByFiscalCodeMock);
+
+const userCgnModelMock = { kind: "UserCgnModel" };
+const userEycaCardModelMock = { kind: "UserEycaCardModel" };
+
+const exportCgnDataHandler = ExportCgnDataHandler(
+  userCgnModelMock as any,
+  userEycaCardModelMock as any,
+  {} as any,
+  "cgnexpiration" as NonEmptyString,
+  "eycaexpiration" as NonEmptyString,
+  {} as any,
+  "AN_OTP_SECRET_KEY" as NonEmptyString,
+  ([30, 7] as ReadonlyArray<unknown>) as ReadonlyArray<ExpirationReminderDays>,
+  systemClock
+);
+
+describe("ExportCgnData", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findAllVersionsByFiscalCodeMock.mockImplementation(model =>
+      TE.of(model === userCgnModelMock ? [aUserCgn] : [aUserEycaCard])
+    );
+    getCardExpirationsByFiscalCodeMock.mockImplementation(
+      (_, tableName: string) =>
+        TE.of(tableName === "cgnexpiration" ? [aCardExpiration] : [])
+    );
+    retrieveOtpPayloadsByFiscalCodeMock.mockImplementation(() =>
+      TE.of([anOtpPayload])
+    );
+    mockGetStatus.mockImplementation(async (orchestratorId: string) =>
+      orchestratorId === anOrchestratorId ? anOrchestrationStatus : undefined
+    );
+  });
+
+  it("should return an Internal Error if an error occurs while retrieving the user's data", async () => {
+    getCardExpirationsByFiscalCodeMock.mockImplementation(() =>
+      TE.left(new Error("Cannot query table"))
+    );
+    const response = await exportCgnDataHandler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return an Internal Error if an orchestrator status cannot be retrieved", async () => {
+    mockGetStatus.mockImplementation(() =>
+      Promise.reject(new Error("Cannot retrieve status"))
+    );
+    const response = await exportCgnDataHandler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should export every piece of data stored about the user", async () => {
+    const response = await exportCgnDataHandler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        cgn_expirations: [
+          {
+            activation_date: aCardExpiration.activationDate,
+            expiration_date: aCardExpiration.expirationDate
+          }
+        ],
+        exported_at: expect.any(Date),
+        eyca_expirations: [],
+        fiscal_code: aFiscalCode,
+        orchestrations: [
+          {
+            created_time: anOrchestrationStatus.createdTime,
+            custom_status: "UPDATED",
+            instance_id: anOrchestratorId,
+            last_updated_time: anOrchestrationStatus.lastUpdatedTime,
+            name: "UpdateCgnOrchestrator",
+            runtime_status: df.OrchestrationRuntimeStatus.Completed
+          }
+        ],
+        otps: [
+          {
+            discount_id: anOtpPayload.discountId,
+            expires_at: anOtpPayload.expiresAt,
+            max_uses: anOtpPayload.maxUses,
+            merchant_id: anOtpPayload.merchantId,
+            ttl: anOtpPayload.ttl
+          }
+        ],
+        user_cgns: [
+          {
+            card: aUserCgn.card,
+            fiscalCode: aFiscalCode,
+            id: aUserCgn.id,
+            version: 0
+          }
+        ],
+        user_eyca_cards: [aUserEycaCard]
+      });
+    }
+    expect(mockGetStatus).toHaveBeenCalledWith(anOrchestratorId);
+  });
+
+  it("should export an empty document if no data is stored about the user", async () => {
+    findAllVersionsByFiscalCodeMock.mockImplementation(() => TE.of([]));
+    getCardExpirationsByFiscalCodeMock.mockImplementation(() => TE.of([]));
+    retrieveOtpPayloadsByFiscalCodeMock.mockImplementation(() => TE.of([]));
+    mockGetStatus.mockImplementation(async () => undefined);
+    const response = await exportCgnDataHandler(context, aFiscalCode, {});
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: expect.objectContaining({
+          cgn_expirations: [],
+          eyca_expirations: [],
+          orchestrations: [],
+          otps: [],
+          user_cgns: [],
+          user_eyca_cards: []
+        })
+      })
+    );
+  });
+
+  it("should export the JSON document in a zip archive", async () => {
+    const response = await exportCgnDataHandler(context, aFiscalCode, {
+      format: ExportFormatEnum.ZIP
+    });
+    expect(response.kind).toBe("IResponseSuccessAttachment");
+    if (response.kind === "IResponseSuccessAttachment") {
+      expect(response.contentType).toBe("application/zip");
+      expect(response.filename).toBe(`cgn-export-${aFiscalCode}.zip`);
+      // a single entry, stored right after its local file header
+      const nameLength = response.content.readUInt16LE(26);
+      const compressedSize = response.content.readUInt32LE(18);
+      expect(response.content.toString("utf8", 30, 30 + nameLength)).toBe(
+        `cgn-export-${aFiscalCode}.json`
+      );
+      const dataExport = JSON.parse(
+        inflateRawSync(
+          response.content.slice(
+            30 + nameLength,
+            30 + nameLength + compressedSize
+          )
+        ).toString("utf8")
+      );
+      expect(dataExport.fiscal_code).toBe(aFiscalCode);
+      expect(dataExport.user_cgns[0].totpSecret).toBeUndefined();
+    }
+  });
+});
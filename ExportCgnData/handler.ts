@@ -0,0 +1,277 @@
+/* eslint-disable max-params */
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { enumType } from "@pagopa/ts-commons/lib/types";
+import {
+  IResponseErrorInternal,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableService } from "azure-storage";
+import * as df from "durable-functions";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
+import { DurableOrchestrationStatus } from "durable-functions/lib/src/durableorchestrationstatus";
+import { sequenceS } from "fp-ts/lib/Apply";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { RedisClient } from "redis";
+import { CardExpirationExport } from "../generated/definitions/CardExpirationExport";
+import { CgnDataExport } from "../generated/definitions/CgnDataExport";
+import { OrchestrationSummary } from "../generated/definitions/OrchestrationSummary";
+import { OtpMetadata } from "../generated/definitions/OtpMetadata";
+import {
+  OtpPayload,
+  retrieveOtpPayloadsByFiscalCode
+} from "../GenerateOtp/redis";
+import { UserCgnModel } from "../models/user_cgn";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import {
+  ExpiredCardRowKey,
+  getCardExpirationsByFiscalCode
+} from "../utils/card_expiration";
+import { Clock } from "../utils/clock";
+import { ExpirationReminderDays } from "../utils/config";
+import { findAllVersionsByFiscalCode } from "../utils/models";
+import { QueryParamsMiddleware } from "../utils/middlewares";
+import { makeUserOrchestratorIds } from "../utils/orchestrators";
+import { createZipArchive } from "../utils/zip";
+import {
+  IResponseSuccessAttachment,
+  ResponseSuccessAttachment
+} from "../utils/responses";
+
+export enum ExportFormatEnum {
+  JSON = "json",
+  ZIP = "zip"
+}
+
+export const ExportFormat = enumType<ExportFormatEnum>(
+  ExportFormatEnum,
+  "ExportFormat"
+);
+
+/**
+ * The options of a data export, as provided by the query parameters.
+ * Exports default to a JSON document.
+ */
+export const ExportOptions = t.partial({
+  format: ExportFormat
+});
+
+export type ExportOptions = t.TypeOf<typeof ExportOptions>;
+
+type ResponseTypes =
+  | IResponseSuccessJson<CgnDataExport>
+  | IResponseSuccessAttachment
+  | IResponseErrorValidation
+  | IResponseErrorInternal;
+
+type IExportCgnDataHandler = (
+  context: Context,
+  fiscalCode: FiscalCode,
+  options: ExportOptions
+) => Promise<ResponseTypes>;
+
+const toCardExpirationExport = (
+  cardExpiration: ExpiredCardRowKey
+): CardExpirationExport => ({
+  activation_date: cardExpiration.activationDate,
+  expiration_date: cardExpiration.expirationDate
+});
+
+const toOtpMetadata = (payload: OtpPayload): OtpMetadata => ({
+  discount_id: payload.discountId,
+  expires_at: payload.expiresAt,
+  max_uses: payload.maxUses,
+  merchant_id: payload.merchantId,
+  ttl: payload.ttl
+});
+
+const toOrchestrationSummary = (
+  status: DurableOrchestrationStatus
+): OrchestrationSummary => ({
+  created_time: status.createdTime,
+  custom_status: pipe(
+    O.fromNullable(status.customStatus),
+    O.map(customStatus =>
+      typeof customStatus === "string"
+        ? customStatus
+        : JSON.stringify(customStatus)
+    ),
+    O.toUndefined
+  ),
+  instance_id: status.instanceId,
+  last_updated_time: status.lastUpdatedTime,
+  name: status.name,
+  runtime_status: status.runtimeStatus
+});
+
+/**
+ * Retrieves the status of every orchestrator which has been started
+ * for the given user and has not been purged yet.
+ */
+const retrieveOrchestrations = (
+  client: DurableOrchestrationClient,
+  fiscalCode: FiscalCode,
+  reminderDays: ReadonlyArray<ExpirationReminderDays>
+): TE.TaskEither<Error, ReadonlyArray<DurableOrchestrationStatus>> =>
+  pipe(
+    makeUserOrchestratorIds(fiscalCode, reminderDays),
+    RA.traverse(TE.ApplicativeSeq)(orchestratorId =>
+      pipe(
+        TE.tryCatch(() => client.getStatus(orchestratorId), E.toError),
+        // the status of an orchestrator that never run is undefined
+        TE.map(status => O.fromNullable(status))
+      )
+    ),
+    TE.map(RA.compact)
+  );
+
+const withContext = <T>(
+  message: string,
+  task: TE.TaskEither<Error, T>
+): TE.TaskEither<IResponseErrorInternal, T> =>
+  pipe(
+    task,
+    TE.mapLeft(e => ResponseErrorInternal(`${message}| ${e.message}`))
+  );
+
+export const ExportCgnDataHandler = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  reminderDays: ReadonlyArray<ExpirationReminderDays>,
+  clock: Clock,
+  logPrefix: string = "ExportCgnDataHandler"
+): IExportCgnDataHandler => async (
+  context,
+  fiscalCode,
+  options
+): Promise<ResponseTypes> => {
+  const client = df.getClient(context);
+  const now = clock();
+  return pipe(
+    {
+      cgnExpirations: withContext(
+        "Cannot retrieve CGN expirations",
+        getCardExpirationsByFiscalCode(
+          tableService,
+          cgnExpirationTableName,
+          fiscalCode
+        )
+      ),
+      eycaExpirations: withContext(
+        "Cannot retrieve EYCA expirations",
+        getCardExpirationsByFiscalCode(
+          tableService,
+          eycaExpirationTableName,
+          fiscalCode
+        )
+      ),
+      orchestrations: withContext(
+        "Cannot retrieve orchestrations",
+        retrieveOrchestrations(client, fiscalCode, reminderDays)
+      ),
+      otps: withContext(
+        "Cannot retrieve OTPs",
+        retrieveOtpPayloadsByFiscalCode(redisClient, otpSecretKey, fiscalCode)
+      ),
+      userCgns: withContext(
+        "Cannot retrieve CGN versions",
+        findAllVersionsByFiscalCode(userCgnModel, fiscalCode)
+      ),
+      userEycaCards: withContext(
+        "Cannot retrieve EYCA card versions",
+        findAllVersionsByFiscalCode(userEycaCardModel, fiscalCode)
+      )
+    },
+    sequenceS(TE.ApplicativeSeq),
+    TE.map(
+      (data): CgnDataExport => ({
+        cgn_expirations: data.cgnExpirations.map(toCardExpirationExport),
+        exported_at: now,
+        eyca_expirations: data.eycaExpirations.map(toCardExpirationExport),
+        fiscal_code: fiscalCode,
+        orchestrations: data.orchestrations.map(toOrchestrationSummary),
+        otps: data.otps.map(toOtpMetadata),
+        // the encrypted TOTP secret is a credential, not a personal data
+        user_cgns: data.userCgns.map(
+          ({ totpSecret: _, ...userCgn }) => userCgn
+        ),
+        user_eyca_cards: data.userEycaCards
+      })
+    ),
+    TE.map(dataExport =>
+      options.format === ExportFormatEnum.ZIP
+        ? ResponseSuccessAttachment(
+            createZipArchive(
+              [
+                {
+                  content: Buffer.from(JSON.stringify(dataExport), "utf8"),
+                  name: `cgn-export-${fiscalCode}.json`
+                }
+              ],
+              now
+            ),
+            "application/zip",
+            `cgn-export-${fiscalCode}.zip`
+          )
+        : ResponseSuccessJson(dataExport)
+    ),
+    TE.mapLeft(response => {
+      context.log.error(`${logPrefix}|${response.detail}`);
+      return response;
+    }),
+    TE.toUnion
+  )();
+};
+
+export const ExportCgnData = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  reminderDays: ReadonlyArray<ExpirationReminderDays>,
+  clock: Clock
+): express.RequestHandler => {
+  const handler = ExportCgnDataHandler(
+    userCgnModel,
+    userEycaCardModel,
+    tableService,
+    cgnExpirationTableName,
+    eycaExpirationTableName,
+    redisClient,
+    otpSecretKey,
+    reminderDays,
+    clock
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode),
+    QueryParamsMiddleware(ExportOptions)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
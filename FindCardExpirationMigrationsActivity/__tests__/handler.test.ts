@@ -0,0 +1,275 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import * as E from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aDefaultEligibilityPolicy } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import * as cgnChecks from "../../utils/cgn_checks";
+import { systemClock } from "../../utils/clock";
+import { maskFiscalCode } from "../../utils/conversions";
+import * as models from "../../utils/models";
+import {
+  getFindCardExpirationMigrationsActivityHandler,
+  toExpirationDateMigration
+} from "../handler";
+
+const anActivationDate = new Date("2020-01-01T00:00:00.000Z");
+const inDays = (days: number): Date =>
+  date_fns.startOfDay(date_fns.addDays(Date.now(), days));
+
+const aChangedFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const anUnchangedFiscalCode = "RODEDS80S10H501H" as FiscalCode;
+
+const makeUserCard = (fiscalCode: FiscalCode, expirationDate: Date) => ({
+  card: {
+    activation_date: anActivationDate,
+    expiration_date: expirationDate,
+    status: ActivatedStatusEnum.ACTIVATED
+  },
+  fiscalCode
+});
+
+const aPage = <A>(
+  latestVersions: ReadonlyArray<A>,
+  nextId: O.Option<NonEmptyString> = O.none
+) => () => TE.of({ latestVersions, nextId });
+
+const anActiveCards = [
+  makeUserCard(aChangedFiscalCode, inDays(30)),
+  makeUserCard(anUnchangedFiscalCode, inDays(60))
+];
+
+const findLatestVersionsPageByCardStatusMock = jest.fn();
+jest
+  .spyOn(models, "findLatestVersionsPageByCardStatus")
+  .mockImplementation(findLatestVersionsPageByCardStatusMock);
+
+const extractCgnExpirationDateMock = jest.fn();
+jest
+  .spyOn(cgnChecks, "extractCgnExpirationDate")
+  .mockImplementation(extractCgnExpirationDateMock);
+
+const extractEycaExpirationDateMock = jest.fn();
+jest
+  .spyOn(cgnChecks, "extractEycaExpirationDate")
+  .mockImplementation(extractEycaExpirationDateMock);
+
+// the changed card expires one year later, the other one on the same day
+const toNewExpirationDate = (fiscalCode: FiscalCode): Date =>
+  fiscalCode === aChangedFiscalCode
+    ? date_fns.addYears(inDays(30), 1)
+    : inDays(60);
+
+const userCgnModelMock = { kind: "UserCgnModel" };
+const userEycaCardModelMock = { kind: "UserEycaCardModel" };
+
+const findCardExpirationMigrationsActivityHandler = getFindCardExpirationMigrationsActivityHandler(
+  userCgnModelMock as any,
+  userEycaCardModelMock as any,
+  aDefaultEligibilityPolicy,
+  systemClock
+);
+
+describe("FindCardExpirationMigrationsActivity", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLatestVersionsPageByCardStatusMock.mockImplementation(
+      aPage(anActiveCards)
+    );
+    extractCgnExpirationDateMock.mockImplementation((fiscalCode: FiscalCode) =>
+      TE.of(toNewExpirationDate(fiscalCode))
+    );
+    extractEycaExpirationDateMock.mockImplementation((fiscalCode: FiscalCode) =>
+      E.right(toNewExpirationDate(fiscalCode))
+    );
+  });
+
+  it("should return the CGNs whose expiration date changes", async () => {
+    const response = await findCardExpirationMigrationsActivityHandler(
+      context,
+      { cardType: ExpiringCardTypeEnum.CGN }
+    );
+    expect(response).toEqual({
+      kind: "SUCCESS",
+      migrations: [
+        {
+          expirationDate: date_fns.addYears(inDays(30), 1),
+          fiscalCode: aChangedFiscalCode,
+          previousExpirationDate: inDays(30)
+        }
+      ],
+      skippedMigrations: []
+    });
+    expect(findLatestVersionsPageByCardStatusMock).toHaveBeenCalledWith(
+      userCgnModelMock,
+      [ActivatedStatusEnum.ACTIVATED],
+      O.none
+    );
+    expect(extractCgnExpirationDateMock).toHaveBeenCalledWith(
+      aChangedFiscalCode,
+      aDefaultEligibilityPolicy,
+      systemClock
+    );
+    expect(extractEycaExpirationDateMock).not.toHaveBeenCalled();
+  });
+
+  it("should return the EYCA cards whose expiration date changes", async () => {
+    const response = await findCardExpirationMigrationsActivityHandler(
+      context,
+      { cardType: ExpiringCardTypeEnum.EYCA }
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "SUCCESS",
+        migrations: [
+          expect.objectContaining({ fiscalCode: aChangedFiscalCode })
+        ]
+      })
+    );
+    expect(findLatestVersionsPageByCardStatusMock).toHaveBeenCalledWith(
+      userEycaCardModelMock,
+      expect.anything(),
+      O.none
+    );
+    expect(extractEycaExpirationDateMock).toHaveBeenCalledWith(
+      aChangedFiscalCode,
+      aDefaultEligibilityPolicy,
+      systemClock
+    );
+    expect(extractCgnExpirationDateMock).not.toHaveBeenCalled();
+  });
+
+  it("should keep the expiration dates set by an operator", async () => {
+    findLatestVersionsPageByCardStatusMock.mockImplementationOnce(
+      aPage([
+        {
+          ...makeUserCard(aChangedFiscalCode, inDays(30)),
+          expirationOverride: {
+            expiration_date: inDays(30),
+            justification: "A legal exception",
+            overridden_at: new Date(),
+            previous_expiration_date: inDays(10)
+          }
+        },
+        makeUserCard(anUnchangedFiscalCode, inDays(60))
+      ])
+    );
+    const response = await findCardExpirationMigrationsActivityHandler(
+      context,
+      { cardType: ExpiringCardTypeEnum.CGN }
+    );
+    expect(response).toEqual({
+      kind: "SUCCESS",
+      migrations: [],
+      skippedMigrations: []
+    });
+    expect(extractCgnExpirationDateMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip the cards whose expiration date cannot be computed", async () => {
+    extractCgnExpirationDateMock.mockImplementationOnce(() =>
+      TE.left(
+        new Error("No CGN eligibility rule in force for given fiscalCode")
+      )
+    );
+    findLatestVersionsPageByCardStatusMock.mockImplementationOnce(
+      aPage([
+        makeUserCard(anUnchangedFiscalCode, inDays(60)),
+        makeUserCard(aChangedFiscalCode, inDays(30))
+      ])
+    );
+    const response = await findCardExpirationMigrationsActivityHandler(
+      context,
+      { cardType: ExpiringCardTypeEnum.CGN }
+    );
+    expect(response).toEqual({
+      kind: "SUCCESS",
+      migrations: [expect.objectContaining({ fiscalCode: aChangedFiscalCode })],
+      skippedMigrations: [
+        {
+          maskedFiscalCode: maskFiscalCode(anUnchangedFiscalCode),
+          reason: "No CGN eligibility rule in force for given fiscalCode"
+        }
+      ]
+    });
+  });
+
+  it("should find the page following the given card version and return where to find the next one", async () => {
+    const anId = "anId" as NonEmptyString;
+    const aNextId = "aNextId" as NonEmptyString;
+    findLatestVersionsPageByCardStatusMock.mockImplementationOnce(
+      aPage([anActiveCards[0]], O.some(aNextId))
+    );
+    const response = await findCardExpirationMigrationsActivityHandler(
+      context,
+      { afterId: anId, cardType: ExpiringCardTypeEnum.CGN }
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        migrations: [
+          expect.objectContaining({ fiscalCode: aChangedFiscalCode })
+        ],
+        nextId: aNextId
+      })
+    );
+    expect(findLatestVersionsPageByCardStatusMock).toHaveBeenCalledWith(
+      userCgnModelMock,
+      expect.anything(),
+      O.some(anId)
+    );
+  });
+
+  it("should throw if the active cards cannot be retrieved", async () => {
+    findLatestVersionsPageByCardStatusMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot query cards"))
+    );
+    await expect(
+      findCardExpirationMigrationsActivityHandler(context, {
+        cardType: ExpiringCardTypeEnum.CGN
+      })
+    ).rejects.toBeDefined();
+  });
+
+  it("should return a permanent failure if the input cannot be decoded", async () => {
+    const response = await findCardExpirationMigrationsActivityHandler(
+      context,
+      { cardType: "UNKNOWN" }
+    );
+    expect(response.kind).toBe("FAILURE");
+    expect(findLatestVersionsPageByCardStatusMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("toExpirationDateMigration", () => {
+  const anActiveCard = {
+    activationDate: anActivationDate,
+    expirationDate: inDays(30),
+    fiscalCode: aChangedFiscalCode
+  };
+
+  it("should not migrate a card expiring on the same day", () => {
+    expect(
+      toExpirationDateMigration(
+        anActiveCard,
+        date_fns.addHours(inDays(30), 1),
+        inDays(1)
+      )
+    ).toEqual([]);
+  });
+
+  it("should migrate a card that would have already expired to tomorrow", () => {
+    expect(
+      toExpirationDateMigration(anActiveCard, inDays(-10), inDays(1))
+    ).toEqual([
+      {
+        expirationDate: inDays(1),
+        fiscalCode: aChangedFiscalCode,
+        previousExpirationDate: inDays(30)
+      }
+    ]);
+  });
+});
@@ -0,0 +1,264 @@
+/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as T from "fp-ts/lib/Task";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { StatusEnum as ActivatedStatusEnum } from "../generated/definitions/CardActivated";
+import { ExpirationOverride } from "../generated/definitions/ExpirationOverride";
+import { Timestamp } from "../generated/definitions/Timestamp";
+import { UserCgnModel } from "../models/user_cgn";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import {
+  ActivityResultFailure,
+  ActivityResultSuccess
+} from "../utils/activity";
+import {
+  ExpiringCardType,
+  ExpiringCardTypeEnum,
+  IActiveCard,
+  toActiveCard
+} from "../utils/card_expiration";
+import {
+  extractCgnExpirationDate,
+  extractEycaExpirationDate
+} from "../utils/cgn_checks";
+import { Clock } from "../utils/clock";
+import { errorsToError, maskFiscalCode } from "../utils/conversions";
+import { addRomeDays, formatRomeDate } from "../utils/dates";
+import { EligibilityPolicy } from "../utils/eligibility_policy";
+import {
+  toPermanentFailure,
+  toTransientFailure,
+  trackFailure
+} from "../utils/errors";
+import { findLatestVersionsPageByCardStatus } from "../utils/models";
+
+export const ActivityInput = t.intersection([
+  t.interface({
+    cardType: ExpiringCardType
+  }),
+  t.partial({
+    // the id of the last card version scanned by the previous page, if any
+    afterId: NonEmptyString
+  })
+]);
+
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+/**
+ * A card whose expiration date has to be moved
+ */
+export const ExpirationDateMigration = t.interface({
+  expirationDate: Timestamp,
+  fiscalCode: FiscalCode,
+  previousExpirationDate: Timestamp
+});
+
+export type ExpirationDateMigration = t.TypeOf<typeof ExpirationDateMigration>;
+
+/**
+ * An active card whose new expiration date cannot be computed,
+ * so that it keeps the current one
+ */
+export const SkippedMigration = t.interface({
+  maskedFiscalCode: t.string,
+  reason: t.string
+});
+
+export type SkippedMigration = t.TypeOf<typeof SkippedMigration>;
+
+export const ActivityResultMigrationsSuccess = t.intersection([
+  ActivityResultSuccess,
+  t.interface({
+    migrations: t.readonlyArray(ExpirationDateMigration),
+    skippedMigrations: t.readonlyArray(SkippedMigration)
+  }),
+  t.partial({
+    // the id to find the next page after, missing on the last page
+    nextId: NonEmptyString
+  })
+]);
+
+export type ActivityResultMigrationsSuccess = t.TypeOf<
+  typeof ActivityResultMigrationsSuccess
+>;
+
+export const ActivityResult = t.union([
+  ActivityResultMigrationsSuccess,
+  ActivityResultFailure
+]);
+
+export type ActivityResult = t.TypeOf<typeof ActivityResult>;
+
+// a suspended card is restored with the expiration date it had when it was
+// suspended, so it is left to a later migration once it has been resumed
+const MIGRATING_CARD_STATUSES: ReadonlyArray<string> = [
+  ActivatedStatusEnum.ACTIVATED
+];
+
+// the expiration dates set by an operator are kept as they are
+const toMigratingCard = (
+  userCard: Parameters<typeof toActiveCard>[0] & {
+    readonly expirationOverride?: ExpirationOverride;
+  }
+): O.Option<IActiveCard> =>
+  userCard.expirationOverride === undefined ? toActiveCard(userCard) : O.none;
+
+const isSameDay = (date: Date, otherDate: Date): boolean =>
+  formatRomeDate(date) === formatRomeDate(otherDate);
+
+/**
+ * Returns the migration of an active card to the expiration date computed
+ * by the current rule, if it differs from the stored one.
+ * As the expirations due today have already been processed, the cards that
+ * would have already expired with the current rule expire tomorrow instead.
+ */
+export const toExpirationDateMigration = (
+  activeCard: IActiveCard,
+  expirationDate: Date,
+  tomorrow: Date
+): ReadonlyArray<ExpirationDateMigration> =>
+  pipe(date_fns.max([expirationDate, tomorrow]), dueDate =>
+    isSameDay(dueDate, activeCard.expirationDate)
+      ? []
+      : [
+          {
+            expirationDate: dueDate,
+            fiscalCode: activeCard.fiscalCode,
+            previousExpirationDate: activeCard.expirationDate
+          }
+        ]
+  );
+
+interface IMigrations {
+  readonly migrations: ReadonlyArray<ExpirationDateMigration>;
+  readonly nextId: O.Option<NonEmptyString>;
+  readonly skippedMigrations: ReadonlyArray<SkippedMigration>;
+}
+
+/**
+ * Finds the migrations of a page of the active cards of the given type,
+ * so that the migrations are never held in memory all together.
+ * The next page is found after the `nextId` returned, if any.
+ */
+export const getFindCardExpirationMigrationsActivityHandler = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock,
+  logPrefix: string = "FindCardExpirationMigrationsActivity"
+) => (context: Context, input: unknown): Promise<ActivityResult> => {
+  const fail = trackFailure(context, logPrefix);
+  return pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(
+      flow(errorsToError, e =>
+        toPermanentFailure(e, "Cannot decode Activity Input")
+      )
+    ),
+    TE.chain(({ afterId, cardType }) => {
+      const tomorrow = addRomeDays(clock(), 1);
+      const extractExpirationDate = (
+        activeCard: IActiveCard
+      ): TE.TaskEither<Error, Date> =>
+        cardType === ExpiringCardTypeEnum.CGN
+          ? extractCgnExpirationDate(
+              activeCard.fiscalCode,
+              eligibilityPolicy,
+              clock
+            )
+          : TE.fromEither(
+              extractEycaExpirationDate(
+                activeCard.fiscalCode,
+                eligibilityPolicy,
+                clock
+              )
+            );
+      // a card whose expiration date cannot be computed, such as for an
+      // invalid fiscal code or no rule in force, doesn't stop the others
+      const findMigrations = ({
+        latestVersions,
+        nextId
+      }: {
+        readonly latestVersions: ReadonlyArray<
+          Parameters<typeof toMigratingCard>[0]
+        >;
+        readonly nextId: O.Option<NonEmptyString>;
+      }): TE.TaskEither<Error, IMigrations> =>
+        TE.fromTask(
+          pipe(
+            latestVersions,
+            RA.filterMap(toMigratingCard),
+            RA.traverse(T.ApplicativePar)(activeCard =>
+              pipe(
+                extractExpirationDate(activeCard),
+                TE.bimap(
+                  (err): SkippedMigration => ({
+                    maskedFiscalCode: maskFiscalCode(activeCard.fiscalCode),
+                    reason: err.message
+                  }),
+                  expirationDate =>
+                    toExpirationDateMigration(
+                      activeCard,
+                      expirationDate,
+                      tomorrow
+                    )
+                )
+              )
+            ),
+            T.map(results => ({
+              migrations: RA.flatten(RA.rights(results)),
+              nextId,
+              skippedMigrations: RA.lefts(results)
+            }))
+          )
+        );
+      return pipe(
+        cardType === ExpiringCardTypeEnum.CGN
+          ? findLatestVersionsPageByCardStatus(
+              userCgnModel,
+              MIGRATING_CARD_STATUSES,
+              O.fromNullable(afterId)
+            )
+          : findLatestVersionsPageByCardStatus(
+              userEycaCardModel,
+              MIGRATING_CARD_STATUSES,
+              O.fromNullable(afterId)
+            ),
+        TE.chain(findMigrations),
+        TE.mapLeft(err =>
+          toTransientFailure(err, `Cannot retrieve active ${cardType} cards`)
+        )
+      );
+    }),
+    TE.bimap(
+      fail,
+      ({ migrations, nextId, skippedMigrations }): ActivityResult => {
+        context.log.info(
+          `${logPrefix}|Found ${migrations.length} expiration dates to migrate|SKIPPED=${skippedMigrations.length}`
+        );
+        // the dates are serialized along with the activity result
+        return {
+          kind: "SUCCESS",
+          migrations,
+          skippedMigrations,
+          ...pipe(
+            nextId,
+            O.fold(
+              () => ({}),
+              id => ({ nextId: id })
+            )
+          )
+        };
+      }
+    ),
+    TE.toUnion
+  )();
+};
@@ -0,0 +1,37 @@
+import { USER_CGN_COLLECTION_NAME, UserCgnModel } from "../models/user_cgn";
+import {
+  USER_EYCA_CARD_COLLECTION_NAME,
+  UserEycaCardModel
+} from "../models/user_eyca_card";
+import { getClock } from "../utils/clock";
+import { getConfigOrThrow } from "../utils/config";
+import { cosmosdbClient } from "../utils/cosmosdb";
+import { getEligibilityPolicy } from "../utils/eligibility_policy";
+import { getFindCardExpirationMigrationsActivityHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const clock = getClock(config);
+
+const eligibilityPolicy = getEligibilityPolicy(config);
+
+const userCgnsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_CGN_COLLECTION_NAME);
+
+const userCgnModel = new UserCgnModel(userCgnsContainer);
+
+const userEycaCardsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_EYCA_CARD_COLLECTION_NAME);
+
+const userEycaCardModel = new UserEycaCardModel(userEycaCardsContainer);
+
+const findCardExpirationMigrationsActivityHandler = getFindCardExpirationMigrationsActivityHandler(
+  userCgnModel,
+  userEycaCardModel,
+  eligibilityPolicy,
+  clock
+);
+
+export default findCardExpirationMigrationsActivityHandler;
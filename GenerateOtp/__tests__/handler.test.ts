@@ -14,17 +14,37 @@ import {
   CardPending,
   StatusEnum as PendingStatusEnum
 } from "../../generated/definitions/CardPending";
+import { StatusEnum as SuspendedStatusEnum } from "../../generated/definitions/CardSuspended";
+import { DiscountId } from "../../generated/definitions/DiscountId";
+import { MerchantId } from "../../generated/definitions/MerchantId";
 import { Otp } from "../../generated/definitions/Otp";
 import { OtpCode } from "../../generated/definitions/OtpCode";
+import { OtpGenerationRequest } from "../../generated/definitions/OtpGenerationRequest";
 import { UserCgn } from "../../models/user_cgn";
 import * as cgnCode from "../../utils/cgnCode";
+import { systemClock } from "../../utils/clock";
+import { OtpModeEnum } from "../../utils/config";
+import { encrypt } from "../../utils/encryption";
+import {
+  generateTotpCode,
+  getTotpCounter,
+  getTotpCounterExpiration
+} from "../../utils/totp";
 import { GetGenerateOtpHandler } from "../handler";
+import * as rate_limiter from "../rate_limiter";
 import * as redis_util from "../redis";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const aUserCgnId = "AN_ID" as NonEmptyString;
+const anOtpSecretKey = "AN_OTP_SECRET_KEY" as NonEmptyString;
 const aDefaultOtpTtl = 6000 as NonNegativeInteger;
 const anOtpCode = "AAAAAAAA123" as OtpCode;
+const aMerchantId = "A_MERCHANT_ID" as MerchantId;
+const aDiscountId = "A_DISCOUNT_ID" as DiscountId;
+const anOtpGenerationLimits: rate_limiter.IOtpGenerationLimits = {
+  dailyLimit: 50 as NonNegativeInteger,
+  hourlyLimit: 10 as NonNegativeInteger
+};
 
 const aPendingCgn: CardPending = {
   status: PendingStatusEnum.PENDING
@@ -60,6 +80,13 @@ jest
   .spyOn(redis_util, "storeOtpAndRelatedFiscalCode")
   .mockImplementation(storeOtpAndRelatedFiscalCodeMock);
 
+const checkAndTrackOtpGenerationMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(O.none));
+jest
+  .spyOn(rate_limiter, "checkAndTrackOtpGeneration")
+  .mockImplementation(checkAndTrackOtpGenerationMock);
+
 const findLastVersionByModelIdMock = jest
   .fn()
   .mockImplementation(() =>
@@ -78,9 +105,13 @@ const successImpl = async () => {
   const handler = GetGenerateOtpHandler(
     userCgnModelMock as any,
     {} as any,
-    aDefaultOtpTtl
+    anOtpSecretKey,
+    aDefaultOtpTtl,
+    anOtpGenerationLimits,
+    OtpModeEnum.REDIS,
+    systemClock
   );
-  const response = await handler({} as any, aFiscalCode);
+  const response = await handler({} as any, aFiscalCode, O.none);
   expect(response.kind).toBe("IResponseSuccessJson");
   if (response.kind === "IResponseSuccessJson") {
     expect(response.value).toMatchObject({
@@ -99,9 +130,13 @@ describe("GetGenerateOtpHandler", () => {
     const handler = GetGenerateOtpHandler(
       userCgnModelMock as any,
       {} as any,
-      aDefaultOtpTtl
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
     );
-    const response = await handler({} as any, aFiscalCode);
+    const response = await handler({} as any, aFiscalCode, O.none);
     expect(response.kind).toBe("IResponseErrorInternal");
   });
 
@@ -112,9 +147,13 @@ describe("GetGenerateOtpHandler", () => {
     const handler = GetGenerateOtpHandler(
       userCgnModelMock as any,
       {} as any,
-      aDefaultOtpTtl
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
     );
-    const response = await handler({} as any, aFiscalCode);
+    const response = await handler({} as any, aFiscalCode, O.none);
     expect(response.kind).toBe("IResponseErrorInternal");
   });
 
@@ -125,10 +164,39 @@ describe("GetGenerateOtpHandler", () => {
     const handler = GetGenerateOtpHandler(
       userCgnModelMock as any,
       {} as any,
-      aDefaultOtpTtl
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
+    );
+    const response = await handler({} as any, aFiscalCode, O.none);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should retry with a new OTP code if the generated one is already in use", async () => {
+    storeOtpAndRelatedFiscalCodeMock.mockImplementationOnce(() => TE.of(false));
+    await successImpl();
+    expect(generateOtpCodeMock).toHaveBeenCalledTimes(2);
+    expect(storeOtpAndRelatedFiscalCodeMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return an internal error if every generated OTP code is already in use", async () => {
+    storeOtpAndRelatedFiscalCodeMock.mockImplementation(() => TE.of(false));
+    const handler = GetGenerateOtpHandler(
+      userCgnModelMock as any,
+      {} as any,
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
     );
-    const response = await handler({} as any, aFiscalCode);
+    const response = await handler({} as any, aFiscalCode, O.none);
+    storeOtpAndRelatedFiscalCodeMock.mockImplementation(() => TE.of(true));
     expect(response.kind).toBe("IResponseErrorInternal");
+    expect(storeOtpAndRelatedFiscalCodeMock).toHaveBeenCalledTimes(3);
+    expect(checkAndTrackOtpGenerationMock).toHaveBeenCalledTimes(1);
   });
 
   it("should return an internal error if Redis OTP retrieve fails", async () => {
@@ -138,9 +206,13 @@ describe("GetGenerateOtpHandler", () => {
     const handler = GetGenerateOtpHandler(
       userCgnModelMock as any,
       {} as any,
-      aDefaultOtpTtl
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
     );
-    const response = await handler({} as any, aFiscalCode);
+    const response = await handler({} as any, aFiscalCode, O.none);
     expect(response.kind).toBe("IResponseErrorInternal");
   });
 
@@ -149,9 +221,13 @@ describe("GetGenerateOtpHandler", () => {
     const handler = GetGenerateOtpHandler(
       userCgnModelMock as any,
       {} as any,
-      aDefaultOtpTtl
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
     );
-    const response = await handler({} as any, aFiscalCode);
+    const response = await handler({} as any, aFiscalCode, O.none);
     expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
   });
 
@@ -162,12 +238,44 @@ describe("GetGenerateOtpHandler", () => {
     const handler = GetGenerateOtpHandler(
       userCgnModelMock as any,
       {} as any,
-      aDefaultOtpTtl
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
     );
-    const response = await handler({} as any, aFiscalCode);
+    const response = await handler({} as any, aFiscalCode, O.none);
     expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
   });
 
+  it("should return Forbidden if a suspended userCgn is found", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...aUserCgn,
+          card: {
+            ...cgnActivatedDates,
+            reason: "aSuspensionReason",
+            status: SuspendedStatusEnum.SUSPENDED,
+            suspension_date: new Date()
+          }
+        })
+      )
+    );
+    const handler = GetGenerateOtpHandler(
+      userCgnModelMock as any,
+      {} as any,
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
+    );
+    const response = await handler({} as any, aFiscalCode, O.none);
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+    expect(retrieveOtpByFiscalCodeMock).not.toHaveBeenCalled();
+  });
+
   it("should return success with a previous stored OTP if it is present", async () => {
     retrieveOtpByFiscalCodeMock.mockImplementationOnce(() =>
       TE.of(O.some(anOtp))
@@ -175,16 +283,180 @@ describe("GetGenerateOtpHandler", () => {
     const handler = GetGenerateOtpHandler(
       userCgnModelMock as any,
       {} as any,
-      aDefaultOtpTtl
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
     );
-    const response = await handler({} as any, aFiscalCode);
+    const response = await handler({} as any, aFiscalCode, O.none);
     expect(storeOtpAndRelatedFiscalCodeMock).not.toHaveBeenCalled();
+    expect(checkAndTrackOtpGenerationMock).not.toHaveBeenCalled();
     expect(response.kind).toBe("IResponseSuccessJson");
     if (response.kind === "IResponseSuccessJson") {
       expect(response.value).toEqual(anOtp);
     }
   });
+  it("should return an internal error if OTP generation limits check fails", async () => {
+    checkAndTrackOtpGenerationMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot read OTP generations on Redis"))
+    );
+    const handler = GetGenerateOtpHandler(
+      userCgnModelMock as any,
+      {} as any,
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
+    );
+    const response = await handler({} as any, aFiscalCode, O.none);
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(generateOtpCodeMock).not.toHaveBeenCalled();
+  });
+
+  it("should return too many requests with a Retry-After header if OTP generation limits are exceeded", async () => {
+    checkAndTrackOtpGenerationMock.mockImplementationOnce(() =>
+      TE.of(O.some(120))
+    );
+    const handler = GetGenerateOtpHandler(
+      userCgnModelMock as any,
+      {} as any,
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
+    );
+    const response = await handler({} as any, aFiscalCode, O.none);
+    expect(response.kind).toBe("IResponseErrorTooManyRequests");
+    expect(generateOtpCodeMock).not.toHaveBeenCalled();
+    expect(storeOtpAndRelatedFiscalCodeMock).not.toHaveBeenCalled();
+
+    const mockResponse: any = {
+      json: jest.fn(),
+      set: jest.fn(),
+      status: jest.fn()
+    };
+    mockResponse.set.mockReturnValue(mockResponse);
+    mockResponse.status.mockReturnValue(mockResponse);
+    response.apply(mockResponse);
+    expect(mockResponse.set).toHaveBeenCalledWith("Retry-After", "120");
+    expect(mockResponse.status).toHaveBeenCalledWith(429);
+  });
+
   it("should return success if an activated userCgn is found and an OTP has been generated", async () => {
     await successImpl();
+    expect(checkAndTrackOtpGenerationMock).toHaveBeenCalledWith(
+      {},
+      aFiscalCode,
+      anOtpGenerationLimits,
+      expect.any(Date)
+    );
+  });
+
+  it("should return a time-based OTP without using Redis if TOTP mode is enabled", async () => {
+    const aTotpSecret = "0123456789abcdef0123456789abcdef01234567" as NonEmptyString;
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...aUserCgn,
+          card: anActivatedCgn,
+          totpSecret: encrypt(anOtpSecretKey, aTotpSecret)
+        })
+      )
+    );
+    const handler = GetGenerateOtpHandler(
+      userCgnModelMock as any,
+      {} as any,
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.TOTP,
+      systemClock
+    );
+    const response = await handler({} as any, aFiscalCode, O.none);
+    expect(retrieveOtpByFiscalCodeMock).not.toHaveBeenCalled();
+    expect(checkAndTrackOtpGenerationMock).not.toHaveBeenCalled();
+    expect(storeOtpAndRelatedFiscalCodeMock).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      const counter = getTotpCounter(new Date());
+      expect(response.value).toEqual({
+        code: generateTotpCode(aTotpSecret, counter),
+        expires_at: getTotpCounterExpiration(counter),
+        ttl: expect.any(Number)
+      });
+    }
+  });
+
+  it("should generate an OTP scoped to the requested merchant and discount", async () => {
+    const handler = GetGenerateOtpHandler(
+      userCgnModelMock as any,
+      {} as any,
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.REDIS,
+      systemClock
+    );
+    const response = await handler(
+      {} as any,
+      aFiscalCode,
+      O.some({
+        discount_id: aDiscountId,
+        max_uses: 3,
+        merchant_id: aMerchantId
+      } as OtpGenerationRequest)
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+    expect(retrieveOtpByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      anOtpSecretKey,
+      aFiscalCode,
+      { discountId: aDiscountId, merchantId: aMerchantId }
+    );
+    expect(storeOtpAndRelatedFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      anOtpSecretKey,
+      anOtpCode,
+      expect.objectContaining({
+        discountId: aDiscountId,
+        fiscalCode: aFiscalCode,
+        maxUses: 3,
+        merchantId: aMerchantId
+      }),
+      aDefaultOtpTtl
+    );
+  });
+
+  it("should generate a single use OTP if no max uses is requested", async () => {
+    await successImpl();
+    expect(storeOtpAndRelatedFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      anOtpSecretKey,
+      anOtpCode,
+      expect.objectContaining({ maxUses: 1 }),
+      aDefaultOtpTtl
+    );
+  });
+
+  it("should return a validation error if a scoped OTP is requested in TOTP mode", async () => {
+    const handler = GetGenerateOtpHandler(
+      userCgnModelMock as any,
+      {} as any,
+      anOtpSecretKey,
+      aDefaultOtpTtl,
+      anOtpGenerationLimits,
+      OtpModeEnum.TOTP,
+      systemClock
+    );
+    const response = await handler(
+      {} as any,
+      aFiscalCode,
+      O.some({ merchant_id: aMerchantId })
+    );
+    expect(response.kind).toBe("IResponseErrorValidation");
+    expect(findLastVersionByModelIdMock).not.toHaveBeenCalled();
   });
 });
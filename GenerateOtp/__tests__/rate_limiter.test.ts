@@ -0,0 +1,185 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { aFiscalCode } from "../../__mocks__/mock";
+import * as redis_storage from "../../utils/redis_storage";
+import {
+  checkAndTrackOtpGeneration,
+  deleteOtpGenerations,
+  IOtpGenerationLimits
+} from "../rate_limiter";
+
+const now = new Date("2021-01-01T12:00:00Z");
+const aMinuteInMillis = 60 * 1000;
+const anOtpGenerationLimits: IOtpGenerationLimits = {
+  dailyLimit: 5 as NonNegativeInteger,
+  hourlyLimit: 2 as NonNegativeInteger
+};
+
+const minutesAgo = (minutes: number): number =>
+  now.getTime() - minutes * aMinuteInMillis;
+
+// Redis replies to Lua scripts with the scores as strings
+const toScoresReply = (
+  timestamps: ReadonlyArray<number>
+): ReadonlyArray<string> => timestamps.map(String);
+
+const evalTaskMock = jest.fn().mockImplementation(() => TE.of([]));
+jest.spyOn(redis_storage, "evalTask").mockImplementation(evalTaskMock);
+
+const deleteTaskMock = jest.fn().mockImplementation(() => TE.of(true));
+jest.spyOn(redis_storage, "deleteTask").mockImplementation(deleteTaskMock);
+
+describe("checkAndTrackOtpGeneration", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return an error if the script fails", async () => {
+    evalTaskMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot run script on redis"))
+    );
+    const result = await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    expect(result._tag).toBe("Left");
+  });
+
+  it("should return an error if the script reply is unexpected", async () => {
+    evalTaskMock.mockImplementationOnce(() => TE.of(1));
+    const result = await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    expect(result._tag).toBe("Left");
+  });
+
+  it("should run the script on the fiscalCode's sorted set with the limits windows", async () => {
+    await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    expect(evalTaskMock).toHaveBeenCalledWith(
+      {},
+      expect.any(String),
+      [`OTP_GENERATIONS_${aFiscalCode}`],
+      [
+        now.getTime(),
+        minutesAgo(60),
+        minutesAgo(24 * 60),
+        anOtpGenerationLimits.hourlyLimit,
+        anOtpGenerationLimits.dailyLimit,
+        expect.stringMatching(/^[0-9a-f]{32}$/),
+        24 * 60 * 60
+      ]
+    );
+  });
+
+  it("should record each generation with a different nonce", async () => {
+    await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    const [firstNonce, secondNonce] = evalTaskMock.mock.calls.map(
+      ([, , , args]) => args[5]
+    );
+    expect(firstNonce).not.toEqual(secondNonce);
+  });
+
+  it("should return none if the generation has been recorded", async () => {
+    const result = await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    expect(result).toEqual({ _tag: "Right", right: O.none });
+  });
+
+  it("should return the seconds to wait if the hourly limit is exceeded", async () => {
+    evalTaskMock.mockImplementationOnce(() =>
+      TE.of(toScoresReply([minutesAgo(40), minutesAgo(10)]))
+    );
+    const result = await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    expect(result).toEqual({ _tag: "Right", right: O.some(20 * 60) });
+  });
+
+  it("should return the longest wait if both limits are exceeded", async () => {
+    evalTaskMock.mockImplementationOnce(() =>
+      TE.of(
+        toScoresReply([
+          minutesAgo(23 * 60),
+          minutesAgo(600),
+          minutesAgo(300),
+          minutesAgo(50),
+          minutesAgo(10)
+        ])
+      )
+    );
+    const result = await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    expect(result).toEqual({ _tag: "Right", right: O.some(60 * 60) });
+  });
+
+  it("should return the seconds to wait if only the daily limit is exceeded", async () => {
+    evalTaskMock.mockImplementationOnce(() =>
+      TE.of(
+        toScoresReply([
+          minutesAgo(23 * 60),
+          minutesAgo(600),
+          minutesAgo(300),
+          minutesAgo(200),
+          minutesAgo(10)
+        ])
+      )
+    );
+    const result = await checkAndTrackOtpGeneration(
+      {} as any,
+      aFiscalCode,
+      anOtpGenerationLimits,
+      now
+    )();
+    expect(result).toEqual({ _tag: "Right", right: O.some(60 * 60) });
+  });
+});
+
+describe("deleteOtpGenerations", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should delete the fiscalCode's sorted set", async () => {
+    const result = await deleteOtpGenerations({} as any, aFiscalCode)();
+    expect(result).toEqual({ _tag: "Right", right: true });
+    expect(deleteTaskMock).toHaveBeenCalledWith(
+      {},
+      `OTP_GENERATIONS_${aFiscalCode}`
+    );
+  });
+});
@@ -1,27 +1,51 @@
 // eslint-disable @typescript-eslint/no-explicit-any
 
 import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { pipe } from "fp-ts/lib/function";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 import { aFiscalCode } from "../../__mocks__/mock";
+import { DiscountId } from "../../generated/definitions/DiscountId";
+import { MerchantId } from "../../generated/definitions/MerchantId";
 import { Otp } from "../../generated/definitions/Otp";
 import { OtpCode } from "../../generated/definitions/OtpCode";
+import { decrypt, encrypt } from "../../utils/encryption";
+import { toKeyedHash } from "../../utils/hash";
 import * as redis_storage from "../../utils/redis_storage";
 import {
+  consumeOtp,
+  consumeTotp,
+  deleteOtpByFiscalCode,
   OtpPayload,
+  OtpScope,
   retrieveOtpByFiscalCode,
+  retrieveOtpPayloadByCode,
+  retrieveOtpPayloadsByFiscalCode,
   storeOtpAndRelatedFiscalCode
 } from "../redis";
 const anOtpTtl = 10 as NonNegativeInteger;
 const anOtpCode = "1234567890A" as OtpCode;
-const setWithExpirationTaskMock = jest
-  .fn()
-  .mockImplementation(() => TE.of(true));
+const anOtpSecretKey = "AN_OTP_SECRET_KEY" as NonEmptyString;
+const anOtpKey = `{cgn_otp}OTP_${toKeyedHash(anOtpSecretKey, anOtpCode)}`;
+const anOtpFiscalCodeKey = `{cgn_otp}OTP_FISCALCODE_${aFiscalCode}`;
+const anOtpUsesKey = `{cgn_otp}OTP_USES_${toKeyedHash(
+  anOtpSecretKey,
+  anOtpCode
+)}`;
+const anOtpFiscalCodeKeysKey = `{cgn_otp}OTP_FISCALCODE_KEYS_${aFiscalCode}`;
+const anOtpScope: OtpScope = {
+  discountId: "A_DISCOUNT_ID" as DiscountId,
+  merchantId: "A_MERCHANT_ID" as MerchantId
+};
+const aScopedOtpFiscalCodeKey = `{cgn_otp}OTP_FISCALCODE_${aFiscalCode}_${toKeyedHash(
+  anOtpSecretKey,
+  JSON.stringify([anOtpScope.merchantId, anOtpScope.discountId])
+)}`;
+const anEncryptedOtpCode = encrypt(anOtpSecretKey, anOtpCode);
 
-jest
-  .spyOn(redis_storage, "setWithExpirationTask")
-  .mockImplementation(setWithExpirationTaskMock);
+const evalTaskMock = jest.fn().mockImplementation(() => TE.of(1));
+jest.spyOn(redis_storage, "evalTask").mockImplementation(evalTaskMock);
 
 const anOtp: Otp = {
   code: anOtpCode,
@@ -36,20 +60,35 @@ const anOtpPayload: OtpPayload = {
 };
 const getTaskMock = jest
   .fn()
-  .mockImplementation(() => TE.of(O.some(anOtpCode)));
+  .mockImplementation(() => TE.of(O.some(anEncryptedOtpCode)));
 jest.spyOn(redis_storage, "getTask").mockImplementation(getTaskMock);
+const deleteTaskMock = jest.fn().mockImplementation(() => TE.of(true));
+jest.spyOn(redis_storage, "deleteTask").mockImplementation(deleteTaskMock);
+const setIfNotExistsWithExpirationTaskMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(true));
+jest
+  .spyOn(redis_storage, "setIfNotExistsWithExpirationTask")
+  .mockImplementation(setIfNotExistsWithExpirationTaskMock);
+const getSetMembersTaskMock = jest
+  .fn()
+  .mockImplementation(() => TE.of([anOtpFiscalCodeKey]));
+jest
+  .spyOn(redis_storage, "getSetMembersTask")
+  .mockImplementation(getSetMembersTaskMock);
 
 describe("storeOtpAndRelatedFiscalCode", () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
   it("should return an error when otp store fails", async () => {
-    setWithExpirationTaskMock.mockImplementationOnce(() =>
+    evalTaskMock.mockImplementationOnce(() =>
       TE.left(new Error("Cannot store OTP"))
     );
     await pipe(
       storeOtpAndRelatedFiscalCode(
         {} as any,
+        anOtpSecretKey,
         anOtpCode,
         anOtpPayload,
         anOtpTtl
@@ -61,31 +100,28 @@ describe("storeOtpAndRelatedFiscalCode", () => {
     )();
   });
 
-  it("should return an error when otp related fiscalCode store fails", async () => {
-    setWithExpirationTaskMock.mockImplementationOnce(() => TE.of(true));
-    setWithExpirationTaskMock.mockImplementationOnce(() =>
-      TE.left(new Error("Cannot store OTP related Fiscal Code"))
-    );
+  it("should return false if the OTP code is already in use", async () => {
+    evalTaskMock.mockImplementationOnce(() => TE.of(0));
     await pipe(
       storeOtpAndRelatedFiscalCode(
         {} as any,
+        anOtpSecretKey,
         anOtpCode,
         anOtpPayload,
         anOtpTtl
       ),
       TE.bimap(
-        _ => expect(_).toBeDefined(),
-        () => fail()
+        () => fail(),
+        _ => expect(_).toEqual(false)
       )
     )();
   });
 
-  it("should return true if OTP store success", async () => {
-    setWithExpirationTaskMock.mockImplementationOnce(() => TE.of(true));
-    setWithExpirationTaskMock.mockImplementationOnce(() => TE.of(true));
+  it("should store every key at once without any plaintext OTP code", async () => {
     await pipe(
       storeOtpAndRelatedFiscalCode(
         {} as any,
+        anOtpSecretKey,
         anOtpCode,
         anOtpPayload,
         anOtpTtl
@@ -95,6 +131,46 @@ describe("storeOtpAndRelatedFiscalCode", () => {
         _ => expect(_).toEqual(true)
       )
     )();
+    expect(evalTaskMock).toHaveBeenCalledTimes(1);
+    expect(evalTaskMock).toHaveBeenCalledWith(
+      {},
+      expect.stringContaining("NX"),
+      [anOtpKey, anOtpFiscalCodeKey, anOtpUsesKey, anOtpFiscalCodeKeysKey],
+      [JSON.stringify(anOtpPayload), expect.any(String), anOtpTtl, 1]
+    );
+    const encryptedOtpCode = evalTaskMock.mock.calls[0][3][1];
+    expect(encryptedOtpCode).not.toContain(anOtpCode);
+    expect(decrypt(anOtpSecretKey, encryptedOtpCode)).toEqual({
+      _tag: "Right",
+      right: anOtpCode
+    });
+  });
+
+  it("should link a scoped OTP to the key of its scope with its max uses", async () => {
+    const aScopedOtpPayload: OtpPayload = {
+      ...anOtpPayload,
+      ...anOtpScope,
+      maxUses: 3 as NonNegativeInteger
+    };
+    await pipe(
+      storeOtpAndRelatedFiscalCode(
+        {} as any,
+        anOtpSecretKey,
+        anOtpCode,
+        aScopedOtpPayload,
+        anOtpTtl
+      ),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual(true)
+      )
+    )();
+    expect(evalTaskMock).toHaveBeenCalledWith(
+      {},
+      expect.any(String),
+      [anOtpKey, aScopedOtpFiscalCodeKey, anOtpUsesKey, anOtpFiscalCodeKeysKey],
+      [JSON.stringify(aScopedOtpPayload), expect.any(String), anOtpTtl, 3]
+    );
   });
 });
 
@@ -107,7 +183,7 @@ describe("retrieveOtpByFiscalCode", () => {
       TE.left(new Error("Cannot retrieve OTP"))
     );
     await pipe(
-      retrieveOtpByFiscalCode({} as any, aFiscalCode),
+      retrieveOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode, {}),
       TE.bimap(
         _ => expect(_).toBeDefined(),
         () => fail()
@@ -118,21 +194,53 @@ describe("retrieveOtpByFiscalCode", () => {
   it("should return none if fiscalCode does not hit on Redis", async () => {
     getTaskMock.mockImplementationOnce(() => TE.of(O.none));
     await pipe(
-      retrieveOtpByFiscalCode({} as any, aFiscalCode),
+      retrieveOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode, {}),
       TE.bimap(
         () => fail(),
         _ => expect(O.isNone(_)).toBeTruthy()
       )
     )();
+    expect(getTaskMock).toHaveBeenCalledWith({}, anOtpFiscalCodeKey);
+  });
+
+  it("should look up the OTP of the given scope", async () => {
+    getTaskMock.mockImplementationOnce(() => TE.of(O.none));
+    await pipe(
+      retrieveOtpByFiscalCode(
+        {} as any,
+        anOtpSecretKey,
+        aFiscalCode,
+        anOtpScope
+      ),
+      TE.bimap(
+        () => fail(),
+        _ => expect(O.isNone(_)).toBeTruthy()
+      )
+    )();
+    expect(getTaskMock).toHaveBeenCalledWith({}, aScopedOtpFiscalCodeKey);
+  });
+
+  it("should return an error if the related OTP code cannot be decrypted", async () => {
+    getTaskMock.mockImplementationOnce(() =>
+      TE.of(O.some(encrypt("ANOTHER_SECRET_KEY", anOtpCode)))
+    );
+    await pipe(
+      retrieveOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode, {}),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+    expect(getTaskMock).toHaveBeenCalledTimes(1);
   });
 
   it("should return an error when if error occurs while retrieving related fiscalCode's OTP", async () => {
-    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anOtpCode)));
+    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anEncryptedOtpCode)));
     getTaskMock.mockImplementationOnce(() =>
       TE.left(new Error("Cannot retrieve OTP code"))
     );
     await pipe(
-      retrieveOtpByFiscalCode({} as any, aFiscalCode),
+      retrieveOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode, {}),
       TE.bimap(
         _ => expect(_).toBeDefined(),
         () => fail()
@@ -141,10 +249,10 @@ describe("retrieveOtpByFiscalCode", () => {
   });
 
   it("should return none if fiscalCode's related OTP does not hit on Redis", async () => {
-    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anOtpCode)));
+    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anEncryptedOtpCode)));
     getTaskMock.mockImplementationOnce(() => TE.of(O.none));
     await pipe(
-      retrieveOtpByFiscalCode({} as any, aFiscalCode),
+      retrieveOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode, {}),
       TE.bimap(
         () => fail(),
         _ => expect(O.isNone(_)).toBeTruthy()
@@ -153,12 +261,12 @@ describe("retrieveOtpByFiscalCode", () => {
   });
 
   it("should return an error if Error payload is invalid", async () => {
-    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anOtpCode)));
+    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anEncryptedOtpCode)));
     getTaskMock.mockImplementationOnce(() =>
       TE.of(O.some("an invalid Payload"))
     );
     await pipe(
-      retrieveOtpByFiscalCode({} as any, aFiscalCode),
+      retrieveOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode, {}),
       TE.bimap(
         _ => {
           expect(_).toBeDefined();
@@ -170,12 +278,12 @@ describe("retrieveOtpByFiscalCode", () => {
   });
 
   it("should return an error if Otp decode fails", async () => {
-    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anOtpCode)));
+    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anEncryptedOtpCode)));
     getTaskMock.mockImplementationOnce(() =>
       TE.of(O.some(JSON.stringify({ ...anOtpPayload, ttl: "an invalid ttl" })))
     );
     await pipe(
-      retrieveOtpByFiscalCode({} as any, aFiscalCode),
+      retrieveOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode, {}),
       TE.bimap(
         _ => expect(_).toBeDefined(),
         () => fail()
@@ -184,12 +292,12 @@ describe("retrieveOtpByFiscalCode", () => {
   });
 
   it("should return a retrieved Otp if success", async () => {
-    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anOtpCode)));
+    getTaskMock.mockImplementationOnce(() => TE.of(O.some(anEncryptedOtpCode)));
     getTaskMock.mockImplementationOnce(() =>
       TE.of(O.some(JSON.stringify({ ...anOtpPayload })))
     );
     await pipe(
-      retrieveOtpByFiscalCode({} as any, aFiscalCode),
+      retrieveOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode, {}),
       TE.bimap(
         () => fail(),
 
@@ -199,5 +307,259 @@ describe("retrieveOtpByFiscalCode", () => {
         )
       )
     )();
+    expect(getTaskMock).toHaveBeenNthCalledWith(2, {}, anOtpKey);
+  });
+});
+
+describe("retrieveOtpPayloadByCode", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  it("should return an error when OTP retrieve fails", async () => {
+    getTaskMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot retrieve OTP"))
+    );
+    await pipe(
+      retrieveOtpPayloadByCode({} as any, anOtpSecretKey, anOtpCode),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+  });
+
+  it("should return none if OTP code does not hit on Redis", async () => {
+    getTaskMock.mockImplementationOnce(() => TE.of(O.none));
+    await pipe(
+      retrieveOtpPayloadByCode({} as any, anOtpSecretKey, anOtpCode),
+      TE.bimap(
+        () => fail(),
+        _ => expect(O.isNone(_)).toBeTruthy()
+      )
+    )();
+    expect(getTaskMock).toHaveBeenCalledWith({}, anOtpKey);
+  });
+
+  it("should return an error if OTP payload decode fails", async () => {
+    getTaskMock.mockImplementationOnce(() =>
+      TE.of(O.some(JSON.stringify({ ...anOtpPayload, ttl: "an invalid ttl" })))
+    );
+    await pipe(
+      retrieveOtpPayloadByCode({} as any, anOtpSecretKey, anOtpCode),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+  });
+
+  it("should return the OTP payload if success", async () => {
+    getTaskMock.mockImplementationOnce(() =>
+      TE.of(O.some(JSON.stringify(anOtpPayload)))
+    );
+    await pipe(
+      retrieveOtpPayloadByCode({} as any, anOtpSecretKey, anOtpCode),
+      TE.bimap(
+        () => fail(),
+        O.fold(
+          () => fail("OTP payload cannot be none"),
+          value => expect(value).toEqual(anOtpPayload)
+        )
+      )
+    )();
+  });
+});
+
+describe("consumeOtp", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  it("should consume a use of the OTP code", async () => {
+    await pipe(
+      consumeOtp({} as any, anOtpSecretKey, anOtpCode),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual(true)
+      )
+    )();
+    expect(evalTaskMock).toHaveBeenCalledWith(
+      {},
+      expect.stringContaining("DECR"),
+      [anOtpKey, anOtpUsesKey],
+      []
+    );
+  });
+
+  it("should return false if the OTP code does not exist anymore", async () => {
+    evalTaskMock.mockImplementationOnce(() => TE.of(0));
+    await pipe(
+      consumeOtp({} as any, anOtpSecretKey, anOtpCode),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual(false)
+      )
+    )();
+  });
+});
+
+describe("consumeTotp", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  it("should mark the TOTP code of the counter as consumed", async () => {
+    await pipe(
+      consumeTotp({} as any, anOtpSecretKey, aFiscalCode, 42, 120),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual(true)
+      )
+    )();
+    expect(setIfNotExistsWithExpirationTaskMock).toHaveBeenCalledWith(
+      {},
+      `TOTP_CONSUMED_${toKeyedHash(anOtpSecretKey, `${aFiscalCode}_42`)}`,
+      "1",
+      120
+    );
+  });
+
+  it("should return false if the TOTP code has already been consumed", async () => {
+    setIfNotExistsWithExpirationTaskMock.mockImplementationOnce(() =>
+      TE.of(false)
+    );
+    await pipe(
+      consumeTotp({} as any, anOtpSecretKey, aFiscalCode, 42, 120),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual(false)
+      )
+    )();
+  });
+});
+
+describe("deleteOtpByFiscalCode", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  it("should return an error when fiscalCode retrieve fails", async () => {
+    getTaskMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot retrieve OTP"))
+    );
+    await pipe(
+      deleteOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+    expect(deleteTaskMock).not.toHaveBeenCalled();
+  });
+
+  it("should return an error when OTP delete fails", async () => {
+    deleteTaskMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot delete OTP"))
+    );
+    await pipe(
+      deleteOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+  });
+
+  it("should delete only the fiscalCode key if no OTP is related", async () => {
+    getTaskMock.mockImplementationOnce(() => TE.of(O.none));
+    await pipe(
+      deleteOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual(true)
+      )
+    )();
+    expect(deleteTaskMock).toHaveBeenCalledTimes(2);
+    expect(deleteTaskMock).toHaveBeenNthCalledWith(1, {}, anOtpFiscalCodeKey);
+    expect(deleteTaskMock).toHaveBeenNthCalledWith(
+      2,
+      {},
+      anOtpFiscalCodeKeysKey
+    );
+  });
+
+  it("should delete the OTP, its uses and fiscalCode keys", async () => {
+    await pipe(
+      deleteOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual(true)
+      )
+    )();
+    expect(deleteTaskMock).toHaveBeenNthCalledWith(1, {}, anOtpKey);
+    expect(deleteTaskMock).toHaveBeenNthCalledWith(2, {}, anOtpUsesKey);
+    expect(deleteTaskMock).toHaveBeenNthCalledWith(3, {}, anOtpFiscalCodeKey);
+    expect(deleteTaskMock).toHaveBeenNthCalledWith(
+      4,
+      {},
+      anOtpFiscalCodeKeysKey
+    );
+  });
+
+  it("should delete the OTPs of every scope", async () => {
+    getSetMembersTaskMock.mockImplementationOnce(() =>
+      TE.of([anOtpFiscalCodeKey, aScopedOtpFiscalCodeKey])
+    );
+    await pipe(
+      deleteOtpByFiscalCode({} as any, anOtpSecretKey, aFiscalCode),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual(true)
+      )
+    )();
+    expect(getTaskMock).toHaveBeenCalledTimes(2);
+    expect(getTaskMock).toHaveBeenNthCalledWith(1, {}, anOtpFiscalCodeKey);
+    expect(getTaskMock).toHaveBeenNthCalledWith(2, {}, aScopedOtpFiscalCodeKey);
+    expect(deleteTaskMock).toHaveBeenCalledWith({}, aScopedOtpFiscalCodeKey);
+    expect(deleteTaskMock).toHaveBeenLastCalledWith({}, anOtpFiscalCodeKeysKey);
+  });
+});
+
+describe("retrieveOtpPayloadsByFiscalCode", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  it("should return an error when fiscalCode keys retrieve fails", async () => {
+    getSetMembersTaskMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot retrieve keys"))
+    );
+    await pipe(
+      retrieveOtpPayloadsByFiscalCode({} as any, anOtpSecretKey, aFiscalCode),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+  });
+
+  it("should return the payloads of the valid OTPs of every scope", async () => {
+    const aScopedOtpPayload = { ...anOtpPayload, ...anOtpScope };
+    getSetMembersTaskMock.mockImplementationOnce(() =>
+      TE.of([anOtpFiscalCodeKey, aScopedOtpFiscalCodeKey])
+    );
+    getTaskMock
+      // the unscoped OTP is expired
+      .mockImplementationOnce(() => TE.of(O.none))
+      .mockImplementationOnce(() => TE.of(O.some(anEncryptedOtpCode)))
+      .mockImplementationOnce(() =>
+        TE.of(O.some(JSON.stringify(aScopedOtpPayload)))
+      );
+    await pipe(
+      retrieveOtpPayloadsByFiscalCode({} as any, anOtpSecretKey, aFiscalCode),
+      TE.bimap(
+        () => fail(),
+        _ => expect(_).toEqual([aScopedOtpPayload])
+      )
+    )();
+    expect(getTaskMock).toHaveBeenNthCalledWith(1, {}, anOtpFiscalCodeKey);
+    expect(getTaskMock).toHaveBeenNthCalledWith(2, {}, aScopedOtpFiscalCodeKey);
+    expect(getTaskMock).toHaveBeenNthCalledWith(3, {}, anOtpKey);
   });
 });
@@ -1,3 +1,4 @@
+/* eslint-disable max-params */
 import * as express from "express";
 
 import { Context } from "@azure/functions";
@@ -11,38 +12,73 @@ import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import {
   IResponseErrorForbiddenNotAuthorized,
   IResponseErrorInternal,
+  IResponseErrorTooManyRequests,
+  IResponseErrorValidation,
   IResponseSuccessJson,
   ResponseErrorForbiddenNotAuthorized,
   ResponseErrorInternal,
+  ResponseErrorTooManyRequests,
+  ResponseErrorValidation,
   ResponseSuccessJson
 } from "@pagopa/ts-commons/lib/responses";
-import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import * as date_fns from "date-fns";
 import * as E from "fp-ts/lib/Either";
-import { flow, pipe } from "fp-ts/lib/function";
+import { pipe } from "fp-ts/lib/function";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 import { RedisClient } from "redis";
 import { CardActivated } from "../generated/definitions/CardActivated";
 import { Otp } from "../generated/definitions/Otp";
-import { UserCgnModel } from "../models/user_cgn";
+import { OtpGenerationRequest } from "../generated/definitions/OtpGenerationRequest";
+import { RetrievedUserCgn, UserCgnModel } from "../models/user_cgn";
+import { getOrProvisionTotpSecret } from "../ProvisionTotp/secret";
+import { trackEvent } from "../utils/appinsights";
 import { generateOtpCode } from "../utils/cgnCode";
-import { retrieveOtpByFiscalCode, storeOtpAndRelatedFiscalCode } from "./redis";
+import { Clock } from "../utils/clock";
+import { OtpModeEnum } from "../utils/config";
+import { OptionalBodyPayloadMiddleware } from "../utils/middlewares";
+import { withResponseHeader } from "../utils/responses";
+import { getCurrentTotp } from "../utils/totp";
+import {
+  checkAndTrackOtpGeneration,
+  IOtpGenerationLimits
+} from "./rate_limiter";
+import {
+  OtpScope,
+  retrieveOtpByFiscalCode,
+  storeOtpAndRelatedFiscalCode
+} from "./redis";
 
 type ResponseTypes =
   | IResponseSuccessJson<Otp>
   | IResponseErrorForbiddenNotAuthorized
+  | IResponseErrorTooManyRequests
+  | IResponseErrorValidation
   | IResponseErrorInternal;
 
 type IGetGenerateOtpHandler = (
   context: Context,
-  fiscalCode: FiscalCode
+  fiscalCode: FiscalCode,
+  maybeOtpGenerationRequest: O.Option<OtpGenerationRequest>
 ) => Promise<ResponseTypes>;
 
+// OTPs are single use unless the citizen asks otherwise
+const DEFAULT_OTP_MAX_USES = 1 as NonNegativeInteger;
+
+// a new OTP code is very unlikely to collide with an existing one,
+// so a few attempts are enough before giving up
+const MAX_OTP_STORE_ATTEMPTS = 3;
+
 const generateNewOtpAndStore = (
   redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
   fiscalCode: FiscalCode,
-  otpTtl: NonNegativeInteger
+  otpTtl: NonNegativeInteger,
+  scope: OtpScope,
+  maxUses: NonNegativeInteger,
+  now: Date,
+  attempt: number = 1
 ): TE.TaskEither<IResponseErrorInternal, Otp> =>
   pipe(
     TE.tryCatch(() => generateOtpCode(), E.toError),
@@ -50,7 +86,7 @@ const generateNewOtpAndStore = (
       e => ResponseErrorInternal(`Cannot generate OTP Code| ${e.message}`),
       otpCode => ({
         code: otpCode,
-        expires_at: date_fns.addSeconds(Date.now(), otpTtl),
+        expires_at: date_fns.addSeconds(now, otpTtl),
         ttl: otpTtl
       })
     ),
@@ -58,34 +94,213 @@ const generateNewOtpAndStore = (
       pipe(
         storeOtpAndRelatedFiscalCode(
           redisClient,
+          otpSecretKey,
           newOtp.code,
           {
+            ...scope,
             expiresAt: newOtp.expires_at,
             fiscalCode,
+            maxUses,
             ttl: otpTtl
           },
           otpTtl
         ),
-        TE.bimap(
-          err => ResponseErrorInternal(err.message),
-          () => newOtp
+        TE.mapLeft(err => ResponseErrorInternal(err.message)),
+        TE.chain(isStored =>
+          isStored
+            ? TE.of(newOtp)
+            : attempt < MAX_OTP_STORE_ATTEMPTS
+            ? generateNewOtpAndStore(
+                redisClient,
+                otpSecretKey,
+                fiscalCode,
+                otpTtl,
+                scope,
+                maxUses,
+                now,
+                attempt + 1
+              )
+            : TE.left(
+                ResponseErrorInternal(
+                  "Cannot store OTP| Too many collisions with existing OTP codes"
+                )
+              )
         )
       )
     )
   );
 
+const checkLimitsAndGenerateNewOtp = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode,
+  otpTtl: NonNegativeInteger,
+  otpGenerationLimits: IOtpGenerationLimits,
+  scope: OtpScope,
+  maxUses: NonNegativeInteger,
+  now: Date
+): TE.TaskEither<IResponseErrorInternal | IResponseErrorTooManyRequests, Otp> =>
+  pipe(
+    // the generation is recorded before the OTP is generated, so that
+    // concurrent requests are counted and a live OTP is always returned
+    checkAndTrackOtpGeneration(
+      redisClient,
+      fiscalCode,
+      otpGenerationLimits,
+      now
+    ),
+    TE.mapLeft(e =>
+      ResponseErrorInternal(`Cannot check OTP generation limits| ${e.message}`)
+    ),
+    TE.chainW(
+      O.fold(
+        (): TE.TaskEither<
+          IResponseErrorInternal | IResponseErrorTooManyRequests,
+          Otp
+        > =>
+          generateNewOtpAndStore(
+            redisClient,
+            otpSecretKey,
+            fiscalCode,
+            otpTtl,
+            scope,
+            maxUses,
+            now
+          ),
+        retryAfter => {
+          trackEvent({
+            name: "cgn.otp.generation.rateLimited",
+            properties: {
+              id: fiscalCode,
+              retryAfter
+            }
+          });
+          return TE.left(
+            withResponseHeader(
+              "Retry-After",
+              String(retryAfter)
+            )(
+              ResponseErrorTooManyRequests(
+                "Too many OTP generated, retry later"
+              )
+            )
+          );
+        }
+      )
+    )
+  );
+
+/**
+ * Returns the TOTP code which is current right now, so that the same code
+ * is returned until the current period is over
+ */
+const generateTotp = (
+  userCgnModel: UserCgnModel,
+  otpSecretKey: NonEmptyString,
+  userCgn: RetrievedUserCgn,
+  now: Date
+): TE.TaskEither<IResponseErrorInternal, Otp> =>
+  pipe(
+    getOrProvisionTotpSecret(userCgnModel, otpSecretKey, userCgn),
+    TE.mapLeft(e =>
+      ResponseErrorInternal(`Cannot retrieve TOTP secret| ${e.message}`)
+    ),
+    TE.chain(secret =>
+      pipe(
+        getCurrentTotp(secret, now),
+        E.mapLeft(e =>
+          ResponseErrorInternal(`Cannot generate TOTP Code| ${e.message}`)
+        ),
+        TE.fromEither
+      )
+    )
+  );
+
+/**
+ * Returns the Redis OTP of the given scope if it is still valid,
+ * otherwise generates a new one. A still valid OTP is returned as is,
+ * whatever the max uses requested for the new one.
+ */
+const getOrGenerateRedisOtp = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode,
+  otpTtl: NonNegativeInteger,
+  otpGenerationLimits: IOtpGenerationLimits,
+  otpGenerationRequest: OtpGenerationRequest,
+  now: Date
+): TE.TaskEither<
+  IResponseErrorInternal | IResponseErrorTooManyRequests,
+  Otp
+> => {
+  const scope: OtpScope = {
+    discountId: otpGenerationRequest.discount_id,
+    merchantId: otpGenerationRequest.merchant_id
+  };
+  return pipe(
+    retrieveOtpByFiscalCode(redisClient, otpSecretKey, fiscalCode, scope),
+    TE.mapLeft(e =>
+      ResponseErrorInternal(`Cannot retrieve OTP from fiscalCode| ${e.message}`)
+    ),
+    TE.chainW(
+      O.fold(
+        () =>
+          checkLimitsAndGenerateNewOtp(
+            redisClient,
+            otpSecretKey,
+            fiscalCode,
+            otpTtl,
+            otpGenerationLimits,
+            scope,
+            (otpGenerationRequest.max_uses ??
+              DEFAULT_OTP_MAX_USES) as NonNegativeInteger,
+            now
+          ),
+        otp => TE.of(otp)
+      )
+    )
+  );
+};
+
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function GetGenerateOtpHandler(
   userCgnModel: UserCgnModel,
   redisClient: RedisClient,
-  otpTtl: NonNegativeInteger
+  otpSecretKey: NonEmptyString,
+  otpTtl: NonNegativeInteger,
+  otpGenerationLimits: IOtpGenerationLimits,
+  otpMode: OtpModeEnum,
+  clock: Clock
 ): IGetGenerateOtpHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-  return async (_, fiscalCode) =>
-    pipe(
-      userCgnModel.findLastVersionByModelId([fiscalCode]),
-      TE.mapLeft(() =>
-        ResponseErrorInternal("Error trying to retrieve user's CGN status")
+  return async (_, fiscalCode, maybeOtpGenerationRequest) => {
+    const now = clock();
+    const otpGenerationRequest = O.getOrElse((): OtpGenerationRequest => ({}))(
+      maybeOtpGenerationRequest
+    );
+    return pipe(
+      otpGenerationRequest,
+      // time-based OTPs are derived from the user secret only,
+      // so they cannot carry any scope nor usage limit
+      TE.fromPredicate(
+        ({ discount_id, max_uses, merchant_id }) =>
+          otpMode !== OtpModeEnum.TOTP ||
+          (discount_id === undefined &&
+            max_uses === undefined &&
+            merchant_id === undefined),
+        () =>
+          ResponseErrorValidation(
+            "Bad request",
+            "Scoped OTPs are not supported by time-based OTPs"
+          )
+      ),
+      TE.chainW(() =>
+        pipe(
+          userCgnModel.findLastVersionByModelId([fiscalCode]),
+          TE.mapLeft(() =>
+            ResponseErrorInternal("Error trying to retrieve user's CGN status")
+          )
+        )
       ),
       TE.chainW(TE.fromOption(() => ResponseErrorForbiddenNotAuthorized)),
       TE.chainW(
@@ -94,40 +309,49 @@ export function GetGenerateOtpHandler(
           () => ResponseErrorForbiddenNotAuthorized
         )
       ),
-      TE.chainW(() =>
-        pipe(
-          retrieveOtpByFiscalCode(redisClient, fiscalCode),
-          TE.mapLeft(e =>
-            ResponseErrorInternal(
-              `Cannot retrieve OTP from fiscalCode| ${e.message}`
+      TE.chainW(userCgn =>
+        otpMode === OtpModeEnum.TOTP
+          ? generateTotp(userCgnModel, otpSecretKey, userCgn, now)
+          : getOrGenerateRedisOtp(
+              redisClient,
+              otpSecretKey,
+              fiscalCode,
+              otpTtl,
+              otpGenerationLimits,
+              otpGenerationRequest,
+              now
             )
-          ),
-          TE.chain(
-            flow(
-              O.fold(
-                () => generateNewOtpAndStore(redisClient, fiscalCode, otpTtl),
-                otp => TE.of(otp)
-              )
-            )
-          )
-        )
       ),
       TE.map(ResponseSuccessJson),
       TE.toUnion
     )();
+  };
 }
 
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function GetGenerateOtp(
   userCgnModel: UserCgnModel,
   redisClient: RedisClient,
-  otpTtl: NonNegativeInteger
+  otpSecretKey: NonEmptyString,
+  otpTtl: NonNegativeInteger,
+  otpGenerationLimits: IOtpGenerationLimits,
+  otpMode: OtpModeEnum,
+  clock: Clock
 ): express.RequestHandler {
-  const handler = GetGenerateOtpHandler(userCgnModel, redisClient, otpTtl);
+  const handler = GetGenerateOtpHandler(
+    userCgnModel,
+    redisClient,
+    otpSecretKey,
+    otpTtl,
+    otpGenerationLimits,
+    otpMode,
+    clock
+  );
 
   const middlewaresWrap = withRequestMiddlewares(
     ContextMiddleware(),
-    RequiredParamMiddleware("fiscalcode", FiscalCode)
+    RequiredParamMiddleware("fiscalcode", FiscalCode),
+    OptionalBodyPayloadMiddleware(OtpGenerationRequest)
   );
 
   return wrapRequestHandler(middlewaresWrap(handler));
@@ -0,0 +1,142 @@
+import { randomBytes } from "crypto";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import { RedisClient } from "redis";
+import { deleteTask, evalTask } from "../utils/redis_storage";
+
+const OTP_GENERATIONS_PREFIX = "OTP_GENERATIONS_";
+
+const HOUR_IN_SECONDS = 60 * 60;
+const DAY_IN_SECONDS = 24 * HOUR_IN_SECONDS;
+
+// Discards the generations older than a day, then records a new one
+// only if neither the hourly nor the daily limit has been reached.
+// Returns no timestamp if the generation has been recorded, otherwise
+// the timestamps of the recorded generations in ascending order.
+// KEYS is the sorted set of the generations, while ARGV are the current
+// timestamp, the start of the hourly and daily windows, the hourly and
+// daily limits (zero disables a limit), a nonce and the ttl of the set
+const CHECK_AND_TRACK_OTP_GENERATION_SCRIPT = `
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", ARGV[3])
+local hourlyLimit = tonumber(ARGV[4])
+local dailyLimit = tonumber(ARGV[5])
+if (hourlyLimit > 0 and redis.call("ZCOUNT", KEYS[1], "(" .. ARGV[2], "+inf") >= hourlyLimit)
+  or (dailyLimit > 0 and redis.call("ZCARD", KEYS[1]) >= dailyLimit) then
+  local timestamps = {}
+  local generations = redis.call("ZRANGE", KEYS[1], 0, -1, "WITHSCORES")
+  for i = 2, #generations, 2 do
+    table.insert(timestamps, generations[i])
+  end
+  return timestamps
+end
+redis.call("ZADD", KEYS[1], ARGV[1], ARGV[6])
+redis.call("EXPIRE", KEYS[1], ARGV[7])
+return {}
+`;
+
+/**
+ * Deletes the OTP generations recorded for the given fiscalCode.
+ * A missing record is not an error, so that the deletion can be retried
+ */
+export const deleteOtpGenerations = (
+  redisClient: RedisClient,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, boolean> =>
+  deleteTask(redisClient, `${OTP_GENERATIONS_PREFIX}${fiscalCode}`);
+
+/**
+ * The maximum number of OTPs a citizen can generate within the
+ * last hour and within the last day. A zero value disables the limit.
+ */
+export interface IOtpGenerationLimits {
+  readonly dailyLimit: NonNegativeInteger;
+  readonly hourlyLimit: NonNegativeInteger;
+}
+
+/**
+ * Returns the number of seconds to wait before a new generation fits
+ * in the given window, if the window limit has already been reached.
+ *
+ * @param timestamps generation timestamps sorted in ascending order
+ */
+const getWindowRetryAfter = (
+  timestamps: ReadonlyArray<number>,
+  now: number,
+  limit: NonNegativeInteger,
+  windowInSeconds: number
+): O.Option<number> => {
+  const windowStart = now - windowInSeconds * 1000;
+  const inWindow = timestamps.filter(timestamp => timestamp > windowStart);
+  return limit > 0 && inWindow.length >= limit
+    ? // the window slides enough once the generation that exceeds
+      // the limit gets older than the window itself
+      O.some(
+        Math.max(
+          1,
+          Math.ceil((inWindow[inWindow.length - limit] - windowStart) / 1000)
+        )
+      )
+    : O.none;
+};
+
+/**
+ * Atomically checks the OTP generations of the given fiscalCode against
+ * the limits and, only if no limit is exceeded, records a new generation,
+ * so that concurrent requests cannot exceed the limits together.
+ * Generations are recorded as random nonces, as the sorted set is kept
+ * for a whole day and must not expose usable OTP codes.
+ * Returns the number of seconds the citizen has to wait before generating
+ * a new OTP, or none if the new generation has been recorded.
+ */
+export const checkAndTrackOtpGeneration = (
+  redisClient: RedisClient,
+  fiscalCode: FiscalCode,
+  limits: IOtpGenerationLimits,
+  now: Date
+): TE.TaskEither<Error, O.Option<number>> =>
+  pipe(
+    evalTask(
+      redisClient,
+      CHECK_AND_TRACK_OTP_GENERATION_SCRIPT,
+      [`${OTP_GENERATIONS_PREFIX}${fiscalCode}`],
+      [
+        now.getTime(),
+        now.getTime() - HOUR_IN_SECONDS * 1000,
+        now.getTime() - DAY_IN_SECONDS * 1000,
+        limits.hourlyLimit,
+        limits.dailyLimit,
+        randomBytes(16).toString("hex"),
+        DAY_IN_SECONDS
+      ]
+    ),
+    TE.chain(reply =>
+      Array.isArray(reply)
+        ? TE.of(reply.map(Number))
+        : TE.left(new Error("Unexpected OTP generation limits reply"))
+    ),
+    TE.map(timestamps =>
+      pipe(
+        RA.compact([
+          getWindowRetryAfter(
+            timestamps,
+            now.getTime(),
+            limits.hourlyLimit,
+            HOUR_IN_SECONDS
+          ),
+          getWindowRetryAfter(
+            timestamps,
+            now.getTime(),
+            limits.dailyLimit,
+            DAY_IN_SECONDS
+          )
+        ]),
+        // the citizen has to wait until every exceeded window slides enough
+        O.fromPredicate(retryAfters => retryAfters.length > 0),
+        O.map(retryAfters => Math.max(...retryAfters))
+      )
+    )
+  );
@@ -1,82 +1,245 @@
 import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
-import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import * as E from "fp-ts/lib/Either";
-import { pipe } from "fp-ts/lib/function";
+import { flow, pipe } from "fp-ts/lib/function";
 import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
 import * as TE from "fp-ts/lib/TaskEither";
 import * as t from "io-ts";
 import { RedisClient } from "redis";
+import { DiscountId } from "../generated/definitions/DiscountId";
+import { MerchantId } from "../generated/definitions/MerchantId";
 import { Otp } from "../generated/definitions/Otp";
 import { OtpCode } from "../generated/definitions/OtpCode";
 import { Timestamp } from "../generated/definitions/Timestamp";
 import { errorsToError } from "../utils/conversions";
-import { getTask, setWithExpirationTask } from "../utils/redis_storage";
+import { decrypt, encrypt } from "../utils/encryption";
+import { toKeyedHash } from "../utils/hash";
+import {
+  deleteTask,
+  evalTask,
+  getSetMembersTask,
+  getTask,
+  setIfNotExistsWithExpirationTask
+} from "../utils/redis_storage";
 
-export const OtpPayload = t.interface({
-  expiresAt: Timestamp,
-  fiscalCode: FiscalCode,
-  ttl: NonNegativeInteger
+/**
+ * Restricts an OTP to a single merchant and/or discount.
+ * An empty scope makes the OTP redeemable anywhere.
+ */
+export const OtpScope = t.partial({
+  discountId: DiscountId,
+  merchantId: MerchantId
 });
 
+export type OtpScope = t.TypeOf<typeof OtpScope>;
+
+export const OtpPayload = t.intersection([
+  t.interface({
+    expiresAt: Timestamp,
+    fiscalCode: FiscalCode,
+    ttl: NonNegativeInteger
+  }),
+  OtpScope,
+  t.partial({
+    // payloads without maxUses are single use
+    maxUses: NonNegativeInteger
+  })
+]);
+
 export type OtpPayload = t.TypeOf<typeof OtpPayload>;
 
-const OTP_FISCAL_CODE_PREFIX = "OTP_FISCALCODE_";
-const OTP_PREFIX = "OTP_";
+// every OTP key shares the same hashtag, so that in cluster mode they are
+// stored in the same slot and the OTP and its fiscalCode keys can be written
+// together by a single script: an OTP is never redeemable without being
+// reachable from the citizen, who could not have it invalidated otherwise.
+// The trade-off is that every OTP lives in the same slot, which is fine
+// since OTPs are small and short lived.
+// The plaintext `OTP_<code>` and `OTP_FISCALCODE_<fiscalCode>` keys stored
+// before are not read anymore: they expire within OTP_TTL_IN_SECONDS,
+// so the OTPs still valid at the deploy cannot be redeemed and the citizens
+// have to generate new ones.
+// @see https://redis.io/topics/cluster-spec#keys-hash-tags
+const OTP_KEYS_HASHTAG = "{cgn_otp}";
+const OTP_FISCAL_CODE_PREFIX = `${OTP_KEYS_HASHTAG}OTP_FISCALCODE_`;
+const OTP_FISCAL_CODE_KEYS_PREFIX = `${OTP_KEYS_HASHTAG}OTP_FISCALCODE_KEYS_`;
+const OTP_PREFIX = `${OTP_KEYS_HASHTAG}OTP_`;
+const OTP_USES_PREFIX = `${OTP_KEYS_HASHTAG}OTP_USES_`;
+const TOTP_CONSUMED_PREFIX = "TOTP_CONSUMED_";
+
+// Stores the OTP payload only if no other OTP with the same code exists,
+// then links the OTP to the fiscalCode through the key of its scope and
+// tracks that key among the fiscalCode ones. Returns 1 if stored, 0 on collision.
+// KEYS are the OTP key, the fiscalCode key of the scope, the uses key and
+// the set of fiscalCode keys, while ARGV are the payload, the encrypted
+// OTP code, the ttl and the max uses
+const STORE_OTP_SCRIPT = `
+if redis.call("SET", KEYS[1], ARGV[1], "NX", "EX", ARGV[3]) then
+  redis.call("SET", KEYS[2], ARGV[2], "EX", ARGV[3])
+  redis.call("SET", KEYS[3], ARGV[4], "EX", ARGV[3])
+  redis.call("SADD", KEYS[4], KEYS[2])
+  if redis.call("TTL", KEYS[4]) < tonumber(ARGV[3]) then
+    redis.call("EXPIRE", KEYS[4], ARGV[3])
+  end
+  return 1
+end
+return 0
+`;
+
+// Consumes a single use of the OTP, removing it once its uses run out.
+// OTPs stored without a uses counter are single use.
+// Returns 1 if a use has been consumed, 0 if the OTP does not exist.
+// KEYS are the OTP and uses keys
+const CONSUME_OTP_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  return 0
+end
+if redis.call("EXISTS", KEYS[2]) == 1 and redis.call("DECR", KEYS[2]) > 0 then
+  return 1
+end
+redis.call("DEL", KEYS[2])
+return redis.call("DEL", KEYS[1])
+`;
+
+// OTP codes are never stored in plaintext: the lookup key is an HMAC
+// of the code, while the fiscalCode key holds the encrypted code
+const toOtpKey = (otpSecretKey: NonEmptyString, otpCode: OtpCode): string =>
+  `${OTP_PREFIX}${toKeyedHash(otpSecretKey, otpCode)}`;
+
+const toOtpUsesKey = (otpSecretKey: NonEmptyString, otpCode: OtpCode): string =>
+  `${OTP_USES_PREFIX}${toKeyedHash(otpSecretKey, otpCode)}`;
+
+// every scope gets its own key so that a citizen can hold
+// many concurrent OTPs, one for each merchant and discount
+const toOtpFiscalCodeKey = (
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode,
+  scope: OtpScope
+): string =>
+  scope.merchantId === undefined && scope.discountId === undefined
+    ? `${OTP_FISCAL_CODE_PREFIX}${fiscalCode}`
+    : `${OTP_FISCAL_CODE_PREFIX}${fiscalCode}_${toKeyedHash(
+        otpSecretKey,
+        JSON.stringify([scope.merchantId ?? "", scope.discountId ?? ""])
+      )}`;
+
+const toOtpFiscalCodeKeysKey = (fiscalCode: FiscalCode): string =>
+  `${OTP_FISCAL_CODE_KEYS_PREFIX}${fiscalCode}`;
 
+/**
+ * Atomically stores a new OTP and links it to the related fiscalCode
+ * within the OTP scope, replacing any previous OTP of the same scope.
+ * Resolves to false, without storing anything, if the OTP code is
+ * already in use so that the caller can retry with a new code.
+ */
 export const storeOtpAndRelatedFiscalCode = (
   redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
   otpCode: OtpCode,
   payload: OtpPayload,
   otpTtl: NonNegativeInteger
-): TE.TaskEither<Error, true> =>
+): TE.TaskEither<Error, boolean> =>
   pipe(
-    setWithExpirationTask(
+    evalTask(
       redisClient,
-      `${OTP_PREFIX}${otpCode}`,
-      JSON.stringify(payload),
-      otpTtl
+      STORE_OTP_SCRIPT,
+      [
+        toOtpKey(otpSecretKey, otpCode),
+        toOtpFiscalCodeKey(otpSecretKey, payload.fiscalCode, payload),
+        toOtpUsesKey(otpSecretKey, otpCode),
+        toOtpFiscalCodeKeysKey(payload.fiscalCode)
+      ],
+      [
+        JSON.stringify(payload),
+        encrypt(otpSecretKey, otpCode),
+        otpTtl,
+        payload.maxUses ?? 1
+      ]
     ),
-    TE.chain(() =>
-      setWithExpirationTask(
-        redisClient,
-        `${OTP_FISCAL_CODE_PREFIX}${payload.fiscalCode}`,
-        otpCode,
-        otpTtl
+    TE.map(reply => reply === 1)
+  );
+
+/**
+ * Retrieves the OTP code linked by the given fiscalCode key, if any.
+ */
+const retrieveOtpCodeByFiscalCodeKey = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  fiscalCodeKey: string
+): TE.TaskEither<Error, O.Option<OtpCode>> =>
+  pipe(
+    getTask(redisClient, fiscalCodeKey),
+    TE.chain(
+      O.fold(
+        () => TE.of(O.none),
+        encryptedOtpCode =>
+          pipe(
+            decrypt(otpSecretKey, encryptedOtpCode),
+            E.chain(flow(OtpCode.decode, E.mapLeft(errorsToError))),
+            E.map(O.some),
+            TE.fromEither
+          )
       )
     )
   );
 
+/**
+ * Retrieves the payload stored for the given OTP code, if any.
+ */
+export const retrieveOtpPayloadByCode = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  otpCode: OtpCode
+): TE.TaskEither<Error, O.Option<OtpPayload>> =>
+  pipe(
+    getTask(redisClient, toOtpKey(otpSecretKey, otpCode)),
+    TE.chain(
+      O.fold(
+        () => TE.of(O.none),
+        otpPayloadString =>
+          pipe(
+            E.tryCatch(() => JSON.parse(otpPayloadString), E.toError),
+            E.chain(flow(OtpPayload.decode, E.mapLeft(errorsToError))),
+            E.map(O.some),
+            TE.fromEither
+          )
+      )
+    )
+  );
+
+/**
+ * Retrieves the OTP of the given fiscalCode within the given scope, if any.
+ */
 export const retrieveOtpByFiscalCode = (
   redisClient: RedisClient,
-  fiscalCode: FiscalCode
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode,
+  scope: OtpScope
 ): TE.TaskEither<Error, O.Option<Otp>> =>
   pipe(
-    getTask(redisClient, `${OTP_FISCAL_CODE_PREFIX}${fiscalCode}`),
+    retrieveOtpCodeByFiscalCodeKey(
+      redisClient,
+      otpSecretKey,
+      toOtpFiscalCodeKey(otpSecretKey, fiscalCode, scope)
+    ),
     TE.chain(
       O.fold(
         () => TE.of(O.none),
         otpCode =>
           pipe(
-            getTask(redisClient, `${OTP_PREFIX}${otpCode}`),
+            retrieveOtpPayloadByCode(redisClient, otpSecretKey, otpCode),
             TE.chain(
               O.fold(
                 () => TE.of(O.none),
-                otpPayloadString =>
+                otpPayload =>
                   pipe(
-                    TE.fromEither(
-                      E.tryCatch(() => JSON.parse(otpPayloadString), E.toError)
-                    ),
-                    TE.chain(otpPayload =>
-                      pipe(
-                        Otp.decode({
-                          code: otpCode,
-                          expires_at: otpPayload.expiresAt,
-                          ttl: otpPayload.ttl
-                        }),
-                        TE.fromEither,
-                        TE.bimap(errorsToError, O.some)
-                      )
-                    )
+                    Otp.decode({
+                      code: otpCode,
+                      expires_at: otpPayload.expiresAt,
+                      ttl: otpPayload.ttl
+                    }),
+                    TE.fromEither,
+                    TE.bimap(errorsToError, O.some)
                   )
               )
             )
@@ -84,3 +247,135 @@ export const retrieveOtpByFiscalCode = (
       )
     )
   );
+
+/**
+ * Consumes a single use of an OTP code, removing it from Redis once
+ * its uses run out. Since the script is atomic concurrent redemptions
+ * never consume more uses than the available ones: once the OTP is
+ * removed every other redemption gets false.
+ */
+export const consumeOtp = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  otpCode: OtpCode
+): TE.TaskEither<Error, boolean> =>
+  pipe(
+    evalTask(
+      redisClient,
+      CONSUME_OTP_SCRIPT,
+      [toOtpKey(otpSecretKey, otpCode), toOtpUsesKey(otpSecretKey, otpCode)],
+      []
+    ),
+    TE.map(reply => reply === 1)
+  );
+
+/**
+ * Returns the keys linking the given fiscalCode to its OTPs, whatever their scope.
+ */
+const retrieveOtpFiscalCodeKeys = (
+  redisClient: RedisClient,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, ReadonlyArray<string>> =>
+  getSetMembersTask(redisClient, toOtpFiscalCodeKeysKey(fiscalCode));
+
+/**
+ * Removes the OTP linked by the given fiscalCode key together with
+ * its uses counter and the key itself.
+ */
+const deleteOtpByFiscalCodeKey = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  fiscalCodeKey: string
+): TE.TaskEither<Error, true> =>
+  pipe(
+    retrieveOtpCodeByFiscalCodeKey(redisClient, otpSecretKey, fiscalCodeKey),
+    TE.chain(
+      O.fold(
+        () => TE.of(true),
+        otpCode =>
+          pipe(
+            deleteTask(redisClient, toOtpKey(otpSecretKey, otpCode)),
+            TE.chain(() =>
+              deleteTask(redisClient, toOtpUsesKey(otpSecretKey, otpCode))
+            )
+          )
+      )
+    ),
+    TE.chain(() => deleteTask(redisClient, fiscalCodeKey)),
+    TE.map(() => true as const)
+  );
+
+/**
+ * Removes every OTP related to the given fiscalCode, whatever its scope,
+ * together with the reverse lookup keys, so that none of them
+ * can be used anymore.
+ */
+export const deleteOtpByFiscalCode = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, true> =>
+  pipe(
+    retrieveOtpFiscalCodeKeys(redisClient, fiscalCode),
+    TE.chain(
+      RA.traverse(TE.ApplicativeSeq)(fiscalCodeKey =>
+        deleteOtpByFiscalCodeKey(redisClient, otpSecretKey, fiscalCodeKey)
+      )
+    ),
+    TE.chain(() => deleteTask(redisClient, toOtpFiscalCodeKeysKey(fiscalCode))),
+    TE.map(() => true as const)
+  );
+
+/**
+ * Retrieves the payloads of every OTP of the given fiscalCode which is still
+ * valid, whatever its scope, without the OTP codes themselves.
+ */
+export const retrieveOtpPayloadsByFiscalCode = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, ReadonlyArray<OtpPayload>> =>
+  pipe(
+    retrieveOtpFiscalCodeKeys(redisClient, fiscalCode),
+    TE.chain(
+      RA.traverse(TE.ApplicativeSeq)(fiscalCodeKey =>
+        pipe(
+          retrieveOtpCodeByFiscalCodeKey(
+            redisClient,
+            otpSecretKey,
+            fiscalCodeKey
+          ),
+          TE.chain(
+            O.fold(
+              () => TE.of(O.none),
+              otpCode =>
+                retrieveOtpPayloadByCode(redisClient, otpSecretKey, otpCode)
+            )
+          )
+        )
+      )
+    ),
+    TE.map(RA.compact)
+  );
+
+/**
+ * Marks the TOTP code of the given counter as consumed.
+ * A TOTP code is accepted for the whole skew window, so it is remembered
+ * for at least as long and only its first redemption gets true.
+ */
+export const consumeTotp = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode,
+  counter: number,
+  expirationInSeconds: number
+): TE.TaskEither<Error, boolean> =>
+  setIfNotExistsWithExpirationTask(
+    redisClient,
+    `${TOTP_CONSUMED_PREFIX}${toKeyedHash(
+      otpSecretKey,
+      `${fiscalCode}_${counter}`
+    )}`,
+    "1",
+    expirationInSeconds
+  );
@@ -0,0 +1,77 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as df from "durable-functions";
+import { context, mockGetStatus } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { GetCardExpirationMigrationHandler } from "../handler";
+
+const aMigration = {
+  affected_cards: 2,
+  failed_cards: [aFiscalCode],
+  migrated_cards: 1,
+  skipped_cards: []
+};
+
+const aReport = {
+  cgn: aMigration,
+  completed_at: "2021-01-01T10:00:05.000Z",
+  eyca: aMigration,
+  started_at: "2021-01-01T10:00:00.000Z"
+};
+
+const getCardExpirationMigrationHandler = GetCardExpirationMigrationHandler();
+
+describe("GetCardExpirationMigration", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the report of a completed migration", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      output: aReport,
+      runtimeStatus: df.OrchestrationRuntimeStatus.Completed
+    }));
+    const response = await getCardExpirationMigrationHandler(context);
+    expect(mockGetStatus).toHaveBeenCalledWith("CARD-EXPIRATION-MIGRATION");
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: {
+          ...aReport,
+          completed_at: new Date(aReport.completed_at),
+          started_at: new Date(aReport.started_at)
+        }
+      })
+    );
+  });
+
+  it("should return Accepted if the migration is still running", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      runtimeStatus: df.OrchestrationRuntimeStatus.Running
+    }));
+    const response = await getCardExpirationMigrationHandler(context);
+    expect(response.kind).toBe("IResponseSuccessAccepted");
+  });
+
+  it("should return Not Found if no migration has been started", async () => {
+    mockGetStatus.mockImplementationOnce(async () => undefined);
+    const response = await getCardExpirationMigrationHandler(context);
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return an Internal Error if the migration failed", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      output: false,
+      runtimeStatus: df.OrchestrationRuntimeStatus.Completed
+    }));
+    const response = await getCardExpirationMigrationHandler(context);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return an Internal Error if the migration status cannot be retrieved", async () => {
+    mockGetStatus.mockImplementationOnce(() =>
+      Promise.reject(new Error("Cannot get status"))
+    );
+    const response = await getCardExpirationMigrationHandler(context);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
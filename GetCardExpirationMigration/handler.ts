@@ -0,0 +1,97 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessAccepted,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessAccepted,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import * as df from "durable-functions";
+import { DurableOrchestrationStatus } from "durable-functions/lib/src/durableorchestrationstatus";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { CardExpirationMigrationReport } from "../generated/definitions/CardExpirationMigrationReport";
+import {
+  CARD_EXPIRATION_MIGRATION_ORCHESTRATOR_ID,
+  getOrchestratorStatus
+} from "../utils/orchestrators";
+
+type ResponseTypes =
+  | IResponseSuccessJson<CardExpirationMigrationReport>
+  | IResponseSuccessAccepted
+  | IResponseErrorNotFound
+  | IResponseErrorInternal;
+
+type IGetCardExpirationMigrationHandler = (
+  context: Context
+) => Promise<ResponseTypes>;
+
+const inProgressStatuses: ReadonlyArray<string> = [
+  df.OrchestrationRuntimeStatus.Pending,
+  df.OrchestrationRuntimeStatus.Running,
+  df.OrchestrationRuntimeStatus.ContinuedAsNew
+];
+
+/**
+ * Returns the report of a migration, which is the output
+ * of its orchestrator once it has been completed successfully.
+ */
+const toMigrationReport = (
+  orchestrationStatus: DurableOrchestrationStatus
+): TE.TaskEither<
+  IResponseSuccessAccepted | IResponseErrorInternal,
+  CardExpirationMigrationReport
+> =>
+  inProgressStatuses.includes(orchestrationStatus.runtimeStatus)
+    ? TE.left(ResponseSuccessAccepted("", undefined))
+    : pipe(
+        orchestrationStatus.output,
+        CardExpirationMigrationReport.decode,
+        TE.fromEither,
+        TE.mapLeft(() =>
+          ResponseErrorInternal(
+            `The migration has not been completed|STATUS=${orchestrationStatus.runtimeStatus}`
+          )
+        )
+      );
+
+export const GetCardExpirationMigrationHandler = (): IGetCardExpirationMigrationHandler => async (
+  context
+): Promise<ResponseTypes> =>
+  pipe(
+    getOrchestratorStatus(
+      df.getClient(context),
+      CARD_EXPIRATION_MIGRATION_ORCHESTRATOR_ID
+    ),
+    TE.mapLeft(() => ResponseErrorInternal("Cannot retrieve migration status")),
+    TE.chainW(
+      flow(
+        O.fromNullable,
+        TE.fromOption(() =>
+          ResponseErrorNotFound("Not Found", "No migration found")
+        )
+      )
+    ),
+    TE.chainW(toMigrationReport),
+    TE.map(ResponseSuccessJson),
+    TE.toUnion
+  )();
+
+export const GetCardExpirationMigration = (): express.RequestHandler => {
+  const handler = GetCardExpirationMigrationHandler();
+
+  const middlewaresWrap = withRequestMiddlewares(ContextMiddleware());
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
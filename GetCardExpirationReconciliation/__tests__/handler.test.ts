@@ -0,0 +1,85 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as df from "durable-functions";
+import { context, mockGetStatus } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { maskFiscalCode } from "../../utils/conversions";
+import { GetCardExpirationReconciliationHandler } from "../handler";
+
+const aReconciliation = {
+  active_cards: 2,
+  missing_expirations: {
+    count: 1,
+    masked_fiscal_codes: [maskFiscalCode(aFiscalCode)]
+  },
+  orphaned_expirations: { count: 0, masked_fiscal_codes: [] },
+  overdue_cards: { count: 0, masked_fiscal_codes: [] },
+  restored_expirations: 0
+};
+
+const aReport = {
+  cgn: aReconciliation,
+  completed_at: "2021-01-01T10:00:05.000Z",
+  dry_run: true,
+  eyca: aReconciliation,
+  started_at: "2021-01-01T10:00:00.000Z"
+};
+
+const getCardExpirationReconciliationHandler = GetCardExpirationReconciliationHandler();
+
+describe("GetCardExpirationReconciliation", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the report of a completed reconciliation", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      output: aReport,
+      runtimeStatus: df.OrchestrationRuntimeStatus.Completed
+    }));
+    const response = await getCardExpirationReconciliationHandler(context);
+    expect(mockGetStatus).toHaveBeenCalledWith(
+      "CARD-EXPIRATION-RECONCILIATION"
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: {
+          ...aReport,
+          completed_at: new Date(aReport.completed_at),
+          started_at: new Date(aReport.started_at)
+        }
+      })
+    );
+  });
+
+  it("should return Accepted if the reconciliation is still running", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      runtimeStatus: df.OrchestrationRuntimeStatus.Running
+    }));
+    const response = await getCardExpirationReconciliationHandler(context);
+    expect(response.kind).toBe("IResponseSuccessAccepted");
+  });
+
+  it("should return Not Found if no reconciliation has been started", async () => {
+    mockGetStatus.mockImplementationOnce(async () => undefined);
+    const response = await getCardExpirationReconciliationHandler(context);
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return an Internal Error if the reconciliation failed", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      output: false,
+      runtimeStatus: df.OrchestrationRuntimeStatus.Completed
+    }));
+    const response = await getCardExpirationReconciliationHandler(context);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return an Internal Error if the reconciliation status cannot be retrieved", async () => {
+    mockGetStatus.mockImplementationOnce(() =>
+      Promise.reject(new Error("Cannot get status"))
+    );
+    const response = await getCardExpirationReconciliationHandler(context);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
@@ -0,0 +1,99 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessAccepted,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessAccepted,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import * as df from "durable-functions";
+import { DurableOrchestrationStatus } from "durable-functions/lib/src/durableorchestrationstatus";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { CardExpirationReconciliationReport } from "../generated/definitions/CardExpirationReconciliationReport";
+import {
+  CARD_EXPIRATION_RECONCILIATION_ORCHESTRATOR_ID,
+  getOrchestratorStatus
+} from "../utils/orchestrators";
+
+type ResponseTypes =
+  | IResponseSuccessJson<CardExpirationReconciliationReport>
+  | IResponseSuccessAccepted
+  | IResponseErrorNotFound
+  | IResponseErrorInternal;
+
+type IGetCardExpirationReconciliationHandler = (
+  context: Context
+) => Promise<ResponseTypes>;
+
+const inProgressStatuses: ReadonlyArray<string> = [
+  df.OrchestrationRuntimeStatus.Pending,
+  df.OrchestrationRuntimeStatus.Running,
+  df.OrchestrationRuntimeStatus.ContinuedAsNew
+];
+
+/**
+ * Returns the report of a reconciliation, which is the output
+ * of its orchestrator once it has been completed successfully.
+ */
+const toReconciliationReport = (
+  orchestrationStatus: DurableOrchestrationStatus
+): TE.TaskEither<
+  IResponseSuccessAccepted | IResponseErrorInternal,
+  CardExpirationReconciliationReport
+> =>
+  inProgressStatuses.includes(orchestrationStatus.runtimeStatus)
+    ? TE.left(ResponseSuccessAccepted("", undefined))
+    : pipe(
+        orchestrationStatus.output,
+        CardExpirationReconciliationReport.decode,
+        TE.fromEither,
+        TE.mapLeft(() =>
+          ResponseErrorInternal(
+            `The reconciliation has not been completed|STATUS=${orchestrationStatus.runtimeStatus}`
+          )
+        )
+      );
+
+export const GetCardExpirationReconciliationHandler = (): IGetCardExpirationReconciliationHandler => async (
+  context
+): Promise<ResponseTypes> =>
+  pipe(
+    getOrchestratorStatus(
+      df.getClient(context),
+      CARD_EXPIRATION_RECONCILIATION_ORCHESTRATOR_ID
+    ),
+    TE.mapLeft(() =>
+      ResponseErrorInternal("Cannot retrieve reconciliation status")
+    ),
+    TE.chainW(
+      flow(
+        O.fromNullable,
+        TE.fromOption(() =>
+          ResponseErrorNotFound("Not Found", "No reconciliation found")
+        )
+      )
+    ),
+    TE.chainW(toReconciliationReport),
+    TE.map(ResponseSuccessJson),
+    TE.toUnion
+  )();
+
+export const GetCardExpirationReconciliation = (): express.RequestHandler => {
+  const handler = GetCardExpirationReconciliationHandler();
+
+  const middlewaresWrap = withRequestMiddlewares(ContextMiddleware());
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
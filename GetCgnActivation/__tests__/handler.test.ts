@@ -23,7 +23,7 @@ import { UserCgn } from "../../models/user_cgn";
 import * as orchUtils from "../../utils/orchestrators";
 import { GetCgnActivationHandler } from "../handler";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const aUserCgnId = "AN_ID" as NonEmptyString;
 
 const anInstanceId = {
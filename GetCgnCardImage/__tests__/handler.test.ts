@@ -0,0 +1,144 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { addDays, addHours } from "date-fns";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode, cgnActivatedDates } from "../../__mocks__/mock";
+import {
+  CardActivated,
+  StatusEnum as ActivatedStatusEnum
+} from "../../generated/definitions/CardActivated";
+import {
+  CardPending,
+  StatusEnum as PendingStatusEnum
+} from "../../generated/definitions/CardPending";
+import { UserCgn } from "../../models/user_cgn";
+import { BarcodeImageOptions } from "../../utils/barcode_image";
+import { systemClock } from "../../utils/clock";
+import { GetCgnCardImageHandler } from "../handler";
+
+const anActivatedCgn: CardActivated = {
+  ...cgnActivatedDates,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const aPendingCgn: CardPending = {
+  status: PendingStatusEnum.PENDING
+};
+
+const aUserCgn: UserCgn = {
+  card: anActivatedCgn,
+  fiscalCode: aFiscalCode,
+  id: "AN_ID" as NonEmptyString
+};
+
+const aPngImageOptions = { format: "png" } as BarcodeImageOptions;
+
+const findLastVersionByModelIdMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(O.some(aUserCgn)));
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock
+};
+
+const mockExpressResponse = () => {
+  const res = {
+    send: jest.fn(),
+    set: jest.fn(),
+    status: jest.fn()
+  };
+  res.set.mockImplementation(() => res);
+  res.status.mockImplementation(() => res);
+  return res;
+};
+
+describe("GetCgnCardImageHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return an internal error if user's CGN retrieve fails", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.left(new Error("Query Error"))
+    );
+    const handler = GetCgnCardImageHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await handler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return not found if no userCgn is found", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() => TE.of(O.none));
+    const handler = GetCgnCardImageHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await handler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return forbidden if the card is not activated", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aUserCgn, card: aPendingCgn }))
+    );
+    const handler = GetCgnCardImageHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await handler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+  });
+
+  it("should return the card code image cacheable for a day", async () => {
+    const handler = GetCgnCardImageHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await handler(context, aFiscalCode, aPngImageOptions);
+    expect(response.kind).toBe("IResponseSuccessImage");
+    if (response.kind === "IResponseSuccessImage") {
+      expect(response.contentType).toBe("image/png");
+      const res = mockExpressResponse();
+      response.apply(res as any);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.set).toHaveBeenCalledWith("Content-Type", "image/png");
+      expect(res.set).toHaveBeenCalledWith(
+        "Cache-Control",
+        "private, max-age=86400"
+      );
+      expect(res.send).toHaveBeenCalledWith(response.content);
+    }
+  });
+
+  it("should not cache the card code image after the card expiration", async () => {
+    const expirationDate = addHours(new Date(), 1);
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...aUserCgn,
+          card: { ...anActivatedCgn, expiration_date: expirationDate }
+        })
+      )
+    );
+    const handler = GetCgnCardImageHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await handler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseSuccessImage");
+    const res = mockExpressResponse();
+    response.apply(res as any);
+    expect(res.set).toHaveBeenCalledWith(
+      "Expires",
+      expirationDate.toUTCString()
+    );
+    expect(res.set).not.toHaveBeenCalledWith(
+      "Expires",
+      addDays(new Date(), 1).toUTCString()
+    );
+  });
+});
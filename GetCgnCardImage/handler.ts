@@ -0,0 +1,104 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorForbiddenNotAuthorized,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  ResponseErrorForbiddenNotAuthorized,
+  ResponseErrorInternal,
+  ResponseErrorNotFound
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { CardActivated } from "../generated/definitions/CardActivated";
+import { UserCgnModel } from "../models/user_cgn";
+import {
+  BarcodeImageOptions,
+  toBarcodeImageResponse
+} from "../utils/barcode_image";
+import { Clock } from "../utils/clock";
+import { QueryParamsMiddleware } from "../utils/middlewares";
+import { IResponseSuccessImage } from "../utils/responses";
+
+type ResponseTypes =
+  | IResponseSuccessImage
+  | IResponseErrorForbiddenNotAuthorized
+  | IResponseErrorNotFound
+  | IResponseErrorValidation
+  | IResponseErrorInternal;
+
+type IGetCgnCardImageHandler = (
+  context: Context,
+  fiscalCode: FiscalCode,
+  options: BarcodeImageOptions
+) => Promise<ResponseTypes>;
+
+// the card code never changes, but the card could be revoked at any time
+const CARD_IMAGE_MAX_CACHE_IN_DAYS = 1;
+
+export const GetCgnCardImageHandler = (
+  userCgnModel: UserCgnModel,
+  clock: Clock
+): IGetCgnCardImageHandler => async (
+  _,
+  fiscalCode,
+  options
+): Promise<ResponseTypes> =>
+  pipe(
+    userCgnModel.findLastVersionByModelId([fiscalCode]),
+    TE.mapLeft(() =>
+      ResponseErrorInternal("Error trying to retrieve user's CGN status")
+    ),
+    TE.chainW(
+      TE.fromOption(() =>
+        ResponseErrorNotFound("Not Found", "User's CGN status not found")
+      )
+    ),
+    TE.chainW(userCgn =>
+      pipe(
+        userCgn.card,
+        TE.fromPredicate(
+          CardActivated.is,
+          () => ResponseErrorForbiddenNotAuthorized
+        ),
+        TE.chainEitherKW(card => {
+          const now = clock();
+          return toBarcodeImageResponse(
+            userCgn.id,
+            options,
+            date_fns.min([
+              card.expiration_date,
+              date_fns.addDays(now, CARD_IMAGE_MAX_CACHE_IN_DAYS)
+            ]),
+            now
+          );
+        })
+      )
+    ),
+    TE.toUnion
+  )();
+
+export const GetCgnCardImage = (
+  userCgnModel: UserCgnModel,
+  clock: Clock
+): express.RequestHandler => {
+  const handler = GetCgnCardImageHandler(userCgnModel, clock);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode),
+    QueryParamsMiddleware(BarcodeImageOptions)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -0,0 +1,93 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as df from "durable-functions";
+import { context, mockGetStatus } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { GetCgnDataErasureReceiptHandler } from "../handler";
+
+const aReceipt = {
+  completed_at: "2021-01-01T10:00:05.000Z",
+  erased_items: {
+    cgn_expirations: 1,
+    eyca_expirations: 0,
+    orchestrations: 2,
+    user_cgns: 3,
+    user_eyca_cards: 0
+  },
+  fiscal_code: aFiscalCode,
+  instance_id: `${aFiscalCode}-ERASURE`,
+  requested_at: "2021-01-01T10:00:00.000Z",
+  signature: "A_SIGNATURE"
+};
+
+const getCgnDataErasureReceiptHandler = GetCgnDataErasureReceiptHandler();
+
+describe("GetCgnDataErasureReceipt", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the receipt of a completed erasure", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      output: aReceipt,
+      runtimeStatus: df.OrchestrationRuntimeStatus.Completed
+    }));
+    const response = await getCgnDataErasureReceiptHandler(
+      context,
+      aFiscalCode
+    );
+    expect(mockGetStatus).toHaveBeenCalledWith(`${aFiscalCode}-ERASURE`);
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: {
+          ...aReceipt,
+          completed_at: new Date(aReceipt.completed_at),
+          requested_at: new Date(aReceipt.requested_at)
+        }
+      })
+    );
+  });
+
+  it("should return Accepted if the erasure is still running", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      runtimeStatus: df.OrchestrationRuntimeStatus.Running
+    }));
+    const response = await getCgnDataErasureReceiptHandler(
+      context,
+      aFiscalCode
+    );
+    expect(response.kind).toBe("IResponseSuccessAccepted");
+  });
+
+  it("should return Not Found if no erasure has been started", async () => {
+    mockGetStatus.mockImplementationOnce(async () => undefined);
+    const response = await getCgnDataErasureReceiptHandler(
+      context,
+      aFiscalCode
+    );
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return an Internal Error if the erasure failed", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      output: false,
+      runtimeStatus: df.OrchestrationRuntimeStatus.Completed
+    }));
+    const response = await getCgnDataErasureReceiptHandler(
+      context,
+      aFiscalCode
+    );
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return an Internal Error if the erasure status cannot be retrieved", async () => {
+    mockGetStatus.mockImplementationOnce(() =>
+      Promise.reject(new Error("Cannot get status"))
+    );
+    const response = await getCgnDataErasureReceiptHandler(
+      context,
+      aFiscalCode
+    );
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
@@ -0,0 +1,104 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessAccepted,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessAccepted,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as df from "durable-functions";
+import { DurableOrchestrationStatus } from "durable-functions/lib/src/durableorchestrationstatus";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { CgnDataErasureReceipt } from "../generated/definitions/CgnDataErasureReceipt";
+import {
+  getOrchestratorStatus,
+  makeCgnDataErasureOrchestratorId
+} from "../utils/orchestrators";
+
+type ResponseTypes =
+  | IResponseSuccessJson<CgnDataErasureReceipt>
+  | IResponseSuccessAccepted
+  | IResponseErrorNotFound
+  | IResponseErrorInternal;
+
+type IGetCgnDataErasureReceiptHandler = (
+  context: Context,
+  fiscalCode: FiscalCode
+) => Promise<ResponseTypes>;
+
+const inProgressStatuses: ReadonlyArray<string> = [
+  df.OrchestrationRuntimeStatus.Pending,
+  df.OrchestrationRuntimeStatus.Running,
+  df.OrchestrationRuntimeStatus.ContinuedAsNew
+];
+
+/**
+ * Returns the receipt of an erasure, which is the output
+ * of its orchestrator once it has been completed successfully.
+ */
+const toErasureReceipt = (
+  orchestrationStatus: DurableOrchestrationStatus
+): TE.TaskEither<
+  IResponseSuccessAccepted | IResponseErrorInternal,
+  CgnDataErasureReceipt
+> =>
+  inProgressStatuses.includes(orchestrationStatus.runtimeStatus)
+    ? TE.left(ResponseSuccessAccepted("", undefined))
+    : pipe(
+        orchestrationStatus.output,
+        CgnDataErasureReceipt.decode,
+        TE.fromEither,
+        TE.mapLeft(() =>
+          ResponseErrorInternal(
+            `The erasure has not been completed|STATUS=${orchestrationStatus.runtimeStatus}`
+          )
+        )
+      );
+
+export const GetCgnDataErasureReceiptHandler = (): IGetCgnDataErasureReceiptHandler => async (
+  context,
+  fiscalCode
+): Promise<ResponseTypes> =>
+  pipe(
+    getOrchestratorStatus(
+      df.getClient(context),
+      makeCgnDataErasureOrchestratorId(fiscalCode)
+    ),
+    TE.mapLeft(() => ResponseErrorInternal("Cannot retrieve erasure status")),
+    TE.chainW(
+      flow(
+        O.fromNullable,
+        TE.fromOption(() =>
+          ResponseErrorNotFound("Not Found", "No erasure found for the user")
+        )
+      )
+    ),
+    TE.chainW(toErasureReceipt),
+    TE.map(ResponseSuccessJson),
+    TE.toUnion
+  )();
+
+export const GetCgnDataErasureReceipt = (): express.RequestHandler => {
+  const handler = GetCgnDataErasureReceiptHandler();
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -0,0 +1,167 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode, cgnActivatedDates, now } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as PendingStatusEnum } from "../../generated/definitions/CardPending";
+import { StatusEnum as RevokedStatusEnum } from "../../generated/definitions/CardRevoked";
+import { DEFAULT_PAGE_SIZE } from "../../utils/pagination";
+import { GetCgnHistoryHandler } from "../handler";
+
+const aRevokedCard = {
+  ...cgnActivatedDates,
+  revocation_date: now,
+  revocation_reason: "A motivation" as NonEmptyString,
+  status: RevokedStatusEnum.REVOKED
+};
+
+const makeVersion = (card: object, version: number) => ({
+  _etag: "AN_ETAG",
+  _rid: "A_RID",
+  _self: "A_SELF",
+  _ts: 1600000000 + version,
+  card,
+  fiscalCode: aFiscalCode,
+  id: `${aFiscalCode}-${version}` as NonEmptyString,
+  kind: "IRetrievedUserCgn",
+  totpSecret: "AN_ENCRYPTED_TOTP_SECRET" as NonEmptyString,
+  version
+});
+
+const aPageOfVersions = [
+  makeVersion({ status: PendingStatusEnum.PENDING }, 0),
+  makeVersion(
+    { ...cgnActivatedDates, status: ActivatedStatusEnum.ACTIVATED },
+    1
+  ),
+  makeVersion(aRevokedCard, 2)
+];
+
+const findVersionsPageMock = jest.fn();
+const userCgnModelMock = {
+  findVersionsPage: findVersionsPageMock
+};
+
+describe("GetCgnHistory", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the first page of the CGN versions", async () => {
+    findVersionsPageMock.mockImplementationOnce(() =>
+      TE.of({ continuationToken: "A_TOKEN", items: aPageOfVersions })
+    );
+    const handler = GetCgnHistoryHandler(userCgnModelMock as any);
+    const response = await handler(context, aFiscalCode, {});
+    expect(findVersionsPageMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      DEFAULT_PAGE_SIZE,
+      undefined
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        continuation_token: "A_TOKEN",
+        items: [
+          {
+            _ts: 1600000000,
+            card: { status: PendingStatusEnum.PENDING },
+            version: 0
+          },
+          {
+            _ts: 1600000001,
+            card: {
+              ...cgnActivatedDates,
+              status: ActivatedStatusEnum.ACTIVATED
+            },
+            version: 1
+          },
+          { _ts: 1600000002, card: aRevokedCard, version: 2 }
+        ]
+      });
+    }
+  });
+
+  it("should return the expiration override of a version", async () => {
+    const anExpirationOverride = {
+      expiration_date: new Date("2031-01-01T00:00:00.000Z"),
+      justification: "A legal exception" as NonEmptyString,
+      overridden_at: now,
+      previous_expiration_date: cgnActivatedDates.expiration_date
+    };
+    findVersionsPageMock.mockImplementationOnce(() =>
+      TE.of({
+        items: [
+          {
+            ...makeVersion(
+              {
+                ...cgnActivatedDates,
+                expiration_date: anExpirationOverride.expiration_date,
+                status: ActivatedStatusEnum.ACTIVATED
+              },
+              2
+            ),
+            expirationOverride: anExpirationOverride
+          }
+        ]
+      })
+    );
+    const handler = GetCgnHistoryHandler(userCgnModelMock as any);
+    const response = await handler(context, aFiscalCode, {});
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: {
+          continuation_token: undefined,
+          items: [
+            expect.objectContaining({
+              expiration_override: anExpirationOverride,
+              version: 2
+            })
+          ]
+        }
+      })
+    );
+  });
+
+  it("should fetch the requested page", async () => {
+    findVersionsPageMock.mockImplementationOnce(() => TE.of({ items: [] }));
+    const handler = GetCgnHistoryHandler(userCgnModelMock as any);
+    const response = await handler(context, aFiscalCode, {
+      continuation_token: "A_TOKEN" as NonEmptyString,
+      page_size: 5 as any
+    });
+    expect(findVersionsPageMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      5,
+      "A_TOKEN"
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: { continuation_token: undefined, items: [] }
+      })
+    );
+  });
+
+  it("should return a Validation Error if the continuation token is rejected", async () => {
+    findVersionsPageMock.mockImplementationOnce(() =>
+      TE.left({ error: { code: 400 }, kind: "COSMOS_ERROR_RESPONSE" })
+    );
+    const handler = GetCgnHistoryHandler(userCgnModelMock as any);
+    const response = await handler(context, aFiscalCode, {
+      continuation_token: "A_BAD_TOKEN" as NonEmptyString
+    });
+    expect(response.kind).toBe("IResponseErrorValidation");
+  });
+
+  it("should return an Internal Error if the CGN versions cannot be retrieved", async () => {
+    findVersionsPageMock.mockImplementationOnce(() =>
+      TE.left({ error: { code: 503 }, kind: "COSMOS_ERROR_RESPONSE" })
+    );
+    const handler = GetCgnHistoryHandler(userCgnModelMock as any);
+    const response = await handler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
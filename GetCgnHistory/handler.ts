@@ -0,0 +1,88 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { CgnHistory } from "../generated/definitions/CgnHistory";
+import { CosmosTimestamp } from "../generated/definitions/CosmosTimestamp";
+import { UserCgnModel } from "../models/user_cgn";
+import { QueryParamsMiddleware } from "../utils/middlewares";
+import {
+  DEFAULT_PAGE_SIZE,
+  PaginationOptions,
+  toPageErrorResponse
+} from "../utils/pagination";
+
+type ResponseTypes =
+  | IResponseSuccessJson<CgnHistory>
+  | IResponseErrorValidation
+  | IResponseErrorInternal;
+
+type IGetCgnHistoryHandler = (
+  context: Context,
+  fiscalCode: FiscalCode,
+  options: PaginationOptions
+) => Promise<ResponseTypes>;
+
+export const GetCgnHistoryHandler = (
+  userCgnModel: UserCgnModel,
+  logPrefix: string = "GetCgnHistoryHandler"
+): IGetCgnHistoryHandler => async (
+  context,
+  fiscalCode,
+  options
+): Promise<ResponseTypes> =>
+  pipe(
+    userCgnModel.findVersionsPage(
+      fiscalCode,
+      options.page_size ?? DEFAULT_PAGE_SIZE,
+      options.continuation_token
+    ),
+    TE.bimap(
+      err => {
+        context.log.error(
+          `${logPrefix}|Cannot retrieve the CGN versions|ERROR=${err.kind}`
+        );
+        return toPageErrorResponse(err);
+      },
+      page =>
+        ResponseSuccessJson({
+          continuation_token: page.continuationToken,
+          items: page.items.map(userCgn => ({
+            // eslint-disable-next-line no-underscore-dangle
+            _ts: userCgn._ts as CosmosTimestamp,
+            card: userCgn.card,
+            expiration_override: userCgn.expirationOverride,
+            version: userCgn.version
+          }))
+        })
+    ),
+    TE.toUnion
+  )();
+
+export const GetCgnHistory = (
+  userCgnModel: UserCgnModel
+): express.RequestHandler => {
+  const handler = GetCgnHistoryHandler(userCgnModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode),
+    QueryParamsMiddleware(PaginationOptions)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
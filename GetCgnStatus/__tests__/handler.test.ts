@@ -21,7 +21,7 @@ import {
 import { UserCgn } from "../../models/user_cgn";
 import { GetCgnStatusHandler } from "../handler";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const aUserCgnId = "AN_ID" as NonEmptyString;
 
 const findLastVersionByModelIdMock = jest.fn();
@@ -0,0 +1,210 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import {
+  aDefaultEligibilityPolicy,
+  aFiscalCode,
+  cgnActivatedDates
+} from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as PendingStatusEnum } from "../../generated/definitions/CardPending";
+import { StatusEnum as WithdrawnStatusEnum } from "../../generated/definitions/CardWithdrawn";
+import { EligibilityStatusEnum } from "../../generated/definitions/EligibilityStatus";
+import { systemClock } from "../../utils/clock";
+import { toRomeDate } from "../../utils/dates";
+import { GetEligibilityHandler } from "../handler";
+
+// the citizen is born on 1999-11-20
+const anAdultDate = new Date(2020, 0, 1);
+
+const [aCgnDefaultRule, anEycaDefaultRule] = aDefaultEligibilityPolicy;
+const aCgnRuleFields = {
+  explanation: aCgnDefaultRule.explanation,
+  rule_id: aCgnDefaultRule.id
+};
+const anEycaRuleFields = {
+  explanation: anEycaDefaultRule.explanation,
+  rule_id: anEycaDefaultRule.id
+};
+
+const anActivatedCard = {
+  ...cgnActivatedDates,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const findLastCgnVersionMock = jest.fn();
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastCgnVersionMock
+};
+
+const findLastEycaVersionMock = jest.fn();
+const userEycaCardModelMock = {
+  findLastVersionByModelId: findLastEycaVersionMock
+};
+
+const toMaybeUserCard = (card?: object) =>
+  card === undefined ? O.none : O.some({ card });
+
+const mockUserCards = (cgnCard?: object, eycaCard?: object) => {
+  findLastCgnVersionMock.mockImplementationOnce(() =>
+    TE.of(toMaybeUserCard(cgnCard))
+  );
+  findLastEycaVersionMock.mockImplementationOnce(() =>
+    TE.of(toMaybeUserCard(eycaCard))
+  );
+};
+
+const handler = GetEligibilityHandler(
+  userCgnModelMock as any,
+  userEycaCardModelMock as any,
+  aDefaultEligibilityPolicy,
+  systemClock
+);
+
+describe("GetEligibility", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return an internal error if the cards cannot be retrieved", async () => {
+    findLastCgnVersionMock.mockImplementationOnce(() =>
+      TE.left({ kind: "COSMOS_ERROR_RESPONSE" })
+    );
+    const response = await handler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return the eligibility at the current time by default", async () => {
+    mockUserCards();
+    const response = await handler(context, aFiscalCode, {});
+    expect(findLastCgnVersionMock).toHaveBeenCalledWith([aFiscalCode]);
+    expect(findLastEycaVersionMock).toHaveBeenCalledWith([aFiscalCode]);
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.as_of.getTime()).toBeLessThanOrEqual(Date.now());
+      expect(response.value.cgn.status).toBeDefined();
+    }
+  });
+
+  it("should return CGN_NOT_ACTIVATED for EYCA if the user is eligible but has no CGN", async () => {
+    mockUserCards();
+    const response = await handler(context, aFiscalCode, {
+      asOf: anAdultDate
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        as_of: anAdultDate,
+        cgn: { ...aCgnRuleFields, status: EligibilityStatusEnum.ELIGIBLE },
+        eyca: { status: EligibilityStatusEnum.CGN_NOT_ACTIVATED }
+      });
+    }
+  });
+
+  it("should return ELIGIBLE for EYCA if the user holds an activated CGN", async () => {
+    mockUserCards(anActivatedCard);
+    const response = await handler(context, aFiscalCode, {
+      asOf: anAdultDate
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        as_of: anAdultDate,
+        cgn: {
+          card_status: ActivatedStatusEnum.ACTIVATED,
+          status: EligibilityStatusEnum.ALREADY_HOLDS_CARD
+        },
+        eyca: { ...anEycaRuleFields, status: EligibilityStatusEnum.ELIGIBLE }
+      });
+    }
+  });
+
+  it("should return ALREADY_HOLDS_CARD for EYCA if the user holds an EYCA card", async () => {
+    mockUserCards(anActivatedCard, anActivatedCard);
+    const response = await handler(context, aFiscalCode, {
+      asOf: anAdultDate
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.eyca).toEqual({
+        card_status: ActivatedStatusEnum.ACTIVATED,
+        status: EligibilityStatusEnum.ALREADY_HOLDS_CARD
+      });
+    }
+  });
+
+  it("should return ELIGIBLE if the user's cards are pending or withdrawn", async () => {
+    mockUserCards(
+      { status: WithdrawnStatusEnum.WITHDRAWN },
+      { status: PendingStatusEnum.PENDING }
+    );
+    const response = await handler(context, aFiscalCode, {
+      asOf: anAdultDate
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.cgn).toEqual({
+        ...aCgnRuleFields,
+        status: EligibilityStatusEnum.ELIGIBLE
+      });
+      expect(response.value.eyca).toEqual({
+        status: EligibilityStatusEnum.CGN_NOT_ACTIVATED
+      });
+    }
+  });
+
+  it("should return TOO_YOUNG along with the date the user becomes eligible", async () => {
+    mockUserCards();
+    const response = await handler(context, aFiscalCode, {
+      asOf: new Date(2017, 0, 1)
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.cgn).toEqual({
+        ...aCgnRuleFields,
+        eligible_from: toRomeDate(2017, 11, 20),
+        status: EligibilityStatusEnum.TOO_YOUNG
+      });
+      expect(response.value.eyca).toEqual({
+        ...anEycaRuleFields,
+        eligible_from: toRomeDate(2017, 11, 20),
+        status: EligibilityStatusEnum.TOO_YOUNG
+      });
+    }
+  });
+
+  it("should return TOO_OLD for EYCA before the user is too old for CGN", async () => {
+    mockUserCards(anActivatedCard, anActivatedCard);
+    const response = await handler(context, aFiscalCode, {
+      asOf: new Date(2031, 0, 1)
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.cgn.status).toEqual(
+        EligibilityStatusEnum.ALREADY_HOLDS_CARD
+      );
+      expect(response.value.eyca).toEqual({
+        ...anEycaRuleFields,
+        status: EligibilityStatusEnum.TOO_OLD
+      });
+    }
+  });
+
+  it("should return INVALID_FISCAL_CODE if the birth date cannot be extracted", async () => {
+    mockUserCards();
+    const response = await handler(context, "AAAAAADSB00H000F" as FiscalCode, {
+      asOf: anAdultDate
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.cgn).toEqual({
+        status: EligibilityStatusEnum.INVALID_FISCAL_CODE
+      });
+      expect(response.value.eyca).toEqual({
+        status: EligibilityStatusEnum.INVALID_FISCAL_CODE
+      });
+    }
+  });
+});
@@ -0,0 +1,190 @@
+/* eslint-disable max-params */
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { CardActivated } from "../generated/definitions/CardActivated";
+import { CardEligibility } from "../generated/definitions/CardEligibility";
+import { StatusEnum as PendingStatusEnum } from "../generated/definitions/CardPending";
+import { StatusEnum as WithdrawnStatusEnum } from "../generated/definitions/CardWithdrawn";
+import { Eligibility } from "../generated/definitions/Eligibility";
+import { EligibilityStatusEnum } from "../generated/definitions/EligibilityStatus";
+import { Timestamp } from "../generated/definitions/Timestamp";
+import { UserCgnModel } from "../models/user_cgn";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import {
+  getCgnAgeEligibility,
+  getEycaAgeEligibility
+} from "../utils/cgn_checks";
+import { Clock, fixedClock } from "../utils/clock";
+import { EligibilityPolicy } from "../utils/eligibility_policy";
+import { QueryParamsMiddleware } from "../utils/middlewares";
+
+/**
+ * The options of an eligibility request, as provided by the query parameters.
+ * The eligibility is checked at the current time when no moment is provided.
+ */
+export const EligibilityOptions = t.partial({
+  asOf: Timestamp
+});
+
+export type EligibilityOptions = t.TypeOf<typeof EligibilityOptions>;
+
+type ResponseTypes =
+  | IResponseSuccessJson<Eligibility>
+  | IResponseErrorValidation
+  | IResponseErrorInternal;
+
+type IGetEligibilityHandler = (
+  context: Context,
+  fiscalCode: FiscalCode,
+  options: EligibilityOptions
+) => Promise<ResponseTypes>;
+
+interface IUserCard {
+  readonly card: { readonly status: string };
+}
+
+/**
+ * Returns the eligibility of a citizen who is of the right age,
+ * unless they already hold a card.
+ * A pending card is still being activated, while a withdrawn one
+ * has been given up, so neither of them prevents a new activation.
+ */
+const withHeldCard = (
+  ageEligibility: CardEligibility,
+  maybeUserCard: O.Option<IUserCard>
+): CardEligibility =>
+  pipe(
+    maybeUserCard,
+    O.filter(
+      userCard =>
+        ageEligibility.status === EligibilityStatusEnum.ELIGIBLE &&
+        ![
+          PendingStatusEnum.PENDING.toString(),
+          WithdrawnStatusEnum.WITHDRAWN.toString()
+        ].includes(userCard.card.status)
+    ),
+    O.fold(
+      () => ageEligibility,
+      userCard => ({
+        card_status: userCard.card.status,
+        status: EligibilityStatusEnum.ALREADY_HOLDS_CARD
+      })
+    )
+  );
+
+/**
+ * Returns the EYCA eligibility of a citizen, who must hold
+ * an activated CGN in order to get an EYCA card.
+ */
+const withActivatedCgn = (
+  eycaEligibility: CardEligibility,
+  maybeUserCgn: O.Option<IUserCard>
+): CardEligibility =>
+  eycaEligibility.status === EligibilityStatusEnum.ELIGIBLE &&
+  !pipe(
+    maybeUserCgn,
+    O.exists(userCgn => CardActivated.is(userCgn.card))
+  )
+    ? { status: EligibilityStatusEnum.CGN_NOT_ACTIVATED }
+    : eycaEligibility;
+
+/**
+ * Returns whether the citizen can activate a CGN and an EYCA card.
+ * The age is checked at the requested moment, while the cards
+ * are checked as they currently are.
+ */
+export const GetEligibilityHandler = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock,
+  logPrefix: string = "GetEligibilityHandler"
+): IGetEligibilityHandler => async (
+  context,
+  fiscalCode,
+  options
+): Promise<ResponseTypes> => {
+  const asOf = options.asOf ?? clock();
+  return pipe(
+    userCgnModel.findLastVersionByModelId([fiscalCode]),
+    TE.chain(maybeUserCgn =>
+      pipe(
+        userEycaCardModel.findLastVersionByModelId([fiscalCode]),
+        TE.map(maybeUserEycaCard => ({ maybeUserCgn, maybeUserEycaCard }))
+      )
+    ),
+    TE.bimap(
+      err => {
+        context.log.error(
+          `${logPrefix}|Cannot retrieve the user's cards|ERROR=${err.kind}`
+        );
+        return ResponseErrorInternal("Cannot retrieve the user's cards");
+      },
+      ({ maybeUserCgn, maybeUserEycaCard }) =>
+        ResponseSuccessJson({
+          as_of: asOf,
+          cgn: withHeldCard(
+            getCgnAgeEligibility(
+              fiscalCode,
+              eligibilityPolicy,
+              fixedClock(asOf)
+            ),
+            maybeUserCgn
+          ),
+          eyca: withActivatedCgn(
+            withHeldCard(
+              getEycaAgeEligibility(
+                fiscalCode,
+                eligibilityPolicy,
+                fixedClock(asOf)
+              ),
+              maybeUserEycaCard
+            ),
+            maybeUserCgn
+          )
+        })
+    ),
+    TE.toUnion
+  )();
+};
+
+export const GetEligibility = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
+): express.RequestHandler => {
+  const handler = GetEligibilityHandler(
+    userCgnModel,
+    userEycaCardModel,
+    eligibilityPolicy,
+    clock
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode),
+    QueryParamsMiddleware(EligibilityOptions)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
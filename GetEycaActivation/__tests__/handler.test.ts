@@ -19,7 +19,7 @@ import { UserEycaCard } from "../../models/user_eyca_card";
 import * as orchUtils from "../../utils/orchestrators";
 import { GetEycaActivationHandler } from "../handler";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const aCardNumber = "A123-A123-A123-A123" as CcdbNumber;
 
 const anInstanceId = {
@@ -0,0 +1,83 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode, cgnActivatedDates } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as PendingStatusEnum } from "../../generated/definitions/CardPending";
+import { CcdbNumber } from "../../generated/definitions/CcdbNumber";
+import { GetEycaHistoryHandler } from "../handler";
+
+const anActivatedEycaCard = {
+  ...cgnActivatedDates,
+  card_number: "A123-B456-C789-D012" as CcdbNumber,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const makeVersion = (card: object, version: number) => ({
+  _etag: "AN_ETAG",
+  _rid: "A_RID",
+  _self: "A_SELF",
+  _ts: 1600000000 + version,
+  card,
+  fiscalCode: aFiscalCode,
+  id: `${aFiscalCode}-${version}` as NonEmptyString,
+  kind: "IRetrievedUserEycaCard",
+  version
+});
+
+const findVersionsPageMock = jest.fn();
+const userEycaCardModelMock = {
+  findVersionsPage: findVersionsPageMock
+};
+
+describe("GetEycaHistory", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return a page of the EYCA card versions", async () => {
+    findVersionsPageMock.mockImplementationOnce(() =>
+      TE.of({
+        items: [
+          makeVersion({ status: PendingStatusEnum.PENDING }, 0),
+          makeVersion(anActivatedEycaCard, 1)
+        ]
+      })
+    );
+    const handler = GetEycaHistoryHandler(userEycaCardModelMock as any);
+    const response = await handler(context, aFiscalCode, {
+      continuation_token: "A_TOKEN" as NonEmptyString
+    });
+    expect(findVersionsPageMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      expect.any(Number),
+      "A_TOKEN"
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: {
+          continuation_token: undefined,
+          items: [
+            {
+              _ts: 1600000000,
+              card: { status: PendingStatusEnum.PENDING },
+              version: 0
+            },
+            { _ts: 1600000001, card: anActivatedEycaCard, version: 1 }
+          ]
+        }
+      })
+    );
+  });
+
+  it("should return an Internal Error if the EYCA card versions cannot be retrieved", async () => {
+    findVersionsPageMock.mockImplementationOnce(() =>
+      TE.left({ kind: "COSMOS_EMPTY_RESPONSE" })
+    );
+    const handler = GetEycaHistoryHandler(userEycaCardModelMock as any);
+    const response = await handler(context, aFiscalCode, {});
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
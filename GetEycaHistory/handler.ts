@@ -0,0 +1,88 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { EycaCardHistory } from "../generated/definitions/EycaCardHistory";
+import { CosmosTimestamp } from "../generated/definitions/CosmosTimestamp";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import { QueryParamsMiddleware } from "../utils/middlewares";
+import {
+  DEFAULT_PAGE_SIZE,
+  PaginationOptions,
+  toPageErrorResponse
+} from "../utils/pagination";
+
+type ResponseTypes =
+  | IResponseSuccessJson<EycaCardHistory>
+  | IResponseErrorValidation
+  | IResponseErrorInternal;
+
+type IGetEycaHistoryHandler = (
+  context: Context,
+  fiscalCode: FiscalCode,
+  options: PaginationOptions
+) => Promise<ResponseTypes>;
+
+export const GetEycaHistoryHandler = (
+  userEycaCardModel: UserEycaCardModel,
+  logPrefix: string = "GetEycaHistoryHandler"
+): IGetEycaHistoryHandler => async (
+  context,
+  fiscalCode,
+  options
+): Promise<ResponseTypes> =>
+  pipe(
+    userEycaCardModel.findVersionsPage(
+      fiscalCode,
+      options.page_size ?? DEFAULT_PAGE_SIZE,
+      options.continuation_token
+    ),
+    TE.bimap(
+      err => {
+        context.log.error(
+          `${logPrefix}|Cannot retrieve the EYCA card versions|ERROR=${err.kind}`
+        );
+        return toPageErrorResponse(err);
+      },
+      page =>
+        ResponseSuccessJson({
+          continuation_token: page.continuationToken,
+          items: page.items.map(userEycaCard => ({
+            // eslint-disable-next-line no-underscore-dangle
+            _ts: userEycaCard._ts as CosmosTimestamp,
+            card: userEycaCard.card,
+            expiration_override: userEycaCard.expirationOverride,
+            version: userEycaCard.version
+          }))
+        })
+    ),
+    TE.toUnion
+  )();
+
+export const GetEycaHistory = (
+  userEycaCardModel: UserEycaCardModel
+): express.RequestHandler => {
+  const handler = GetEycaHistoryHandler(userEycaCardModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode),
+    QueryParamsMiddleware(PaginationOptions)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -5,7 +5,11 @@ import * as date_fns from "date-fns";
 import * as E from "fp-ts/lib/Either";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
-import { cgnActivatedDates, now } from "../../__mocks__/mock";
+import {
+  aDefaultEligibilityPolicy,
+  cgnActivatedDates,
+  now
+} from "../../__mocks__/mock";
 import {
   CardActivated,
   StatusEnum as ActivatedStatusEnum
@@ -21,10 +25,10 @@ import { EycaCardRevoked } from "../../generated/definitions/EycaCardRevoked";
 import { UserCgn } from "../../models/user_cgn";
 import { UserEycaCard } from "../../models/user_eyca_card";
 import * as cgn_checks from "../../utils/cgn_checks";
-import { DEFAULT_EYCA_UPPER_BOUND_AGE } from "../../utils/config";
+import { systemClock } from "../../utils/clock";
 import { GetEycaStatusHandler } from "../handler";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const aUserEycaCardNumber = "A123-A123-A123-A123" as CcdbNumber;
 const aUserCgnId = "AN_ID" as NonEmptyString;
 
@@ -84,7 +88,8 @@ const successImpl = async (userEycaCard: UserEycaCard) => {
   const handler = GetEycaStatusHandler(
     userEycaCardModelMock as any,
     userCgnModelMock as any,
-    DEFAULT_EYCA_UPPER_BOUND_AGE
+    aDefaultEligibilityPolicy,
+    systemClock
   );
   const response = await handler({} as any, aFiscalCode);
   expect(response.kind).toBe("IResponseSuccessJson");
@@ -124,7 +129,8 @@ describe("GetEycaCardStatusHandler", () => {
     const handler = GetEycaStatusHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await handler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorInternal");
@@ -137,7 +143,8 @@ describe("GetEycaCardStatusHandler", () => {
     const handler = GetEycaStatusHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await handler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorInternal");
@@ -151,7 +158,8 @@ describe("GetEycaCardStatusHandler", () => {
     const handler = GetEycaStatusHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await handler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorInternal");
@@ -163,7 +171,8 @@ describe("GetEycaCardStatusHandler", () => {
     const handler = GetEycaStatusHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await handler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorNotFound");
@@ -177,7 +186,8 @@ describe("GetEycaCardStatusHandler", () => {
     const handler = GetEycaStatusHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await handler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorNotFound");
@@ -188,7 +198,8 @@ describe("GetEycaCardStatusHandler", () => {
     const handler = GetEycaStatusHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await handler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
@@ -199,7 +210,8 @@ describe("GetEycaCardStatusHandler", () => {
     const handler = GetEycaStatusHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await handler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorConflict");
@@ -213,7 +225,8 @@ describe("GetEycaCardStatusHandler", () => {
     const handler = GetEycaStatusHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await handler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorInternal");
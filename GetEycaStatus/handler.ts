@@ -23,12 +23,13 @@ import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import { flow, pipe } from "fp-ts/lib/function";
 import * as TE from "fp-ts/lib/TaskEither";
 
-import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import { CardPending } from "../generated/definitions/CardPending";
 import { EycaCard } from "../generated/definitions/EycaCard";
 import { UserCgnModel } from "../models/user_cgn";
 import { UserEycaCardModel } from "../models/user_eyca_card";
 import { isEycaEligible } from "../utils/cgn_checks";
+import { Clock } from "../utils/clock";
+import { EligibilityPolicy } from "../utils/eligibility_policy";
 
 type ErrorTypes =
   | IResponseErrorNotFound
@@ -46,12 +47,13 @@ type IGetEycaStatusHandler = (
 export function GetEycaStatusHandler(
   userEycaCardModel: UserEycaCardModel,
   userCgnModel: UserCgnModel,
-  eycaUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): IGetEycaStatusHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
   return async (_, fiscalCode) =>
     pipe(
-      isEycaEligible(fiscalCode, eycaUpperBoundAge),
+      isEycaEligible(fiscalCode, eligibilityPolicy, clock),
       TE.fromEither,
       TE.mapLeft(() =>
         ResponseErrorInternal("Cannot perform user's EYCA eligibility check")
@@ -118,12 +120,14 @@ export function GetEycaStatusHandler(
 export function GetEycaStatus(
   userEycaCardModel: UserEycaCardModel,
   userCgnModel: UserCgnModel,
-  eycaUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): express.RequestHandler {
   const handler = GetEycaStatusHandler(
     userEycaCardModel,
     userCgnModel,
-    eycaUpperBoundAge
+    eligibilityPolicy,
+    clock
   );
 
   const middlewaresWrap = withRequestMiddlewares(
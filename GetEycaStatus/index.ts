@@ -12,8 +12,10 @@ import {
   USER_EYCA_CARD_COLLECTION_NAME,
   UserEycaCardModel
 } from "../models/user_eyca_card";
+import { getClock } from "../utils/clock";
 import { getConfigOrThrow } from "../utils/config";
 import { cosmosdbClient } from "../utils/cosmosdb";
+import { getEligibilityPolicy } from "../utils/eligibility_policy";
 import { GetEycaStatus } from "./handler";
 
 //
@@ -22,6 +24,10 @@ import { GetEycaStatus } from "./handler";
 
 const config = getConfigOrThrow();
 
+const clock = getClock(config);
+
+const eligibilityPolicy = getEligibilityPolicy(config);
+
 const userEycaCardsContainer = cosmosdbClient
   .database(config.COSMOSDB_CGN_DATABASE_NAME)
   .container(USER_EYCA_CARD_COLLECTION_NAME);
@@ -48,7 +54,7 @@ secureExpressApp(app);
 // Add express route
 app.get(
   "/api/v1/cgn/eyca/status/:fiscalcode",
-  GetEycaStatus(userEycaCardModel, userCgnModel, config.EYCA_UPPER_BOUND_AGE)
+  GetEycaStatus(userEycaCardModel, userCgnModel, eligibilityPolicy, clock)
 );
 
 const azureFunctionHandler = createAzureFunctionHandler(app);
@@ -0,0 +1,217 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { addSeconds } from "date-fns";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode, cgnActivatedDates } from "../../__mocks__/mock";
+import * as redis_util from "../../GenerateOtp/redis";
+import {
+  CardActivated,
+  StatusEnum as ActivatedStatusEnum
+} from "../../generated/definitions/CardActivated";
+import { Otp } from "../../generated/definitions/Otp";
+import { OtpCode } from "../../generated/definitions/OtpCode";
+import { UserCgn } from "../../models/user_cgn";
+import { systemClock } from "../../utils/clock";
+import { OtpModeEnum } from "../../utils/config";
+import { encrypt } from "../../utils/encryption";
+import { GetOtpImageHandler, OtpImageOptions } from "../handler";
+
+const anOtpSecretKey = "AN_OTP_SECRET_KEY" as NonEmptyString;
+const aTotpSecret = "0123456789abcdef0123456789abcdef01234567" as NonEmptyString;
+
+const anActivatedCgn: CardActivated = {
+  ...cgnActivatedDates,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const aUserCgn: UserCgn = {
+  card: anActivatedCgn,
+  fiscalCode: aFiscalCode,
+  id: "AN_ID" as NonEmptyString
+};
+
+const anOtp: Otp = {
+  code: "AAAAAAAAAAA" as OtpCode,
+  expires_at: addSeconds(new Date(), 60),
+  ttl: 60
+};
+
+const aScopedImageOptions = {
+  discount_id: "A_DISCOUNT_ID",
+  merchant_id: "A_MERCHANT_ID"
+} as OtpImageOptions;
+
+const retrieveOtpByFiscalCodeMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(O.some(anOtp)));
+jest
+  .spyOn(redis_util, "retrieveOtpByFiscalCode")
+  .mockImplementation(retrieveOtpByFiscalCodeMock);
+
+const findLastVersionByModelIdMock = jest.fn().mockImplementation(() =>
+  TE.of(
+    O.some({
+      ...aUserCgn,
+      totpSecret: encrypt(anOtpSecretKey, aTotpSecret)
+    })
+  )
+);
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock
+};
+
+const getHandler = (otpMode: OtpModeEnum) =>
+  GetOtpImageHandler(
+    userCgnModelMock as any,
+    {} as any,
+    anOtpSecretKey,
+    otpMode,
+    systemClock
+  );
+
+const mockExpressResponse = () => {
+  const res = {
+    send: jest.fn(),
+    set: jest.fn(),
+    status: jest.fn()
+  };
+  res.set.mockImplementation(() => res);
+  res.status.mockImplementation(() => res);
+  return res;
+};
+
+describe("GetOtpImageHandler in REDIS mode", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return an internal error if OTP retrieve fails", async () => {
+    retrieveOtpByFiscalCodeMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot retrieve OTP"))
+    );
+    const response = await getHandler(OtpModeEnum.REDIS)(
+      context,
+      aFiscalCode,
+      {}
+    );
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return not found if no OTP has been generated", async () => {
+    retrieveOtpByFiscalCodeMock.mockImplementationOnce(() => TE.of(O.none));
+    const response = await getHandler(OtpModeEnum.REDIS)(
+      context,
+      aFiscalCode,
+      {}
+    );
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return the image of the OTP of the given scope", async () => {
+    const response = await getHandler(OtpModeEnum.REDIS)(
+      context,
+      aFiscalCode,
+      aScopedImageOptions
+    );
+    expect(retrieveOtpByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      anOtpSecretKey,
+      aFiscalCode,
+      { discountId: "A_DISCOUNT_ID", merchantId: "A_MERCHANT_ID" }
+    );
+    expect(findLastVersionByModelIdMock).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessImage");
+    if (response.kind === "IResponseSuccessImage") {
+      expect(response.contentType).toBe("image/svg+xml");
+    }
+  });
+
+  it("should let clients cache the image until the OTP expires", async () => {
+    const response = await getHandler(OtpModeEnum.REDIS)(
+      context,
+      aFiscalCode,
+      {}
+    );
+    const res = mockExpressResponse();
+    response.apply(res as any);
+    expect(res.set).toHaveBeenCalledWith(
+      "Expires",
+      anOtp.expires_at.toUTCString()
+    );
+    expect(res.set).toHaveBeenCalledWith(
+      "Cache-Control",
+      expect.stringMatching(/^private, max-age=(59|60)$/)
+    );
+  });
+
+  it("should not let clients cache the image of an expired OTP", async () => {
+    retrieveOtpByFiscalCodeMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...anOtp, expires_at: addSeconds(new Date(), -1) }))
+    );
+    const response = await getHandler(OtpModeEnum.REDIS)(
+      context,
+      aFiscalCode,
+      {}
+    );
+    const res = mockExpressResponse();
+    response.apply(res as any);
+    expect(res.set).toHaveBeenCalledWith("Cache-Control", "private, max-age=0");
+  });
+});
+
+describe("GetOtpImageHandler in TOTP mode", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return a validation error if a scope is given", async () => {
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      aFiscalCode,
+      aScopedImageOptions
+    );
+    expect(response.kind).toBe("IResponseErrorValidation");
+    expect(findLastVersionByModelIdMock).not.toHaveBeenCalled();
+  });
+
+  it("should return forbidden if no userCgn is found", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() => TE.of(O.none));
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      aFiscalCode,
+      {}
+    );
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+  });
+
+  it("should return not found if no TOTP secret has been provisioned", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some(aUserCgn))
+    );
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      aFiscalCode,
+      {}
+    );
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return the image of the current TOTP code", async () => {
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      aFiscalCode,
+      {}
+    );
+    expect(retrieveOtpByFiscalCodeMock).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessImage");
+    const res = mockExpressResponse();
+    response.apply(res as any);
+    expect(res.set).toHaveBeenCalledWith(
+      "Cache-Control",
+      expect.stringMatching(/^private, max-age=([0-9]|[12][0-9]|30)$/)
+    );
+  });
+});
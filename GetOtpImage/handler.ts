@@ -0,0 +1,197 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorForbiddenNotAuthorized,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  ResponseErrorForbiddenNotAuthorized,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseErrorValidation
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { RedisClient } from "redis";
+import { CardActivated } from "../generated/definitions/CardActivated";
+import { DiscountId } from "../generated/definitions/DiscountId";
+import { MerchantId } from "../generated/definitions/MerchantId";
+import { Otp } from "../generated/definitions/Otp";
+import { retrieveOtpByFiscalCode } from "../GenerateOtp/redis";
+import { UserCgnModel } from "../models/user_cgn";
+import { retrieveTotpSecret } from "../ProvisionTotp/secret";
+import {
+  BarcodeImageOptions,
+  toBarcodeImageResponse
+} from "../utils/barcode_image";
+import { Clock } from "../utils/clock";
+import { OtpModeEnum } from "../utils/config";
+import { QueryParamsMiddleware } from "../utils/middlewares";
+import { IResponseSuccessImage } from "../utils/responses";
+import { getCurrentTotp } from "../utils/totp";
+
+export const OtpImageOptions = t.intersection([
+  BarcodeImageOptions,
+  t.partial({
+    discount_id: DiscountId,
+    merchant_id: MerchantId
+  })
+]);
+
+export type OtpImageOptions = t.TypeOf<typeof OtpImageOptions>;
+
+type ResponseTypes =
+  | IResponseSuccessImage
+  | IResponseErrorForbiddenNotAuthorized
+  | IResponseErrorNotFound
+  | IResponseErrorValidation
+  | IResponseErrorInternal;
+
+type IGetOtpImageHandler = (
+  context: Context,
+  fiscalCode: FiscalCode,
+  options: OtpImageOptions
+) => Promise<ResponseTypes>;
+
+const otpNotFound = ResponseErrorNotFound(
+  "Not Found",
+  "No valid OTP found for the user"
+);
+
+/**
+ * Returns the OTP of the given scope which has been generated
+ * and is still valid, without generating a new one.
+ */
+const retrieveRedisOtp = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode,
+  options: OtpImageOptions
+): TE.TaskEither<IResponseErrorNotFound | IResponseErrorInternal, Otp> =>
+  pipe(
+    retrieveOtpByFiscalCode(redisClient, otpSecretKey, fiscalCode, {
+      discountId: options.discount_id,
+      merchantId: options.merchant_id
+    }),
+    TE.mapLeft(e =>
+      ResponseErrorInternal(`Cannot retrieve OTP from fiscalCode| ${e.message}`)
+    ),
+    TE.chainW(TE.fromOption(() => otpNotFound))
+  );
+
+/**
+ * Returns the current TOTP code of a user with an activated card,
+ * provided that a TOTP secret has already been provisioned.
+ */
+const retrieveCurrentTotp = (
+  userCgnModel: UserCgnModel,
+  otpSecretKey: NonEmptyString,
+  fiscalCode: FiscalCode,
+  now: Date
+): TE.TaskEither<
+  | IResponseErrorForbiddenNotAuthorized
+  | IResponseErrorNotFound
+  | IResponseErrorInternal,
+  Otp
+> =>
+  pipe(
+    userCgnModel.findLastVersionByModelId([fiscalCode]),
+    TE.mapLeft(() =>
+      ResponseErrorInternal("Error trying to retrieve user's CGN status")
+    ),
+    TE.chainW(TE.fromOption(() => ResponseErrorForbiddenNotAuthorized)),
+    TE.chainW(
+      TE.fromPredicate(
+        userCgn => CardActivated.is(userCgn.card),
+        () => ResponseErrorForbiddenNotAuthorized
+      )
+    ),
+    TE.chainEitherKW(userCgn =>
+      pipe(
+        retrieveTotpSecret(otpSecretKey, userCgn),
+        E.mapLeft(e =>
+          ResponseErrorInternal(`Cannot retrieve TOTP secret| ${e.message}`)
+        )
+      )
+    ),
+    TE.chainW(TE.fromOption(() => otpNotFound)),
+    TE.chainEitherKW(secret =>
+      pipe(
+        getCurrentTotp(secret, now),
+        E.mapLeft(e =>
+          ResponseErrorInternal(`Cannot generate TOTP Code| ${e.message}`)
+        )
+      )
+    )
+  );
+
+export const GetOtpImageHandler = (
+  userCgnModel: UserCgnModel,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  otpMode: OtpModeEnum,
+  clock: Clock
+): IGetOtpImageHandler => async (
+  _,
+  fiscalCode,
+  options
+): Promise<ResponseTypes> => {
+  const now = clock();
+  return pipe(
+    options,
+    // time-based OTPs are never scoped
+    TE.fromPredicate(
+      ({ discount_id, merchant_id }) =>
+        otpMode !== OtpModeEnum.TOTP ||
+        (discount_id === undefined && merchant_id === undefined),
+      () =>
+        ResponseErrorValidation(
+          "Bad request",
+          "Scoped OTPs are not supported by time-based OTPs"
+        )
+    ),
+    TE.chainW(() =>
+      otpMode === OtpModeEnum.TOTP
+        ? retrieveCurrentTotp(userCgnModel, otpSecretKey, fiscalCode, now)
+        : retrieveRedisOtp(redisClient, otpSecretKey, fiscalCode, options)
+    ),
+    TE.chainEitherKW(otp =>
+      toBarcodeImageResponse(otp.code, options, otp.expires_at, now)
+    ),
+    TE.toUnion
+  )();
+};
+
+export const GetOtpImage = (
+  userCgnModel: UserCgnModel,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  otpMode: OtpModeEnum,
+  clock: Clock
+): express.RequestHandler => {
+  const handler = GetOtpImageHandler(
+    userCgnModel,
+    redisClient,
+    otpSecretKey,
+    otpMode,
+    clock
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode),
+    QueryParamsMiddleware(OtpImageOptions)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
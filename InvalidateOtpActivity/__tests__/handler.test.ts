@@ -0,0 +1,74 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { toError } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode, testFail } from "../../__mocks__/mock";
+import * as redis_util from "../../GenerateOtp/redis";
+import { ActivityInput, getInvalidateOtpActivityHandler } from "../handler";
+
+const deleteOtpByFiscalCodeMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(true));
+jest
+  .spyOn(redis_util, "deleteOtpByFiscalCode")
+  .mockImplementation(deleteOtpByFiscalCodeMock);
+
+const anOtpSecretKey = "AN_OTP_SECRET_KEY" as NonEmptyString;
+
+const anActivityInput: ActivityInput = {
+  fiscalCode: aFiscalCode
+};
+
+describe("InvalidateOtpActivity", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  it("should throw if an error occurs while deleting the OTP", async () => {
+    const invalidateOtpActivityHandler = getInvalidateOtpActivityHandler(
+      {} as any,
+      anOtpSecretKey
+    );
+    deleteOtpByFiscalCodeMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot delete OTP"))
+    );
+    await pipe(
+      TE.tryCatch(
+        () => invalidateOtpActivityHandler(context, anActivityInput),
+        toError
+      ),
+      TE.bimap(e => {
+        expect(e).toBeDefined();
+        expect(e.message).toContain("TRANSIENT FAILURE");
+      }, testFail)
+    )();
+  });
+
+  it("should return a permanent failure if any errors occurs on input decode", async () => {
+    const invalidateOtpActivityHandler = getInvalidateOtpActivityHandler(
+      {} as any,
+      anOtpSecretKey
+    );
+    const response = await invalidateOtpActivityHandler(context, {});
+    expect(response.kind).toBe("FAILURE");
+    expect(deleteOtpByFiscalCodeMock).not.toHaveBeenCalled();
+  });
+
+  it("should return success if the OTP has been deleted", async () => {
+    const invalidateOtpActivityHandler = getInvalidateOtpActivityHandler(
+      {} as any,
+      anOtpSecretKey
+    );
+    const response = await invalidateOtpActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(deleteOtpByFiscalCodeMock).toHaveBeenCalledWith(
+      {},
+      anOtpSecretKey,
+      aFiscalCode
+    );
+    expect(response.kind).toBe("SUCCESS");
+  });
+});
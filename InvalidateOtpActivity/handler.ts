@@ -0,0 +1,50 @@
+import { Context } from "@azure/functions";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { RedisClient } from "redis";
+import { deleteOtpByFiscalCode } from "../GenerateOtp/redis";
+import { ActivityResult, success } from "../utils/activity";
+import { errorsToError } from "../utils/conversions";
+import {
+  toPermanentFailure,
+  toTransientFailure,
+  trackFailure
+} from "../utils/errors";
+
+export const ActivityInput = t.interface({
+  fiscalCode: FiscalCode
+});
+
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+export const getInvalidateOtpActivityHandler = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  logPrefix: string = "InvalidateOtpActivity"
+) => (context: Context, input: unknown): Promise<ActivityResult> => {
+  const fail = trackFailure(context, logPrefix);
+  return pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(
+      flow(errorsToError, e =>
+        toPermanentFailure(e, "Cannot decode Activity Input")
+      )
+    ),
+    TE.chain(activityInput =>
+      pipe(
+        deleteOtpByFiscalCode(
+          redisClient,
+          otpSecretKey,
+          activityInput.fiscalCode
+        ),
+        TE.bimap(err => toTransientFailure(err, "Cannot delete OTP"), success)
+      )
+    ),
+    TE.mapLeft(fail),
+    TE.toUnion
+  )();
+};
@@ -0,0 +1,12 @@
+import { getConfigOrThrow } from "../utils/config";
+import { REDIS_CLIENT } from "../utils/redis";
+import { getInvalidateOtpActivityHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const invalidateOtpActivityHandler = getInvalidateOtpActivityHandler(
+  REDIS_CLIENT,
+  config.OTP_SECRET_KEY
+);
+
+export default invalidateOtpActivityHandler;
@@ -0,0 +1,302 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as RevokedStatusEnum } from "../../generated/definitions/CardRevoked";
+import { StatusEnum as SuspendedStatusEnum } from "../../generated/definitions/CardSuspended";
+import { CcdbNumber } from "../../generated/eyca-api/CcdbNumber";
+import * as eyca from "../../SuccessEycaActivationActivity/eyca";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import * as tableStorage from "../../utils/table_storage";
+import { getMigrateCardExpirationActivityHandler } from "../handler";
+
+const aCgnExpirationTableName = "cgnexpiration" as NonEmptyString;
+const anEycaExpirationTableName = "eycaexpiration" as NonEmptyString;
+const aCcdbNumber = "X123-Y123-Z123-W123" as CcdbNumber;
+
+const anActivationDate = new Date("2020-01-01T00:00:00.000Z");
+const aPreviousExpirationDate = new Date("2030-05-10T00:00:00.000Z");
+const anExpirationDate = new Date("2031-05-10T00:00:00.000Z");
+
+const anActivityInput = {
+  cardType: ExpiringCardTypeEnum.CGN,
+  expirationDate: anExpirationDate.toISOString(),
+  fiscalCode: aFiscalCode,
+  previousExpirationDate: aPreviousExpirationDate.toISOString()
+};
+
+const anActivatedUserCgn = {
+  card: {
+    activation_date: anActivationDate,
+    expiration_date: aPreviousExpirationDate,
+    status: ActivatedStatusEnum.ACTIVATED
+  },
+  fiscalCode: aFiscalCode
+};
+
+const anActivatedUserEycaCard = {
+  card: {
+    ...anActivatedUserCgn.card,
+    card_number: aCcdbNumber
+  },
+  fiscalCode: aFiscalCode
+};
+
+const findLastCgnVersionMock = jest.fn();
+const updateCgnMock = jest.fn();
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastCgnVersionMock,
+  update: updateCgnMock
+};
+
+const findLastEycaCardVersionMock = jest.fn();
+const updateEycaCardMock = jest.fn();
+const userEycaCardModelMock = {
+  findLastVersionByModelId: findLastEycaCardVersionMock,
+  update: updateEycaCardMock
+};
+
+const insertCardExpirationMock = jest.fn();
+const insertCardExpirationSpy = jest
+  .spyOn(tableStorage, "insertCardExpiration")
+  .mockImplementation(() => insertCardExpirationMock);
+
+const deleteCardExpirationMock = jest.fn();
+const deleteCardExpirationSpy = jest
+  .spyOn(tableStorage, "deleteCardExpiration")
+  .mockImplementation(() => deleteCardExpirationMock);
+
+const updateCardMock = jest.fn();
+jest.spyOn(eyca, "updateCard").mockImplementation(updateCardMock);
+
+const migrateCardExpirationActivityHandler = getMigrateCardExpirationActivityHandler(
+  userCgnModelMock as any,
+  userEycaCardModelMock as any,
+  {} as any,
+  aCgnExpirationTableName,
+  anEycaExpirationTableName,
+  {} as any,
+  {} as any,
+  "aUsername" as NonEmptyString,
+  "aPassword" as NonEmptyString
+);
+
+describe("MigrateCardExpirationActivity", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLastCgnVersionMock.mockImplementation(() =>
+      TE.of(O.some(anActivatedUserCgn))
+    );
+    updateCgnMock.mockImplementation(userCgn => TE.of(userCgn));
+    findLastEycaCardVersionMock.mockImplementation(() =>
+      TE.of(O.some(anActivatedUserEycaCard))
+    );
+    updateEycaCardMock.mockImplementation(userEycaCard => TE.of(userEycaCard));
+    insertCardExpirationMock.mockImplementation(() => TE.of({}));
+    deleteCardExpirationMock.mockImplementation(() => TE.of(void 0));
+    updateCardMock.mockImplementation(() =>
+      TE.of("Object(s) updated." as NonEmptyString)
+    );
+  });
+
+  it("should move the CGN to its new expiration date", async () => {
+    const response = await migrateCardExpirationActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(response).toEqual({ isMigrated: true, kind: "SUCCESS" });
+    expect(insertCardExpirationSpy).toHaveBeenCalledWith(
+      {},
+      aCgnExpirationTableName
+    );
+    expect(insertCardExpirationMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      anActivationDate,
+      anExpirationDate
+    );
+    expect(updateCgnMock).toHaveBeenCalledWith({
+      ...anActivatedUserCgn,
+      card: { ...anActivatedUserCgn.card, expiration_date: anExpirationDate }
+    });
+    expect(deleteCardExpirationSpy).toHaveBeenCalledWith(
+      {},
+      aCgnExpirationTableName
+    );
+    expect(deleteCardExpirationMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      aPreviousExpirationDate
+    );
+    expect(updateCardMock).not.toHaveBeenCalled();
+  });
+
+  it("should not migrate a suspended CGN", async () => {
+    findLastCgnVersionMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anActivatedUserCgn,
+          card: {
+            ...anActivatedUserCgn.card,
+            reason: "A reason",
+            status: SuspendedStatusEnum.SUSPENDED,
+            suspension_date: new Date()
+          }
+        })
+      )
+    );
+    const response = await migrateCardExpirationActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(response).toEqual({ isMigrated: false, kind: "SUCCESS" });
+    expect(insertCardExpirationMock).not.toHaveBeenCalled();
+    expect(updateCgnMock).not.toHaveBeenCalled();
+  });
+
+  it("should move the EYCA card to its new expiration date on CCDB too", async () => {
+    const response = await migrateCardExpirationActivityHandler(context, {
+      ...anActivityInput,
+      cardType: ExpiringCardTypeEnum.EYCA
+    });
+    expect(response).toEqual({ isMigrated: true, kind: "SUCCESS" });
+    expect(insertCardExpirationSpy).toHaveBeenCalledWith(
+      {},
+      anEycaExpirationTableName
+    );
+    expect(updateCardMock).toHaveBeenCalledWith(
+      {},
+      {},
+      "aUsername",
+      "aPassword",
+      aCcdbNumber,
+      anExpirationDate
+    );
+    expect(updateEycaCardMock).toHaveBeenCalledWith({
+      ...anActivatedUserEycaCard,
+      card: {
+        ...anActivatedUserEycaCard.card,
+        expiration_date: anExpirationDate
+      }
+    });
+    expect(deleteCardExpirationSpy).toHaveBeenCalledWith(
+      {},
+      anEycaExpirationTableName
+    );
+    expect(updateCgnMock).not.toHaveBeenCalled();
+  });
+
+  it("should not update the card again when the activity is retried", async () => {
+    findLastCgnVersionMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anActivatedUserCgn,
+          card: {
+            ...anActivatedUserCgn.card,
+            expiration_date: anExpirationDate
+          }
+        })
+      )
+    );
+    const response = await migrateCardExpirationActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(response).toEqual({ isMigrated: true, kind: "SUCCESS" });
+    expect(insertCardExpirationMock).toHaveBeenCalled();
+    expect(updateCgnMock).not.toHaveBeenCalled();
+    expect(deleteCardExpirationMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      aPreviousExpirationDate
+    );
+  });
+
+  it("should not migrate a card that is not active anymore", async () => {
+    findLastCgnVersionMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anActivatedUserCgn,
+          card: {
+            ...anActivatedUserCgn.card,
+            revocation_date: new Date(),
+            revocation_reason: "A reason",
+            status: RevokedStatusEnum.REVOKED
+          }
+        })
+      )
+    );
+    const response = await migrateCardExpirationActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(response).toEqual({ isMigrated: false, kind: "SUCCESS" });
+    expect(insertCardExpirationMock).not.toHaveBeenCalled();
+    expect(updateCgnMock).not.toHaveBeenCalled();
+    expect(deleteCardExpirationMock).not.toHaveBeenCalled();
+  });
+
+  it("should not migrate a card whose expiration date has been set by an operator", async () => {
+    findLastCgnVersionMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anActivatedUserCgn,
+          expirationOverride: {
+            expiration_date: aPreviousExpirationDate,
+            justification: "A legal exception",
+            overridden_at: new Date(),
+            previous_expiration_date: anActivationDate
+          }
+        })
+      )
+    );
+    const response = await migrateCardExpirationActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(response).toEqual({ isMigrated: false, kind: "SUCCESS" });
+    expect(insertCardExpirationMock).not.toHaveBeenCalled();
+    expect(updateCgnMock).not.toHaveBeenCalled();
+  });
+
+  it("should return a permanent failure if the card does not exist", async () => {
+    findLastCgnVersionMock.mockImplementationOnce(() => TE.of(O.none));
+    const response = await migrateCardExpirationActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(response.kind).toBe("FAILURE");
+    expect(insertCardExpirationMock).not.toHaveBeenCalled();
+  });
+
+  it("should throw and keep the previous expiration if CCDB cannot be updated", async () => {
+    updateCardMock.mockImplementationOnce(() =>
+      TE.left({ kind: "TRANSIENT", reason: "Cannot call EYCA updateCard API" })
+    );
+    await expect(
+      migrateCardExpirationActivityHandler(context, {
+        ...anActivityInput,
+        cardType: ExpiringCardTypeEnum.EYCA
+      })
+    ).rejects.toBeDefined();
+    expect(updateEycaCardMock).not.toHaveBeenCalled();
+    expect(deleteCardExpirationMock).not.toHaveBeenCalled();
+  });
+
+  it("should throw if the previous expiration cannot be deleted", async () => {
+    deleteCardExpirationMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot delete entity"))
+    );
+    await expect(
+      migrateCardExpirationActivityHandler(context, anActivityInput)
+    ).rejects.toBeDefined();
+  });
+
+  it("should return a permanent failure if the input cannot be decoded", async () => {
+    const response = await migrateCardExpirationActivityHandler(context, {
+      fiscalCode: aFiscalCode
+    });
+    expect(response.kind).toBe("FAILURE");
+    expect(findLastCgnVersionMock).not.toHaveBeenCalled();
+  });
+});
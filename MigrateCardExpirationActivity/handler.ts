@@ -0,0 +1,277 @@
+/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableService } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { RedisClient } from "redis";
+import { EycaAPIClient } from "../clients/eyca";
+import { CardActivated } from "../generated/definitions/CardActivated";
+import { EycaCardActivated } from "../generated/definitions/EycaCardActivated";
+import { Timestamp } from "../generated/definitions/Timestamp";
+import { UserCgnModel } from "../models/user_cgn";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import { updateCard } from "../SuccessEycaActivationActivity/eyca";
+import {
+  ActivityResultFailure,
+  ActivityResultSuccess
+} from "../utils/activity";
+import {
+  ExpiringCardType,
+  ExpiringCardTypeEnum
+} from "../utils/card_expiration";
+import { errorsToError } from "../utils/conversions";
+import { formatRomeDate } from "../utils/dates";
+import {
+  Failure,
+  toPermanentFailure,
+  toTransientFailure,
+  trackFailure
+} from "../utils/errors";
+import {
+  deleteCardExpiration,
+  insertCardExpiration
+} from "../utils/table_storage";
+
+export const ActivityInput = t.interface({
+  cardType: ExpiringCardType,
+  expirationDate: Timestamp,
+  fiscalCode: FiscalCode,
+  previousExpirationDate: Timestamp
+});
+
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+export const ActivityResultMigrationSuccess = t.intersection([
+  ActivityResultSuccess,
+  t.interface({
+    // false when the card is not active anymore
+    isMigrated: t.boolean
+  })
+]);
+
+export type ActivityResultMigrationSuccess = t.TypeOf<
+  typeof ActivityResultMigrationSuccess
+>;
+
+export const ActivityResult = t.union([
+  ActivityResultMigrationSuccess,
+  ActivityResultFailure
+]);
+
+export type ActivityResult = t.TypeOf<typeof ActivityResult>;
+
+const toPartitionKey = (date: Date): string => formatRomeDate(date);
+
+/**
+ * Deletes the expiration tuple the card has been moved from,
+ * unless it is due on the same day of the new one
+ */
+const deletePreviousExpiration = (
+  tableService: TableService,
+  expirationTableName: NonEmptyString,
+  { expirationDate, fiscalCode, previousExpirationDate }: ActivityInput
+): TE.TaskEither<Failure, void> =>
+  toPartitionKey(previousExpirationDate) === toPartitionKey(expirationDate)
+    ? TE.of(void 0)
+    : pipe(
+        deleteCardExpiration(tableService, expirationTableName)(
+          fiscalCode,
+          previousExpirationDate
+        ),
+        TE.mapLeft(err =>
+          toTransientFailure(err, "Cannot delete the previous expiration")
+        )
+      );
+
+export const getMigrateCardExpirationActivityHandler = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  redisClient: RedisClient,
+  eycaClient: ReturnType<EycaAPIClient>,
+  eycaApiUsername: NonEmptyString,
+  eycaApiPassword: NonEmptyString,
+  logPrefix: string = "MigrateCardExpirationActivity"
+) => (context: Context, input: unknown): Promise<ActivityResult> => {
+  const fail = trackFailure(context, logPrefix);
+
+  const migrateCgn = (
+    fiscalCode: FiscalCode,
+    expirationDate: Date
+  ): TE.TaskEither<Failure, boolean> =>
+    pipe(
+      userCgnModel.findLastVersionByModelId([fiscalCode]),
+      TE.mapLeft(() =>
+        toTransientFailure(
+          new Error("Cannot retrieve CGN for the provided fiscalCode")
+        )
+      ),
+      TE.chain(
+        TE.fromOption(() =>
+          toPermanentFailure(
+            new Error("No CGN found for the provided fiscalCode")
+          )
+        )
+      ),
+      TE.chain(userCgn =>
+        pipe(
+          userCgn.card,
+          // only the activated cards are migrated, unless their expiration
+          // date has been set by an operator: a suspended card would get
+          // back the expiration date it had when suspended once resumed
+          O.fromPredicate(CardActivated.is),
+          O.filter(() => userCgn.expirationOverride === undefined),
+          O.fold(
+            () => TE.of<Failure, boolean>(false),
+            card =>
+              pipe(
+                insertCardExpiration(tableService, cgnExpirationTableName)(
+                  fiscalCode,
+                  card.activation_date,
+                  expirationDate
+                ),
+                TE.mapLeft(err =>
+                  toTransientFailure(err, "Cannot insert CGN expiration")
+                ),
+                TE.chain(() =>
+                  card.expiration_date.getTime() === expirationDate.getTime()
+                    ? TE.of(true)
+                    : pipe(
+                        userCgnModel.update({
+                          ...userCgn,
+                          card: {
+                            ...card,
+                            expiration_date: expirationDate
+                          }
+                        }),
+                        TE.bimap(
+                          flow(E.toError, e =>
+                            toTransientFailure(e, "Cannot update CGN")
+                          ),
+                          () => true
+                        )
+                      )
+                )
+              )
+          )
+        )
+      )
+    );
+
+  const migrateEyca = (
+    fiscalCode: FiscalCode,
+    expirationDate: Date
+  ): TE.TaskEither<Failure, boolean> =>
+    pipe(
+      userEycaCardModel.findLastVersionByModelId([fiscalCode]),
+      TE.mapLeft(() =>
+        toTransientFailure(
+          new Error("Cannot retrieve EYCA card for the provided fiscalCode")
+        )
+      ),
+      TE.chain(
+        TE.fromOption(() =>
+          toPermanentFailure(
+            new Error("No EYCA card found for the provided fiscalCode")
+          )
+        )
+      ),
+      TE.chain(userEycaCard =>
+        pipe(
+          userEycaCard.card,
+          O.fromPredicate(EycaCardActivated.is),
+          O.filter(() => userEycaCard.expirationOverride === undefined),
+          O.fold(
+            () => TE.of<Failure, boolean>(false),
+            card =>
+              pipe(
+                insertCardExpiration(tableService, eycaExpirationTableName)(
+                  fiscalCode,
+                  card.activation_date,
+                  expirationDate
+                ),
+                TE.mapLeft(err =>
+                  toTransientFailure(err, "Cannot insert EYCA expiration")
+                ),
+                TE.chain(() =>
+                  updateCard(
+                    redisClient,
+                    eycaClient,
+                    eycaApiUsername,
+                    eycaApiPassword,
+                    card.card_number,
+                    expirationDate
+                  )
+                ),
+                TE.chain(() =>
+                  card.expiration_date.getTime() === expirationDate.getTime()
+                    ? TE.of(true)
+                    : pipe(
+                        userEycaCardModel.update({
+                          ...userEycaCard,
+                          card: {
+                            ...card,
+                            expiration_date: expirationDate
+                          }
+                        }),
+                        TE.bimap(
+                          flow(E.toError, e =>
+                            toTransientFailure(e, "Cannot update EYCA card")
+                          ),
+                          () => true
+                        )
+                      )
+                )
+              )
+          )
+        )
+      )
+    );
+
+  return pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(
+      flow(errorsToError, e =>
+        toPermanentFailure(e, "Cannot decode Activity Input")
+      )
+    ),
+    // every step can be repeated, so that the whole activity can be retried
+    // until the previous expiration is removed
+    TE.chain(activityInput =>
+      pipe(
+        activityInput.cardType === ExpiringCardTypeEnum.CGN
+          ? migrateCgn(activityInput.fiscalCode, activityInput.expirationDate)
+          : migrateEyca(activityInput.fiscalCode, activityInput.expirationDate),
+        TE.chain(isMigrated =>
+          isMigrated
+            ? pipe(
+                deletePreviousExpiration(
+                  tableService,
+                  activityInput.cardType === ExpiringCardTypeEnum.CGN
+                    ? cgnExpirationTableName
+                    : eycaExpirationTableName,
+                  activityInput
+                ),
+                TE.map(() => isMigrated)
+              )
+            : TE.of(isMigrated)
+        )
+      )
+    ),
+    TE.bimap(fail, isMigrated =>
+      ActivityResultMigrationSuccess.encode({
+        isMigrated,
+        kind: "SUCCESS"
+      })
+    ),
+    TE.toUnion
+  )();
+};
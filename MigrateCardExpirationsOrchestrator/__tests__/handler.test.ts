@@ -0,0 +1,301 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { context as contextMock } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { MigrationOutcomeEnum } from "../../CardExpirationMigrationOrchestrator/handler";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import { maskFiscalCode } from "../../utils/conversions";
+import { MigrateCardExpirationsOrchestratorHandler } from "../handler";
+
+const aStartDate = new Date("2021-01-01T10:00:00.000Z");
+const anotherFiscalCode = "DNLLSS99S20H501A" as FiscalCode;
+
+const aMigration = {
+  expirationDate: "2031-05-10T00:00:00.000Z",
+  fiscalCode: aFiscalCode,
+  previousExpirationDate: "2030-05-10T00:00:00.000Z"
+};
+
+const anotherMigration = {
+  ...aMigration,
+  fiscalCode: anotherFiscalCode
+};
+
+const getInputMock = jest.fn();
+const mockCallActivityWithRetry = jest.fn();
+const mockCallSubOrchestratorWithRetry = jest.fn();
+const mockTaskAll = jest.fn();
+const setCustomStatusMock = jest.fn();
+
+const mockContinueAsNew = jest.fn();
+
+const contextMockWithDf = {
+  ...contextMock,
+  df: {
+    Task: { all: mockTaskAll },
+    callActivityWithRetry: mockCallActivityWithRetry,
+    callSubOrchestratorWithRetry: mockCallSubOrchestratorWithRetry,
+    continueAsNew: mockContinueAsNew,
+    currentUtcDateTime: aStartDate,
+    getInput: getInputMock,
+    isReplaying: false,
+    setCustomStatus: setCustomStatusMock
+  }
+};
+
+const aSkippedMigration = {
+  maskedFiscalCode: "DNLLSS**********",
+  reason: "No EYCA eligibility rule in force for given fiscalCode"
+};
+
+const anEmptyMigration = {
+  affected_cards: 0,
+  failed_cards: [],
+  migrated_cards: 0,
+  skipped_cards: []
+};
+
+describe("MigrateCardExpirationsOrchestrator", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCallActivityWithRetry.mockImplementation((name: string) => name);
+    mockCallSubOrchestratorWithRetry.mockImplementation((name: string) => name);
+    mockTaskAll.mockImplementation(() => "Task.all");
+    mockContinueAsNew.mockImplementation(() => "ContinueAsNew");
+    getInputMock.mockImplementation(() => undefined);
+  });
+
+  it("should migrate the first page of CGNs and continue with the next one", () => {
+    const orchestrator = MigrateCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    expect(orchestrator.next().value).toBe(
+      "FindCardExpirationMigrationsActivity"
+    );
+    expect(
+      mockCallActivityWithRetry
+    ).toHaveBeenCalledWith(
+      "FindCardExpirationMigrationsActivity",
+      expect.anything(),
+      { cardType: ExpiringCardTypeEnum.CGN }
+    );
+    expect(
+      orchestrator.next({
+        kind: "SUCCESS",
+        migrations: [aMigration, anotherMigration],
+        nextId: "aNextId",
+        skippedMigrations: []
+      }).value
+    ).toBe("Task.all");
+    expect(mockCallSubOrchestratorWithRetry).toHaveBeenCalledTimes(2);
+    expect(
+      mockCallSubOrchestratorWithRetry
+    ).toHaveBeenCalledWith(
+      "CardExpirationMigrationOrchestrator",
+      expect.anything(),
+      { ...aMigration, cardType: ExpiringCardTypeEnum.CGN }
+    );
+    expect(
+      orchestrator.next([
+        MigrationOutcomeEnum.MIGRATED,
+        MigrationOutcomeEnum.FAILED
+      ]).value
+    ).toBe("ContinueAsNew");
+    expect(mockContinueAsNew).toHaveBeenCalledWith({
+      afterId: "aNextId",
+      cardType: ExpiringCardTypeEnum.CGN,
+      cgn: {
+        affected_cards: 2,
+        failed_cards: [maskFiscalCode(anotherFiscalCode)],
+        migrated_cards: 1,
+        skipped_cards: []
+      },
+      eyca: anEmptyMigration,
+      startedAt: aStartDate.toISOString()
+    });
+    expect(orchestrator.next().done).toBe(true);
+    expect(setCustomStatusMock).not.toHaveBeenCalledWith("COMPLETED");
+  });
+
+  it("should add the migration of a page to the report so far", () => {
+    getInputMock.mockImplementation(() => ({
+      afterId: "anId",
+      cardType: ExpiringCardTypeEnum.CGN,
+      cgn: {
+        affected_cards: 2,
+        failed_cards: [maskFiscalCode(anotherFiscalCode)],
+        migrated_cards: 1,
+        skipped_cards: []
+      },
+      eyca: anEmptyMigration,
+      startedAt: aStartDate.toISOString()
+    }));
+    const orchestrator = MigrateCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    expect(
+      mockCallActivityWithRetry
+    ).toHaveBeenCalledWith(
+      "FindCardExpirationMigrationsActivity",
+      expect.anything(),
+      { afterId: "anId", cardType: ExpiringCardTypeEnum.CGN }
+    );
+    orchestrator.next({
+      kind: "SUCCESS",
+      migrations: [aMigration],
+      skippedMigrations: [aSkippedMigration]
+    });
+    expect(orchestrator.next([MigrationOutcomeEnum.MIGRATED]).value).toBe(
+      "ContinueAsNew"
+    );
+    // the EYCA cards are migrated once the last page of CGNs has been
+    expect(mockContinueAsNew).toHaveBeenCalledWith({
+      cardType: ExpiringCardTypeEnum.EYCA,
+      cgn: {
+        affected_cards: 3,
+        failed_cards: [maskFiscalCode(anotherFiscalCode)],
+        migrated_cards: 2,
+        skipped_cards: [
+          {
+            fiscal_code: aSkippedMigration.maskedFiscalCode,
+            reason: aSkippedMigration.reason
+          }
+        ]
+      },
+      eyca: anEmptyMigration,
+      startedAt: aStartDate.toISOString()
+    });
+  });
+
+  it("should return the report once the last page of EYCA cards has been migrated", () => {
+    const aCgnMigration = {
+      affected_cards: 2,
+      failed_cards: [maskFiscalCode(anotherFiscalCode)],
+      migrated_cards: 1,
+      skipped_cards: []
+    };
+    const aStartDateOfAPreviousExecution = new Date("2020-12-31T10:00:00.000Z");
+    getInputMock.mockImplementation(() => ({
+      cardType: ExpiringCardTypeEnum.EYCA,
+      cgn: aCgnMigration,
+      eyca: anEmptyMigration,
+      startedAt: aStartDateOfAPreviousExecution.toISOString()
+    }));
+    const orchestrator = MigrateCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    expect(
+      mockCallActivityWithRetry
+    ).toHaveBeenCalledWith(
+      "FindCardExpirationMigrationsActivity",
+      expect.anything(),
+      { cardType: ExpiringCardTypeEnum.EYCA }
+    );
+    orchestrator.next({
+      kind: "SUCCESS",
+      migrations: [aMigration],
+      skippedMigrations: [aSkippedMigration]
+    });
+    const res = orchestrator.next([MigrationOutcomeEnum.SKIPPED]);
+
+    expect(res.done).toBe(true);
+    expect(res.value).toEqual({
+      cgn: aCgnMigration,
+      completed_at: aStartDate.toISOString(),
+      eyca: {
+        affected_cards: 1,
+        failed_cards: [],
+        migrated_cards: 0,
+        skipped_cards: [
+          {
+            fiscal_code: aSkippedMigration.maskedFiscalCode,
+            reason: aSkippedMigration.reason
+          }
+        ]
+      },
+      started_at: aStartDateOfAPreviousExecution.toISOString()
+    });
+    expect(mockContinueAsNew).not.toHaveBeenCalled();
+    expect(setCustomStatusMock).toHaveBeenNthCalledWith(1, "RUNNING");
+    expect(setCustomStatusMock).toHaveBeenNthCalledWith(2, "COMPLETED");
+  });
+
+  it("should migrate the cards of a page in chunks", () => {
+    const migrations = Array.from({ length: 150 }, () => aMigration);
+    const orchestrator = MigrateCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    expect(
+      orchestrator.next({ kind: "SUCCESS", migrations, skippedMigrations: [] })
+        .value
+    ).toBe("Task.all");
+    expect(mockTaskAll.mock.calls[0][0]).toHaveLength(100);
+    expect(
+      orchestrator.next(
+        Array.from({ length: 100 }, () => MigrationOutcomeEnum.MIGRATED)
+      ).value
+    ).toBe("Task.all");
+    expect(mockTaskAll.mock.calls[1][0]).toHaveLength(50);
+    orchestrator.next(
+      Array.from({ length: 50 }, () => MigrationOutcomeEnum.MIGRATED)
+    );
+
+    expect(mockContinueAsNew).toHaveBeenCalledWith(
+      expect.objectContaining({
+        cgn: {
+          affected_cards: 150,
+          failed_cards: [],
+          migrated_cards: 150,
+          skipped_cards: []
+        }
+      })
+    );
+  });
+
+  it("should not migrate the EYCA expirations if the CGN ones cannot be found", () => {
+    const orchestrator = MigrateCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    const res = orchestrator.next({ kind: "FAILURE", reason: "Reason" });
+
+    expect(res).toEqual({ done: true, value: false });
+    expect(mockCallActivityWithRetry).toHaveBeenCalledTimes(1);
+    expect(mockCallSubOrchestratorWithRetry).not.toHaveBeenCalled();
+    expect(mockContinueAsNew).not.toHaveBeenCalled();
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+
+  it("should fail if the activity output cannot be decoded", () => {
+    const orchestrator = MigrateCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    const res = orchestrator.next({ kind: "SUCCESS" });
+
+    expect(res).toEqual({ done: true, value: false });
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+
+  it("should fail if the input cannot be decoded", () => {
+    getInputMock.mockImplementation(() => ({ cardType: "UNKNOWN" }));
+    const orchestrator = MigrateCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    const res = orchestrator.next();
+
+    expect(res).toEqual({ done: true, value: false });
+    expect(mockCallActivityWithRetry).not.toHaveBeenCalled();
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+});
@@ -0,0 +1,251 @@
+import { IOrchestrationFunctionContext } from "durable-functions/lib/src/classes";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as A from "fp-ts/lib/Array";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as t from "io-ts";
+import {
+  MigrationOutcomeEnum,
+  OrchestratorInput as CardExpirationMigrationOrchestratorInput
+} from "../CardExpirationMigrationOrchestrator/handler";
+import {
+  ActivityInput as FindCardExpirationMigrationsActivityInput,
+  ActivityResult as FindCardExpirationMigrationsActivityResult,
+  ActivityResultMigrationsSuccess
+} from "../FindCardExpirationMigrationsActivity/handler";
+import { CardExpirationMigration } from "../generated/definitions/CardExpirationMigration";
+import { CardExpirationMigrationReport } from "../generated/definitions/CardExpirationMigrationReport";
+import { Timestamp } from "../generated/definitions/Timestamp";
+import {
+  ExpiringCardType,
+  ExpiringCardTypeEnum
+} from "../utils/card_expiration";
+import { maskFiscalCode } from "../utils/conversions";
+import {
+  getTrackExceptionAndThrowWithErrorStatus,
+  trackExceptionIfNotReplaying
+} from "../utils/orchestrators";
+import { internalRetryOptions } from "../utils/retry_policies";
+
+// how many cards are migrated in parallel
+const MIGRATION_CHUNK_SIZE = 100;
+
+/**
+ * How far a migration has got, carried over from a page of cards
+ * to the next one, as every page is migrated by a new execution
+ */
+export const OrchestratorInput = t.intersection([
+  t.interface({
+    cardType: ExpiringCardType,
+    cgn: CardExpirationMigration,
+    eyca: CardExpirationMigration,
+    startedAt: Timestamp
+  }),
+  t.partial({
+    // the id of the last card version scanned, missing on the first page
+    afterId: NonEmptyString
+  })
+]);
+export type OrchestratorInput = t.TypeOf<typeof OrchestratorInput>;
+
+const noMigration: CardExpirationMigration = {
+  affected_cards: 0 as NonNegativeInteger,
+  failed_cards: [],
+  migrated_cards: 0 as NonNegativeInteger,
+  skipped_cards: []
+};
+
+const addCount = (count: number, pageCount: number): NonNegativeInteger =>
+  (count + pageCount) as NonNegativeInteger;
+
+const addMigration = (
+  migration: CardExpirationMigration,
+  pageMigration: CardExpirationMigration
+): CardExpirationMigration => ({
+  affected_cards: addCount(
+    migration.affected_cards,
+    pageMigration.affected_cards
+  ),
+  failed_cards: [...migration.failed_cards, ...pageMigration.failed_cards],
+  migrated_cards: addCount(
+    migration.migrated_cards,
+    pageMigration.migrated_cards
+  ),
+  skipped_cards: [...migration.skipped_cards, ...pageMigration.skipped_cards]
+});
+
+/**
+ * Migrates the expiration dates of the active cards a page at a time:
+ * every execution migrates a single page, then continues as new with the
+ * report so far, so that neither the cards nor the history of the
+ * orchestrator grow with the number of cards.
+ * The CGNs are migrated first, then the EYCA cards.
+ */
+export const MigrateCardExpirationsOrchestratorHandler = function*(
+  context: IOrchestrationFunctionContext,
+  logPrefix: string = "MigrateCardExpirationsOrchestrator"
+): Generator {
+  const trackExAndThrowWithErrorStatus = getTrackExceptionAndThrowWithErrorStatus(
+    context,
+    logPrefix
+  );
+  const trackExIfNotReplaying = trackExceptionIfNotReplaying(context);
+
+  if (!context.df.isReplaying) {
+    context.df.setCustomStatus("RUNNING");
+  }
+
+  /**
+   * Migrates a page of the cards of the given type whose expiration date
+   * changes with the current upper bound age, each one by a sub-orchestrator.
+   * The cards whose new expiration date cannot be computed are reported
+   * as skipped
+   */
+  const migratePage = function*(
+    cardType: ExpiringCardTypeEnum,
+    afterId: NonEmptyString | undefined
+  ): Generator<
+    unknown,
+    {
+      readonly migration: CardExpirationMigration;
+      readonly nextId: NonEmptyString | undefined;
+    }
+  > {
+    const { migrations, nextId, skippedMigrations } = pipe(
+      yield context.df.callActivityWithRetry(
+        "FindCardExpirationMigrationsActivity",
+        internalRetryOptions,
+        FindCardExpirationMigrationsActivityInput.encode({ afterId, cardType })
+      ),
+      FindCardExpirationMigrationsActivityResult.decode,
+      E.getOrElseW(e =>
+        trackExAndThrowWithErrorStatus(
+          e,
+          "card.expiration.migration.exception.decode.findMigrationsActivityOutput"
+        )
+      ),
+      E.fromPredicate(ActivityResultMigrationsSuccess.is, () =>
+        trackExAndThrowWithErrorStatus(
+          new Error(`Cannot find the ${cardType} expirations to migrate`),
+          "card.expiration.migration.exception.failure.findMigrationsActivityOutput"
+        )
+      ),
+      E.toUnion
+    );
+
+    // eslint-disable-next-line functional/prefer-readonly-type
+    const outcomes: unknown[] = [];
+    for (const migrationsChunk of A.chunksOf(MIGRATION_CHUNK_SIZE)([
+      ...migrations
+    ])) {
+      // eslint-disable-next-line functional/immutable-data
+      outcomes.push(
+        ...((yield context.df.Task.all(
+          migrationsChunk.map(migration =>
+            context.df.callSubOrchestratorWithRetry(
+              "CardExpirationMigrationOrchestrator",
+              internalRetryOptions,
+              CardExpirationMigrationOrchestratorInput.encode({
+                ...migration,
+                cardType
+              })
+            )
+          )
+        )) as ReadonlyArray<unknown>)
+      );
+    }
+
+    return {
+      migration: {
+        affected_cards: migrations.length as NonNegativeInteger,
+        // the report is kept as the orchestrator output, so it holds
+        // no more personal data than the skipped cards do
+        failed_cards: pipe(
+          RA.zip(migrations, outcomes),
+          RA.filterMap(([migration, outcome]) =>
+            outcome === MigrationOutcomeEnum.FAILED
+              ? O.some(maskFiscalCode(migration.fiscalCode))
+              : O.none
+          )
+        ),
+        migrated_cards: outcomes.filter(
+          outcome => outcome === MigrationOutcomeEnum.MIGRATED
+        ).length as NonNegativeInteger,
+        skipped_cards: skippedMigrations.map(skippedMigration => ({
+          fiscal_code: skippedMigration.maskedFiscalCode,
+          reason: skippedMigration.reason
+        }))
+      },
+      nextId
+    };
+  };
+
+  try {
+    const input = pipe(
+      // the first page is migrated with no input
+      O.fromNullable(context.df.getInput()),
+      O.fold(
+        () =>
+          E.right<t.Errors, OrchestratorInput>({
+            cardType: ExpiringCardTypeEnum.CGN,
+            cgn: noMigration,
+            eyca: noMigration,
+            // the orchestrator time is replayed,
+            // so it is the time of the first execution
+            startedAt: context.df.currentUtcDateTime
+          }),
+        OrchestratorInput.decode
+      ),
+      E.getOrElseW(e =>
+        trackExAndThrowWithErrorStatus(
+          e,
+          "card.expiration.migration.exception.decode.input"
+        )
+      )
+    );
+
+    const { migration, nextId } = yield* migratePage(
+      input.cardType,
+      input.afterId
+    );
+    const progress = {
+      ...input,
+      ...(input.cardType === ExpiringCardTypeEnum.CGN
+        ? { cgn: addMigration(input.cgn, migration) }
+        : { eyca: addMigration(input.eyca, migration) })
+    };
+
+    if (nextId !== undefined || input.cardType === ExpiringCardTypeEnum.CGN) {
+      yield context.df.continueAsNew(
+        OrchestratorInput.encode({
+          ...progress,
+          afterId: nextId,
+          cardType:
+            nextId !== undefined ? input.cardType : ExpiringCardTypeEnum.EYCA
+        })
+      );
+      return;
+    }
+
+    context.df.setCustomStatus("COMPLETED");
+
+    return CardExpirationMigrationReport.encode({
+      cgn: progress.cgn,
+      completed_at: context.df.currentUtcDateTime,
+      eyca: progress.eyca,
+      started_at: progress.startedAt
+    });
+  } catch (err) {
+    context.log.error(`${logPrefix}|ERROR|${String(err)}`);
+    trackExIfNotReplaying({
+      exception: E.toError(err),
+      properties: {
+        name: "card.expiration.migration.error"
+      }
+    });
+    return false;
+  }
+};
@@ -0,0 +1,4 @@
+import * as df from "durable-functions";
+import { MigrateCardExpirationsOrchestratorHandler } from "./handler";
+
+export const index = df.orchestrator(MigrateCardExpirationsOrchestratorHandler);
@@ -0,0 +1,352 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as SuspendedStatusEnum } from "../../generated/definitions/CardSuspended";
+import { CcdbNumber } from "../../generated/eyca-api/CcdbNumber";
+import * as eyca from "../../SuccessEycaActivationActivity/eyca";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import { fixedClock } from "../../utils/clock";
+import { addRomeDays, startOfRomeDay, toRomeDate } from "../../utils/dates";
+import { getDefaultEligibilityPolicy } from "../../utils/eligibility_policy";
+import * as tableStorage from "../../utils/table_storage";
+import { OverrideCardExpirationHandler } from "../handler";
+
+const aCgnExpirationTableName = "cgnexpiration" as NonEmptyString;
+const anEycaExpirationTableName = "eycaexpiration" as NonEmptyString;
+const aCcdbNumber = "X123-Y123-Z123-W123" as CcdbNumber;
+const aJustification = "A legal exception" as NonEmptyString;
+
+const aNow = new Date("2026-01-10T10:00:00.000Z");
+const anActivationDate = new Date("2020-01-01T00:00:00.000Z");
+const aPreviousExpirationDate = startOfRomeDay(date_fns.addYears(aNow, 2));
+const anExpirationDate = startOfRomeDay(
+  date_fns.addYears(aPreviousExpirationDate, 1)
+);
+
+const anActivatedUserCgn = {
+  card: {
+    activation_date: anActivationDate,
+    expiration_date: aPreviousExpirationDate,
+    status: ActivatedStatusEnum.ACTIVATED
+  },
+  fiscalCode: aFiscalCode
+};
+
+const anActivatedUserEycaCard = {
+  card: {
+    ...anActivatedUserCgn.card,
+    card_number: aCcdbNumber
+  },
+  fiscalCode: aFiscalCode
+};
+
+const aCgnOverrideRequest = {
+  card_type: ExpiringCardTypeEnum.CGN,
+  expiration_date: anExpirationDate,
+  justification: aJustification
+};
+
+const findLastCgnVersionMock = jest.fn();
+const updateCgnMock = jest.fn();
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastCgnVersionMock,
+  update: updateCgnMock
+};
+
+const findLastEycaCardVersionMock = jest.fn();
+const updateEycaCardMock = jest.fn();
+const userEycaCardModelMock = {
+  findLastVersionByModelId: findLastEycaCardVersionMock,
+  update: updateEycaCardMock
+};
+
+const insertCardExpirationMock = jest.fn();
+const insertCardExpirationSpy = jest
+  .spyOn(tableStorage, "insertCardExpiration")
+  .mockImplementation(() => insertCardExpirationMock);
+
+const deleteCardExpirationMock = jest.fn();
+const deleteCardExpirationSpy = jest
+  .spyOn(tableStorage, "deleteCardExpiration")
+  .mockImplementation(() => deleteCardExpirationMock);
+
+const updateCardMock = jest.fn();
+jest.spyOn(eyca, "updateCard").mockImplementation(updateCardMock);
+
+// aFiscalCode is born on 1999-11-20
+const anEligibilityPolicy = getDefaultEligibilityPolicy(
+  36 as NonNegativeInteger,
+  31 as NonNegativeInteger
+);
+const anOverrideMarginDays = 365 as NonNegativeInteger;
+
+const getOverrideCardExpirationHandler = (
+  eligibilityPolicy = anEligibilityPolicy
+) =>
+  OverrideCardExpirationHandler(
+    userCgnModelMock as any,
+    userEycaCardModelMock as any,
+    {} as any,
+    aCgnExpirationTableName,
+    anEycaExpirationTableName,
+    {} as any,
+    {} as any,
+    "aUsername" as NonEmptyString,
+    "aPassword" as NonEmptyString,
+    eligibilityPolicy,
+    anOverrideMarginDays,
+    fixedClock(aNow)
+  );
+
+const overrideCardExpirationHandler = getOverrideCardExpirationHandler();
+
+const anExpectedOverride = {
+  expiration_date: anExpirationDate,
+  justification: aJustification,
+  overridden_at: expect.any(Date),
+  previous_expiration_date: aPreviousExpirationDate
+};
+
+describe("OverrideCardExpiration", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLastCgnVersionMock.mockImplementation(() =>
+      TE.of(O.some(anActivatedUserCgn))
+    );
+    updateCgnMock.mockImplementation(userCgn => TE.of(userCgn));
+    findLastEycaCardVersionMock.mockImplementation(() =>
+      TE.of(O.some(anActivatedUserEycaCard))
+    );
+    updateEycaCardMock.mockImplementation(userEycaCard => TE.of(userEycaCard));
+    insertCardExpirationMock.mockImplementation(() => TE.of({}));
+    deleteCardExpirationMock.mockImplementation(() => TE.of(void 0));
+    updateCardMock.mockImplementation(() =>
+      TE.of("Object(s) updated." as NonEmptyString)
+    );
+  });
+
+  it("should override the CGN expiration date", async () => {
+    const response = await overrideCardExpirationHandler(
+      context,
+      aFiscalCode,
+      aCgnOverrideRequest
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: anExpectedOverride
+      })
+    );
+    expect(insertCardExpirationSpy).toHaveBeenCalledWith(
+      {},
+      aCgnExpirationTableName
+    );
+    expect(insertCardExpirationMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      anActivationDate,
+      anExpirationDate
+    );
+    expect(updateCgnMock).toHaveBeenCalledWith({
+      ...anActivatedUserCgn,
+      card: { ...anActivatedUserCgn.card, expiration_date: anExpirationDate },
+      expirationOverride: anExpectedOverride
+    });
+    expect(deleteCardExpirationSpy).toHaveBeenCalledWith(
+      {},
+      aCgnExpirationTableName
+    );
+    expect(deleteCardExpirationMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      aPreviousExpirationDate
+    );
+    expect(updateCardMock).not.toHaveBeenCalled();
+  });
+
+  it("should override the EYCA expiration date on CCDB too", async () => {
+    const response = await overrideCardExpirationHandler(context, aFiscalCode, {
+      ...aCgnOverrideRequest,
+      card_type: ExpiringCardTypeEnum.EYCA
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    expect(insertCardExpirationSpy).toHaveBeenCalledWith(
+      {},
+      anEycaExpirationTableName
+    );
+    expect(updateCardMock).toHaveBeenCalledWith(
+      {},
+      {},
+      "aUsername",
+      "aPassword",
+      aCcdbNumber,
+      anExpirationDate
+    );
+    expect(updateEycaCardMock).toHaveBeenCalledWith({
+      ...anActivatedUserEycaCard,
+      card: {
+        ...anActivatedUserEycaCard.card,
+        expiration_date: anExpirationDate
+      },
+      expirationOverride: anExpectedOverride
+    });
+    expect(deleteCardExpirationSpy).toHaveBeenCalledWith(
+      {},
+      anEycaExpirationTableName
+    );
+    expect(updateCgnMock).not.toHaveBeenCalled();
+  });
+
+  it("should override the expiration date with the start of its day in Rome", async () => {
+    const response = await overrideCardExpirationHandler(context, aFiscalCode, {
+      ...aCgnOverrideRequest,
+      expiration_date: date_fns.addHours(anExpirationDate, 15)
+    });
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: anExpectedOverride
+      })
+    );
+    expect(insertCardExpirationMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      anActivationDate,
+      anExpirationDate
+    );
+  });
+
+  it("should keep the expiration tuple if the new date is on the same day", async () => {
+    const response = await overrideCardExpirationHandler(context, aFiscalCode, {
+      ...aCgnOverrideRequest,
+      expiration_date: date_fns.addHours(aPreviousExpirationDate, 1)
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    expect(insertCardExpirationMock).toHaveBeenCalled();
+    expect(deleteCardExpirationMock).not.toHaveBeenCalled();
+  });
+
+  it("should return a Validation Error if the new date is not in the future", async () => {
+    const response = await overrideCardExpirationHandler(context, aFiscalCode, {
+      ...aCgnOverrideRequest,
+      expiration_date: aNow
+    });
+    expect(response.kind).toBe("IResponseErrorValidation");
+    expect(findLastCgnVersionMock).not.toHaveBeenCalled();
+  });
+
+  it.each`
+    cardType                     | latestExpirationDate
+    ${ExpiringCardTypeEnum.CGN}  | ${toRomeDate(2036, 11, 19)}
+    ${ExpiringCardTypeEnum.EYCA} | ${toRomeDate(2031, 11, 20)}
+  `(
+    "should accept a $cardType expiration date up to the margin past the upper bound birthday",
+    async ({ cardType, latestExpirationDate }) => {
+      const response = await overrideCardExpirationHandler(
+        context,
+        aFiscalCode,
+        {
+          ...aCgnOverrideRequest,
+          card_type: cardType,
+          expiration_date: date_fns.addHours(latestExpirationDate, 20)
+        }
+      );
+      expect(response.kind).toBe("IResponseSuccessJson");
+    }
+  );
+
+  it.each`
+    cardType                     | latestExpirationDate
+    ${ExpiringCardTypeEnum.CGN}  | ${toRomeDate(2036, 11, 19)}
+    ${ExpiringCardTypeEnum.EYCA} | ${toRomeDate(2031, 11, 20)}
+  `(
+    "should return a Validation Error if the $cardType expiration date is past the margin after the upper bound birthday",
+    async ({ cardType, latestExpirationDate }) => {
+      const response = await overrideCardExpirationHandler(
+        context,
+        aFiscalCode,
+        {
+          ...aCgnOverrideRequest,
+          card_type: cardType,
+          expiration_date: addRomeDays(latestExpirationDate, 1)
+        }
+      );
+      expect(response.kind).toBe("IResponseErrorValidation");
+      expect(findLastCgnVersionMock).not.toHaveBeenCalled();
+      expect(findLastEycaCardVersionMock).not.toHaveBeenCalled();
+    }
+  );
+
+  it("should return an Internal Error if the latest expiration date cannot be computed", async () => {
+    const response = await getOverrideCardExpirationHandler([])(
+      context,
+      aFiscalCode,
+      aCgnOverrideRequest
+    );
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(findLastCgnVersionMock).not.toHaveBeenCalled();
+  });
+
+  it("should return Not Found if the user has no card", async () => {
+    findLastCgnVersionMock.mockImplementationOnce(() => TE.of(O.none));
+    const response = await overrideCardExpirationHandler(
+      context,
+      aFiscalCode,
+      aCgnOverrideRequest
+    );
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return Conflict if the card is not activated", async () => {
+    findLastCgnVersionMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anActivatedUserCgn,
+          card: {
+            ...anActivatedUserCgn.card,
+            reason: "A reason",
+            status: SuspendedStatusEnum.SUSPENDED,
+            suspension_date: new Date()
+          }
+        })
+      )
+    );
+    const response = await overrideCardExpirationHandler(
+      context,
+      aFiscalCode,
+      aCgnOverrideRequest
+    );
+    expect(response.kind).toBe("IResponseErrorConflict");
+    expect(insertCardExpirationMock).not.toHaveBeenCalled();
+    expect(updateCgnMock).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error and keep the previous expiration if CCDB cannot be updated", async () => {
+    updateCardMock.mockImplementationOnce(() =>
+      TE.left({ kind: "TRANSIENT", reason: "Cannot call EYCA updateCard API" })
+    );
+    const response = await overrideCardExpirationHandler(context, aFiscalCode, {
+      ...aCgnOverrideRequest,
+      card_type: ExpiringCardTypeEnum.EYCA
+    });
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(updateEycaCardMock).not.toHaveBeenCalled();
+    expect(deleteCardExpirationMock).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if the card cannot be updated", async () => {
+    updateCgnMock.mockImplementationOnce(() =>
+      TE.left({ kind: "COSMOS_ERROR_RESPONSE" })
+    );
+    const response = await overrideCardExpirationHandler(
+      context,
+      aFiscalCode,
+      aCgnOverrideRequest
+    );
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(deleteCardExpirationMock).not.toHaveBeenCalled();
+  });
+});
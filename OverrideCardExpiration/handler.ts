@@ -0,0 +1,387 @@
+/* eslint-disable max-params */
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredBodyPayloadMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_body_payload";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorConflict,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorConflict,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseErrorValidation,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableService } from "azure-storage";
+import * as date_fns from "date-fns";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { RedisClient } from "redis";
+import { EycaAPIClient } from "../clients/eyca";
+import { CardActivated } from "../generated/definitions/CardActivated";
+import { CardExpirationOverrideRequest } from "../generated/definitions/CardExpirationOverrideRequest";
+import { ExpirationOverride } from "../generated/definitions/ExpirationOverride";
+import { EycaCardActivated } from "../generated/definitions/EycaCardActivated";
+import { UserCgnModel } from "../models/user_cgn";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import { updateCard } from "../SuccessEycaActivationActivity/eyca";
+import { ExpiringCardTypeEnum } from "../utils/card_expiration";
+import {
+  extractCgnExpirationDate,
+  extractEycaExpirationDate
+} from "../utils/cgn_checks";
+import { Clock } from "../utils/clock";
+import { addRomeDays, formatRomeDate, startOfRomeDay } from "../utils/dates";
+import { EligibilityPolicy } from "../utils/eligibility_policy";
+import {
+  deleteCardExpiration,
+  insertCardExpiration
+} from "../utils/table_storage";
+
+type ResponseTypes =
+  | IResponseSuccessJson<ExpirationOverride>
+  | IResponseErrorValidation
+  | IResponseErrorNotFound
+  | IResponseErrorConflict
+  | IResponseErrorInternal;
+
+type IOverrideCardExpirationHandler = (
+  context: Context,
+  fiscalCode: FiscalCode,
+  overrideRequest: CardExpirationOverrideRequest
+) => Promise<ResponseTypes>;
+
+const toPartitionKey = (date: Date): string => formatRomeDate(date);
+
+// cards expire at the start of a day in Rome, whatever the requested time
+const toExpirationOverride = (
+  previousExpirationDate: Date,
+  overrideRequest: CardExpirationOverrideRequest,
+  overriddenAt: Date
+): ExpirationOverride => ({
+  expiration_date: startOfRomeDay(overrideRequest.expiration_date),
+  justification: overrideRequest.justification,
+  overridden_at: overriddenAt,
+  previous_expiration_date: previousExpirationDate
+});
+
+/**
+ * Deletes the expiration tuple of the previous expiration date,
+ * unless it is the same tuple of the new one
+ */
+const deletePreviousExpiration = (
+  tableService: TableService,
+  expirationTableName: NonEmptyString,
+  fiscalCode: FiscalCode,
+  expirationOverride: ExpirationOverride
+): TE.TaskEither<Error, void> =>
+  toPartitionKey(expirationOverride.previous_expiration_date) ===
+  toPartitionKey(expirationOverride.expiration_date)
+    ? TE.of(void 0)
+    : deleteCardExpiration(tableService, expirationTableName)(
+        fiscalCode,
+        expirationOverride.previous_expiration_date
+      );
+
+/**
+ * Checks that the new expiration date is from tomorrow on, since the
+ * expirations due today have already been processed, and at most the given
+ * margin of days past the upper bound birthday of the citizen,
+ * by the rule of the card
+ */
+const checkExpirationDateBounds = (
+  fiscalCode: FiscalCode,
+  overrideRequest: CardExpirationOverrideRequest,
+  eligibilityPolicy: EligibilityPolicy,
+  overrideMarginDays: NonNegativeInteger,
+  clock: Clock,
+  onError: (err: Error) => IResponseErrorInternal
+): TE.TaskEither<IResponseErrorValidation | IResponseErrorInternal, Date> =>
+  pipe(
+    overrideRequest.expiration_date,
+    TE.fromPredicate(
+      expirationDate =>
+        !date_fns.isBefore(expirationDate, addRomeDays(clock(), 1)),
+      () =>
+        ResponseErrorValidation(
+          "Bad Request",
+          "The expiration date must be tomorrow or later"
+        )
+    ),
+    TE.chainW(() =>
+      pipe(
+        overrideRequest.card_type === ExpiringCardTypeEnum.CGN
+          ? extractCgnExpirationDate(fiscalCode, eligibilityPolicy, clock)
+          : TE.fromEither(
+              extractEycaExpirationDate(fiscalCode, eligibilityPolicy, clock)
+            ),
+        TE.mapLeft(onError)
+      )
+    ),
+    TE.map(upperBoundBirthday =>
+      addRomeDays(upperBoundBirthday, overrideMarginDays)
+    ),
+    TE.chainW(latestExpirationDate =>
+      TE.fromPredicate(
+        (expirationDate: Date) =>
+          !date_fns.isAfter(
+            startOfRomeDay(expirationDate),
+            latestExpirationDate
+          ),
+        () =>
+          ResponseErrorValidation(
+            "Bad Request",
+            `The expiration date must be ${formatRomeDate(
+              latestExpirationDate
+            )} or earlier`
+          )
+      )(overrideRequest.expiration_date)
+    )
+  );
+
+/**
+ * Overrides the expiration date of a single card, either the CGN or the
+ * EYCA one: their eligibility rules have different upper bound ages, so
+ * they hardly share the same expiration date and each override keeps
+ * its own justification. Overriding both cards takes a call for each.
+ * The new date can be at most the given margin of days past the upper
+ * bound birthday of the citizen, by the rule of the card.
+ */
+export const OverrideCardExpirationHandler = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  redisClient: RedisClient,
+  eycaClient: ReturnType<EycaAPIClient>,
+  eycaApiUsername: NonEmptyString,
+  eycaApiPassword: NonEmptyString,
+  eligibilityPolicy: EligibilityPolicy,
+  overrideMarginDays: NonNegativeInteger,
+  clock: Clock,
+  logPrefix: string = "OverrideCardExpirationHandler"
+): IOverrideCardExpirationHandler => async (
+  context,
+  fiscalCode,
+  overrideRequest
+): Promise<ResponseTypes> => {
+  const toInternalError = (message: string) => (
+    err: Error
+  ): IResponseErrorInternal => {
+    context.log.error(`${logPrefix}|${message}|ERROR=${err.message}`);
+    return ResponseErrorInternal(message);
+  };
+
+  // the new expiration tuple is stored first and the previous one is deleted
+  // last, so that the card keeps expiring if the override is interrupted
+  const overrideCgnExpiration = (): TE.TaskEither<
+    IResponseErrorNotFound | IResponseErrorConflict | IResponseErrorInternal,
+    ExpirationOverride
+  > =>
+    pipe(
+      userCgnModel.findLastVersionByModelId([fiscalCode]),
+      TE.mapLeft(() =>
+        ResponseErrorInternal("Cannot retrieve CGN infos for this user")
+      ),
+      TE.chainW(
+        TE.fromOption(() =>
+          ResponseErrorNotFound("Not Found", "User's CGN not found")
+        )
+      ),
+      TE.chainW(userCgn =>
+        pipe(
+          userCgn.card,
+          TE.fromPredicate(CardActivated.is, () =>
+            ResponseErrorConflict(
+              "Cannot override the expiration date of a CGN that is not activated"
+            )
+          ),
+          TE.chainW(card => {
+            const expirationOverride = toExpirationOverride(
+              card.expiration_date,
+              overrideRequest,
+              clock()
+            );
+            return pipe(
+              insertCardExpiration(tableService, cgnExpirationTableName)(
+                fiscalCode,
+                card.activation_date,
+                expirationOverride.expiration_date
+              ),
+              TE.chain(() =>
+                pipe(
+                  userCgnModel.update({
+                    ...userCgn,
+                    card: {
+                      ...card,
+                      expiration_date: expirationOverride.expiration_date
+                    },
+                    expirationOverride
+                  }),
+                  TE.mapLeft(err => new Error(err.kind))
+                )
+              ),
+              TE.chain(() =>
+                deletePreviousExpiration(
+                  tableService,
+                  cgnExpirationTableName,
+                  fiscalCode,
+                  expirationOverride
+                )
+              ),
+              TE.bimap(
+                toInternalError("Cannot override the CGN expiration date"),
+                () => expirationOverride
+              )
+            );
+          })
+        )
+      )
+    );
+
+  const overrideEycaExpiration = (): TE.TaskEither<
+    IResponseErrorNotFound | IResponseErrorConflict | IResponseErrorInternal,
+    ExpirationOverride
+  > =>
+    pipe(
+      userEycaCardModel.findLastVersionByModelId([fiscalCode]),
+      TE.mapLeft(() =>
+        ResponseErrorInternal("Cannot retrieve EYCA card infos for this user")
+      ),
+      TE.chainW(
+        TE.fromOption(() =>
+          ResponseErrorNotFound("Not Found", "User's EYCA card not found")
+        )
+      ),
+      TE.chainW(userEycaCard =>
+        pipe(
+          userEycaCard.card,
+          TE.fromPredicate(EycaCardActivated.is, () =>
+            ResponseErrorConflict(
+              "Cannot override the expiration date of an EYCA card that is not activated"
+            )
+          ),
+          TE.chainW(card => {
+            const expirationOverride = toExpirationOverride(
+              card.expiration_date,
+              overrideRequest,
+              clock()
+            );
+            return pipe(
+              insertCardExpiration(tableService, eycaExpirationTableName)(
+                fiscalCode,
+                card.activation_date,
+                expirationOverride.expiration_date
+              ),
+              TE.chain(() =>
+                pipe(
+                  updateCard(
+                    redisClient,
+                    eycaClient,
+                    eycaApiUsername,
+                    eycaApiPassword,
+                    card.card_number,
+                    expirationOverride.expiration_date
+                  ),
+                  TE.mapLeft(failure => new Error(failure.reason))
+                )
+              ),
+              TE.chain(() =>
+                pipe(
+                  userEycaCardModel.update({
+                    ...userEycaCard,
+                    card: {
+                      ...card,
+                      expiration_date: expirationOverride.expiration_date
+                    },
+                    expirationOverride
+                  }),
+                  TE.mapLeft(err => new Error(err.kind))
+                )
+              ),
+              TE.chain(() =>
+                deletePreviousExpiration(
+                  tableService,
+                  eycaExpirationTableName,
+                  fiscalCode,
+                  expirationOverride
+                )
+              ),
+              TE.bimap(
+                toInternalError("Cannot override the EYCA expiration date"),
+                () => expirationOverride
+              )
+            );
+          })
+        )
+      )
+    );
+
+  return pipe(
+    checkExpirationDateBounds(
+      fiscalCode,
+      overrideRequest,
+      eligibilityPolicy,
+      overrideMarginDays,
+      clock,
+      toInternalError("Cannot compute the latest expiration date")
+    ),
+    TE.chainW(() =>
+      overrideRequest.card_type === ExpiringCardTypeEnum.CGN
+        ? overrideCgnExpiration()
+        : overrideEycaExpiration()
+    ),
+    TE.map(ResponseSuccessJson),
+    TE.toUnion
+  )();
+};
+
+export const OverrideCardExpiration = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  redisClient: RedisClient,
+  eycaClient: ReturnType<EycaAPIClient>,
+  eycaApiUsername: NonEmptyString,
+  eycaApiPassword: NonEmptyString,
+  eligibilityPolicy: EligibilityPolicy,
+  overrideMarginDays: NonNegativeInteger,
+  clock: Clock
+): express.RequestHandler => {
+  const handler = OverrideCardExpirationHandler(
+    userCgnModel,
+    userEycaCardModel,
+    tableService,
+    cgnExpirationTableName,
+    eycaExpirationTableName,
+    redisClient,
+    eycaClient,
+    eycaApiUsername,
+    eycaApiPassword,
+    eligibilityPolicy,
+    overrideMarginDays,
+    clock
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode),
+    RequiredBodyPayloadMiddleware(CardExpirationOverrideRequest)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -0,0 +1,89 @@
+import * as express from "express";
+import * as winston from "winston";
+
+import { Context } from "@azure/functions";
+import createAzureFunctionHandler from "@pagopa/express-azure-functions/dist/src/createAzureFunctionsHandler";
+import { secureExpressApp } from "@pagopa/io-functions-commons/dist/src/utils/express";
+import { AzureContextTransport } from "@pagopa/io-functions-commons/dist/src/utils/logging";
+import { setAppContext } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+
+import { createTableService } from "azure-storage";
+import { EycaAPIClient } from "../clients/eyca";
+import { USER_CGN_COLLECTION_NAME, UserCgnModel } from "../models/user_cgn";
+import {
+  USER_EYCA_CARD_COLLECTION_NAME,
+  UserEycaCardModel
+} from "../models/user_eyca_card";
+import { getClock } from "../utils/clock";
+import { getConfigOrThrow } from "../utils/config";
+import { cosmosdbClient } from "../utils/cosmosdb";
+import { getEligibilityPolicy } from "../utils/eligibility_policy";
+import { REDIS_CLIENT } from "../utils/redis";
+import { OverrideCardExpiration } from "./handler";
+
+//
+//  CosmosDB initialization
+//
+
+const config = getConfigOrThrow();
+
+const clock = getClock(config);
+
+const eligibilityPolicy = getEligibilityPolicy(config);
+
+const userCgnsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_CGN_COLLECTION_NAME);
+
+const userCgnModel = new UserCgnModel(userCgnsContainer);
+
+const userEycaCardsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_EYCA_CARD_COLLECTION_NAME);
+
+const userEycaCardModel = new UserEycaCardModel(userEycaCardsContainer);
+
+const tableService = createTableService(config.CGN_STORAGE_CONNECTION_STRING);
+
+const eycaClient = EycaAPIClient(config.EYCA_API_BASE_URL);
+
+// eslint-disable-next-line functional/no-let
+let logger: Context["log"] | undefined;
+const contextTransport = new AzureContextTransport(() => logger, {
+  level: "debug"
+});
+winston.add(contextTransport);
+
+// Setup Express
+const app = express();
+secureExpressApp(app);
+
+// Add express route
+app.put(
+  "/api/v1/cgn/:fiscalcode/expiration",
+  OverrideCardExpiration(
+    userCgnModel,
+    userEycaCardModel,
+    tableService,
+    config.CGN_EXPIRATION_TABLE_NAME,
+    config.EYCA_EXPIRATION_TABLE_NAME,
+    REDIS_CLIENT,
+    eycaClient,
+    config.EYCA_API_USERNAME,
+    config.EYCA_API_PASSWORD,
+    eligibilityPolicy,
+    config.CARD_EXPIRATION_OVERRIDE_MARGIN_DAYS,
+    clock
+  )
+);
+
+const azureFunctionHandler = createAzureFunctionHandler(app);
+
+// Binds the express app to an Azure Function handler
+const httpStart = (context: Context): void => {
+  logger = context.log;
+  setAppContext(app, context);
+  azureFunctionHandler(context);
+};
+
+export default httpStart;
@@ -0,0 +1,54 @@
+import {
+  context,
+  mockGetStatus,
+  mockStartNew,
+  mockStatusCompleted,
+  mockStatusRunning
+} from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { ProcessCgnDataErasureRequestHandler } from "../handler";
+
+describe("ProcessCgnDataErasureRequest", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetStatus.mockImplementation(async () => mockStatusCompleted);
+  });
+
+  it("should return a permanent error if input cannot be decoded", async () => {
+    const result = ProcessCgnDataErasureRequestHandler(context, {});
+    await expect(result).resolves.toMatchObject({ kind: "PERMANENT" });
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should start the erasure of the user's data", async () => {
+    const result = ProcessCgnDataErasureRequestHandler(context, {
+      fiscalCode: aFiscalCode
+    });
+    await expect(result).resolves.toBe(true);
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "CgnDataErasureOrchestrator",
+      `${aFiscalCode}-ERASURE`,
+      { fiscalCode: aFiscalCode }
+    );
+  });
+
+  it("should skip the request if the erasure is already running", async () => {
+    mockGetStatus.mockImplementation(async () => mockStatusRunning);
+    const result = ProcessCgnDataErasureRequestHandler(context, {
+      fiscalCode: aFiscalCode
+    });
+    await expect(result).resolves.toBe(false);
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should throw to trigger a retry if the orchestrator cannot be started", async () => {
+    mockStartNew.mockImplementationOnce(async () => {
+      throw new Error("foobar");
+    });
+    await expect(
+      ProcessCgnDataErasureRequestHandler(context, {
+        fiscalCode: aFiscalCode
+      })
+    ).rejects.toThrowError("foobar");
+  });
+});
@@ -0,0 +1,71 @@
+import { Context } from "@azure/functions";
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as df from "durable-functions";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { startCgnDataErasureOrchestrator } from "../StartCgnDataErasure/handler";
+import { trackException } from "../utils/appinsights";
+import { Failure, PermanentFailure, TransientFailure } from "../utils/errors";
+
+export const CgnDataErasureRequest = t.interface({
+  fiscalCode: FiscalCode
+});
+export type CgnDataErasureRequest = t.TypeOf<typeof CgnDataErasureRequest>;
+
+/**
+ * Reads from a queue the fiscalCode of a citizen
+ * then try to start the orchestrator to erase its CGN data.
+ *
+ * @returns whether the erasure has been started, as it is skipped
+ * if another erasure is already running for the same citizen
+ */
+export const ProcessCgnDataErasureRequestHandler = (
+  context: Context,
+  message: unknown,
+  logPrefix: string = "ProcessCgnDataErasureRequest"
+): Promise<Failure | boolean> =>
+  pipe(
+    message,
+    CgnDataErasureRequest.decode,
+    TE.fromEither,
+    TE.mapLeft(errs =>
+      Failure.encode({
+        kind: "PERMANENT",
+        reason: `Cannot decode input: ${readableReport(errs)}`
+      })
+    ),
+    TE.chainW(({ fiscalCode }) =>
+      pipe(
+        startCgnDataErasureOrchestrator(df.getClient(context), fiscalCode),
+        TE.mapLeft(err =>
+          Failure.encode({
+            kind: "TRANSIENT",
+            reason: `Error starting the orchestrator: ${err.message}`
+          })
+        )
+      )
+    ),
+    TE.mapLeft(err => {
+      const error = TransientFailure.is(err)
+        ? `${logPrefix}|TRANSIENT_ERROR=${err.reason}`
+        : `${logPrefix}|FATAL|PERMANENT_ERROR=${err.reason}`;
+      trackException({
+        exception: new Error(error),
+        properties: {
+          detail: err.kind,
+          fatal: PermanentFailure.is(err).toString(),
+          isSuccess: false,
+          name: "cgn.erasure.orchestrator.start"
+        }
+      });
+      context.log.error(error);
+      if (TransientFailure.is(err)) {
+        // Trigger a retry in case of temporary failures
+        throw new Error(error);
+      }
+      return err;
+    }),
+    TE.toUnion
+  )();
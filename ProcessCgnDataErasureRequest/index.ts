@@ -0,0 +1,11 @@
+import { AzureFunction, Context } from "@azure/functions";
+import { Failure } from "../utils/errors";
+import { ProcessCgnDataErasureRequestHandler } from "./handler";
+
+export const index: AzureFunction = (
+  context: Context,
+  message: unknown
+): Promise<Failure | boolean> =>
+  ProcessCgnDataErasureRequestHandler(context, message);
+
+export default index;
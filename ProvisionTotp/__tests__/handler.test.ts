@@ -0,0 +1,134 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode, cgnActivatedDates } from "../../__mocks__/mock";
+import {
+  CardActivated,
+  StatusEnum as ActivatedStatusEnum
+} from "../../generated/definitions/CardActivated";
+import {
+  CardPending,
+  StatusEnum as PendingStatusEnum
+} from "../../generated/definitions/CardPending";
+import { AlgorithmEnum } from "../../generated/definitions/TotpProvisioning";
+import { UserCgn } from "../../models/user_cgn";
+import { OTP_ALPHABET, OTPCODE_LENGTH } from "../../utils/cgnCode";
+import { OtpModeEnum } from "../../utils/config";
+import { decrypt, encrypt } from "../../utils/encryption";
+import { TOTP_PERIOD_IN_SECONDS } from "../../utils/totp";
+import { ProvisionTotpHandler } from "../handler";
+
+const anOtpSecretKey = "AN_OTP_SECRET_KEY" as NonEmptyString;
+const aTotpSecret = "0123456789abcdef0123456789abcdef01234567" as NonEmptyString;
+
+const anActivatedCgn: CardActivated = {
+  ...cgnActivatedDates,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const aPendingCgn: CardPending = {
+  status: PendingStatusEnum.PENDING
+};
+
+const aUserCgn: UserCgn = {
+  card: anActivatedCgn,
+  fiscalCode: aFiscalCode,
+  id: "AN_ID" as NonEmptyString
+};
+
+const findLastVersionByModelIdMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(O.some(aUserCgn)));
+const updateMock = jest
+  .fn()
+  .mockImplementation(userCgn => TE.of({ ...userCgn }));
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock,
+  update: updateMock
+};
+
+const getHandler = (otpMode: OtpModeEnum = OtpModeEnum.TOTP) =>
+  ProvisionTotpHandler(userCgnModelMock as any, anOtpSecretKey, otpMode);
+
+describe("ProvisionTotpHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return not found if TOTP mode is not enabled", async () => {
+    const response = await getHandler(OtpModeEnum.REDIS)(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorNotFound");
+    expect(findLastVersionByModelIdMock).not.toHaveBeenCalled();
+  });
+
+  it("should return an internal error if user's CGN retrieve fails", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.left(new Error("Query Error"))
+    );
+    const response = await getHandler()(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return forbidden if no userCgn is found", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() => TE.of(O.none));
+    const response = await getHandler()(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+  });
+
+  it("should return forbidden if user's CGN is not activated", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aUserCgn, card: aPendingCgn }))
+    );
+    const response = await getHandler()(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+    expect(updateMock).not.toHaveBeenCalled();
+  });
+
+  it("should return an internal error if the TOTP secret cannot be stored", async () => {
+    updateMock.mockImplementationOnce(() =>
+      TE.left({ kind: "COSMOS_ERROR_RESPONSE" })
+    );
+    const response = await getHandler()(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return the existing TOTP secret without storing a new one", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...aUserCgn,
+          totpSecret: encrypt(anOtpSecretKey, aTotpSecret)
+        })
+      )
+    );
+    const response = await getHandler()(context, aFiscalCode);
+    expect(updateMock).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        algorithm: AlgorithmEnum.SHA1,
+        alphabet: OTP_ALPHABET,
+        code_length: OTPCODE_LENGTH,
+        period: TOTP_PERIOD_IN_SECONDS,
+        secret: aTotpSecret
+      });
+    }
+  });
+
+  it("should provision and store an encrypted TOTP secret if the user has none", async () => {
+    const response = await getHandler()(context, aFiscalCode);
+    expect(updateMock).toHaveBeenCalledTimes(1);
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      const storedTotpSecret = updateMock.mock.calls[0][0].totpSecret;
+      expect(storedTotpSecret).not.toEqual(response.value.secret);
+      expect(decrypt(anOtpSecretKey, storedTotpSecret)).toEqual({
+        _tag: "Right",
+        right: response.value.secret
+      });
+    }
+  });
+});
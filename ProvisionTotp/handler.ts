@@ -0,0 +1,104 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorForbiddenNotAuthorized,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessJson,
+  ResponseErrorForbiddenNotAuthorized,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { CardActivated } from "../generated/definitions/CardActivated";
+import {
+  AlgorithmEnum,
+  TotpProvisioning
+} from "../generated/definitions/TotpProvisioning";
+import { UserCgnModel } from "../models/user_cgn";
+import { OTP_ALPHABET, OTPCODE_LENGTH } from "../utils/cgnCode";
+import { OtpModeEnum } from "../utils/config";
+import { TOTP_PERIOD_IN_SECONDS } from "../utils/totp";
+import { getOrProvisionTotpSecret } from "./secret";
+
+type ResponseTypes =
+  | IResponseSuccessJson<TotpProvisioning>
+  | IResponseErrorForbiddenNotAuthorized
+  | IResponseErrorNotFound
+  | IResponseErrorInternal;
+
+type IProvisionTotpHandler = (
+  context: Context,
+  fiscalCode: FiscalCode
+) => Promise<ResponseTypes>;
+
+export const ProvisionTotpHandler = (
+  userCgnModel: UserCgnModel,
+  otpSecretKey: NonEmptyString,
+  otpMode: OtpModeEnum
+): IProvisionTotpHandler => async (_, fiscalCode): Promise<ResponseTypes> =>
+  pipe(
+    otpMode,
+    TE.fromPredicate(
+      mode => mode === OtpModeEnum.TOTP,
+      () => ResponseErrorNotFound("Not Found", "TOTP mode is not enabled")
+    ),
+    TE.chainW(() =>
+      pipe(
+        userCgnModel.findLastVersionByModelId([fiscalCode]),
+        TE.mapLeft(() =>
+          ResponseErrorInternal("Error trying to retrieve user's CGN status")
+        )
+      )
+    ),
+    TE.chainW(TE.fromOption(() => ResponseErrorForbiddenNotAuthorized)),
+    TE.chainW(
+      TE.fromPredicate(
+        userCgn => CardActivated.is(userCgn.card),
+        () => ResponseErrorForbiddenNotAuthorized
+      )
+    ),
+    TE.chainW(userCgn =>
+      pipe(
+        getOrProvisionTotpSecret(userCgnModel, otpSecretKey, userCgn),
+        TE.mapLeft(e =>
+          ResponseErrorInternal(`Cannot provision TOTP secret| ${e.message}`)
+        )
+      )
+    ),
+    TE.map(secret =>
+      ResponseSuccessJson({
+        algorithm: AlgorithmEnum.SHA1,
+        alphabet: OTP_ALPHABET,
+        code_length: OTPCODE_LENGTH,
+        period: TOTP_PERIOD_IN_SECONDS,
+        secret
+      })
+    ),
+    TE.toUnion
+  )();
+
+export const ProvisionTotp = (
+  userCgnModel: UserCgnModel,
+  otpSecretKey: NonEmptyString,
+  otpMode: OtpModeEnum
+): express.RequestHandler => {
+  const handler = ProvisionTotpHandler(userCgnModel, otpSecretKey, otpMode);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
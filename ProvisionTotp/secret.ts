@@ -0,0 +1,66 @@
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { RetrievedUserCgn, UserCgn, UserCgnModel } from "../models/user_cgn";
+import { errorsToError } from "../utils/conversions";
+import { decrypt, encrypt } from "../utils/encryption";
+import { generateTotpSecret } from "../utils/totp";
+
+/**
+ * Returns the plaintext TOTP secret of the given user, if any.
+ */
+export const retrieveTotpSecret = (
+  otpSecretKey: NonEmptyString,
+  userCgn: UserCgn
+): E.Either<Error, O.Option<NonEmptyString>> =>
+  pipe(
+    O.fromNullable(userCgn.totpSecret),
+    O.fold(
+      () => E.right(O.none),
+      encryptedTotpSecret =>
+        pipe(
+          decrypt(otpSecretKey, encryptedTotpSecret),
+          E.chain(flow(NonEmptyString.decode, E.mapLeft(errorsToError))),
+          E.map(O.some)
+        )
+    )
+  );
+
+/**
+ * Returns the plaintext TOTP secret of the given user,
+ * generating and storing a new one if the user has none yet.
+ */
+export const getOrProvisionTotpSecret = (
+  userCgnModel: UserCgnModel,
+  otpSecretKey: NonEmptyString,
+  userCgn: RetrievedUserCgn
+): TE.TaskEither<Error, NonEmptyString> =>
+  pipe(
+    retrieveTotpSecret(otpSecretKey, userCgn),
+    TE.fromEither,
+    TE.chain(
+      O.fold(
+        () =>
+          pipe(
+            TE.tryCatch(() => generateTotpSecret(), E.toError),
+            TE.chainFirst(totpSecret =>
+              pipe(
+                // the update fails on concurrent provisioning, so that
+                // a single secret is ever stored for the same card
+                userCgnModel.update({
+                  ...userCgn,
+                  totpSecret: encrypt(
+                    otpSecretKey,
+                    totpSecret
+                  ) as NonEmptyString
+                }),
+                TE.mapLeft(e => new Error(`Cannot store TOTP secret|${e.kind}`))
+              )
+            )
+          ),
+        TE.of
+      )
+    )
+  );
@@ -0,0 +1,356 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as RevokedStatusEnum } from "../../generated/definitions/CardRevoked";
+import { StatusEnum as SuspendedStatusEnum } from "../../generated/definitions/CardSuspended";
+import * as cardExpiration from "../../utils/card_expiration";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import { systemClock } from "../../utils/clock";
+import { maskFiscalCode } from "../../utils/conversions";
+import { formatRomeDate } from "../../utils/dates";
+import * as models from "../../utils/models";
+import * as tableStorage from "../../utils/table_storage";
+import { getReconcileCardExpirationsActivityHandler } from "../handler";
+
+const aCgnExpirationTableName = "cgnexpiration" as NonEmptyString;
+const anEycaExpirationTableName = "eycaexpiration" as NonEmptyString;
+
+const anActivationDate = new Date("2020-01-01T00:00:00.000Z");
+const inDays = (days: number): Date => date_fns.addDays(Date.now(), days);
+
+const aDueFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const aMissingFiscalCode = "RODEDS80S10H501H" as FiscalCode;
+const aSuspendedFiscalCode = "AAAAAA90A01H501T" as FiscalCode;
+const anOverdueFiscalCode = "BBBBBB90A01H501T" as FiscalCode;
+const anInactiveFiscalCode = "CCCCCC90A01H501L" as FiscalCode;
+
+const makeUserCard = (
+  fiscalCode: FiscalCode,
+  status: string,
+  expirationDate: Date
+) => ({
+  card: {
+    activation_date: anActivationDate,
+    expiration_date: expirationDate,
+    status
+  },
+  fiscalCode,
+  id: `${fiscalCode}-0000000000000001`
+});
+
+const makeExpiration = (fiscalCode: FiscalCode, expirationDate: Date) => ({
+  activationDate: anActivationDate,
+  expirationDate,
+  fiscalCode
+});
+
+const anActiveCards = [
+  makeUserCard(aDueFiscalCode, ActivatedStatusEnum.ACTIVATED, inDays(30)),
+  makeUserCard(aMissingFiscalCode, ActivatedStatusEnum.ACTIVATED, inDays(60)),
+  makeUserCard(aSuspendedFiscalCode, SuspendedStatusEnum.SUSPENDED, inDays(10)),
+  makeUserCard(anOverdueFiscalCode, ActivatedStatusEnum.ACTIVATED, inDays(-1))
+];
+
+const aStaleExpiration = makeExpiration(aDueFiscalCode, inDays(20));
+const anOrphanedExpiration = makeExpiration(anInactiveFiscalCode, inDays(5));
+const anInactiveCard = makeUserCard(
+  anInactiveFiscalCode,
+  RevokedStatusEnum.REVOKED,
+  inDays(5)
+);
+const anExpirations = [
+  makeExpiration(aDueFiscalCode, inDays(30)),
+  aStaleExpiration,
+  makeExpiration(aSuspendedFiscalCode, inDays(10)),
+  anOrphanedExpiration
+];
+
+// folds the given pages as the paged queries do
+const foldPagesMock = <A>(pages: ReadonlyArray<ReadonlyArray<A>>) => (
+  ...args: ReadonlyArray<any>
+) => {
+  const [initial, f] = args.slice(-2);
+  return pages.reduce(
+    (acc, page) =>
+      pipe(
+        acc,
+        TE.chain(b => f(b, page))
+      ),
+    TE.of(initial)
+  );
+};
+
+const foldLatestVersionsByCardStatusMock = jest.fn();
+jest
+  .spyOn(models, "foldLatestVersionsByCardStatus")
+  .mockImplementation(foldLatestVersionsByCardStatusMock);
+
+const foldCardExpirationsFromMock = jest.fn();
+jest
+  .spyOn(cardExpiration, "foldCardExpirationsFrom")
+  .mockImplementation(foldCardExpirationsFromMock);
+
+const getExpiredCardUsersMock = jest
+  .fn()
+  .mockImplementation((_, __, partitionKey: string) =>
+    TE.of(
+      anExpirations.filter(
+        _ => formatRomeDate(_.expirationDate) === partitionKey
+      )
+    )
+  );
+jest
+  .spyOn(cardExpiration, "getExpiredCardUsers")
+  .mockImplementation(getExpiredCardUsersMock);
+
+const insertCardExpirationMock = jest.fn();
+jest
+  .spyOn(tableStorage, "insertCardExpiration")
+  .mockImplementation(() => insertCardExpirationMock);
+
+const findLastVersionByModelIdMock = jest
+  .fn()
+  .mockImplementation(([fiscalCode]: ReadonlyArray<FiscalCode>) =>
+    TE.of(
+      O.fromNullable(
+        [...anActiveCards, anInactiveCard].find(
+          _ => _.fiscalCode === fiscalCode
+        )
+      )
+    )
+  );
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock,
+  kind: "UserCgnModel"
+};
+const userEycaCardModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock,
+  kind: "UserEycaCardModel"
+};
+
+const reconcileCardExpirationsActivityHandler = getReconcileCardExpirationsActivityHandler(
+  userCgnModelMock as any,
+  userEycaCardModelMock as any,
+  {} as any,
+  aCgnExpirationTableName,
+  anEycaExpirationTableName,
+  systemClock
+);
+
+const noFindings = { count: 0, masked_fiscal_codes: [] };
+
+describe("ReconcileCardExpirationsActivity", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    foldLatestVersionsByCardStatusMock.mockImplementation(
+      foldPagesMock([anActiveCards])
+    );
+    foldCardExpirationsFromMock.mockImplementation(
+      foldPagesMock([anExpirations])
+    );
+    insertCardExpirationMock.mockImplementation(() => TE.of({}));
+  });
+
+  it("should return a permanent failure if the input cannot be decoded", async () => {
+    const response = await reconcileCardExpirationsActivityHandler(context, {
+      cardType: "UNKNOWN"
+    });
+    expect(response.kind).toBe("FAILURE");
+    expect(foldLatestVersionsByCardStatusMock).not.toHaveBeenCalled();
+  });
+
+  it("should only report the missing and orphaned expirations in dry-run mode", async () => {
+    const response = await reconcileCardExpirationsActivityHandler(context, {
+      cardType: ExpiringCardTypeEnum.CGN,
+      dryRun: true
+    });
+    expect(foldLatestVersionsByCardStatusMock).toHaveBeenCalledWith(
+      userCgnModelMock,
+      [ActivatedStatusEnum.ACTIVATED, SuspendedStatusEnum.SUSPENDED],
+      expect.anything(),
+      expect.any(Function)
+    );
+    expect(foldCardExpirationsFromMock).toHaveBeenCalledWith(
+      {},
+      aCgnExpirationTableName,
+      date_fns.format(inDays(1), "yyyy-MM-dd"),
+      expect.anything(),
+      expect.any(Function)
+    );
+    expect(response).toEqual({
+      kind: "SUCCESS",
+      reconciliation: {
+        active_cards: 4,
+        missing_expirations: {
+          count: 1,
+          masked_fiscal_codes: [maskFiscalCode(aMissingFiscalCode)]
+        },
+        orphaned_expirations: {
+          count: 2,
+          masked_fiscal_codes: [
+            maskFiscalCode(aDueFiscalCode),
+            maskFiscalCode(anInactiveFiscalCode)
+          ]
+        },
+        overdue_cards: {
+          count: 1,
+          masked_fiscal_codes: [maskFiscalCode(anOverdueFiscalCode)]
+        },
+        restored_expirations: 0
+      }
+    });
+    expect(insertCardExpirationMock).not.toHaveBeenCalled();
+  });
+
+  it("should only read the expiration partitions of the due cards", async () => {
+    await reconcileCardExpirationsActivityHandler(context, {
+      cardType: ExpiringCardTypeEnum.CGN,
+      dryRun: true
+    });
+    expect(getExpiredCardUsersMock).toHaveBeenCalledTimes(3);
+    [inDays(30), inDays(60), inDays(10)].forEach(date =>
+      expect(getExpiredCardUsersMock).toHaveBeenCalledWith(
+        {},
+        aCgnExpirationTableName,
+        formatRomeDate(date)
+      )
+    );
+  });
+
+  it("should store the missing expirations of the EYCA cards", async () => {
+    const response = await reconcileCardExpirationsActivityHandler(context, {
+      cardType: ExpiringCardTypeEnum.EYCA,
+      dryRun: false
+    });
+    expect(foldLatestVersionsByCardStatusMock).toHaveBeenCalledWith(
+      userEycaCardModelMock,
+      expect.any(Array),
+      expect.anything(),
+      expect.any(Function)
+    );
+    expect(tableStorage.insertCardExpiration).toHaveBeenCalledWith(
+      {},
+      anEycaExpirationTableName
+    );
+    expect(insertCardExpirationMock).toHaveBeenCalledTimes(1);
+    expect(insertCardExpirationMock).toHaveBeenCalledWith(
+      aMissingFiscalCode,
+      anActivationDate,
+      anActiveCards[1].card.expiration_date
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        reconciliation: expect.objectContaining({ restored_expirations: 1 })
+      })
+    );
+  });
+
+  it("should sum up the findings of every page", async () => {
+    foldLatestVersionsByCardStatusMock.mockImplementationOnce(
+      foldPagesMock([anActiveCards.slice(0, 2), [], anActiveCards.slice(2)])
+    );
+    foldCardExpirationsFromMock.mockImplementationOnce(
+      foldPagesMock([[anExpirations[0]], anExpirations.slice(1)])
+    );
+    const response = await reconcileCardExpirationsActivityHandler(context, {
+      cardType: ExpiringCardTypeEnum.CGN,
+      dryRun: false
+    });
+    expect(response).toEqual(
+      expect.objectContaining({
+        reconciliation: expect.objectContaining({
+          active_cards: 4,
+          missing_expirations: expect.objectContaining({ count: 1 }),
+          orphaned_expirations: expect.objectContaining({ count: 2 }),
+          overdue_cards: expect.objectContaining({ count: 1 }),
+          restored_expirations: 1
+        })
+      })
+    );
+  });
+
+  it("should list at most 100 masked fiscal codes for each finding", async () => {
+    const aMissingCard = anActiveCards[1];
+    foldLatestVersionsByCardStatusMock.mockImplementationOnce(
+      foldPagesMock([
+        Array(60).fill(aMissingCard),
+        Array(60).fill(aMissingCard)
+      ])
+    );
+    const response = await reconcileCardExpirationsActivityHandler(context, {
+      cardType: ExpiringCardTypeEnum.CGN,
+      dryRun: true
+    });
+    expect(response).toEqual(
+      expect.objectContaining({
+        reconciliation: expect.objectContaining({
+          missing_expirations: {
+            count: 120,
+            masked_fiscal_codes: Array(100).fill(
+              maskFiscalCode(aMissingFiscalCode)
+            )
+          }
+        })
+      })
+    );
+  });
+
+  it("should skip the active cards without an expiration date", async () => {
+    foldLatestVersionsByCardStatusMock.mockImplementationOnce(
+      foldPagesMock([
+        [
+          {
+            card: {
+              activation_date: anActivationDate,
+              status: ActivatedStatusEnum.ACTIVATED
+            },
+            fiscalCode: aMissingFiscalCode
+          }
+        ]
+      ])
+    );
+    foldCardExpirationsFromMock.mockImplementationOnce(foldPagesMock([]));
+    const response = await reconcileCardExpirationsActivityHandler(context, {
+      cardType: ExpiringCardTypeEnum.EYCA,
+      dryRun: false
+    });
+    expect(insertCardExpirationMock).not.toHaveBeenCalled();
+    expect(response).toEqual(
+      expect.objectContaining({
+        reconciliation: expect.objectContaining({
+          active_cards: 0,
+          missing_expirations: noFindings
+        })
+      })
+    );
+  });
+
+  it("should throw a transient failure if an expiration cannot be stored", async () => {
+    insertCardExpirationMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot insert entity"))
+    );
+    await expect(
+      reconcileCardExpirationsActivityHandler(context, {
+        cardType: ExpiringCardTypeEnum.CGN,
+        dryRun: false
+      })
+    ).rejects.toThrow();
+  });
+
+  it("should throw a transient failure if the latest version of a card cannot be read", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.left({ kind: "COSMOS_ERROR_RESPONSE" })
+    );
+    await expect(
+      reconcileCardExpirationsActivityHandler(context, {
+        cardType: ExpiringCardTypeEnum.CGN,
+        dryRun: true
+      })
+    ).rejects.toThrow();
+  });
+});
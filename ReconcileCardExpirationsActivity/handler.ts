@@ -0,0 +1,354 @@
+/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableService } from "azure-storage";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as S from "fp-ts/lib/string";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { Card } from "../generated/definitions/Card";
+import { CardExpirationFindings } from "../generated/definitions/CardExpirationFindings";
+import { CardExpirationReconciliation } from "../generated/definitions/CardExpirationReconciliation";
+import { EycaCard } from "../generated/definitions/EycaCard";
+import { UserCgnModel } from "../models/user_cgn";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import {
+  ActivityResultFailure,
+  ActivityResultSuccess
+} from "../utils/activity";
+import {
+  ACTIVE_CARD_STATUSES,
+  ExpiredCardRowKey,
+  ExpiringCardType,
+  ExpiringCardTypeEnum,
+  foldCardExpirationsFrom,
+  getExpiredCardUsers,
+  IActiveCard,
+  toActiveCard
+} from "../utils/card_expiration";
+import { Clock } from "../utils/clock";
+import { errorsToError, maskFiscalCode } from "../utils/conversions";
+import { addRomeDays, formatRomeDate } from "../utils/dates";
+import {
+  toPermanentFailure,
+  toTransientFailure,
+  trackFailure
+} from "../utils/errors";
+import { foldLatestVersionsByCardStatus } from "../utils/models";
+import { insertCardExpiration } from "../utils/table_storage";
+
+export const ActivityInput = t.interface({
+  cardType: ExpiringCardType,
+  dryRun: t.boolean
+});
+
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+export const ActivityResultReconciliationSuccess = t.intersection([
+  ActivityResultSuccess,
+  t.interface({
+    reconciliation: CardExpirationReconciliation
+  })
+]);
+
+export type ActivityResultReconciliationSuccess = t.TypeOf<
+  typeof ActivityResultReconciliationSuccess
+>;
+
+export const ActivityResult = t.union([
+  ActivityResultReconciliationSuccess,
+  ActivityResultFailure
+]);
+
+export type ActivityResult = t.TypeOf<typeof ActivityResult>;
+
+// how many masked fiscal codes are listed in the report for each finding
+const MAX_REPORTED_FISCAL_CODES = 100;
+
+/**
+ * The cards, or the expiration tuples, found in a given state
+ */
+export interface ICardExpirationFindings {
+  readonly count: number;
+  readonly maskedFiscalCodes: ReadonlyArray<string>;
+}
+
+/**
+ * The outcome of the reconciliation, updated a page of active cards,
+ * or of expiration tuples, at a time
+ */
+export interface ICardExpirationsReconciliation {
+  readonly activeCards: number;
+  readonly missingExpirations: ICardExpirationFindings;
+  readonly orphanedExpirations: ICardExpirationFindings;
+  readonly overdueCards: ICardExpirationFindings;
+  readonly restoredExpirations: number;
+}
+
+const noFindings: ICardExpirationFindings = {
+  count: 0,
+  maskedFiscalCodes: []
+};
+
+const emptyReconciliation: ICardExpirationsReconciliation = {
+  activeCards: 0,
+  missingExpirations: noFindings,
+  orphanedExpirations: noFindings,
+  overdueCards: noFindings,
+  restoredExpirations: 0
+};
+
+const addFindings = (
+  findings: ICardExpirationFindings,
+  fiscalCodes: ReadonlyArray<FiscalCode>
+): ICardExpirationFindings => ({
+  count: findings.count + fiscalCodes.length,
+  maskedFiscalCodes: [
+    ...findings.maskedFiscalCodes,
+    ...fiscalCodes
+      .slice(0, MAX_REPORTED_FISCAL_CODES - findings.maskedFiscalCodes.length)
+      .map(maskFiscalCode)
+  ]
+});
+
+/**
+ * A version of a user's card
+ */
+interface IUserCard {
+  readonly card: Card | EycaCard;
+  readonly fiscalCode: FiscalCode;
+}
+
+// expiration tuples are partitioned by their expiration date
+const toPartitionKey = (date: Date): string => formatRomeDate(date);
+
+const toExpirationKey = (
+  fiscalCode: FiscalCode,
+  expirationDate: Date
+): string => `${fiscalCode}|${toPartitionKey(expirationDate)}`;
+
+/**
+ * Returns the given cards that have no expiration tuple. Only the partitions
+ * of the cards' expiration dates are read, all of them in parallel.
+ */
+export const findMissingExpirations = (
+  tableService: TableService,
+  expirationTableName: NonEmptyString
+) => (
+  cards: ReadonlyArray<IActiveCard>
+): TE.TaskEither<Error, ReadonlyArray<IActiveCard>> =>
+  pipe(
+    cards,
+    RA.map(card => toPartitionKey(card.expirationDate)),
+    RA.uniq(S.Eq),
+    RA.traverse(TE.ApplicativePar)(partitionKey =>
+      getExpiredCardUsers(tableService, expirationTableName, partitionKey)
+    ),
+    TE.map(
+      flow(
+        RA.flatten,
+        RA.map(_ => toExpirationKey(_.fiscalCode, _.expirationDate)),
+        expirationKeys => new Set(expirationKeys)
+      )
+    ),
+    TE.map(expirationKeys =>
+      cards.filter(
+        card =>
+          !expirationKeys.has(
+            toExpirationKey(card.fiscalCode, card.expirationDate)
+          )
+      )
+    )
+  );
+
+/**
+ * Checks whether an expiration tuple does not match the latest version
+ * of the user's card, that is the card is no longer active or expires
+ * on a different date
+ */
+export const isOrphanedExpiration = (expiration: ExpiredCardRowKey) => (
+  maybeLatestCard: O.Option<IUserCard>
+): boolean =>
+  !pipe(
+    maybeLatestCard,
+    O.filter(userCard => ACTIVE_CARD_STATUSES.includes(userCard.card.status)),
+    O.chain(toActiveCard),
+    O.exists(
+      card =>
+        toExpirationKey(card.fiscalCode, card.expirationDate) ===
+        toExpirationKey(expiration.fiscalCode, expiration.expirationDate)
+    )
+  );
+
+export const getReconcileCardExpirationsActivityHandler = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  clock: Clock,
+  logPrefix: string = "ReconcileCardExpirationsActivity"
+) => (context: Context, input: unknown): Promise<ActivityResult> => {
+  const fail = trackFailure(context, logPrefix);
+  return pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(
+      flow(errorsToError, e =>
+        toPermanentFailure(e, "Cannot decode Activity Input")
+      )
+    ),
+    TE.chain(({ cardType, dryRun }) => {
+      // the tuples due today have already been processed
+      const fromDate = toPartitionKey(addRomeDays(clock(), 1));
+      const expirationTableName =
+        cardType === ExpiringCardTypeEnum.CGN
+          ? cgnExpirationTableName
+          : eycaExpirationTableName;
+
+      const reconcileActiveCards = (
+        reconciliation: ICardExpirationsReconciliation,
+        latestVersions: ReadonlyArray<IUserCard>
+      ): TE.TaskEither<Error, ICardExpirationsReconciliation> => {
+        const activeCards = pipe(latestVersions, RA.filterMap(toActiveCard));
+        // the cards that should have expired before fromDate cannot be
+        // expired by a new tuple anymore, so they are only reported as overdue
+        const { left: dueCards, right: overdueCards } = pipe(
+          activeCards,
+          RA.partition(card => toPartitionKey(card.expirationDate) < fromDate)
+        );
+        return pipe(
+          findMissingExpirations(tableService, expirationTableName)(dueCards),
+          TE.chain(missingExpirations =>
+            pipe(
+              dryRun ? [] : missingExpirations,
+              RA.traverse(TE.ApplicativePar)(card =>
+                insertCardExpiration(tableService, expirationTableName)(
+                  card.fiscalCode,
+                  card.activationDate,
+                  card.expirationDate
+                )
+              ),
+              TE.map(restoredExpirations => ({
+                ...reconciliation,
+                activeCards: reconciliation.activeCards + activeCards.length,
+                missingExpirations: addFindings(
+                  reconciliation.missingExpirations,
+                  missingExpirations.map(_ => _.fiscalCode)
+                ),
+                overdueCards: addFindings(
+                  reconciliation.overdueCards,
+                  overdueCards.map(_ => _.fiscalCode)
+                ),
+                restoredExpirations:
+                  reconciliation.restoredExpirations +
+                  restoredExpirations.length
+              }))
+            )
+          )
+        );
+      };
+
+      const findLatestCard = (
+        fiscalCode: FiscalCode
+      ): TE.TaskEither<Error, O.Option<IUserCard>> => {
+        const latestCard: TE.TaskEither<unknown, O.Option<IUserCard>> =
+          cardType === ExpiringCardTypeEnum.CGN
+            ? userCgnModel.findLastVersionByModelId([fiscalCode])
+            : userEycaCardModel.findLastVersionByModelId([fiscalCode]);
+        return pipe(
+          latestCard,
+          TE.mapLeft(() => new Error("Cannot retrieve the latest card version"))
+        );
+      };
+
+      const reconcileExpirations = (
+        reconciliation: ICardExpirationsReconciliation,
+        expirations: ReadonlyArray<ExpiredCardRowKey>
+      ): TE.TaskEither<Error, ICardExpirationsReconciliation> =>
+        pipe(
+          expirations,
+          RA.traverse(TE.ApplicativePar)(expiration =>
+            pipe(
+              findLatestCard(expiration.fiscalCode),
+              TE.map(
+                flow(
+                  O.fromPredicate(isOrphanedExpiration(expiration)),
+                  O.map(() => expiration.fiscalCode)
+                )
+              )
+            )
+          ),
+          TE.map(orphanedExpirations => ({
+            ...reconciliation,
+            orphanedExpirations: addFindings(
+              reconciliation.orphanedExpirations,
+              RA.compact(orphanedExpirations)
+            )
+          }))
+        );
+
+      return pipe(
+        cardType === ExpiringCardTypeEnum.CGN
+          ? foldLatestVersionsByCardStatus(
+              userCgnModel,
+              ACTIVE_CARD_STATUSES,
+              emptyReconciliation,
+              reconcileActiveCards
+            )
+          : foldLatestVersionsByCardStatus(
+              userEycaCardModel,
+              ACTIVE_CARD_STATUSES,
+              emptyReconciliation,
+              reconcileActiveCards
+            ),
+        // the tuples are checked once the missing ones have been restored
+        TE.chain(reconciliation =>
+          foldCardExpirationsFrom(
+            tableService,
+            expirationTableName,
+            fromDate,
+            reconciliation,
+            reconcileExpirations
+          )
+        ),
+        TE.mapLeft(err =>
+          toTransientFailure(err, `Cannot reconcile ${cardType} expirations`)
+        )
+      );
+    }),
+    TE.bimap(
+      fail,
+      (reconciliation): ActivityResult => {
+        context.log.info(
+          `${logPrefix}|Found ${reconciliation.missingExpirations.count} missing and ${reconciliation.orphanedExpirations.count} orphaned expirations`
+        );
+        const toFindingsReport = (
+          findings: ICardExpirationFindings
+        ): CardExpirationFindings => ({
+          count: findings.count as NonNegativeInteger,
+          masked_fiscal_codes: findings.maskedFiscalCodes
+        });
+        return {
+          kind: "SUCCESS",
+          reconciliation: {
+            active_cards: reconciliation.activeCards as NonNegativeInteger,
+            missing_expirations: toFindingsReport(
+              reconciliation.missingExpirations
+            ),
+            orphaned_expirations: toFindingsReport(
+              reconciliation.orphanedExpirations
+            ),
+            overdue_cards: toFindingsReport(reconciliation.overdueCards),
+            restored_expirations: reconciliation.restoredExpirations as NonNegativeInteger
+          }
+        };
+      }
+    ),
+    TE.toUnion
+  )();
+};
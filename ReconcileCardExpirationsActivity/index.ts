@@ -0,0 +1,39 @@
+import { createTableService } from "azure-storage";
+import { USER_CGN_COLLECTION_NAME, UserCgnModel } from "../models/user_cgn";
+import {
+  USER_EYCA_CARD_COLLECTION_NAME,
+  UserEycaCardModel
+} from "../models/user_eyca_card";
+import { getClock } from "../utils/clock";
+import { getConfigOrThrow } from "../utils/config";
+import { cosmosdbClient } from "../utils/cosmosdb";
+import { getReconcileCardExpirationsActivityHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const clock = getClock(config);
+
+const userCgnsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_CGN_COLLECTION_NAME);
+
+const userCgnModel = new UserCgnModel(userCgnsContainer);
+
+const userEycaCardsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_EYCA_CARD_COLLECTION_NAME);
+
+const userEycaCardModel = new UserEycaCardModel(userEycaCardsContainer);
+
+const tableService = createTableService(config.CGN_STORAGE_CONNECTION_STRING);
+
+const reconcileCardExpirationsActivityHandler = getReconcileCardExpirationsActivityHandler(
+  userCgnModel,
+  userEycaCardModel,
+  tableService,
+  config.CGN_EXPIRATION_TABLE_NAME,
+  config.EYCA_EXPIRATION_TABLE_NAME,
+  clock
+);
+
+export default reconcileCardExpirationsActivityHandler;
@@ -0,0 +1,136 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { context as contextMock } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import { maskFiscalCode } from "../../utils/conversions";
+import { ReconcileCardExpirationsOrchestratorHandler } from "../handler";
+
+const aStartDate = new Date("2021-01-01T10:00:00.000Z");
+
+const noFindings = { count: 0, masked_fiscal_codes: [] };
+const aFinding = {
+  count: 1,
+  masked_fiscal_codes: [maskFiscalCode(aFiscalCode)]
+};
+
+const aCgnReconciliation = {
+  active_cards: 10,
+  missing_expirations: aFinding,
+  orphaned_expirations: noFindings,
+  overdue_cards: noFindings,
+  restored_expirations: 1
+};
+
+const anEycaReconciliation = {
+  active_cards: 5,
+  missing_expirations: noFindings,
+  orphaned_expirations: aFinding,
+  overdue_cards: aFinding,
+  restored_expirations: 0
+};
+
+const getInputMock = jest.fn();
+const mockCallActivityWithRetry = jest.fn();
+const setCustomStatusMock = jest.fn();
+
+const contextMockWithDf = {
+  ...contextMock,
+  df: {
+    callActivityWithRetry: mockCallActivityWithRetry,
+    currentUtcDateTime: aStartDate,
+    getInput: getInputMock,
+    isReplaying: false,
+    setCustomStatus: setCustomStatusMock
+  }
+};
+
+describe("ReconcileCardExpirationsOrchestrator", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getInputMock.mockImplementation(() => ({ dryRun: false }));
+    mockCallActivityWithRetry.mockImplementation((name: string) => name);
+  });
+
+  it("should reconcile the CGN and EYCA expirations and return a report", () => {
+    const orchestrator = ReconcileCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    expect(orchestrator.next().value).toBe("ReconcileCardExpirationsActivity");
+    expect(
+      mockCallActivityWithRetry
+    ).toHaveBeenCalledWith(
+      "ReconcileCardExpirationsActivity",
+      expect.anything(),
+      { cardType: ExpiringCardTypeEnum.CGN, dryRun: false }
+    );
+    expect(
+      orchestrator.next({ kind: "SUCCESS", reconciliation: aCgnReconciliation })
+        .value
+    ).toBe("ReconcileCardExpirationsActivity");
+    expect(
+      mockCallActivityWithRetry
+    ).toHaveBeenLastCalledWith(
+      "ReconcileCardExpirationsActivity",
+      expect.anything(),
+      { cardType: ExpiringCardTypeEnum.EYCA, dryRun: false }
+    );
+    const res = orchestrator.next({
+      kind: "SUCCESS",
+      reconciliation: anEycaReconciliation
+    });
+
+    expect(res.done).toBe(true);
+    expect(res.value).toEqual({
+      cgn: aCgnReconciliation,
+      completed_at: aStartDate.toISOString(),
+      dry_run: false,
+      eyca: anEycaReconciliation,
+      started_at: aStartDate.toISOString()
+    });
+    expect(setCustomStatusMock).toHaveBeenNthCalledWith(1, "RUNNING");
+    expect(setCustomStatusMock).toHaveBeenNthCalledWith(2, "COMPLETED");
+  });
+
+  it("should forward the dry-run flag to the activity", () => {
+    getInputMock.mockImplementationOnce(() => ({ dryRun: true }));
+    const orchestrator = ReconcileCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    expect(
+      mockCallActivityWithRetry
+    ).toHaveBeenCalledWith(
+      "ReconcileCardExpirationsActivity",
+      expect.anything(),
+      { cardType: ExpiringCardTypeEnum.CGN, dryRun: true }
+    );
+  });
+
+  it("should not reconcile the EYCA expirations if the CGN ones cannot be reconciled", () => {
+    const orchestrator = ReconcileCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    const res = orchestrator.next({ kind: "FAILURE", reason: "Reason" });
+
+    expect(res).toEqual({ done: true, value: false });
+    expect(mockCallActivityWithRetry).toHaveBeenCalledTimes(1);
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+
+  it("should fail if the activity output cannot be decoded", () => {
+    const orchestrator = ReconcileCardExpirationsOrchestratorHandler(
+      contextMockWithDf as any
+    );
+
+    orchestrator.next();
+    orchestrator.next({ kind: "SUCCESS", reconciliation: aCgnReconciliation });
+    const res = orchestrator.next({ kind: "SUCCESS" });
+
+    expect(res).toEqual({ done: true, value: false });
+    expect(setCustomStatusMock).toHaveBeenLastCalledWith("ERROR");
+  });
+});
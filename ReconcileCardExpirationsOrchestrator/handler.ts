@@ -0,0 +1,119 @@
+import { IOrchestrationFunctionContext } from "durable-functions/lib/src/classes";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+import { CardExpirationReconciliation } from "../generated/definitions/CardExpirationReconciliation";
+import { CardExpirationReconciliationReport } from "../generated/definitions/CardExpirationReconciliationReport";
+import {
+  ActivityInput as ReconcileCardExpirationsActivityInput,
+  ActivityResult as ReconcileCardExpirationsActivityResult,
+  ActivityResultReconciliationSuccess
+} from "../ReconcileCardExpirationsActivity/handler";
+import { ExpiringCardTypeEnum } from "../utils/card_expiration";
+import {
+  getTrackExceptionAndThrowWithErrorStatus,
+  trackExceptionIfNotReplaying
+} from "../utils/orchestrators";
+import { internalRetryOptions } from "../utils/retry_policies";
+
+export const OrchestratorInput = t.interface({
+  dryRun: t.boolean
+});
+export type OrchestratorInput = t.TypeOf<typeof OrchestratorInput>;
+
+export const ReconcileCardExpirationsOrchestratorHandler = function*(
+  context: IOrchestrationFunctionContext,
+  logPrefix: string = "ReconcileCardExpirationsOrchestrator"
+): Generator {
+  const trackExAndThrowWithErrorStatus = getTrackExceptionAndThrowWithErrorStatus(
+    context,
+    logPrefix
+  );
+  const trackExIfNotReplaying = trackExceptionIfNotReplaying(context);
+
+  if (!context.df.isReplaying) {
+    context.df.setCustomStatus("RUNNING");
+  }
+
+  // the orchestrator time is replayed, so it is the time of the first execution
+  const startedAt = context.df.currentUtcDateTime;
+  const input = context.df.getInput();
+
+  const { dryRun } = pipe(
+    input,
+    OrchestratorInput.decode,
+    E.getOrElseW(e =>
+      trackExAndThrowWithErrorStatus(
+        e,
+        "card.expiration.reconciliation.exception.decode.input"
+      )
+    )
+  );
+
+  const toReconciliation = (
+    cardType: ExpiringCardTypeEnum,
+    activityResult: unknown
+  ): CardExpirationReconciliation =>
+    pipe(
+      activityResult,
+      ReconcileCardExpirationsActivityResult.decode,
+      E.getOrElseW(e =>
+        trackExAndThrowWithErrorStatus(
+          e,
+          "card.expiration.reconciliation.exception.decode.activityOutput"
+        )
+      ),
+      E.fromPredicate(ActivityResultReconciliationSuccess.is, () =>
+        trackExAndThrowWithErrorStatus(
+          new Error(`Cannot reconcile ${cardType} expirations`),
+          "card.expiration.reconciliation.exception.failure.activityOutput"
+        )
+      ),
+      E.toUnion
+    ).reconciliation;
+
+  try {
+    const cgnReconciliation = toReconciliation(
+      ExpiringCardTypeEnum.CGN,
+      yield context.df.callActivityWithRetry(
+        "ReconcileCardExpirationsActivity",
+        internalRetryOptions,
+        ReconcileCardExpirationsActivityInput.encode({
+          cardType: ExpiringCardTypeEnum.CGN,
+          dryRun
+        })
+      )
+    );
+
+    const eycaReconciliation = toReconciliation(
+      ExpiringCardTypeEnum.EYCA,
+      yield context.df.callActivityWithRetry(
+        "ReconcileCardExpirationsActivity",
+        internalRetryOptions,
+        ReconcileCardExpirationsActivityInput.encode({
+          cardType: ExpiringCardTypeEnum.EYCA,
+          dryRun
+        })
+      )
+    );
+
+    context.df.setCustomStatus("COMPLETED");
+
+    return CardExpirationReconciliationReport.encode({
+      cgn: cgnReconciliation,
+      completed_at: context.df.currentUtcDateTime,
+      dry_run: dryRun,
+      eyca: eycaReconciliation,
+      started_at: startedAt
+    });
+  } catch (err) {
+    context.log.error(`${logPrefix}|ERROR|${String(err)}`);
+    trackExIfNotReplaying({
+      exception: E.toError(err),
+      properties: {
+        name: "card.expiration.reconciliation.error"
+      }
+    });
+    return false;
+  }
+};
@@ -0,0 +1,6 @@
+import * as df from "durable-functions";
+import { ReconcileCardExpirationsOrchestratorHandler } from "./handler";
+
+export const index = df.orchestrator(
+  ReconcileCardExpirationsOrchestratorHandler
+);
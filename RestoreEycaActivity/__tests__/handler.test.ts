@@ -0,0 +1,265 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import { toError } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import { none, some } from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { cgnActivatedDates, now, testFail } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as ExpiredStatusEnum } from "../../generated/definitions/CardExpired";
+import { StatusEnum as PendingStatusEnum } from "../../generated/definitions/CardPending";
+import { StatusEnum as RevokedStatusEnum } from "../../generated/definitions/CardRevoked";
+import { EycaCardActivated } from "../../generated/definitions/EycaCardActivated";
+import { EycaCardRevoked } from "../../generated/definitions/EycaCardRevoked";
+import { CcdbNumber } from "../../generated/eyca-api/CcdbNumber";
+import { UserEycaCard } from "../../models/user_eyca_card";
+import { getRevokeEycaActivityHandler } from "../../RevokeEycaActivity/handler";
+import * as eyca from "../../SuccessEycaActivationActivity/eyca";
+import { systemClock } from "../../utils/clock";
+import { toPermanentFailure } from "../../utils/errors";
+import * as tableUtils from "../../utils/table_storage";
+import { ActivityInput, getRestoreEycaActivityHandler } from "../handler";
+
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const anEycaExpirationTableName = "aTable" as NonEmptyString;
+
+const anActivatedEycaCard: EycaCardActivated = {
+  ...cgnActivatedDates,
+  card_number: "X321-Y321-Z321-W321" as CcdbNumber,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const aRevokedEycaCard: EycaCardRevoked = {
+  ...anActivatedEycaCard,
+  revocation_date: now,
+  revocation_reason: "aRevocationReason" as NonEmptyString,
+  status: RevokedStatusEnum.REVOKED
+};
+
+const aRevokedUserEycaCard: UserEycaCard = {
+  card: aRevokedEycaCard,
+  fiscalCode: aFiscalCode
+};
+
+const findLastVersionByModelIdMock = jest.fn();
+const updateMock = jest.fn();
+
+const userEycaCardModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock,
+  update: updateMock
+};
+
+const updateCardMock = jest.fn();
+jest.spyOn(eyca, "updateCard").mockImplementation(updateCardMock);
+
+const insertEycaExpirationTaskMock = jest.fn();
+jest
+  .spyOn(tableUtils, "insertCardExpiration")
+  .mockImplementation(() => insertEycaExpirationTaskMock);
+
+const deleteEycaExpirationTaskMock = jest.fn();
+jest
+  .spyOn(tableUtils, "deleteCardExpiration")
+  .mockImplementation(() => deleteEycaExpirationTaskMock);
+
+const anActivityInput: ActivityInput = {
+  fiscalCode: aFiscalCode
+};
+
+const restoreEycaActivityHandler = getRestoreEycaActivityHandler(
+  {} as any,
+  {} as any,
+  "aUsername" as NonEmptyString,
+  "aPassword" as NonEmptyString,
+  userEycaCardModelMock as any,
+  {} as any,
+  anEycaExpirationTableName,
+  systemClock
+);
+
+describe("RestoreEycaActivity", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.of(some(aRevokedUserEycaCard))
+    );
+    updateMock.mockImplementation(userEycaCard => TE.of(userEycaCard));
+    updateCardMock.mockImplementation(() =>
+      TE.of("Object(s) updated." as NonEmptyString)
+    );
+    insertEycaExpirationTaskMock.mockImplementation(() => TE.of({}));
+    deleteEycaExpirationTaskMock.mockImplementation(() => TE.of(void 0));
+  });
+
+  it("should return a permanent failure if any errors occurs on input decode", async () => {
+    const response = await restoreEycaActivityHandler(context, {});
+    expect(response.kind).toBe("FAILURE");
+  });
+
+  it("should throw if an error occurs during User Eyca Card retrieve", async () => {
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.left(toCosmosErrorResponse(new Error("query error")))
+    );
+    await pipe(
+      TE.tryCatch(
+        () => restoreEycaActivityHandler(context, anActivityInput),
+        toError
+      ),
+      TE.bimap(e => {
+        expect(e.message).toContain("TRANSIENT FAILURE");
+      }, testFail)
+    )();
+  });
+
+  it.each`
+    title                         | maybeUserEycaCard
+    ${"no User Eyca Card exists"} | ${none}
+    ${"the card is not Revoked"}  | ${some({ card: { status: PendingStatusEnum.PENDING }, fiscalCode: aFiscalCode })}
+    ${"the card is still Active"} | ${some({ card: anActivatedEycaCard, fiscalCode: aFiscalCode })}
+  `(
+    "should return success without restoring anything if $title",
+    async ({ maybeUserEycaCard }) => {
+      findLastVersionByModelIdMock.mockImplementation(() =>
+        TE.of(maybeUserEycaCard)
+      );
+      const response = await restoreEycaActivityHandler(
+        context,
+        anActivityInput
+      );
+      expect(response.kind).toBe("SUCCESS");
+      expect(updateCardMock).not.toHaveBeenCalled();
+      expect(insertEycaExpirationTaskMock).not.toHaveBeenCalled();
+      expect(updateMock).not.toHaveBeenCalled();
+    }
+  );
+
+  it("should not restore the User Eyca Card if CCDB rejects the update", async () => {
+    updateCardMock.mockImplementation(() =>
+      TE.left(toPermanentFailure(new Error("Error on EYCA updateCard API")))
+    );
+    const response = await restoreEycaActivityHandler(context, anActivityInput);
+    expect(response.kind).toBe("FAILURE");
+    expect(insertEycaExpirationTaskMock).not.toHaveBeenCalled();
+    expect(updateMock).not.toHaveBeenCalled();
+  });
+
+  it("should not restore the User Eyca Card if the expiration tuple cannot be inserted", async () => {
+    insertEycaExpirationTaskMock.mockImplementation(() =>
+      TE.left(new Error("Cannot insert entity"))
+    );
+    await pipe(
+      TE.tryCatch(
+        () => restoreEycaActivityHandler(context, anActivityInput),
+        toError
+      ),
+      TE.bimap(e => {
+        expect(e.message).toContain("TRANSIENT FAILURE");
+        expect(updateMock).not.toHaveBeenCalled();
+      }, testFail)
+    )();
+  });
+
+  it("should restore a revoked EYCA card on CCDB, on its expiration tuple and on its User Eyca Card", async () => {
+    const response = await restoreEycaActivityHandler(context, anActivityInput);
+    expect(response.kind).toBe("SUCCESS");
+    expect(updateCardMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      "aUsername",
+      "aPassword",
+      aRevokedEycaCard.card_number,
+      aRevokedEycaCard.expiration_date
+    );
+    expect(insertEycaExpirationTaskMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      aRevokedEycaCard.activation_date,
+      aRevokedEycaCard.expiration_date
+    );
+    expect(updateMock).toHaveBeenCalledWith(
+      expect.objectContaining({ card: anActivatedEycaCard })
+    );
+  });
+
+  it("should expire a revoked EYCA card that has passed its expiration date", async () => {
+    const anExpirationDate = date_fns.subDays(now, 1);
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.of(
+        some({
+          ...aRevokedUserEycaCard,
+          card: { ...aRevokedEycaCard, expiration_date: anExpirationDate }
+        })
+      )
+    );
+    const response = await restoreEycaActivityHandler(context, anActivityInput);
+    expect(response.kind).toBe("SUCCESS");
+    expect(updateCardMock).not.toHaveBeenCalled();
+    expect(insertEycaExpirationTaskMock).not.toHaveBeenCalled();
+    expect(updateMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        card: {
+          activation_date: aRevokedEycaCard.activation_date,
+          card_number: aRevokedEycaCard.card_number,
+          expiration_date: anExpirationDate,
+          status: ExpiredStatusEnum.EXPIRED
+        }
+      })
+    );
+  });
+
+  it("should give back the EYCA card it had before to a user whose CGN is revoked and then reactivated", async () => {
+    // eslint-disable-next-line functional/no-let
+    let storedUserEycaCard: UserEycaCard = {
+      card: anActivatedEycaCard,
+      fiscalCode: aFiscalCode
+    };
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.of(some(storedUserEycaCard))
+    );
+    updateMock.mockImplementation((userEycaCard: UserEycaCard) => {
+      storedUserEycaCard = userEycaCard;
+      return TE.of(userEycaCard);
+    });
+    const revokeEycaActivityHandler = getRevokeEycaActivityHandler(
+      {} as any,
+      {} as any,
+      "aUsername" as NonEmptyString,
+      "aPassword" as NonEmptyString,
+      userEycaCardModelMock as any,
+      {} as any,
+      anEycaExpirationTableName,
+      systemClock
+    );
+
+    const revocation = await revokeEycaActivityHandler(context, {
+      fiscalCode: aFiscalCode,
+      revocationDate: now,
+      revocationReason: "aRevocationReason" as NonEmptyString
+    });
+    expect(revocation.kind).toBe("SUCCESS");
+    expect(storedUserEycaCard.card.status).toBe(RevokedStatusEnum.REVOKED);
+
+    const restoration = await restoreEycaActivityHandler(
+      context,
+      anActivityInput
+    );
+    expect(restoration.kind).toBe("SUCCESS");
+    expect(storedUserEycaCard.card).toEqual(anActivatedEycaCard);
+    // the card expires today on CCDB when revoked, then on its own date again
+    expect(updateCardMock.mock.calls.map(call => call[5])).toEqual([
+      expect.any(Date),
+      anActivatedEycaCard.expiration_date
+    ]);
+    expect(deleteEycaExpirationTaskMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      anActivatedEycaCard.expiration_date
+    );
+    expect(insertEycaExpirationTaskMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      anActivatedEycaCard.activation_date,
+      anActivatedEycaCard.expiration_date
+    );
+  });
+});
@@ -0,0 +1,151 @@
+/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableService } from "azure-storage";
+import * as date_fns from "date-fns";
+import { toError } from "fp-ts/lib/Either";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { RedisClient } from "redis";
+import { EycaAPIClient } from "../clients/eyca";
+import { StatusEnum as ActivatedStatusEnum } from "../generated/definitions/CardActivated";
+import { StatusEnum as ExpiredStatusEnum } from "../generated/definitions/CardExpired";
+import { EycaCard } from "../generated/definitions/EycaCard";
+import { EycaCardRevoked } from "../generated/definitions/EycaCardRevoked";
+import {
+  RetrievedUserEycaCard,
+  UserEycaCardModel
+} from "../models/user_eyca_card";
+import { updateCard } from "../SuccessEycaActivationActivity/eyca";
+import { ActivityResult, success } from "../utils/activity";
+import { Clock } from "../utils/clock";
+import { errorsToError } from "../utils/conversions";
+import {
+  Failure,
+  toPermanentFailure,
+  toTransientFailure,
+  trackFailure
+} from "../utils/errors";
+import { insertCardExpiration } from "../utils/table_storage";
+
+export const ActivityInput = t.interface({
+  fiscalCode: FiscalCode
+});
+
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+/**
+ * Restores the EYCA card revoked along with the CGN of a user whose CGN
+ * has been reactivated, undoing what RevokeEycaActivity did.
+ * The card gets back its expiration date on CCDB and its expiration tuple,
+ * unless it has passed its expiration date in the meantime, in which case
+ * it is just expired since it already expired on CCDB when revoked.
+ * Users without a revoked EYCA card have nothing to restore.
+ */
+export const getRestoreEycaActivityHandler = (
+  redisClient: RedisClient,
+  eycaClient: ReturnType<EycaAPIClient>,
+  eycaApiUsername: NonEmptyString,
+  eycaApiPassword: NonEmptyString,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  eycaExpirationTableName: NonEmptyString,
+  clock: Clock,
+  logPrefix: string = "RestoreEycaActivity"
+) => (context: Context, input: unknown): Promise<ActivityResult> => {
+  const fail = trackFailure(context, logPrefix);
+  const insertEycaExpirationTask = insertCardExpiration(
+    tableService,
+    eycaExpirationTableName
+  );
+  const updateUserEycaCard = (
+    userEycaCard: RetrievedUserEycaCard,
+    card: EycaCard
+  ): TE.TaskEither<Failure, ActivityResult> =>
+    pipe(
+      userEycaCardModel.update({ ...userEycaCard, card }),
+      TE.bimap(
+        err => toTransientFailure(toError(err), "Cannot update User EYCA Card"),
+        success
+      )
+    );
+  // the User EYCA Card is updated last, so that a retry finds it
+  // still revoked if CCDB or the expiration tuple cannot be updated
+  const restoreEycaCard = (
+    userEycaCard: RetrievedUserEycaCard,
+    card: EycaCardRevoked
+  ): TE.TaskEither<Failure, ActivityResult> =>
+    pipe(
+      updateCard(
+        redisClient,
+        eycaClient,
+        eycaApiUsername,
+        eycaApiPassword,
+        card.card_number,
+        card.expiration_date
+      ),
+      TE.chain(() =>
+        pipe(
+          insertEycaExpirationTask(
+            userEycaCard.fiscalCode,
+            card.activation_date,
+            card.expiration_date
+          ),
+          TE.mapLeft(err =>
+            toTransientFailure(err, "Cannot insert EYCA expiration tuple")
+          )
+        )
+      ),
+      TE.chain(() =>
+        updateUserEycaCard(userEycaCard, {
+          activation_date: card.activation_date,
+          card_number: card.card_number,
+          expiration_date: card.expiration_date,
+          status: ActivatedStatusEnum.ACTIVATED
+        })
+      )
+    );
+  return pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(
+      flow(errorsToError, e =>
+        toPermanentFailure(e, "Cannot decode activity input")
+      )
+    ),
+    TE.chain(activityInput =>
+      pipe(
+        userEycaCardModel.findLastVersionByModelId([activityInput.fiscalCode]),
+        TE.mapLeft(
+          flow(toError, e =>
+            toTransientFailure(
+              e,
+              "Cannot retrieve User EYCA Card for the provided fiscalCode"
+            )
+          )
+        ),
+        TE.chain(
+          O.fold(
+            () => TE.of(success()),
+            userEycaCard =>
+              !EycaCardRevoked.is(userEycaCard.card)
+                ? TE.of(success())
+                : date_fns.isAfter(userEycaCard.card.expiration_date, clock())
+                ? restoreEycaCard(userEycaCard, userEycaCard.card)
+                : updateUserEycaCard(userEycaCard, {
+                    activation_date: userEycaCard.card.activation_date,
+                    card_number: userEycaCard.card.card_number,
+                    expiration_date: userEycaCard.card.expiration_date,
+                    status: ExpiredStatusEnum.EXPIRED
+                  })
+          )
+        )
+      )
+    ),
+    TE.mapLeft(fail),
+    TE.toUnion
+  )();
+};
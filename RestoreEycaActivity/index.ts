@@ -0,0 +1,38 @@
+import { createTableService } from "azure-storage";
+import { EycaAPIClient } from "../clients/eyca";
+import {
+  USER_EYCA_CARD_COLLECTION_NAME,
+  UserEycaCardModel
+} from "../models/user_eyca_card";
+import { getClock } from "../utils/clock";
+import { getConfigOrThrow } from "../utils/config";
+import { cosmosdbClient } from "../utils/cosmosdb";
+import { REDIS_CLIENT } from "../utils/redis";
+import { getRestoreEycaActivityHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const clock = getClock(config);
+
+const userEycaCardsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_EYCA_CARD_COLLECTION_NAME);
+
+const userEycaCardModel = new UserEycaCardModel(userEycaCardsContainer);
+
+const eycaClient = EycaAPIClient(config.EYCA_API_BASE_URL);
+
+const tableService = createTableService(config.CGN_STORAGE_CONNECTION_STRING);
+
+const restoreEycaActivityHandler = getRestoreEycaActivityHandler(
+  REDIS_CLIENT,
+  eycaClient,
+  config.EYCA_API_USERNAME,
+  config.EYCA_API_PASSWORD,
+  userEycaCardModel,
+  tableService,
+  config.EYCA_EXPIRATION_TABLE_NAME,
+  clock
+);
+
+export default restoreEycaActivityHandler;
@@ -0,0 +1,178 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import { toError } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import { none, some } from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { cgnActivatedDates, now, testFail } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as PendingStatusEnum } from "../../generated/definitions/CardPending";
+import { StatusEnum as RevokedStatusEnum } from "../../generated/definitions/CardRevoked";
+import { EycaCardActivated } from "../../generated/definitions/EycaCardActivated";
+import { CcdbNumber } from "../../generated/eyca-api/CcdbNumber";
+import { UserEycaCard } from "../../models/user_eyca_card";
+import * as eyca from "../../SuccessEycaActivationActivity/eyca";
+import { systemClock } from "../../utils/clock";
+import { toPermanentFailure } from "../../utils/errors";
+import * as tableUtils from "../../utils/table_storage";
+import { ActivityInput, getRevokeEycaActivityHandler } from "../handler";
+
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const anEycaExpirationTableName = "aTable" as NonEmptyString;
+
+const anActivatedEycaCard: EycaCardActivated = {
+  ...cgnActivatedDates,
+  card_number: "X321-Y321-Z321-W321" as CcdbNumber,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const anActivatedUserEycaCard: UserEycaCard = {
+  card: anActivatedEycaCard,
+  fiscalCode: aFiscalCode
+};
+
+const findLastVersionByModelIdMock = jest.fn();
+const updateMock = jest.fn();
+
+const userEycaCardModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock,
+  update: updateMock
+};
+
+const updateCardMock = jest.fn();
+jest.spyOn(eyca, "updateCard").mockImplementation(updateCardMock);
+
+const deleteEycaExpirationTaskMock = jest.fn();
+jest
+  .spyOn(tableUtils, "deleteCardExpiration")
+  .mockImplementation(() => deleteEycaExpirationTaskMock);
+
+const anActivityInput: ActivityInput = {
+  fiscalCode: aFiscalCode,
+  revocationDate: now,
+  revocationReason: "aRevocationReason" as NonEmptyString
+};
+
+const revokeEycaActivityHandler = getRevokeEycaActivityHandler(
+  {} as any,
+  {} as any,
+  "aUsername" as NonEmptyString,
+  "aPassword" as NonEmptyString,
+  userEycaCardModelMock as any,
+  {} as any,
+  anEycaExpirationTableName,
+  systemClock
+);
+
+describe("RevokeEycaActivity", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.of(some(anActivatedUserEycaCard))
+    );
+    updateMock.mockImplementation(userEycaCard => TE.of(userEycaCard));
+    updateCardMock.mockImplementation(() =>
+      TE.of("Object(s) updated." as NonEmptyString)
+    );
+    deleteEycaExpirationTaskMock.mockImplementation(() => TE.of(void 0));
+  });
+
+  it("should return a permanent failure if any errors occurs on input decode", async () => {
+    const response = await revokeEycaActivityHandler(context, {});
+    expect(response.kind).toBe("FAILURE");
+  });
+
+  it("should throw if an error occurs during User Eyca Card retrieve", async () => {
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.left(toCosmosErrorResponse(new Error("query error")))
+    );
+    await pipe(
+      TE.tryCatch(
+        () => revokeEycaActivityHandler(context, anActivityInput),
+        toError
+      ),
+      TE.bimap(e => {
+        expect(e.message).toContain("TRANSIENT FAILURE");
+      }, testFail)
+    )();
+  });
+
+  it.each`
+    title                         | maybeUserEycaCard
+    ${"no User Eyca Card exists"} | ${none}
+    ${"the card is not Active"}   | ${some({ card: { status: PendingStatusEnum.PENDING }, fiscalCode: aFiscalCode })}
+  `(
+    "should return success without revoking anything if $title",
+    async ({ maybeUserEycaCard }) => {
+      findLastVersionByModelIdMock.mockImplementation(() =>
+        TE.of(maybeUserEycaCard)
+      );
+      const response = await revokeEycaActivityHandler(
+        context,
+        anActivityInput
+      );
+      expect(response.kind).toBe("SUCCESS");
+      expect(updateCardMock).not.toHaveBeenCalled();
+      expect(updateMock).not.toHaveBeenCalled();
+    }
+  );
+
+  it("should not revoke the User Eyca Card if CCDB rejects the update", async () => {
+    updateCardMock.mockImplementation(() =>
+      TE.left(toPermanentFailure(new Error("Error on EYCA updateCard API")))
+    );
+    const response = await revokeEycaActivityHandler(context, anActivityInput);
+    expect(response.kind).toBe("FAILURE");
+    expect(updateMock).not.toHaveBeenCalled();
+    expect(deleteEycaExpirationTaskMock).not.toHaveBeenCalled();
+  });
+
+  it("should throw if User Eyca Card's update fails", async () => {
+    updateMock.mockImplementation(() =>
+      TE.left(toCosmosErrorResponse(new Error("update error")))
+    );
+    await pipe(
+      TE.tryCatch(
+        () => revokeEycaActivityHandler(context, anActivityInput),
+        toError
+      ),
+      TE.bimap(e => {
+        expect(e.message).toContain("TRANSIENT FAILURE");
+        expect(deleteEycaExpirationTaskMock).not.toHaveBeenCalled();
+      }, testFail)
+    )();
+  });
+
+  it("should revoke an activated EYCA card on CCDB and on its User Eyca Card", async () => {
+    const response = await revokeEycaActivityHandler(context, anActivityInput);
+    expect(response.kind).toBe("SUCCESS");
+    expect(updateCardMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      "aUsername",
+      "aPassword",
+      anActivatedEycaCard.card_number,
+      expect.any(Date)
+    );
+    expect(
+      date_fns.isToday(updateCardMock.mock.calls[0][5] as Date)
+    ).toBeTruthy();
+    expect(updateMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        card: {
+          ...anActivatedEycaCard,
+          revocation_date: anActivityInput.revocationDate,
+          revocation_reason: anActivityInput.revocationReason,
+          status: RevokedStatusEnum.REVOKED
+        }
+      })
+    );
+    expect(deleteEycaExpirationTaskMock).toHaveBeenCalledWith(
+      aFiscalCode,
+      anActivatedEycaCard.expiration_date
+    );
+  });
+});
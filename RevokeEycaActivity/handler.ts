@@ -0,0 +1,140 @@
+/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableService } from "azure-storage";
+import { toError } from "fp-ts/lib/Either";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { RedisClient } from "redis";
+import { EycaAPIClient } from "../clients/eyca";
+import { StatusEnum as RevokedStatusEnum } from "../generated/definitions/CardRevoked";
+import { EycaCardActivated } from "../generated/definitions/EycaCardActivated";
+import { Timestamp } from "../generated/definitions/Timestamp";
+import {
+  RetrievedUserEycaCard,
+  UserEycaCardModel
+} from "../models/user_eyca_card";
+import { updateCard } from "../SuccessEycaActivationActivity/eyca";
+import { ActivityResult, success } from "../utils/activity";
+import { Clock } from "../utils/clock";
+import { errorsToError } from "../utils/conversions";
+import {
+  Failure,
+  toPermanentFailure,
+  toTransientFailure,
+  trackFailure
+} from "../utils/errors";
+import { deleteCardExpiration } from "../utils/table_storage";
+
+export const ActivityInput = t.interface({
+  fiscalCode: FiscalCode,
+  revocationDate: Timestamp,
+  revocationReason: NonEmptyString
+});
+
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+/**
+ * Revokes the EYCA card of a user whose CGN has been revoked.
+ * The card expires on CCDB today, so that it stops working abroad too,
+ * and it will not be expired again by the EYCA expiration tuple.
+ * Users without an activated EYCA card have nothing to revoke.
+ */
+export const getRevokeEycaActivityHandler = (
+  redisClient: RedisClient,
+  eycaClient: ReturnType<EycaAPIClient>,
+  eycaApiUsername: NonEmptyString,
+  eycaApiPassword: NonEmptyString,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  eycaExpirationTableName: NonEmptyString,
+  clock: Clock,
+  logPrefix: string = "RevokeEycaActivity"
+) => (context: Context, input: unknown): Promise<ActivityResult> => {
+  const fail = trackFailure(context, logPrefix);
+  const deleteEycaExpirationTask = deleteCardExpiration(
+    tableService,
+    eycaExpirationTableName
+  );
+  const revokeEycaCard = (
+    userEycaCard: RetrievedUserEycaCard,
+    card: EycaCardActivated,
+    { revocationDate, revocationReason }: ActivityInput
+  ): TE.TaskEither<Failure, ActivityResult> =>
+    pipe(
+      updateCard(
+        redisClient,
+        eycaClient,
+        eycaApiUsername,
+        eycaApiPassword,
+        card.card_number,
+        clock()
+      ),
+      TE.chain(() =>
+        pipe(
+          userEycaCardModel.update({
+            ...userEycaCard,
+            card: {
+              activation_date: card.activation_date,
+              card_number: card.card_number,
+              expiration_date: card.expiration_date,
+              revocation_date: revocationDate,
+              revocation_reason: revocationReason,
+              status: RevokedStatusEnum.REVOKED
+            }
+          }),
+          TE.mapLeft(err =>
+            toTransientFailure(toError(err), "Cannot update User EYCA Card")
+          )
+        )
+      ),
+      TE.chain(() =>
+        pipe(
+          deleteEycaExpirationTask(
+            userEycaCard.fiscalCode,
+            card.expiration_date
+          ),
+          TE.mapLeft(err =>
+            toTransientFailure(err, "Cannot delete EYCA expiration tuple")
+          )
+        )
+      ),
+      TE.map(success)
+    );
+  return pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(
+      flow(errorsToError, e =>
+        toPermanentFailure(e, "Cannot decode activity input")
+      )
+    ),
+    TE.chain(activityInput =>
+      pipe(
+        userEycaCardModel.findLastVersionByModelId([activityInput.fiscalCode]),
+        TE.mapLeft(
+          flow(toError, e =>
+            toTransientFailure(
+              e,
+              "Cannot retrieve User EYCA Card for the provided fiscalCode"
+            )
+          )
+        ),
+        TE.chain(
+          O.fold(
+            () => TE.of(success()),
+            userEycaCard =>
+              EycaCardActivated.is(userEycaCard.card)
+                ? revokeEycaCard(userEycaCard, userEycaCard.card, activityInput)
+                : TE.of(success())
+          )
+        )
+      )
+    ),
+    TE.mapLeft(fail),
+    TE.toUnion
+  )();
+};
@@ -0,0 +1,197 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  context,
+  mockGetStatus,
+  mockStartNew,
+  mockStatusCompleted,
+  mockStatusRunning
+} from "../../__mocks__/durable-functions";
+import { cgnActivatedDates } from "../../__mocks__/mock";
+import { ExpirationDay } from "../../generated/definitions/ExpirationDay";
+import { ExpiringCardTypeEnum } from "../../generated/definitions/ExpiringCardType";
+import * as cardExpiration from "../../utils/card_expiration";
+import { fixedClock } from "../../utils/clock";
+import { RunCardExpirationsHandler } from "../handler";
+
+const aCgnExpirationTableName = "cgnexpiration" as NonEmptyString;
+const anEycaExpirationTableName = "eycaexpiration" as NonEmptyString;
+const aDate = "2021-01-31" as ExpirationDay;
+const aFutureDate = "2021-02-01" as ExpirationDay;
+// it is already the 31st of January in Rome
+const aNow = new Date("2021-01-30T23:30:00Z");
+
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const anotherFiscalCode = "RODEDS80S10H501H" as FiscalCode;
+const aSetOfExpiredRows = [aFiscalCode, anotherFiscalCode].map(fiscalCode => ({
+  activationDate: cgnActivatedDates.activation_date,
+  expirationDate: cgnActivatedDates.expiration_date,
+  fiscalCode
+}));
+
+const withFilterMock = jest.fn();
+const tableServiceMock = {
+  withFilter: withFilterMock
+};
+
+const getExpiredCardUsersMock = jest.fn();
+jest
+  .spyOn(cardExpiration, "getExpiredCardUsers")
+  .mockImplementation(getExpiredCardUsersMock);
+
+const runCardExpirationsHandler = RunCardExpirationsHandler(
+  tableServiceMock as any,
+  aCgnExpirationTableName,
+  anEycaExpirationTableName,
+  fixedClock(aNow)
+);
+
+describe("RunCardExpirations", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getExpiredCardUsersMock.mockImplementation(() => TE.of(aSetOfExpiredRows));
+    mockGetStatus.mockImplementation(async () => mockStatusCompleted);
+  });
+
+  it("should list the orchestrators that would be terminated and started in dry-run mode", async () => {
+    mockGetStatus.mockImplementation(async (orchestratorId: string) =>
+      orchestratorId === `${aFiscalCode}-UPDCGN-SUSPENDED`
+        ? mockStatusRunning
+        : mockStatusCompleted
+    );
+    const response = await runCardExpirationsHandler(context, {
+      card_type: ExpiringCardTypeEnum.CGN,
+      date: aDate,
+      dry_run: true
+    });
+    expect(getExpiredCardUsersMock).toHaveBeenCalledWith(
+      undefined,
+      aCgnExpirationTableName,
+      aDate
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: {
+          card_type: ExpiringCardTypeEnum.CGN,
+          date: aDate,
+          dry_run: true,
+          expirations: [
+            {
+              fiscal_code: "RODFDS**********",
+              orchestrator_id: "RODFDS**********-UPDCGN-EXPIRED",
+              outcome: "PLANNED",
+              running_orchestrators: ["RODFDS**********-UPDCGN-SUSPENDED"]
+            },
+            {
+              fiscal_code: "RODEDS**********",
+              orchestrator_id: "RODEDS**********-UPDCGN-EXPIRED",
+              outcome: "PLANNED",
+              running_orchestrators: []
+            }
+          ],
+          failures: 0
+        }
+      })
+    );
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should start the expire orchestrators and report their outcome", async () => {
+    mockStartNew.mockImplementationOnce(async (_, orchestratorId) =>
+      String(orchestratorId)
+    );
+    mockStartNew.mockImplementationOnce(() =>
+      Promise.reject(new Error("Cannot start"))
+    );
+    const response = await runCardExpirationsHandler(context, {
+      card_type: ExpiringCardTypeEnum.EYCA,
+      date: aDate,
+      dry_run: false
+    });
+    expect(getExpiredCardUsersMock).toHaveBeenCalledWith(
+      undefined,
+      anEycaExpirationTableName,
+      aDate
+    );
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "ExpireEycaOrchestrator",
+      `${aFiscalCode}-EYCA-EXPIRED`,
+      { fiscalCode: aFiscalCode }
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: {
+          card_type: ExpiringCardTypeEnum.EYCA,
+          date: aDate,
+          dry_run: false,
+          expirations: [
+            {
+              fiscal_code: "RODFDS**********",
+              orchestrator_id: "RODFDS**********-EYCA-EXPIRED",
+              outcome: "STARTED"
+            },
+            {
+              error: "Cannot start",
+              fiscal_code: "RODEDS**********",
+              orchestrator_id: "RODEDS**********-EYCA-EXPIRED",
+              outcome: "FAILED"
+            }
+          ],
+          failures: 1
+        }
+      })
+    );
+  });
+
+  it("should return a Validation Error if the date doesn't exist", async () => {
+    const response = await runCardExpirationsHandler(context, {
+      card_type: ExpiringCardTypeEnum.CGN,
+      date: "2021-02-30" as ExpirationDay,
+      dry_run: true
+    });
+    expect(response.kind).toBe("IResponseErrorValidation");
+    expect(getExpiredCardUsersMock).not.toHaveBeenCalled();
+  });
+
+  it("should return a Validation Error if a future date is run for real", async () => {
+    const response = await runCardExpirationsHandler(context, {
+      card_type: ExpiringCardTypeEnum.CGN,
+      date: aFutureDate,
+      dry_run: false
+    });
+    expect(response.kind).toBe("IResponseErrorValidation");
+    expect(getExpiredCardUsersMock).not.toHaveBeenCalled();
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should list the expirations of a future date in dry-run mode", async () => {
+    const response = await runCardExpirationsHandler(context, {
+      card_type: ExpiringCardTypeEnum.CGN,
+      date: aFutureDate,
+      dry_run: true
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    expect(getExpiredCardUsersMock).toHaveBeenCalledWith(
+      undefined,
+      aCgnExpirationTableName,
+      aFutureDate
+    );
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if the expirations cannot be retrieved", async () => {
+    getExpiredCardUsersMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot query table"))
+    );
+    const response = await runCardExpirationsHandler(context, {
+      card_type: ExpiringCardTypeEnum.CGN,
+      date: aDate,
+      dry_run: false
+    });
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,271 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredBodyPayloadMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_body_payload";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponseErrorInternal,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorValidation,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { ExponentialRetryPolicyFilter, TableService } from "azure-storage";
+import * as date_fns from "date-fns";
+import * as df from "durable-functions";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  CardExpirationRunItem,
+  OutcomeEnum
+} from "../generated/definitions/CardExpirationRunItem";
+import { CardExpirationRunReport } from "../generated/definitions/CardExpirationRunReport";
+import { CardExpirationRunRequest } from "../generated/definitions/CardExpirationRunRequest";
+import { ExpiringCardTypeEnum } from "../generated/definitions/ExpiringCardType";
+import {
+  getCgnExpirationOrchestratorIds,
+  getExpireCgnTask
+} from "../UpdateExpiredCgn/handler";
+import {
+  getEycaExpirationOrchestratorIds,
+  getExpireEycaCardTask
+} from "../UpdateExpiredEyca/handler";
+import {
+  ExpiredCardRowKey,
+  getExpiredCardUsers,
+  ICardExpirationOrchestratorIds,
+  runExpirationTasks
+} from "../utils/card_expiration";
+import { Clock } from "../utils/clock";
+import { maskFiscalCode } from "../utils/conversions";
+import { formatRomeDate } from "../utils/dates";
+import { isOrchestratorInProgress } from "../utils/orchestrators";
+
+type ReturnTypes =
+  | IResponseSuccessJson<CardExpirationRunReport>
+  | IResponseErrorValidation
+  | IResponseErrorInternal;
+
+type IRunCardExpirationsHandler = (
+  context: Context,
+  runRequest: CardExpirationRunRequest
+) => Promise<ReturnTypes>;
+
+/**
+ * How the expiration of a kind of card is run
+ */
+interface ICardExpirationRunner {
+  readonly expirationTableName: NonEmptyString;
+  readonly getOrchestratorIds: (
+    fiscalCode: FiscalCode
+  ) => ICardExpirationOrchestratorIds;
+  readonly getExpireTask: (
+    client: DurableOrchestrationClient,
+    context: Context,
+    logPrefix: string
+  ) => (row: ExpiredCardRowKey) => TE.TaskEither<Error, string>;
+}
+
+const maskOrchestratorId = (
+  fiscalCode: FiscalCode,
+  orchestratorId: string
+): string => orchestratorId.replace(fiscalCode, maskFiscalCode(fiscalCode));
+
+const toFailedItem = (
+  fiscalCode: FiscalCode,
+  orchestratorId: string,
+  err: Error
+): CardExpirationRunItem => ({
+  error: err.message,
+  fiscal_code: maskFiscalCode(fiscalCode),
+  orchestrator_id: maskOrchestratorId(fiscalCode, orchestratorId),
+  outcome: OutcomeEnum.FAILED
+});
+
+/**
+ * Lists the running orchestrators that would be terminated
+ * before expiring a user's card, without changing anything
+ */
+const planCardExpiration = (
+  client: DurableOrchestrationClient,
+  fiscalCode: FiscalCode,
+  orchestratorIds: ICardExpirationOrchestratorIds
+): TE.TaskEither<Error, CardExpirationRunItem> =>
+  pipe(
+    orchestratorIds.toTerminate,
+    RA.traverse(TE.ApplicativeSeq)(orchestratorId =>
+      pipe(
+        isOrchestratorInProgress(client, orchestratorId),
+        TE.map(isRunning => ({ isRunning, orchestratorId }))
+      )
+    ),
+    TE.map(
+      (orchestrators): CardExpirationRunItem => ({
+        fiscal_code: maskFiscalCode(fiscalCode),
+        orchestrator_id: maskOrchestratorId(
+          fiscalCode,
+          orchestratorIds.toStart
+        ),
+        outcome: OutcomeEnum.PLANNED,
+        running_orchestrators: orchestrators
+          .filter(({ isRunning }) => isRunning)
+          .map(({ orchestratorId }) =>
+            maskOrchestratorId(fiscalCode, orchestratorId)
+          )
+      })
+    ),
+    TE.orElseW(err =>
+      TE.of(toFailedItem(fiscalCode, orchestratorIds.toStart, err))
+    )
+  );
+
+export const RunCardExpirationsHandler = (
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  clock: Clock,
+  logPrefix: string = "RunCardExpirationsHandler"
+): IRunCardExpirationsHandler => async (
+  context,
+  runRequest
+): Promise<ReturnTypes> => {
+  const runners: Record<ExpiringCardTypeEnum, ICardExpirationRunner> = {
+    [ExpiringCardTypeEnum.CGN]: {
+      expirationTableName: cgnExpirationTableName,
+      getExpireTask: getExpireCgnTask,
+      getOrchestratorIds: getCgnExpirationOrchestratorIds
+    },
+    [ExpiringCardTypeEnum.EYCA]: {
+      expirationTableName: eycaExpirationTableName,
+      getExpireTask: getExpireEycaCardTask,
+      getOrchestratorIds: getEycaExpirationOrchestratorIds
+    }
+  };
+  const runner = runners[runRequest.card_type];
+  const client = df.getClient(context);
+
+  if (!date_fns.isValid(date_fns.parseISO(runRequest.date))) {
+    return ResponseErrorValidation("Bad Request", "Invalid date");
+  }
+
+  // EXPIRED is a final status, so cards cannot be expired before their day
+  if (!runRequest.dry_run && runRequest.date > formatRomeDate(clock())) {
+    return ResponseErrorValidation(
+      "Bad Request",
+      "The expirations of a future date can only be run in dry-run mode"
+    );
+  }
+
+  const runExpirations = (
+    rows: ReadonlyArray<ExpiredCardRowKey>
+  ): TE.TaskEither<Error, ReadonlyArray<CardExpirationRunItem>> =>
+    runRequest.dry_run
+      ? pipe(
+          rows,
+          RA.traverse(TE.ApplicativeSeq)(({ fiscalCode }) =>
+            planCardExpiration(
+              client,
+              fiscalCode,
+              runner.getOrchestratorIds(fiscalCode)
+            )
+          )
+        )
+      : pipe(
+          runExpirationTasks(
+            rows.map(runner.getExpireTask(client, context, logPrefix))
+          ),
+          TE.rightTask,
+          TE.map(results =>
+            RA.zipWith(results, rows, (result, { fiscalCode }) =>
+              pipe(
+                result,
+                E.fold(
+                  err =>
+                    toFailedItem(
+                      fiscalCode,
+                      runner.getOrchestratorIds(fiscalCode).toStart,
+                      err
+                    ),
+                  (orchestratorId): CardExpirationRunItem => ({
+                    fiscal_code: maskFiscalCode(fiscalCode),
+                    orchestrator_id: maskOrchestratorId(
+                      fiscalCode,
+                      orchestratorId
+                    ),
+                    outcome: OutcomeEnum.STARTED
+                  })
+                )
+              )
+            )
+          )
+        );
+
+  return pipe(
+    getExpiredCardUsers(
+      // using custom Exponential backoff retry policy for expired card's query operation
+      tableService.withFilter(new ExponentialRetryPolicyFilter(5)),
+      runner.expirationTableName,
+      runRequest.date
+    ),
+    TE.chainW(runExpirations),
+    TE.bimap(
+      err => {
+        context.log.error(
+          `${logPrefix}|Cannot run ${runRequest.card_type} expirations of ${runRequest.date}|ERROR=${err.message}`
+        );
+        return ResponseErrorInternal(
+          `Cannot run ${runRequest.card_type} expirations`
+        );
+      },
+      expirations => {
+        const failures = expirations.filter(
+          ({ outcome }) => outcome === OutcomeEnum.FAILED
+        ).length;
+        context.log.info(
+          `${logPrefix}|Run ${expirations.length} ${runRequest.card_type} expirations of ${runRequest.date}|DRY_RUN=${runRequest.dry_run}|FAILURES=${failures}`
+        );
+        return ResponseSuccessJson(
+          CardExpirationRunReport.encode({
+            card_type: runRequest.card_type,
+            date: runRequest.date,
+            dry_run: runRequest.dry_run,
+            expirations,
+            failures: failures as NonNegativeInteger
+          })
+        );
+      }
+    ),
+    TE.toUnion
+  )();
+};
+
+export const RunCardExpirations = (
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  clock: Clock
+): express.RequestHandler => {
+  const handler = RunCardExpirationsHandler(
+    tableService,
+    cgnExpirationTableName,
+    eycaExpirationTableName,
+    clock
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredBodyPayloadMiddleware(CardExpirationRunRequest)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
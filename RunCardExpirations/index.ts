@@ -0,0 +1,53 @@
+import * as express from "express";
+import * as winston from "winston";
+
+import { Context } from "@azure/functions";
+import createAzureFunctionHandler from "@pagopa/express-azure-functions/dist/src/createAzureFunctionsHandler";
+import { secureExpressApp } from "@pagopa/io-functions-commons/dist/src/utils/express";
+import { AzureContextTransport } from "@pagopa/io-functions-commons/dist/src/utils/logging";
+import { setAppContext } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { createTableService } from "azure-storage";
+import { getClock } from "../utils/clock";
+import { getConfigOrThrow } from "../utils/config";
+
+import { RunCardExpirations } from "./handler";
+
+const config = getConfigOrThrow();
+
+const clock = getClock(config);
+
+const tableService = createTableService(config.CGN_STORAGE_CONNECTION_STRING);
+
+// eslint-disable-next-line functional/no-let
+let logger: Context["log"] | undefined;
+const contextTransport = new AzureContextTransport(() => logger, {
+  level: "debug"
+});
+winston.add(contextTransport);
+
+// Setup Express
+const app = express();
+secureExpressApp(app);
+
+// Add express route
+app.post(
+  "/api/v1/cgn/expirations/run",
+  RunCardExpirations(
+    tableService,
+    config.CGN_EXPIRATION_TABLE_NAME,
+    config.EYCA_EXPIRATION_TABLE_NAME,
+    clock
+  )
+);
+
+const azureFunctionHandler = createAzureFunctionHandler(app);
+
+// Binds the express app to an Azure Function handler
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+function httpStart(context: Context): void {
+  logger = context.log;
+  setAppContext(app, context);
+  azureFunctionHandler(context);
+}
+
+export default httpStart;
@@ -0,0 +1,277 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { ExponentialRetryPolicyFilter } from "azure-storage";
+import * as date_fns from "date-fns";
+import { none, some } from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  context,
+  mockGetStatus,
+  mockStartNew,
+  mockStatusCompleted
+} from "../../__mocks__/durable-functions";
+import { cgnActivatedDates } from "../../__mocks__/mock";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import { StatusEnum as RevokedStatusEnum } from "../../generated/definitions/CardRevoked";
+import { StatusEnum as SuspendedStatusEnum } from "../../generated/definitions/CardSuspended";
+import * as aInsights from "../../utils/appinsights";
+import * as tableUtils from "../../utils/card_expiration";
+import { ExpiringCardTypeEnum } from "../../utils/card_expiration";
+import { systemClock } from "../../utils/clock";
+import { ExpirationReminderDays } from "../../utils/config";
+import { getSendCardExpirationRemindersHandler } from "../handler";
+
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const anotherFiscalCode = "RODEDS80S10H501H" as FiscalCode;
+
+const activationAndExpirationDates = {
+  activationDate: cgnActivatedDates.activation_date,
+  expirationDate: cgnActivatedDates.expiration_date
+};
+
+const aTableServiceFilter = new ExponentialRetryPolicyFilter(5);
+const withFilterMock = jest.fn();
+const tableServiceMock = {
+  withFilter: withFilterMock
+};
+withFilterMock.mockImplementation(() => tableServiceMock);
+
+const cgnExpirationTableName = "cgnexpirations" as NonEmptyString;
+const eycaExpirationTableName = "eycaexpirations" as NonEmptyString;
+const reminderDays = ([30, 7] as ReadonlyArray<unknown>) as ReadonlyArray<
+  ExpirationReminderDays
+>;
+
+const findLastCgnVersionMock = jest.fn();
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastCgnVersionMock
+};
+const findLastEycaCardVersionMock = jest.fn();
+const userEycaCardModelMock = {
+  findLastVersionByModelId: findLastEycaCardVersionMock
+};
+const aUserCardWithStatus = (status: string) =>
+  TE.of(some({ card: { status }, fiscalCode: aFiscalCode }));
+
+const getExpiredCardUsersMock = jest.fn();
+jest
+  .spyOn(tableUtils, "getExpiredCardUsers")
+  .mockImplementation(getExpiredCardUsersMock);
+
+const trackExceptionMock = jest.fn(_ => void 0);
+jest.spyOn(aInsights, "trackException").mockImplementation(trackExceptionMock);
+
+const sendCardExpirationRemindersHandler = getSendCardExpirationRemindersHandler(
+  userCgnModelMock as any,
+  userEycaCardModelMock as any,
+  tableServiceMock as any,
+  cgnExpirationTableName,
+  eycaExpirationTableName,
+  reminderDays,
+  systemClock
+);
+
+describe("SendCardExpirationReminders", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetStatus.mockImplementation(async () => mockStatusCompleted);
+    getExpiredCardUsersMock.mockImplementation(() => TE.of([]));
+    findLastCgnVersionMock.mockImplementation(() =>
+      aUserCardWithStatus(ActivatedStatusEnum.ACTIVATED)
+    );
+    findLastEycaCardVersionMock.mockImplementation(() =>
+      aUserCardWithStatus(ActivatedStatusEnum.ACTIVATED)
+    );
+  });
+
+  it("should query the expirations due in each configured number of days", async () => {
+    await sendCardExpirationRemindersHandler(context);
+    expect(withFilterMock).toHaveBeenCalledWith(aTableServiceFilter);
+    expect(getExpiredCardUsersMock).toHaveBeenCalledTimes(4);
+    [30, 7].forEach(daysBefore => {
+      const expirationDate = date_fns.format(
+        date_fns.addDays(Date.now(), daysBefore),
+        "yyyy-MM-dd"
+      );
+      expect(getExpiredCardUsersMock).toHaveBeenCalledWith(
+        tableServiceMock,
+        cgnExpirationTableName,
+        expirationDate
+      );
+      expect(getExpiredCardUsersMock).toHaveBeenCalledWith(
+        tableServiceMock,
+        eycaExpirationTableName,
+        expirationDate
+      );
+    });
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should start a reminder orchestrator for each expiring card", async () => {
+    getExpiredCardUsersMock.mockImplementation(
+      (_, tableName: string, expirationDate: string) =>
+        TE.of(
+          expirationDate ===
+            date_fns.format(date_fns.addDays(Date.now(), 30), "yyyy-MM-dd")
+            ? [
+                {
+                  fiscalCode:
+                    tableName === cgnExpirationTableName
+                      ? aFiscalCode
+                      : anotherFiscalCode,
+                  ...activationAndExpirationDates
+                }
+              ]
+            : []
+        )
+    );
+    await sendCardExpirationRemindersHandler(context);
+    expect(mockStartNew).toHaveBeenCalledTimes(2);
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "CardExpirationReminderOrchestrator",
+      `${aFiscalCode}-CGN-REMINDER-30`,
+      {
+        cardType: ExpiringCardTypeEnum.CGN,
+        daysBefore: 30,
+        expirationDate: activationAndExpirationDates.expirationDate.toISOString(),
+        fiscalCode: aFiscalCode
+      }
+    );
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "CardExpirationReminderOrchestrator",
+      `${anotherFiscalCode}-EYCA-REMINDER-30`,
+      expect.objectContaining({ cardType: ExpiringCardTypeEnum.EYCA })
+    );
+  });
+
+  it("should not remind a user twice of the same expiration", async () => {
+    getExpiredCardUsersMock.mockImplementation((_, tableName: string) =>
+      TE.of(
+        tableName === cgnExpirationTableName
+          ? [{ fiscalCode: aFiscalCode, ...activationAndExpirationDates }]
+          : []
+      )
+    );
+    mockGetStatus.mockImplementation(async (instanceId: string) => ({
+      ...mockStatusCompleted,
+      input: {
+        cardType: ExpiringCardTypeEnum.CGN,
+        daysBefore: 30,
+        expirationDate: instanceId.endsWith("-30")
+          ? activationAndExpirationDates.expirationDate.toISOString()
+          : "2020-01-01T00:00:00.000Z",
+        fiscalCode: aFiscalCode
+      }
+    }));
+    await sendCardExpirationRemindersHandler(context);
+    // the 7 days reminder refers to a previous expiration
+    expect(mockStartNew).toHaveBeenCalledTimes(1);
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "CardExpirationReminderOrchestrator",
+      `${aFiscalCode}-CGN-REMINDER-7`,
+      expect.anything()
+    );
+  });
+
+  it.each`
+    title          | maybeUserCgn
+    ${"revoked"}   | ${aUserCardWithStatus(RevokedStatusEnum.REVOKED)}
+    ${"suspended"} | ${aUserCardWithStatus(SuspendedStatusEnum.SUSPENDED)}
+    ${"not found"} | ${TE.of(none)}
+  `(
+    "should not remind a user whose expiring card is $title",
+    async ({ maybeUserCgn }) => {
+      getExpiredCardUsersMock.mockImplementation((_, tableName: string) =>
+        TE.of(
+          tableName === cgnExpirationTableName
+            ? [{ fiscalCode: aFiscalCode, ...activationAndExpirationDates }]
+            : []
+        )
+      );
+      findLastCgnVersionMock.mockImplementation(() => maybeUserCgn);
+      const results = await sendCardExpirationRemindersHandler(context);
+      expect(findLastCgnVersionMock).toHaveBeenCalledWith([aFiscalCode]);
+      expect(mockStartNew).not.toHaveBeenCalled();
+      expect(results).toEqual([{ _tag: "Right", right: [false, false] }]);
+    }
+  );
+
+  it("should check the EYCA card of a user reminded of its expiration", async () => {
+    getExpiredCardUsersMock.mockImplementation((_, tableName: string) =>
+      TE.of(
+        tableName === eycaExpirationTableName
+          ? [{ fiscalCode: aFiscalCode, ...activationAndExpirationDates }]
+          : []
+      )
+    );
+    findLastEycaCardVersionMock.mockImplementation(() =>
+      aUserCardWithStatus(RevokedStatusEnum.REVOKED)
+    );
+    await sendCardExpirationRemindersHandler(context);
+    expect(findLastEycaCardVersionMock).toHaveBeenCalledWith([aFiscalCode]);
+    expect(findLastCgnVersionMock).not.toHaveBeenCalled();
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should track the reminders whose card cannot be retrieved", async () => {
+    getExpiredCardUsersMock.mockImplementation((_, tableName: string) =>
+      TE.of(
+        tableName === cgnExpirationTableName
+          ? [{ fiscalCode: aFiscalCode, ...activationAndExpirationDates }]
+          : []
+      )
+    );
+    findLastCgnVersionMock.mockImplementation(() =>
+      TE.left({ kind: "COSMOS_ERROR_RESPONSE" })
+    );
+    await sendCardExpirationRemindersHandler(context);
+    expect(mockStartNew).not.toHaveBeenCalled();
+    expect(trackExceptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        properties: {
+          id: aFiscalCode,
+          name: "card.expiration.reminder.error"
+        }
+      })
+    );
+  });
+
+  it("should process the other tables if an expiration table cannot be queried", async () => {
+    getExpiredCardUsersMock.mockImplementation((_, tableName: string) =>
+      tableName === cgnExpirationTableName
+        ? TE.left(new Error("Cannot query table"))
+        : TE.of([{ fiscalCode: aFiscalCode, ...activationAndExpirationDates }])
+    );
+    await sendCardExpirationRemindersHandler(context);
+    expect(trackExceptionMock).toHaveBeenCalledTimes(2);
+    expect(trackExceptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        properties: {
+          id: expect.any(String),
+          name: "card.expiration.reminder.error"
+        }
+      })
+    );
+    expect(mockStartNew).toHaveBeenCalledTimes(2);
+  });
+
+  it("should track the reminders that cannot be started", async () => {
+    getExpiredCardUsersMock.mockImplementation(() =>
+      TE.of([{ fiscalCode: aFiscalCode, ...activationAndExpirationDates }])
+    );
+    mockGetStatus.mockImplementation(() =>
+      Promise.reject(new Error("Cannot retrieve status"))
+    );
+    const results = await sendCardExpirationRemindersHandler(context);
+    expect(mockStartNew).not.toHaveBeenCalled();
+    expect(trackExceptionMock).toHaveBeenCalledWith({
+      exception: expect.anything(),
+      properties: {
+        id: aFiscalCode,
+        name: "card.expiration.reminder.error"
+      },
+      tagOverrides: { samplingEnabled: "false" }
+    });
+    expect(results).toHaveLength(1);
+  });
+});
@@ -0,0 +1,200 @@
+/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { ExponentialRetryPolicyFilter, TableService } from "azure-storage";
+import * as df from "durable-functions";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
+import * as A from "fp-ts/lib/Array";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { OrchestratorInput } from "../CardExpirationReminderOrchestrator/handler";
+import { StatusEnum as ActivatedStatusEnum } from "../generated/definitions/CardActivated";
+import { UserCgnModel } from "../models/user_cgn";
+import { UserEycaCardModel } from "../models/user_eyca_card";
+import { initTelemetryClient, trackException } from "../utils/appinsights";
+import {
+  ExpiringCardTypeEnum,
+  getExpiredCardUsers
+} from "../utils/card_expiration";
+import { Clock } from "../utils/clock";
+import { ExpirationReminderDays } from "../utils/config";
+import { addRomeDays, formatRomeDate } from "../utils/dates";
+import { makeExpirationReminderOrchestratorId } from "../utils/orchestrators";
+
+initTelemetryClient();
+
+/**
+ * Starts the orchestrator sending a reminder, unless the user has already
+ * been reminded of the same expiration: a reminder is never sent twice,
+ * even when its orchestrator failed.
+ *
+ * @returns whether the reminder orchestrator has been started
+ */
+export const startExpirationReminderOrchestrator = (
+  client: DurableOrchestrationClient,
+  input: OrchestratorInput
+): TE.TaskEither<Error, boolean> => {
+  const orchestratorId = makeExpirationReminderOrchestratorId(
+    input.fiscalCode,
+    input.cardType,
+    input.daysBefore
+  );
+  return pipe(
+    TE.tryCatch(() => client.getStatus(orchestratorId), E.toError),
+    TE.map(status =>
+      pipe(
+        O.fromNullable(status),
+        O.chainEitherK(_ => OrchestratorInput.decode(_.input)),
+        O.exists(
+          previousInput =>
+            previousInput.expirationDate.getTime() ===
+            input.expirationDate.getTime()
+        )
+      )
+    ),
+    TE.chain(isAlreadyReminded =>
+      isAlreadyReminded
+        ? TE.of(false)
+        : pipe(
+            TE.tryCatch(
+              () =>
+                client.startNew(
+                  "CardExpirationReminderOrchestrator",
+                  orchestratorId,
+                  OrchestratorInput.encode(input)
+                ),
+              E.toError
+            ),
+            TE.map(() => true)
+          )
+    )
+  );
+};
+
+export const getSendCardExpirationRemindersHandler = (
+  userCgnModel: UserCgnModel,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  cgnExpirationTableName: NonEmptyString,
+  eycaExpirationTableName: NonEmptyString,
+  reminderDays: ReadonlyArray<ExpirationReminderDays>,
+  clock: Clock,
+  logPrefix: string = "SendCardExpirationRemindersHandler"
+) => async (
+  context: Context
+): Promise<ReadonlyArray<E.Either<Error, ReadonlyArray<boolean>>>> => {
+  // using custom Exponential backoff retry policy for expired card's query operation
+  const tableServiceWithRetries = tableService.withFilter(
+    new ExponentialRetryPolicyFilter(5)
+  );
+  const expirationTables = [
+    { cardType: ExpiringCardTypeEnum.CGN, tableName: cgnExpirationTableName },
+    { cardType: ExpiringCardTypeEnum.EYCA, tableName: eycaExpirationTableName }
+  ];
+
+  const now = clock();
+
+  // the expiration tuples of the revoked and suspended cards could still be
+  // stored, while only the activated cards are going to expire
+  const isCardActivated = (
+    cardType: ExpiringCardTypeEnum,
+    fiscalCode: FiscalCode
+  ): TE.TaskEither<Error, boolean> =>
+    pipe(
+      cardType === ExpiringCardTypeEnum.CGN
+        ? pipe(
+            userCgnModel.findLastVersionByModelId([fiscalCode]),
+            TE.map(O.map(userCgn => userCgn.card.status))
+          )
+        : pipe(
+            userEycaCardModel.findLastVersionByModelId([fiscalCode]),
+            TE.map(O.map(userEycaCard => userEycaCard.card.status))
+          ),
+      TE.bimap(
+        () => new Error(`Cannot retrieve the ${cardType} card`),
+        O.exists(status => status === ActivatedStatusEnum.ACTIVATED)
+      )
+    );
+
+  // eslint-disable-next-line functional/prefer-readonly-type
+  const reminders: OrchestratorInput[] = [];
+  for (const daysBefore of reminderDays) {
+    // the expiration tables are partitioned by the expiration date
+    const expirationDate = formatRomeDate(addRomeDays(now, daysBefore));
+    for (const { cardType, tableName } of expirationTables) {
+      const errorOrExpiringCardUsers = await getExpiredCardUsers(
+        tableServiceWithRetries,
+        tableName,
+        expirationDate
+      )();
+      if (E.isLeft(errorOrExpiringCardUsers)) {
+        context.log.error(
+          `${logPrefix}|Cannot read ${cardType} expiring on ${expirationDate}|ERROR=${errorOrExpiringCardUsers.left.message}`
+        );
+        trackException({
+          exception: errorOrExpiringCardUsers.left,
+          properties: {
+            id: `${expirationDate}.${cardType.toLowerCase()}.expiration.reminder`,
+            name: "card.expiration.reminder.error"
+          },
+          tagOverrides: { samplingEnabled: "false" }
+        });
+      } else {
+        // eslint-disable-next-line functional/immutable-data
+        reminders.push(
+          ...errorOrExpiringCardUsers.right.map(user => ({
+            cardType,
+            daysBefore,
+            expirationDate: user.expirationDate,
+            fiscalCode: user.fiscalCode
+          }))
+        );
+      }
+    }
+  }
+  context.log.info(
+    `${logPrefix}|Processing ${reminders.length} card expiration reminders`
+  );
+
+  const client = df.getClient(context);
+  const tasks = reminders.map(reminder =>
+    pipe(
+      isCardActivated(reminder.cardType, reminder.fiscalCode),
+      TE.chain(isActivated =>
+        isActivated
+          ? startExpirationReminderOrchestrator(client, reminder)
+          : TE.of(false)
+      ),
+      TE.mapLeft(err => {
+        context.log.error(
+          `${logPrefix}|Error while starting ${
+            reminder.cardType
+          } expiration reminder for fiscalCode=${reminder.fiscalCode.substr(
+            0,
+            6
+          )}|ERROR=${err.message}`
+        );
+        trackException({
+          exception: err,
+          properties: {
+            id: reminder.fiscalCode,
+            name: "card.expiration.reminder.error"
+          },
+          tagOverrides: { samplingEnabled: "false" }
+        });
+        return err;
+      })
+    )
+  );
+
+  // eslint-disable-next-line functional/prefer-readonly-type
+  const results = [];
+  const tasksChunks = A.chunksOf(100)(tasks);
+  for (const tasksChunk of tasksChunks) {
+    // eslint-disable-next-line functional/immutable-data
+    results.push(await A.sequence(TE.ApplicativePar)(tasksChunk)());
+  }
+  return results;
+};
@@ -16,7 +16,7 @@ const messageQueryFailureStatusCode = 300; //  any code
 
 const mockGetProfile = jest.fn(async () => profileOkStatusCode);
 const mockSendMessage = jest.fn(async () => messageOkStatusCode);
-const aFiscalCode = "AAABBB80A01C123D" as FiscalCode;
+const aFiscalCode = "AAABBB80A01C123J" as FiscalCode;
 
 const aMessageContent = pipe(
   MessageContent.decode({
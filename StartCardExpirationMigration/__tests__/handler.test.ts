@@ -0,0 +1,71 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  context,
+  mockGetStatus,
+  mockStartNew,
+  mockStatusCompleted,
+  mockStatusRunning
+} from "../../__mocks__/durable-functions";
+import * as orchUtils from "../../utils/orchestrators";
+import { StartCardExpirationMigrationHandler } from "../handler";
+
+const anOrchestratorId = "CARD-EXPIRATION-MIGRATION";
+
+const startCardExpirationMigrationHandler = StartCardExpirationMigrationHandler();
+
+describe("StartCardExpirationMigration", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetStatus.mockImplementation(async () => mockStatusCompleted);
+  });
+
+  it("should start the migration and redirect to its report", async () => {
+    const response = await startCardExpirationMigrationHandler(context);
+    expect(response).toEqual(
+      expect.objectContaining({
+        detail: "/api/v1/cgn/expirations/migration",
+        kind: "IResponseSuccessRedirectToResource",
+        resource: { id: anOrchestratorId }
+      })
+    );
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "MigrateCardExpirationsOrchestrator",
+      anOrchestratorId
+    );
+  });
+
+  it("should start the migration if it has never been started", async () => {
+    mockGetStatus.mockImplementation(async () => undefined);
+    const response = await startCardExpirationMigrationHandler(context);
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "MigrateCardExpirationsOrchestrator",
+      anOrchestratorId
+    );
+  });
+
+  it("should return Accepted if the migration is already running", async () => {
+    mockGetStatus.mockImplementation(async () => mockStatusRunning);
+    const response = await startCardExpirationMigrationHandler(context);
+    expect(response.kind).toBe("IResponseSuccessAccepted");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if the migration status cannot be retrieved", async () => {
+    jest
+      .spyOn(orchUtils, "getOrchestratorStatus")
+      .mockImplementationOnce(() => TE.left(new Error("Cannot get status")));
+    const response = await startCardExpirationMigrationHandler(context);
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if the migration cannot be started", async () => {
+    mockStartNew.mockImplementationOnce(() =>
+      Promise.reject(new Error("Cannot start"))
+    );
+    const response = await startCardExpirationMigrationHandler(context);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
@@ -0,0 +1,91 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseSuccessAccepted,
+  IResponseSuccessRedirectToResource,
+  ResponseErrorInternal,
+  ResponseSuccessAccepted,
+  ResponseSuccessRedirectToResource
+} from "@pagopa/ts-commons/lib/responses";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as df from "durable-functions";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { InstanceId } from "../generated/definitions/InstanceId";
+import {
+  CARD_EXPIRATION_MIGRATION_ORCHESTRATOR_ID,
+  isOrchestratorInProgress
+} from "../utils/orchestrators";
+
+type ReturnTypes =
+  | IResponseSuccessAccepted
+  | IResponseSuccessRedirectToResource<InstanceId, InstanceId>
+  | IResponseErrorInternal;
+
+type IStartCardExpirationMigrationHandler = (
+  context: Context
+) => Promise<ReturnTypes>;
+
+export const StartCardExpirationMigrationHandler = (
+  logPrefix: string = "StartCardExpirationMigrationHandler"
+): IStartCardExpirationMigrationHandler => async (
+  context
+): Promise<ReturnTypes> => {
+  const client = df.getClient(context);
+  const instanceId: InstanceId = {
+    id: CARD_EXPIRATION_MIGRATION_ORCHESTRATOR_ID as NonEmptyString
+  };
+  return pipe(
+    isOrchestratorInProgress(client, CARD_EXPIRATION_MIGRATION_ORCHESTRATOR_ID),
+    TE.chain(isRunning =>
+      isRunning
+        ? TE.of(false)
+        : pipe(
+            TE.tryCatch(
+              () =>
+                client.startNew(
+                  "MigrateCardExpirationsOrchestrator",
+                  CARD_EXPIRATION_MIGRATION_ORCHESTRATOR_ID
+                ),
+              E.toError
+            ),
+            TE.map(() => true)
+          )
+    ),
+    TE.bimap(
+      err => {
+        context.log.error(
+          `${logPrefix}|Cannot start MigrateCardExpirationsOrchestrator|ERROR=${err.message}`
+        );
+        return ResponseErrorInternal(
+          "Cannot start MigrateCardExpirationsOrchestrator"
+        );
+      },
+      isStarted =>
+        isStarted
+          ? ResponseSuccessRedirectToResource(
+              instanceId,
+              "/api/v1/cgn/expirations/migration",
+              instanceId
+            )
+          : ResponseSuccessAccepted("", undefined)
+    ),
+    TE.toUnion
+  )();
+};
+
+export const StartCardExpirationMigration = (): express.RequestHandler => {
+  const handler = StartCardExpirationMigrationHandler();
+
+  const middlewaresWrap = withRequestMiddlewares(ContextMiddleware());
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -0,0 +1,87 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  context,
+  mockGetStatus,
+  mockStartNew,
+  mockStatusCompleted,
+  mockStatusRunning
+} from "../../__mocks__/durable-functions";
+import * as orchUtils from "../../utils/orchestrators";
+import { StartCardExpirationReconciliationHandler } from "../handler";
+
+const anOrchestratorId = "CARD-EXPIRATION-RECONCILIATION";
+
+const startCardExpirationReconciliationHandler = StartCardExpirationReconciliationHandler();
+
+describe("StartCardExpirationReconciliation", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetStatus.mockImplementation(async () => mockStatusCompleted);
+  });
+
+  it("should start the reconciliation and redirect to its report", async () => {
+    const response = await startCardExpirationReconciliationHandler(context, {
+      dry_run: true
+    });
+    expect(response).toEqual(
+      expect.objectContaining({
+        detail: "/api/v1/cgn/expirations/reconciliation",
+        kind: "IResponseSuccessRedirectToResource",
+        resource: { id: anOrchestratorId }
+      })
+    );
+    expect(
+      mockStartNew
+    ).toHaveBeenCalledWith(
+      "ReconcileCardExpirationsOrchestrator",
+      anOrchestratorId,
+      { dryRun: true }
+    );
+  });
+
+  it("should start the reconciliation if it has never been started", async () => {
+    mockGetStatus.mockImplementation(async () => undefined);
+    const response = await startCardExpirationReconciliationHandler(context, {
+      dry_run: false
+    });
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(
+      mockStartNew
+    ).toHaveBeenCalledWith(
+      "ReconcileCardExpirationsOrchestrator",
+      anOrchestratorId,
+      { dryRun: false }
+    );
+  });
+
+  it("should return Accepted if the reconciliation is already running", async () => {
+    mockGetStatus.mockImplementation(async () => mockStatusRunning);
+    const response = await startCardExpirationReconciliationHandler(context, {
+      dry_run: false
+    });
+    expect(response.kind).toBe("IResponseSuccessAccepted");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if the reconciliation status cannot be retrieved", async () => {
+    jest
+      .spyOn(orchUtils, "getOrchestratorStatus")
+      .mockImplementationOnce(() => TE.left(new Error("Cannot get status")));
+    const response = await startCardExpirationReconciliationHandler(context, {
+      dry_run: false
+    });
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if the reconciliation cannot be started", async () => {
+    mockStartNew.mockImplementationOnce(() =>
+      Promise.reject(new Error("Cannot start"))
+    );
+    const response = await startCardExpirationReconciliationHandler(context, {
+      dry_run: false
+    });
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
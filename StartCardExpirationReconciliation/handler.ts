@@ -0,0 +1,105 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredBodyPayloadMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_body_payload";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseSuccessAccepted,
+  IResponseSuccessRedirectToResource,
+  ResponseErrorInternal,
+  ResponseSuccessAccepted,
+  ResponseSuccessRedirectToResource
+} from "@pagopa/ts-commons/lib/responses";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as df from "durable-functions";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { CardExpirationReconciliationRequest } from "../generated/definitions/CardExpirationReconciliationRequest";
+import { InstanceId } from "../generated/definitions/InstanceId";
+import { OrchestratorInput } from "../ReconcileCardExpirationsOrchestrator/handler";
+import {
+  CARD_EXPIRATION_RECONCILIATION_ORCHESTRATOR_ID,
+  isOrchestratorInProgress
+} from "../utils/orchestrators";
+
+type ReturnTypes =
+  | IResponseSuccessAccepted
+  | IResponseSuccessRedirectToResource<InstanceId, InstanceId>
+  | IResponseErrorInternal;
+
+type IStartCardExpirationReconciliationHandler = (
+  context: Context,
+  reconciliationRequest: CardExpirationReconciliationRequest
+) => Promise<ReturnTypes>;
+
+export const StartCardExpirationReconciliationHandler = (
+  logPrefix: string = "StartCardExpirationReconciliationHandler"
+): IStartCardExpirationReconciliationHandler => async (
+  context,
+  reconciliationRequest
+): Promise<ReturnTypes> => {
+  const client = df.getClient(context);
+  const instanceId: InstanceId = {
+    id: CARD_EXPIRATION_RECONCILIATION_ORCHESTRATOR_ID as NonEmptyString
+  };
+  return pipe(
+    isOrchestratorInProgress(
+      client,
+      CARD_EXPIRATION_RECONCILIATION_ORCHESTRATOR_ID
+    ),
+    TE.chain(isRunning =>
+      isRunning
+        ? TE.of(false)
+        : pipe(
+            TE.tryCatch(
+              () =>
+                client.startNew(
+                  "ReconcileCardExpirationsOrchestrator",
+                  CARD_EXPIRATION_RECONCILIATION_ORCHESTRATOR_ID,
+                  OrchestratorInput.encode({
+                    dryRun: reconciliationRequest.dry_run
+                  })
+                ),
+              E.toError
+            ),
+            TE.map(() => true)
+          )
+    ),
+    TE.bimap(
+      err => {
+        context.log.error(
+          `${logPrefix}|Cannot start ReconcileCardExpirationsOrchestrator|ERROR=${err.message}`
+        );
+        return ResponseErrorInternal(
+          "Cannot start ReconcileCardExpirationsOrchestrator"
+        );
+      },
+      isStarted =>
+        isStarted
+          ? ResponseSuccessRedirectToResource(
+              instanceId,
+              "/api/v1/cgn/expirations/reconciliation",
+              instanceId
+            )
+          : ResponseSuccessAccepted("", undefined)
+    ),
+    TE.toUnion
+  )();
+};
+
+export const StartCardExpirationReconciliation = (): express.RequestHandler => {
+  const handler = StartCardExpirationReconciliationHandler();
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredBodyPayloadMiddleware(CardExpirationReconciliationRequest)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
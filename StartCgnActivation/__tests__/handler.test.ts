@@ -9,7 +9,10 @@ import { addYears } from "date-fns";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 import { mockStartNew } from "../../__mocks__/durable-functions";
-import { cgnActivatedDates } from "../../__mocks__/mock";
+import {
+  aDefaultEligibilityPolicy,
+  cgnActivatedDates
+} from "../../__mocks__/mock";
 import {
   CardActivated,
   StatusEnum as ActivatedStatusEnum
@@ -22,14 +25,20 @@ import {
   CardRevoked,
   StatusEnum as RevokedStatusEnum
 } from "../../generated/definitions/CardRevoked";
+import {
+  CardWithdrawn,
+  StatusEnum as WithdrawnStatusEnum
+} from "../../generated/definitions/CardWithdrawn";
 import { UserCgn } from "../../models/user_cgn";
-import { DEFAULT_CGN_UPPER_BOUND_AGE } from "../../utils/config";
+import { fixedClock } from "../../utils/clock";
 import * as orchUtils from "../../utils/orchestrators";
 import { StartCgnActivationHandler } from "../handler";
 
 const now = new Date();
-const aFiscalCode = "RODFDS89S10H501T" as FiscalCode;
-const anOldFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS89S10H501R" as FiscalCode;
+const anOldFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+// the fiscal codes above are eligible for CGN, or too old, on this date
+const aClock = fixedClock(new Date(2024, 0, 1));
 
 const aUserCardRevoked: CardRevoked = {
   ...cgnActivatedDates,
@@ -44,6 +53,12 @@ const aUserCardActivated: CardActivated = {
   status: ActivatedStatusEnum.ACTIVATED
 };
 
+const aUserCardWithdrawn: CardWithdrawn = {
+  ...cgnActivatedDates,
+  status: WithdrawnStatusEnum.WITHDRAWN,
+  withdrawal_date: now
+};
+
 const aUserCardPending: CardPending = {
   status: StatusEnum.PENDING
 };
@@ -86,7 +101,8 @@ describe("StartCgnActivation", () => {
     );
     const startCgnActivationHandler = StartCgnActivationHandler(
       userCgnModelMock as any,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      aClock
     );
     const response = await startCgnActivationHandler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorInternal");
@@ -98,7 +114,8 @@ describe("StartCgnActivation", () => {
     );
     const startCgnActivationHandler = StartCgnActivationHandler(
       userCgnModelMock as any,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      aClock
     );
     const response = await startCgnActivationHandler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorInternal");
@@ -110,7 +127,8 @@ describe("StartCgnActivation", () => {
     );
     const startCgnActivationHandler = StartCgnActivationHandler(
       userCgnModelMock as any,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      aClock
     );
     const response = await startCgnActivationHandler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseSuccessAccepted");
@@ -121,7 +139,8 @@ describe("StartCgnActivation", () => {
     upsertModelMock.mockImplementationOnce(() => TE.of({}));
     const startCgnActivationHandler = StartCgnActivationHandler(
       userCgnModelMock as any,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      aClock
     );
     await startCgnActivationHandler({} as any, aFiscalCode);
     expect(mockStartNew).toBeCalledTimes(1);
@@ -133,12 +152,45 @@ describe("StartCgnActivation", () => {
     );
     const startCgnActivationHandler = StartCgnActivationHandler(
       userCgnModelMock as any,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      aClock
     );
     const response = await startCgnActivationHandler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorConflict");
   });
 
+  it("should start a new activation if the CGN has been WITHDRAWN", async () => {
+    const anEligibleFiscalCode = "RODFDS05S10H501V" as FiscalCode;
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anActivatedUserCgn,
+          card: aUserCardWithdrawn,
+          fiscalCode: anEligibleFiscalCode
+        })
+      )
+    );
+    checkUpdateCardIsRunningMock.mockImplementationOnce(() => TE.of(false));
+    upsertModelMock.mockImplementationOnce(() => TE.of({}));
+    const startCgnActivationHandler = StartCgnActivationHandler(
+      userCgnModelMock as any,
+      aDefaultEligibilityPolicy,
+      aClock
+    );
+    const response = await startCgnActivationHandler(
+      {} as any,
+      anEligibleFiscalCode
+    );
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(upsertModelMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        card: { status: StatusEnum.PENDING },
+        fiscalCode: anEligibleFiscalCode
+      })
+    );
+    expect(mockStartNew).toBeCalledTimes(1);
+  });
+
   it("should start an Internal Error if there are errors while inserting a new Cgn in pending status", async () => {
     checkUpdateCardIsRunningMock.mockImplementationOnce(() => TE.of(false));
     upsertModelMock.mockImplementationOnce(() =>
@@ -146,7 +198,8 @@ describe("StartCgnActivation", () => {
     );
     const startCgnActivationHandler = StartCgnActivationHandler(
       userCgnModelMock as any,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      aClock
     );
     const response = await startCgnActivationHandler({} as any, aFiscalCode);
     expect(response.kind).toBe("IResponseErrorInternal");
@@ -159,7 +212,8 @@ describe("StartCgnActivation", () => {
     );
     const startCgnActivationHandler = StartCgnActivationHandler(
       userCgnModelMock as any,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      aClock
     );
     const response = await startCgnActivationHandler(
       {} as any,
@@ -7,7 +7,6 @@ import {
   withRequestMiddlewares,
   wrapRequestHandler
 } from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
-import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import {
   IResponseErrorConflict,
   IResponseErrorForbiddenNotAuthorized,
@@ -34,6 +33,8 @@ import {
 import { StatusEnum as ExpiredStatusEnum } from "../generated/definitions/CardExpired";
 import { StatusEnum as PendingStatusEnum } from "../generated/definitions/CardPending";
 import { StatusEnum as RevokedStatusEnum } from "../generated/definitions/CardRevoked";
+import { StatusEnum as SuspendedStatusEnum } from "../generated/definitions/CardSuspended";
+import { StatusEnum as WithdrawnStatusEnum } from "../generated/definitions/CardWithdrawn";
 import { InstanceId } from "../generated/definitions/InstanceId";
 import { UserCgnModel } from "../models/user_cgn";
 import { OrchestratorInput } from "../UpdateCgnOrchestrator/handler";
@@ -42,6 +43,8 @@ import {
   extractCgnExpirationDate
 } from "../utils/cgn_checks";
 import { genRandomCardCode } from "../utils/cgnCode";
+import { Clock } from "../utils/clock";
+import { EligibilityPolicy } from "../utils/eligibility_policy";
 import {
   checkUpdateCardIsRunning,
   makeUpdateCgnOrchestratorId
@@ -78,20 +81,22 @@ const mapOrchestratorStatus = (
 
 /**
  * Check if a citizen is eligible for CGN activation
- * A citizen is eligible for a CGN while he's from 18 to 35 years old
+ * A citizen is eligible for a CGN while their age is within the bounds
+ * of the rule of the eligibility policy they are checked against
  * If eligible returns the calculated expiration date for the CGN
  *
  * @param fiscalCode: the citizen's fiscalCode
  */
 const getCgnExpirationDataTask = (
   fiscalCode: FiscalCode,
-  cgnUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): TE.TaskEither<
   IResponseErrorInternal | IResponseErrorForbiddenNotAuthorized,
   Date
 > =>
   pipe(
-    checkCgnRequirements(fiscalCode, cgnUpperBoundAge),
+    checkCgnRequirements(fiscalCode, eligibilityPolicy, clock),
     TE.mapLeft(() =>
       ResponseErrorInternal("Cannot perform CGN Eligibility Check")
     ),
@@ -103,7 +108,7 @@ const getCgnExpirationDataTask = (
     ),
     TE.chainW(() =>
       pipe(
-        extractCgnExpirationDate(fiscalCode, cgnUpperBoundAge),
+        extractCgnExpirationDate(fiscalCode, eligibilityPolicy, clock),
         TE.mapLeft(() =>
           ResponseErrorInternal("Cannot perform CGN Eligibility Check")
         )
@@ -121,7 +126,8 @@ const getCgnCodeTask = () =>
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function StartCgnActivationHandler(
   userCgnModel: UserCgnModel,
-  cgnUpperBoundAge: NonNegativeInteger,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock,
   logPrefix: string = "StartCgnActivationHandler"
 ): IStartCgnActivationHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -134,14 +140,15 @@ export function StartCgnActivationHandler(
 
     const cgnExpirationDateOrError = await getCgnExpirationDataTask(
       fiscalCode,
-      cgnUpperBoundAge
+      eligibilityPolicy,
+      clock
     )();
     if (E.isLeft(cgnExpirationDateOrError)) {
       return cgnExpirationDateOrError.left;
     }
 
     const card: CardActivated = {
-      activation_date: new Date(),
+      activation_date: clock(),
       expiration_date: cgnExpirationDateOrError.right,
       status: ActivatedStatusEnum.ACTIVATED
     };
@@ -149,6 +156,13 @@ export function StartCgnActivationHandler(
     return pipe(
       userCgnModel.findLastVersionByModelId([fiscalCode]),
       TE.mapLeft(() => ResponseErrorInternal("Cannot query CGN data")),
+      // a withdrawn CGN has been given up by the citizen,
+      // who can start a new activation process as if it never existed
+      TE.map(
+        O.filter(
+          userCgn => userCgn.card.status !== WithdrawnStatusEnum.WITHDRAWN
+        )
+      ),
       TE.chain(
         O.fold(
           () => TE.of(fiscalCode),
@@ -157,7 +171,8 @@ export function StartCgnActivationHandler(
             [
               ActivatedStatusEnum.ACTIVATED.toString(),
               ExpiredStatusEnum.EXPIRED.toString(),
-              RevokedStatusEnum.REVOKED.toString()
+              RevokedStatusEnum.REVOKED.toString(),
+              SuspendedStatusEnum.SUSPENDED.toString()
             ].includes(userCgn.card.status)
               ? TE.left<
                   | IResponseErrorConflict
@@ -272,9 +287,14 @@ export function StartCgnActivationHandler(
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function StartCgnActivation(
   userCgnModel: UserCgnModel,
-  cgnUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): express.RequestHandler {
-  const handler = StartCgnActivationHandler(userCgnModel, cgnUpperBoundAge);
+  const handler = StartCgnActivationHandler(
+    userCgnModel,
+    eligibilityPolicy,
+    clock
+  );
 
   const middlewaresWrap = withRequestMiddlewares(
     ContextMiddleware(),
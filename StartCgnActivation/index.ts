@@ -8,8 +8,10 @@ import { AzureContextTransport } from "@pagopa/io-functions-commons/dist/src/uti
 import { setAppContext } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
 
 import { USER_CGN_COLLECTION_NAME, UserCgnModel } from "../models/user_cgn";
+import { getClock } from "../utils/clock";
 import { getConfigOrThrow } from "../utils/config";
 import { cosmosdbClient } from "../utils/cosmosdb";
+import { getEligibilityPolicy } from "../utils/eligibility_policy";
 import { StartCgnActivation } from "./handler";
 
 //
@@ -18,6 +20,10 @@ import { StartCgnActivation } from "./handler";
 
 const config = getConfigOrThrow();
 
+const clock = getClock(config);
+
+const eligibilityPolicy = getEligibilityPolicy(config);
+
 const userCgnsContainer = cosmosdbClient
   .database(config.COSMOSDB_CGN_DATABASE_NAME)
   .container(USER_CGN_COLLECTION_NAME);
@@ -38,7 +44,7 @@ secureExpressApp(app);
 // Add express route
 app.post(
   "/api/v1/cgn/:fiscalcode/activation",
-  StartCgnActivation(userCgnModel, config.CGN_UPPER_BOUND_AGE)
+  StartCgnActivation(userCgnModel, eligibilityPolicy, clock)
 );
 
 const azureFunctionHandler = createAzureFunctionHandler(app);
@@ -0,0 +1,70 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  context,
+  mockGetStatus,
+  mockStartNew,
+  mockStatusCompleted,
+  mockStatusRunning
+} from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mock";
+import * as orchUtils from "../../utils/orchestrators";
+import { StartCgnDataErasureHandler } from "../handler";
+
+const anOrchestratorId = `${aFiscalCode}-ERASURE`;
+
+const startCgnDataErasureHandler = StartCgnDataErasureHandler();
+
+describe("StartCgnDataErasure", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetStatus.mockImplementation(async () => mockStatusCompleted);
+  });
+
+  it("should start the erasure and redirect to its receipt", async () => {
+    const response = await startCgnDataErasureHandler(context, aFiscalCode);
+    expect(response).toEqual(
+      expect.objectContaining({
+        detail: `/api/v1/cgn/${aFiscalCode}/erasure`,
+        kind: "IResponseSuccessRedirectToResource",
+        resource: { id: anOrchestratorId }
+      })
+    );
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "CgnDataErasureOrchestrator",
+      anOrchestratorId,
+      { fiscalCode: aFiscalCode }
+    );
+  });
+
+  it("should start the erasure if it has never been started", async () => {
+    mockGetStatus.mockImplementation(async () => undefined);
+    const response = await startCgnDataErasureHandler(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(mockStartNew).toHaveBeenCalled();
+  });
+
+  it("should return Accepted if the erasure is already running", async () => {
+    mockGetStatus.mockImplementation(async () => mockStatusRunning);
+    const response = await startCgnDataErasureHandler(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseSuccessAccepted");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if the erasure status cannot be retrieved", async () => {
+    jest
+      .spyOn(orchUtils, "getOrchestratorStatus")
+      .mockImplementationOnce(() => TE.left(new Error("Cannot get status")));
+    const response = await startCgnDataErasureHandler(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if the erasure cannot be started", async () => {
+    mockStartNew.mockImplementationOnce(() =>
+      Promise.reject(new Error("Cannot start"))
+    );
+    const response = await startCgnDataErasureHandler(context, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
@@ -0,0 +1,114 @@
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseSuccessAccepted,
+  IResponseSuccessRedirectToResource,
+  ResponseErrorInternal,
+  ResponseSuccessAccepted,
+  ResponseSuccessRedirectToResource
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as df from "durable-functions";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { OrchestratorInput } from "../CgnDataErasureOrchestrator/handler";
+import { InstanceId } from "../generated/definitions/InstanceId";
+import {
+  isOrchestratorInProgress,
+  makeCgnDataErasureOrchestratorId
+} from "../utils/orchestrators";
+
+type ReturnTypes =
+  | IResponseSuccessAccepted
+  | IResponseSuccessRedirectToResource<InstanceId, InstanceId>
+  | IResponseErrorInternal;
+
+type IStartCgnDataErasureHandler = (
+  context: Context,
+  fiscalCode: FiscalCode
+) => Promise<ReturnTypes>;
+
+/**
+ * Starts the erasure of the user's data, unless it is already running.
+ * A completed erasure is started again, so that the data stored
+ * since then are erased too.
+ *
+ * @returns whether the erasure has been started
+ */
+export const startCgnDataErasureOrchestrator = (
+  client: DurableOrchestrationClient,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, boolean> => {
+  const orchestratorId = makeCgnDataErasureOrchestratorId(fiscalCode);
+  return pipe(
+    isOrchestratorInProgress(client, orchestratorId),
+    TE.chain(isRunning =>
+      isRunning
+        ? TE.of(false)
+        : pipe(
+            TE.tryCatch(
+              () =>
+                client.startNew(
+                  "CgnDataErasureOrchestrator",
+                  orchestratorId,
+                  OrchestratorInput.encode({ fiscalCode })
+                ),
+              E.toError
+            ),
+            TE.map(() => true)
+          )
+    )
+  );
+};
+
+export const StartCgnDataErasureHandler = (
+  logPrefix: string = "StartCgnDataErasureHandler"
+): IStartCgnDataErasureHandler => async (
+  context,
+  fiscalCode
+): Promise<ReturnTypes> => {
+  const instanceId: InstanceId = {
+    id: makeCgnDataErasureOrchestratorId(fiscalCode) as NonEmptyString
+  };
+  return pipe(
+    startCgnDataErasureOrchestrator(df.getClient(context), fiscalCode),
+    TE.bimap(
+      err => {
+        context.log.error(
+          `${logPrefix}|Cannot start CgnDataErasureOrchestrator|ERROR=${err.message}`
+        );
+        return ResponseErrorInternal("Cannot start CgnDataErasureOrchestrator");
+      },
+      isStarted =>
+        isStarted
+          ? ResponseSuccessRedirectToResource(
+              instanceId,
+              `/api/v1/cgn/${fiscalCode}/erasure`,
+              instanceId
+            )
+          : ResponseSuccessAccepted("", undefined)
+    ),
+    TE.toUnion
+  )();
+};
+
+export const StartCgnDataErasure = (): express.RequestHandler => {
+  const handler = StartCgnDataErasureHandler();
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
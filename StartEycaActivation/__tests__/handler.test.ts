@@ -5,24 +5,26 @@ import * as E from "fp-ts/lib/Either";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 import { mockGetStatus, mockStartNew } from "../../__mocks__/durable-functions";
+import { aDefaultEligibilityPolicy } from "../../__mocks__/mock";
 import {
   CardActivated,
   StatusEnum as ActivatedStatusEnum
 } from "../../generated/definitions/CardActivated";
 import { StatusEnum as PendingStatusEnum } from "../../generated/definitions/CardPending";
+import { StatusEnum as WithdrawnStatusEnum } from "../../generated/definitions/CardWithdrawn";
 import { EycaCardActivated } from "../../generated/definitions/EycaCardActivated";
 import { UserCgn } from "../../models/user_cgn";
 import { UserEycaCard } from "../../models/user_eyca_card";
 import * as checks from "../../utils/cgn_checks";
+import { systemClock } from "../../utils/clock";
 import * as orchUtils from "../../utils/orchestrators";
 
 import { ResponseSuccessAccepted } from "@pagopa/ts-commons/lib/responses";
 import { CcdbNumber } from "../../generated/definitions/CcdbNumber";
 import * as cgn_checks from "../../utils/cgn_checks";
-import { DEFAULT_EYCA_UPPER_BOUND_AGE } from "../../utils/config";
 import { ReturnTypes, StartEycaActivationHandler } from "../handler";
 
-const aFiscalCode = "RODFDS89S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS89S10H501R" as FiscalCode;
 const anEycaCardNumber = "A123-A123-A123-A123" as CcdbNumber;
 
 const aUserCardActivated: CardActivated = {
@@ -82,7 +84,8 @@ const startHandler = (): Promise<ReturnTypes> => {
   const startEycaActivationHandler = StartEycaActivationHandler(
     userEycaCardModelMock as any,
     userCgnModelMock as any,
-    DEFAULT_EYCA_UPPER_BOUND_AGE
+    aDefaultEligibilityPolicy,
+    systemClock
   );
   return startEycaActivationHandler({} as any, aFiscalCode);
 };
@@ -163,6 +166,25 @@ describe("StartEycaActivation", () => {
     expect(response.kind).toBe("IResponseErrorConflict");
   });
 
+  it("should start a new orchestrator if the EYCA Card has been withdrawn", async () => {
+    findLastVersionEycaByModelIdMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...aUserEycaCard,
+          card: {
+            ...aUserEycaCardActivated,
+            status: WithdrawnStatusEnum.WITHDRAWN,
+            withdrawal_date: new Date()
+          }
+        })
+      )
+    );
+    const response = await startHandler();
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(mockGetStatus).not.toHaveBeenCalled();
+    expect(mockStartNew).toBeCalledTimes(1);
+  });
+
   it("should return an Internal Error if it is not possible to get EYCA Card activation status info", async () => {
     findLastVersionEycaByModelIdMock.mockImplementationOnce(() =>
       TE.of(
@@ -207,7 +229,8 @@ describe("StartEycaActivation", () => {
     const startEycaActivationHandler = StartEycaActivationHandler(
       userEycaCardModelMock as any,
       userCgnModelMock as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     const response = await startEycaActivationHandler(
       // eslint-disable-next-line no-console
@@ -7,7 +7,6 @@ import {
   withRequestMiddlewares,
   wrapRequestHandler
 } from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
-import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import {
   IResponseErrorConflict,
   IResponseErrorForbiddenNotAuthorized,
@@ -32,11 +31,14 @@ import {
   CardPending,
   StatusEnum as PendingStatusEnum
 } from "../generated/definitions/CardPending";
+import { StatusEnum as WithdrawnStatusEnum } from "../generated/definitions/CardWithdrawn";
 import { InstanceId } from "../generated/definitions/InstanceId";
 import { UserCgnModel } from "../models/user_cgn";
 import { UserEycaCardModel } from "../models/user_eyca_card";
 import { OrchestratorInput } from "../StartEycaActivationOrchestrator";
 import { extractEycaExpirationDate, isEycaEligible } from "../utils/cgn_checks";
+import { Clock } from "../utils/clock";
+import { EligibilityPolicy } from "../utils/eligibility_policy";
 import { makeEycaOrchestratorId } from "../utils/orchestrators";
 import { checkUpdateCardIsRunning } from "../utils/orchestrators";
 
@@ -71,7 +73,8 @@ const mapOrchestratorStatus = (
 
 /**
  * Check if a citizen is eligible for EYCA activation
- * A citizen is eligible for EYCA while he's from 18 to 30 years old
+ * A citizen is eligible for EYCA while their age is within the bounds
+ * of the rule of the eligibility policy they are checked against
  * and it has already activated a CGN
  *
  * @param fiscalCode: the citizen's fiscalCode
@@ -79,13 +82,14 @@ const mapOrchestratorStatus = (
 const getEycaEligibleTask = (
   fiscalCode: FiscalCode,
   userCgnModel: UserCgnModel,
-  eycaUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): TE.TaskEither<
   IResponseErrorInternal | IResponseErrorForbiddenNotAuthorized,
   true
 > =>
   pipe(
-    isEycaEligible(fiscalCode, eycaUpperBoundAge),
+    isEycaEligible(fiscalCode, eligibilityPolicy, clock),
     TE.fromEither,
     TE.mapLeft(() =>
       ResponseErrorInternal("Cannot perform EYCA Eligibility Check")
@@ -120,7 +124,8 @@ const getEycaEligibleTask = (
 export function StartEycaActivationHandler(
   userEycaCardModel: UserEycaCardModel,
   userCgnModel: UserCgnModel,
-  eycaUpperBoundAge: NonNegativeInteger,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock,
   logPrefix: string = "StartEycaActivationHandler"
 ): IStartCgnActivationHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -134,7 +139,8 @@ export function StartEycaActivationHandler(
     const isEycaEligibleOrError = await getEycaEligibleTask(
       fiscalCode,
       userCgnModel,
-      eycaUpperBoundAge
+      eligibilityPolicy,
+      clock
     )();
     if (E.isLeft(isEycaEligibleOrError)) {
       return isEycaEligibleOrError.left;
@@ -146,6 +152,14 @@ export function StartEycaActivationHandler(
     return pipe(
       userEycaCardModel.findLastVersionByModelId([fiscalCode]),
       TE.mapLeft(() => ResponseErrorInternal("Cannot query EYCA data")),
+      // a withdrawn EYCA card has been given up along with its CGN,
+      // so a new activation can start as if it never existed
+      TE.map(
+        O.filter(
+          userEycaCard =>
+            userEycaCard.card.status !== WithdrawnStatusEnum.WITHDRAWN
+        )
+      ),
       TE.chain(
         O.fold(
           () => TE.of(void 0),
@@ -218,7 +232,11 @@ export function StartEycaActivationHandler(
               ),
               TE.chain(() =>
                 pipe(
-                  extractEycaExpirationDate(fiscalCode, eycaUpperBoundAge),
+                  extractEycaExpirationDate(
+                    fiscalCode,
+                    eligibilityPolicy,
+                    clock
+                  ),
                   TE.fromEither,
                   TE.mapLeft(() =>
                     ResponseErrorInternal(
@@ -234,7 +252,7 @@ export function StartEycaActivationHandler(
                             "StartEycaActivationOrchestrator",
                             orchestratorId,
                             OrchestratorInput.encode({
-                              activationDate: new Date(),
+                              activationDate: clock(),
                               expirationDate,
                               fiscalCode
                             })
@@ -281,12 +299,14 @@ export function StartEycaActivationHandler(
 export function StartEycaActivation(
   userEycaCardModel: UserEycaCardModel,
   userCgnModel: UserCgnModel,
-  eycaUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): express.RequestHandler {
   const handler = StartEycaActivationHandler(
     userEycaCardModel,
     userCgnModel,
-    eycaUpperBoundAge
+    eligibilityPolicy,
+    clock
   );
 
   const middlewaresWrap = withRequestMiddlewares(
@@ -12,7 +12,7 @@ import {
 import { toError } from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const tableServiceMock = jest.fn();
 const expiredCgnTableName = "aTable" as NonEmptyString;
 
@@ -12,7 +12,7 @@ import {
 import { pipe } from "fp-ts/lib/function";
 import { toError } from "fp-ts/lib/Either";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const tableServiceMock = jest.fn();
 const expiredEycaTableName = "aTable" as NonEmptyString;
 
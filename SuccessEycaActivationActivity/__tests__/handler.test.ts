@@ -6,14 +6,23 @@ import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 import { context } from "../../__mocks__/durable-functions";
 import { now, testFail } from "../../__mocks__/mock";
-import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
+import {
+  CardActivated,
+  StatusEnum as ActivatedStatusEnum
+} from "../../generated/definitions/CardActivated";
 import {
   CardPending,
   StatusEnum as PendingStatusEnum
 } from "../../generated/definitions/CardPending";
+import {
+  CardWithdrawn,
+  StatusEnum as WithdrawnStatusEnum
+} from "../../generated/definitions/CardWithdrawn";
 import { EycaCardActivated } from "../../generated/definitions/EycaCardActivated";
 import { CcdbNumber } from "../../generated/eyca-api/CcdbNumber";
+import { UserCgn } from "../../models/user_cgn";
 import { UserEycaCard } from "../../models/user_eyca_card";
+import * as tableUtils from "../../utils/table_storage";
 import * as eyca from "../eyca";
 import {
   ActivityInput,
@@ -22,7 +31,7 @@ import {
 import { toError } from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
 
-const aFiscalCode = "RODFDS92S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS92S10H501M" as FiscalCode;
 const aUserEycaCardNumber = "X321-Y321-Z321-W321" as CcdbNumber;
 const expirationDate = date_fns.addYears(now, 5);
 
@@ -60,6 +69,40 @@ const userEycaCardModelMock = {
   update: updateMock
 };
 
+const anActivatedCgn: CardActivated = {
+  activation_date: now,
+  expiration_date: expirationDate,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const aWithdrawnCgn: CardWithdrawn = {
+  ...anActivatedCgn,
+  status: WithdrawnStatusEnum.WITHDRAWN,
+  withdrawal_date: now
+};
+
+const aUserCgn: UserCgn = {
+  card: anActivatedCgn,
+  fiscalCode: aFiscalCode,
+  id: "A_USER_CGN_ID" as NonEmptyString
+};
+
+const findLastCgnVersionByModelIdMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(O.some(aUserCgn)));
+
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastCgnVersionByModelIdMock
+};
+
+const anEycaExpirationTableName = "aTable" as NonEmptyString;
+const deleteEycaExpirationTaskMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(void 0));
+jest
+  .spyOn(tableUtils, "deleteCardExpiration")
+  .mockImplementation(() => deleteEycaExpirationTaskMock);
+
 const aCcdbNumber = "X123-Y123-Z123-W123" as CcdbNumber;
 const preIssueCardMock = jest.fn().mockImplementation(() => TE.of(aCcdbNumber));
 const updateCardMock = jest
@@ -87,10 +130,14 @@ describe("SuccessEycaActivationActivity", () => {
       {} as any,
       anEycaApiUsername,
       anEycaApiPassword,
-      userEycaCardModelMock as any
+      userEycaCardModelMock as any,
+      userCgnModelMock as any,
+      {} as any,
+      anEycaExpirationTableName
     );
     const response = await handler(context, anActivityInput);
     expect(response.kind).toBe("SUCCESS");
+    expect(deleteEycaExpirationTaskMock).not.toHaveBeenCalled();
   });
 
   it("should throw if an error occurs during UserEycaCard retrieve", async () => {
@@ -102,7 +149,10 @@ describe("SuccessEycaActivationActivity", () => {
       {} as any,
       anEycaApiUsername,
       anEycaApiPassword,
-      userEycaCardModelMock as any
+      userEycaCardModelMock as any,
+      userCgnModelMock as any,
+      {} as any,
+      anEycaExpirationTableName
     );
     await pipe(
       TE.tryCatch(() => handler(context, anActivityInput), toError),
@@ -122,7 +172,10 @@ describe("SuccessEycaActivationActivity", () => {
       {} as any,
       anEycaApiUsername,
       anEycaApiPassword,
-      userEycaCardModelMock as any
+      userEycaCardModelMock as any,
+      userCgnModelMock as any,
+      {} as any,
+      anEycaExpirationTableName
     );
     const response = await handler(context, anActivityInput);
     expect(response.kind).toBe("FAILURE");
@@ -142,7 +195,10 @@ describe("SuccessEycaActivationActivity", () => {
       {} as any,
       anEycaApiUsername,
       anEycaApiPassword,
-      userEycaCardModelMock as any
+      userEycaCardModelMock as any,
+      userCgnModelMock as any,
+      {} as any,
+      anEycaExpirationTableName
     );
     await pipe(
       TE.tryCatch(() => handler(context, anActivityInput), toError),
@@ -162,7 +218,10 @@ describe("SuccessEycaActivationActivity", () => {
       {} as any,
       anEycaApiUsername,
       anEycaApiPassword,
-      userEycaCardModelMock as any
+      userEycaCardModelMock as any,
+      userCgnModelMock as any,
+      {} as any,
+      anEycaExpirationTableName
     );
     await pipe(
       TE.tryCatch(() => handler(context, anActivityInput), toError),
@@ -180,7 +239,10 @@ describe("SuccessEycaActivationActivity", () => {
       {} as any,
       anEycaApiUsername,
       anEycaApiPassword,
-      userEycaCardModelMock as any
+      userEycaCardModelMock as any,
+      userCgnModelMock as any,
+      {} as any,
+      anEycaExpirationTableName
     );
     await pipe(
       TE.tryCatch(() => handler(context, anActivityInput), toError),
@@ -190,4 +252,86 @@ describe("SuccessEycaActivationActivity", () => {
       }, testFail)
     )();
   });
+
+  it("should throw if an error occurs during UserCgn retrieve", async () => {
+    findLastCgnVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.left(toCosmosErrorResponse(new Error("query error")))
+    );
+    const handler = getSuccessEycaActivationActivityHandler(
+      {} as any,
+      {} as any,
+      anEycaApiUsername,
+      anEycaApiPassword,
+      userEycaCardModelMock as any,
+      userCgnModelMock as any,
+      {} as any,
+      anEycaExpirationTableName
+    );
+    await pipe(
+      TE.tryCatch(() => handler(context, anActivityInput), toError),
+      TE.bimap(e => {
+        expect(e.message).toEqual(
+          "TRANSIENT FAILURE|ERROR=Cannot retrieve CGN for the provided fiscalCode"
+        );
+        expect(preIssueCardMock).not.toHaveBeenCalled();
+      }, testFail)
+    )();
+  });
+
+  it.each`
+    title                       | maybeUserCgn
+    ${"has been withdrawn"}     | ${O.some({ ...aUserCgn, card: aWithdrawnCgn })}
+    ${"does not exist anymore"} | ${O.none}
+  `(
+    "should give up the activation if the CGN $title",
+    async ({ maybeUserCgn }) => {
+      findLastCgnVersionByModelIdMock.mockImplementationOnce(() =>
+        TE.of(maybeUserCgn)
+      );
+      const handler = getSuccessEycaActivationActivityHandler(
+        {} as any,
+        {} as any,
+        anEycaApiUsername,
+        anEycaApiPassword,
+        userEycaCardModelMock as any,
+        userCgnModelMock as any,
+        {} as any,
+        anEycaExpirationTableName
+      );
+      const response = await handler(context, anActivityInput);
+      expect(response.kind).toBe("SUCCESS");
+      expect(deleteEycaExpirationTaskMock).toHaveBeenCalledWith(
+        aFiscalCode,
+        expirationDate
+      );
+      expect(preIssueCardMock).not.toHaveBeenCalled();
+      expect(updateCardMock).not.toHaveBeenCalled();
+      expect(updateMock).not.toHaveBeenCalled();
+    }
+  );
+
+  it("should throw if the EYCA expiration of a given up activation cannot be deleted", async () => {
+    findLastCgnVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aUserCgn, card: aWithdrawnCgn }))
+    );
+    deleteEycaExpirationTaskMock.mockImplementationOnce(() =>
+      TE.left(new Error("Entity Error"))
+    );
+    const handler = getSuccessEycaActivationActivityHandler(
+      {} as any,
+      {} as any,
+      anEycaApiUsername,
+      anEycaApiPassword,
+      userEycaCardModelMock as any,
+      userCgnModelMock as any,
+      {} as any,
+      anEycaExpirationTableName
+    );
+    await pipe(
+      TE.tryCatch(() => handler(context, anActivityInput), toError),
+      TE.bimap(e => {
+        expect(e.message).toContain("TRANSIENT FAILURE");
+      }, testFail)
+    )();
+  });
 });
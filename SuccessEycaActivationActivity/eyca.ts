@@ -1,7 +1,6 @@
 /* eslint-disable max-params */
 import { IResponseType } from "@pagopa/ts-commons/lib/requests";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
-import { format } from "date-fns";
 import * as E from "fp-ts/lib/Either";
 import { flow, pipe } from "fp-ts/lib/function";
 import * as O from "fp-ts/lib/Option";
@@ -12,6 +11,7 @@ import { Timestamp } from "../generated/definitions/Timestamp";
 import { CcdbNumber } from "../generated/eyca-api/CcdbNumber";
 import { ErrorResponse } from "../generated/eyca-api/ErrorResponse";
 import { errorsToError } from "../utils/conversions";
+import { formatRomeDate } from "../utils/dates";
 import {
   Failure,
   toPermanentFailure,
@@ -124,7 +124,7 @@ export const updateCard = (
         TE.tryCatch(
           () =>
             eycaClient.updateCard({
-              card_date_expiration: format(cardDateExpiration, "yyyy-MM-dd"),
+              card_date_expiration: formatRomeDate(cardDateExpiration),
               ccdb_number: ccdbNumber,
               session_id: sessionId,
               type: "json"
@@ -3,20 +3,28 @@ import { Context } from "@azure/functions";
 import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import * as E from "fp-ts/lib/Either";
 import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
+import { TableService } from "azure-storage";
 import * as t from "io-ts";
 import { RedisClient } from "redis";
 import { EycaAPIClient } from "../clients/eyca";
-import { StatusEnum } from "../generated/definitions/CardActivated";
+import {
+  CardActivated,
+  StatusEnum
+} from "../generated/definitions/CardActivated";
 import { Timestamp } from "../generated/definitions/Timestamp";
+import { UserCgnModel } from "../models/user_cgn";
 import { UserEycaCardModel } from "../models/user_eyca_card";
 import { ActivityResult, success } from "../utils/activity";
 import { errorsToError } from "../utils/conversions";
 import {
+  Failure,
   toPermanentFailure,
   toTransientFailure,
   trackFailure
 } from "../utils/errors";
+import { deleteCardExpiration } from "../utils/table_storage";
 import { preIssueCard, updateCard } from "./eyca";
 
 export const ActivityInput = t.interface({
@@ -27,15 +35,104 @@ export const ActivityInput = t.interface({
 
 export type ActivityInput = t.TypeOf<typeof ActivityInput>;
 
+/**
+ * Issues the EYCA card of a user on CCDB and activates it.
+ * An activation still in flight when the CGN stops being activated,
+ * e.g. because it has been withdrawn, is given up along with the
+ * EYCA expiration tuple it has stored, so that the card is never issued.
+ */
 export const getSuccessEycaActivationActivityHandler = (
   redisClient: RedisClient,
   eycaClient: ReturnType<EycaAPIClient>,
   eycaApiUsername: NonEmptyString,
   eycaApiPassword: NonEmptyString,
   userEycaCardModel: UserEycaCardModel,
+  userCgnModel: UserCgnModel,
+  tableService: TableService,
+  eycaExpirationTableName: NonEmptyString,
   logPrefix: string = "SuccessEycaActivationActivityHandler"
 ) => (context: Context, input: unknown): Promise<ActivityResult> => {
   const fail = trackFailure(context, logPrefix);
+  const deleteEycaExpirationTask = deleteCardExpiration(
+    tableService,
+    eycaExpirationTableName
+  );
+  const giveUpActivation = ({
+    fiscalCode,
+    expirationDate
+  }: ActivityInput): TE.TaskEither<Failure, ActivityResult> =>
+    pipe(
+      deleteEycaExpirationTask(fiscalCode, expirationDate),
+      TE.mapLeft(err =>
+        toTransientFailure(err, "Cannot delete EYCA expiration tuple")
+      ),
+      TE.map(success)
+    );
+  const activateEycaCard = ({
+    fiscalCode,
+    activationDate,
+    expirationDate
+  }: ActivityInput): TE.TaskEither<Failure, ActivityResult> =>
+    pipe(
+      userEycaCardModel.findLastVersionByModelId([fiscalCode]),
+      TE.mapLeft(() =>
+        toTransientFailure(
+          new Error("Cannot retrieve EYCA card for the provided fiscalCode")
+        )
+      ),
+      TE.chain(maybeEycaCard =>
+        pipe(
+          maybeEycaCard,
+          TE.fromOption(() =>
+            toPermanentFailure(
+              new Error("No EYCA card found for the provided fiscalCode")
+            )
+          )
+        )
+      ),
+      TE.chain(eycaCard =>
+        pipe(
+          preIssueCard(
+            redisClient,
+            eycaClient,
+            eycaApiUsername,
+            eycaApiPassword
+          ),
+          TE.map(cardNumber => ({
+            ...eycaCard,
+            card: {
+              activation_date: activationDate,
+              card_number: cardNumber,
+              expiration_date: expirationDate,
+              status: StatusEnum.ACTIVATED
+            }
+          }))
+        )
+      ),
+      TE.chain(_ =>
+        pipe(
+          updateCard(
+            redisClient,
+            eycaClient,
+            eycaApiUsername,
+            eycaApiPassword,
+            _.card.card_number,
+            _.card.expiration_date
+          ),
+          TE.chain(() =>
+            pipe(
+              userEycaCardModel.update(_),
+              TE.mapLeft(
+                flow(E.toError, e =>
+                  toTransientFailure(e, "Cannot update EYCA card")
+                )
+              )
+            )
+          )
+        )
+      ),
+      TE.map(success)
+    );
   return pipe(
     input,
     ActivityInput.decode,
@@ -45,68 +142,25 @@ export const getSuccessEycaActivationActivityHandler = (
         toPermanentFailure(e, "Cannot decode Activity Input")
       )
     ),
-    TE.chain(({ fiscalCode, activationDate, expirationDate }) =>
+    TE.chain(activityInput =>
       pipe(
-        userEycaCardModel.findLastVersionByModelId([fiscalCode]),
+        userCgnModel.findLastVersionByModelId([activityInput.fiscalCode]),
         TE.mapLeft(() =>
           toTransientFailure(
-            new Error("Cannot retrieve EYCA card for the provided fiscalCode")
-          )
-        ),
-        TE.chain(maybeEycaCard =>
-          pipe(
-            maybeEycaCard,
-            TE.fromOption(() =>
-              toPermanentFailure(
-                new Error("No EYCA card found for the provided fiscalCode")
-              )
-            )
-          )
-        ),
-        TE.chain(eycaCard =>
-          pipe(
-            preIssueCard(
-              redisClient,
-              eycaClient,
-              eycaApiUsername,
-              eycaApiPassword
-            ),
-            TE.map(cardNumber => ({
-              ...eycaCard,
-              card: {
-                activation_date: activationDate,
-                card_number: cardNumber,
-                expiration_date: expirationDate,
-                status: StatusEnum.ACTIVATED
-              }
-            }))
+            new Error("Cannot retrieve CGN for the provided fiscalCode")
           )
-        )
-      )
-    ),
-    TE.chain(_ =>
-      pipe(
-        updateCard(
-          redisClient,
-          eycaClient,
-          eycaApiUsername,
-          eycaApiPassword,
-          _.card.card_number,
-          _.card.expiration_date
         ),
-        TE.chain(() =>
+        TE.chain(maybeUserCgn =>
           pipe(
-            userEycaCardModel.update(_),
-            TE.mapLeft(
-              flow(E.toError, e =>
-                toTransientFailure(e, "Cannot update EYCA card")
-              )
-            )
+            maybeUserCgn,
+            O.exists(userCgn => CardActivated.is(userCgn.card))
           )
+            ? activateEycaCard(activityInput)
+            : giveUpActivation(activityInput)
         )
       )
     ),
-    TE.bimap(fail, success),
+    TE.mapLeft(fail),
     TE.toUnion
   )();
 };
@@ -1,4 +1,6 @@
-﻿import { EycaAPIClient } from "../clients/eyca";
+﻿import { createTableService } from "azure-storage";
+import { EycaAPIClient } from "../clients/eyca";
+import { USER_CGN_COLLECTION_NAME, UserCgnModel } from "../models/user_cgn";
 import {
   USER_EYCA_CARD_COLLECTION_NAME,
   UserEycaCardModel
@@ -16,14 +18,25 @@ const userEycaCardsContainer = cosmosdbClient
 
 const userEycaCardModel = new UserEycaCardModel(userEycaCardsContainer);
 
+const userCgnsContainer = cosmosdbClient
+  .database(config.COSMOSDB_CGN_DATABASE_NAME)
+  .container(USER_CGN_COLLECTION_NAME);
+
+const userCgnModel = new UserCgnModel(userCgnsContainer);
+
 const eycaClient = EycaAPIClient(config.EYCA_API_BASE_URL);
 
+const tableService = createTableService(config.CGN_STORAGE_CONNECTION_STRING);
+
 const successEycaActivationActivityHandler = getSuccessEycaActivationActivityHandler(
   REDIS_CLIENT,
   eycaClient,
   config.EYCA_API_USERNAME,
   config.EYCA_API_PASSWORD,
-  userEycaCardModel
+  userEycaCardModel,
+  userCgnModel,
+  tableService,
+  config.EYCA_EXPIRATION_TABLE_NAME
 );
 
 export default successEycaActivationActivityHandler;
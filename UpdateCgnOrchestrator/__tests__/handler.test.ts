@@ -1,8 +1,13 @@
 // eslint-disable sort-keys, @typescript-eslint/no-explicit-any
 
 import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { addDays, differenceInDays } from "date-fns";
 import { context as contextMock } from "../../__mocks__/durable-functions";
-import { cgnActivatedDates } from "../../__mocks__/mock";
+import {
+  aDefaultEligibilityPolicy,
+  aFiscalCode as anEycaEligibleFiscalCode,
+  cgnActivatedDates
+} from "../../__mocks__/mock";
 import {
   CardActivated,
   StatusEnum
@@ -15,12 +20,24 @@ import {
   CardRevoked,
   StatusEnum as RevokedCgnStatusEnum
 } from "../../generated/definitions/CardRevoked";
+import {
+  CardSuspended,
+  StatusEnum as SuspendedCgnStatusEnum
+} from "../../generated/definitions/CardSuspended";
+import {
+  CardWithdrawn,
+  StatusEnum as WithdrawnCgnStatusEnum
+} from "../../generated/definitions/CardWithdrawn";
+import { ActivationStatusEnum } from "../../generated/services-api/ActivationStatus";
 import { ActivityResult } from "../../utils/activity";
-import { DEFAULT_EYCA_UPPER_BOUND_AGE } from "../../utils/config";
-import { MESSAGES } from "../../utils/messages";
+import {
+  getReactivationMessage,
+  getResumptionMessage,
+  MESSAGES
+} from "../../utils/messages";
 import { UpdateCgnOrchestratorHandler } from "../handler";
 
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const now = new Date();
 const aReason = "aMotivation" as NonEmptyString;
 
@@ -34,6 +51,19 @@ const aUserCardActivated: CardActivated = {
   ...cgnActivatedDates,
   status: StatusEnum.ACTIVATED
 };
+const aResumeDate = addDays(now, 7);
+const aUserCardSuspended: CardSuspended = {
+  ...cgnActivatedDates,
+  reason: aReason,
+  resume_date: aResumeDate,
+  status: SuspendedCgnStatusEnum.SUSPENDED,
+  suspension_date: now
+};
+const aUserCardWithdrawn: CardWithdrawn = {
+  ...cgnActivatedDates,
+  status: WithdrawnCgnStatusEnum.WITHDRAWN,
+  withdrawal_date: now
+};
 const aUserCardExpired: CardExpired = {
   ...cgnActivatedDates,
   status: ExpiredStatusEnum.EXPIRED
@@ -51,7 +81,9 @@ const contextMockWithDf = {
     getInput: getInputMock,
     setCustomStatus: jest.fn(),
     // 4 CreateTimer
-    createTimer: jest.fn().mockReturnValue("CreateTimer")
+    createTimer: jest.fn().mockReturnValue("CreateTimer"),
+    continueAsNew: jest.fn().mockReturnValue("ContinueAsNew"),
+    currentUtcDateTime: now
   }
 };
 
@@ -82,7 +114,7 @@ describe("UpdateCgnOrchestrator", () => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
     const orchestrator = UpdateCgnOrchestratorHandler(
       contextMockWithDf as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy
     );
 
     // 1 UpsertSpecialServiceActivation
@@ -144,12 +176,16 @@ describe("UpdateCgnOrchestrator", () => {
     mockCallActivityWithRetry
       // 1 UpdateCgnStauts
       .mockReturnValueOnce(anUpdateCgnStatusResult)
-      // 5 SendMessageActivity
+      // 2 InvalidateOtp
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 3 RevokeEyca
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 4 SendMessageActivity
       .mockReturnValueOnce("SendMessageActivity");
     // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
     const orchestrator = UpdateCgnOrchestratorHandler(
       contextMockWithDf as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy
     );
 
     // 1 UpdateCgnStauts
@@ -158,19 +194,47 @@ describe("UpdateCgnOrchestrator", () => {
       kind: "SUCCESS"
     });
 
-    // 2 CreateTimer
+    // 2 InvalidateOtp
     const res2 = orchestrator.next(res1.value);
-    expect(res2.value).toEqual("CreateTimer");
+    expect(res2.value).toEqual({
+      kind: "SUCCESS"
+    });
 
-    // 3 SendMessageActivity
+    // 3 RevokeEyca
     const res3 = orchestrator.next(res2.value);
-    expect(res3.value).toEqual("SendMessageActivity");
+    expect(res3.value).toEqual({
+      kind: "SUCCESS"
+    });
+
+    // 4 CreateTimer
+    const res4 = orchestrator.next(res3.value);
+    expect(res4.value).toEqual("CreateTimer");
+
+    // 5 SendMessageActivity
+    const res5 = orchestrator.next(res4.value);
+    expect(res5.value).toEqual("SendMessageActivity");
 
     // Complete the orchestrator execution
     orchestrator.next();
 
+    expect(contextMockWithDf.df.callActivityWithRetry.mock.calls[1][0]).toEqual(
+      "InvalidateOtpActivity"
+    );
     expect(
-      contextMockWithDf.df.callActivityWithRetry.mock.calls[1][2].content
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[1][2]
+    ).toEqual({ fiscalCode: aFiscalCode });
+    expect(contextMockWithDf.df.callActivityWithRetry.mock.calls[2][0]).toEqual(
+      "RevokeEycaActivity"
+    );
+    expect(contextMockWithDf.df.callActivityWithRetry.mock.calls[2][2]).toEqual(
+      {
+        fiscalCode: aFiscalCode,
+        revocationDate: aUserCardRevoked.revocation_date.toISOString(),
+        revocationReason: aUserCardRevoked.revocation_reason
+      }
+    );
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[3][2].content
     ).toEqual(MESSAGES.CardRevoked(aUserCardRevoked));
 
     expect(contextMockWithDf.df.createTimer).toHaveBeenCalledTimes(1);
@@ -196,12 +260,14 @@ describe("UpdateCgnOrchestrator", () => {
     mockCallActivityWithRetry
       // 1 UpdateCgnStauts
       .mockReturnValueOnce(anUpdateCgnStatusResult)
-      // 5 SendMessageActivity
+      // 2 InvalidateOtp
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 3 SendMessageActivity
       .mockReturnValueOnce("SendMessageActivity");
     // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
     const orchestrator = UpdateCgnOrchestratorHandler(
       contextMockWithDf as any,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy
     );
 
     // 1 UpdateCgnStauts
@@ -210,19 +276,31 @@ describe("UpdateCgnOrchestrator", () => {
       kind: "SUCCESS"
     });
 
-    // 2 CreateTimer
+    // 2 InvalidateOtp
     const res2 = orchestrator.next(res1.value);
-    expect(res2.value).toEqual("CreateTimer");
+    expect(res2.value).toEqual({
+      kind: "SUCCESS"
+    });
 
-    // 3 SendMessageActivity
+    // 3 CreateTimer
     const res3 = orchestrator.next(res2.value);
-    expect(res3.value).toEqual("SendMessageActivity");
+    expect(res3.value).toEqual("CreateTimer");
+
+    // 4 SendMessageActivity
+    const res4 = orchestrator.next(res3.value);
+    expect(res4.value).toEqual("SendMessageActivity");
 
     // Complete the orchestrator execution
     orchestrator.next();
 
+    expect(contextMockWithDf.df.callActivityWithRetry.mock.calls[1][0]).toEqual(
+      "InvalidateOtpActivity"
+    );
     expect(
-      contextMockWithDf.df.callActivityWithRetry.mock.calls[1][2].content
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[1][2]
+    ).toEqual({ fiscalCode: aFiscalCode });
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[2][2].content
     ).toEqual(MESSAGES.CardExpired());
 
     expect(contextMockWithDf.df.createTimer).toHaveBeenCalledTimes(1);
@@ -239,4 +317,411 @@ describe("UpdateCgnOrchestrator", () => {
       "COMPLETED"
     );
   });
+
+  it("should restore a reactivated Cgn and its EYCA card without enqueueing an EYCA activation", async () => {
+    getInputMock.mockImplementationOnce(() => ({
+      fiscalCode: anEycaEligibleFiscalCode,
+      newStatusCard: aUserCardActivated,
+      restoredFrom: RevokedCgnStatusEnum.REVOKED
+    }));
+    mockCallActivityWithRetry
+      // 1 UpsertSpecialServiceActivation
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 2 StoreCgnExpiration
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 3 UpdateCgnStatus
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      // 4 UpsertSpecialServiceActivation
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 5 RestoreEyca
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 6 SendMessageActivity
+      .mockReturnValueOnce("SendMessageActivity");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
+    const orchestrator = UpdateCgnOrchestratorHandler(
+      contextMockWithDf as any,
+      aDefaultEligibilityPolicy
+    );
+
+    // 1 UpsertSpecialServiceActivation
+    const res1 = orchestrator.next();
+    // 2 StoreCgnExpiration
+    const res2 = orchestrator.next(res1.value);
+    // 3 UpdateCgnStatus
+    const res3 = orchestrator.next(res2.value);
+    // 4 UpsertSpecialServiceActivation
+    const res4 = orchestrator.next(res3.value);
+    // 5 RestoreEyca
+    const res5 = orchestrator.next(res4.value);
+
+    // 6 CreateTimer
+    const res6 = orchestrator.next(res5.value);
+    expect(res6.value).toEqual("CreateTimer");
+
+    // 7 SendMessage
+    const res7 = orchestrator.next(res6.value);
+    expect(res7.value).toEqual("SendMessageActivity");
+
+    // Complete the orchestrator execution
+    orchestrator.next();
+
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls.map(call => call[0])
+    ).toEqual([
+      "UpsertSpecialServiceActivationActivity",
+      "StoreCgnExpirationActivity",
+      "UpdateCgnStatusActivity",
+      "UpsertSpecialServiceActivationActivity",
+      "RestoreEycaActivity",
+      "SendMessageActivity"
+    ]);
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[4][2]
+    ).toEqual({ fiscalCode: anEycaEligibleFiscalCode });
+    expect(contextMockWithDf.df.callActivityWithRetry.mock.calls[1][2]).toEqual(
+      {
+        activationDate: cgnActivatedDates.activation_date.toISOString(),
+        expirationDate: cgnActivatedDates.expiration_date.toISOString(),
+        fiscalCode: anEycaEligibleFiscalCode
+      }
+    );
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[5][2].content
+    ).toEqual(getReactivationMessage());
+    expect(contextMockWithDf.df.setCustomStatus).toHaveBeenNthCalledWith(
+      3,
+      "COMPLETED"
+    );
+  });
+
+  it("should resume a suspended Cgn once its resume date is reached", async () => {
+    getInputMock.mockImplementationOnce(() => ({
+      fiscalCode: aFiscalCode,
+      newStatusCard: aUserCardSuspended
+    }));
+    mockCallActivityWithRetry
+      // 1 UpdateCgnStatus
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      // 2 InvalidateOtp
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 3 SendMessageActivity
+      .mockReturnValueOnce("SendMessageActivity");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
+    const orchestrator = UpdateCgnOrchestratorHandler(
+      contextMockWithDf as any,
+      aDefaultEligibilityPolicy
+    );
+
+    // 1 UpdateCgnStatus
+    const res1 = orchestrator.next();
+    // 2 InvalidateOtp
+    const res2 = orchestrator.next(res1.value);
+    // 3 CreateTimer
+    const res3 = orchestrator.next(res2.value);
+    // 4 SendMessageActivity
+    const res4 = orchestrator.next(res3.value);
+    expect(res4.value).toEqual("SendMessageActivity");
+
+    // 5 CreateTimer for the first 6 days
+    const res5 = orchestrator.next(res4.value);
+    expect(res5.value).toEqual("CreateTimer");
+    expect(contextMockWithDf.df.createTimer).toHaveBeenLastCalledWith(
+      addDays(now, 6)
+    );
+
+    // 6 CreateTimer until the resume date
+    const res6 = orchestrator.next(res5.value);
+    expect(res6.value).toEqual("CreateTimer");
+    expect(contextMockWithDf.df.createTimer).toHaveBeenLastCalledWith(
+      aResumeDate
+    );
+
+    // 7 ContinueAsNew
+    const res7 = orchestrator.next(res6.value);
+    expect(res7.value).toEqual("ContinueAsNew");
+
+    // Complete the orchestrator execution
+    orchestrator.next();
+
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[2][2].content
+    ).toEqual(MESSAGES.CardSuspended(aUserCardSuspended));
+    expect(contextMockWithDf.df.continueAsNew).toHaveBeenCalledWith({
+      fiscalCode: aFiscalCode,
+      newStatusCard: {
+        activation_date: cgnActivatedDates.activation_date.toISOString(),
+        expiration_date: cgnActivatedDates.expiration_date.toISOString(),
+        status: StatusEnum.ACTIVATED
+      },
+      restoredFrom: SuspendedCgnStatusEnum.SUSPENDED
+    });
+  });
+
+  it("should wait for a resume date months away by timers of at most 6 days", async () => {
+    const aFarResumeDate = addDays(now, 60);
+    getInputMock.mockImplementationOnce(() => ({
+      fiscalCode: aFiscalCode,
+      newStatusCard: { ...aUserCardSuspended, resume_date: aFarResumeDate }
+    }));
+    mockCallActivityWithRetry
+      // 1 UpdateCgnStatus
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      // 2 InvalidateOtp
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 3 SendMessageActivity
+      .mockReturnValueOnce("SendMessageActivity");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
+    const orchestrator = UpdateCgnOrchestratorHandler(
+      contextMockWithDf as any,
+      aDefaultEligibilityPolicy
+    );
+
+    // eslint-disable-next-line functional/no-let
+    let res = orchestrator.next();
+    while (res.value !== "ContinueAsNew") {
+      res = orchestrator.next(res.value);
+    }
+
+    // the notification timer, then 10 timers until the resume date
+    expect(contextMockWithDf.df.createTimer).toHaveBeenCalledTimes(11);
+    const resumeTimerDates = contextMockWithDf.df.createTimer.mock.calls
+      .slice(1)
+      .map(([timerDate]) => timerDate);
+    expect(resumeTimerDates[0]).toEqual(addDays(now, 6));
+    expect(resumeTimerDates[resumeTimerDates.length - 1]).toEqual(
+      aFarResumeDate
+    );
+    resumeTimerDates.reduce((previousTimerDate, timerDate) => {
+      expect(
+        differenceInDays(timerDate, previousTimerDate)
+      ).toBeLessThanOrEqual(6);
+      return timerDate;
+    }, now);
+    expect(contextMockWithDf.df.continueAsNew).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not wait for a suspended Cgn without a resume date", async () => {
+    getInputMock.mockImplementationOnce(() => ({
+      fiscalCode: aFiscalCode,
+      newStatusCard: { ...aUserCardSuspended, resume_date: undefined }
+    }));
+    mockCallActivityWithRetry
+      // 1 UpdateCgnStatus
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      // 2 InvalidateOtp
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 3 SendMessageActivity
+      .mockReturnValueOnce("SendMessageActivity");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
+    const orchestrator = UpdateCgnOrchestratorHandler(
+      contextMockWithDf as any,
+      aDefaultEligibilityPolicy
+    );
+
+    const res1 = orchestrator.next();
+    const res2 = orchestrator.next(res1.value);
+    const res3 = orchestrator.next(res2.value);
+    const res4 = orchestrator.next(res3.value);
+    expect(res4.value).toEqual("SendMessageActivity");
+    expect(orchestrator.next(res4.value).done).toBe(true);
+
+    expect(contextMockWithDf.df.createTimer).toHaveBeenCalledTimes(1);
+    expect(contextMockWithDf.df.continueAsNew).not.toHaveBeenCalled();
+    expect(contextMockWithDf.df.setCustomStatus).toHaveBeenLastCalledWith(
+      "COMPLETED"
+    );
+  });
+
+  it("should send the resumption message on a resumed Cgn", async () => {
+    getInputMock.mockImplementationOnce(() => ({
+      fiscalCode: aFiscalCode,
+      newStatusCard: aUserCardActivated,
+      restoredFrom: SuspendedCgnStatusEnum.SUSPENDED
+    }));
+    mockCallActivityWithRetry
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce("SendMessageActivity");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
+    const orchestrator = UpdateCgnOrchestratorHandler(
+      contextMockWithDf as any,
+      aDefaultEligibilityPolicy
+    );
+
+    // eslint-disable-next-line functional/no-let
+    let res = orchestrator.next();
+    while (!res.done) {
+      res = orchestrator.next(res.value);
+    }
+
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[4][2].content
+    ).toEqual(getResumptionMessage());
+  });
+
+  it("should deactivate the special service and withdraw EYCA on a withdrawn Cgn", async () => {
+    getInputMock.mockImplementationOnce(() => ({
+      fiscalCode: aFiscalCode,
+      newStatusCard: aUserCardWithdrawn
+    }));
+    mockCallActivityWithRetry
+      // 1 UpdateCgnStatus
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      // 2 InvalidateOtp
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 3 UpsertSpecialServiceActivation
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 4 DeleteCgnExpiration
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 5 WithdrawEyca
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      // 6 SendMessageActivity
+      .mockReturnValueOnce("SendMessageActivity");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
+    const orchestrator = UpdateCgnOrchestratorHandler(
+      contextMockWithDf as any,
+      aDefaultEligibilityPolicy
+    );
+
+    // eslint-disable-next-line functional/no-let
+    let res = orchestrator.next();
+    while (!res.done) {
+      res = orchestrator.next(res.value);
+    }
+
+    const calls = contextMockWithDf.df.callActivityWithRetry.mock.calls;
+    expect(calls.map(call => call[0])).toEqual([
+      "UpdateCgnStatusActivity",
+      "InvalidateOtpActivity",
+      "UpsertSpecialServiceActivationActivity",
+      "DeleteCgnExpirationActivity",
+      "WithdrawEycaActivity",
+      "SendMessageActivity"
+    ]);
+    expect(calls[2][2]).toEqual({
+      activationStatus: ActivationStatusEnum.INACTIVE,
+      fiscalCode: aFiscalCode
+    });
+    expect(calls[3][2]).toEqual({
+      expirationDate: aUserCardWithdrawn.expiration_date.toISOString(),
+      fiscalCode: aFiscalCode
+    });
+    expect(calls[4][2]).toEqual({ fiscalCode: aFiscalCode });
+    expect(calls[5][2].content).toEqual(MESSAGES.CardWithdrawn());
+    expect(contextMockWithDf.df.setCustomStatus).toHaveBeenLastCalledWith(
+      "COMPLETED"
+    );
+  });
+
+  it("should not send any message if the EYCA card cannot be withdrawn", async () => {
+    getInputMock.mockImplementationOnce(() => ({
+      fiscalCode: aFiscalCode,
+      newStatusCard: aUserCardWithdrawn
+    }));
+    mockCallActivityWithRetry
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce({ kind: "FAILURE", reason: "aReason" });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
+    const orchestrator = UpdateCgnOrchestratorHandler(
+      contextMockWithDf as any,
+      aDefaultEligibilityPolicy
+    );
+
+    // eslint-disable-next-line functional/no-let
+    let res = orchestrator.next();
+    while (!res.done) {
+      res = orchestrator.next(res.value);
+    }
+
+    expect(res.value).toEqual(false);
+    expect(contextMockWithDf.df.callActivityWithRetry).toHaveBeenCalledTimes(5);
+    expect(contextMockWithDf.df.setCustomStatus).toHaveBeenLastCalledWith(
+      "ERROR"
+    );
+  });
+
+  it("should still notify a revoked Cgn if its EYCA card cannot be revoked", async () => {
+    getInputMock.mockImplementationOnce(() => ({
+      fiscalCode: aFiscalCode,
+      newStatusCard: aUserCardRevoked
+    }));
+    mockCallActivityWithRetry
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce({ kind: "FAILURE", reason: "aReason" })
+      .mockReturnValueOnce("SendMessageActivity");
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion
+    const orchestrator = UpdateCgnOrchestratorHandler(
+      contextMockWithDf as any,
+      aDefaultEligibilityPolicy
+    );
+
+    // eslint-disable-next-line functional/no-let
+    let res = orchestrator.next();
+    while (!res.done) {
+      res = orchestrator.next(res.value);
+    }
+
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls[3][2].content
+    ).toEqual(MESSAGES.CardRevoked(aUserCardRevoked));
+    expect(contextMockWithDf.df.setCustomStatus).toHaveBeenLastCalledWith(
+      "COMPLETED"
+    );
+  });
+
+  it("should revoke the EYCA card with the Cgn and restore it when the Cgn is reactivated", async () => {
+    getInputMock
+      .mockImplementationOnce(() => ({
+        fiscalCode: aFiscalCode,
+        newStatusCard: aUserCardRevoked
+      }))
+      .mockImplementationOnce(() => ({
+        fiscalCode: aFiscalCode,
+        newStatusCard: aUserCardActivated,
+        restoredFrom: RevokedCgnStatusEnum.REVOKED
+      }));
+    mockCallActivityWithRetry
+      // revocation: UpdateCgnStatus, InvalidateOtp, RevokeEyca, SendMessage
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce("SendMessageActivity")
+      // reactivation: UpsertSpecialService, StoreCgnExpiration,
+      // UpdateCgnStatus, UpsertSpecialService, RestoreEyca, SendMessage
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce(anUpdateCgnStatusResult)
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce({ kind: "SUCCESS" })
+      .mockReturnValueOnce("SendMessageActivity");
+
+    [0, 1].forEach(() => {
+      const orchestrator = UpdateCgnOrchestratorHandler(
+        contextMockWithDf as any,
+        aDefaultEligibilityPolicy
+      );
+      // eslint-disable-next-line functional/no-let
+      let res = orchestrator.next();
+      while (!res.done) {
+        res = orchestrator.next(res.value);
+      }
+    });
+
+    const eycaCalls = contextMockWithDf.df.callActivityWithRetry.mock.calls.filter(
+      call => ["RevokeEycaActivity", "RestoreEycaActivity"].includes(call[0])
+    );
+    expect(eycaCalls.map(call => [call[0], call[2].fiscalCode])).toEqual([
+      ["RevokeEycaActivity", aFiscalCode],
+      ["RestoreEycaActivity", aFiscalCode]
+    ]);
+    expect(
+      contextMockWithDf.df.callActivityWithRetry.mock.calls.map(call => call[0])
+    ).not.toContain("EnqueueEycaActivationActivity");
+  });
 });
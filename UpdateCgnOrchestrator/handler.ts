@@ -3,7 +3,7 @@ import { IOrchestrationFunctionContext } from "durable-functions/lib/src/classes
 import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import { addSeconds } from "date-fns";
 import * as t from "io-ts";
-import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { enumType } from "@pagopa/ts-commons/lib/types";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
 import { StatusEnum as RevokedStatusEnum } from "../generated/definitions/CardRevoked";
@@ -11,14 +11,29 @@ import { ActivityInput as EnqueueEycaActivationActivityInput } from "../EnqueueE
 import { Card } from "../generated/definitions/Card";
 import { StatusEnum as ActivatedStatusEnum } from "../generated/definitions/CardActivated";
 import { StatusEnum as ExpiredStatusEnum } from "../generated/definitions/CardExpired";
+import { StatusEnum as SuspendedStatusEnum } from "../generated/definitions/CardSuspended";
+import { StatusEnum as WithdrawnStatusEnum } from "../generated/definitions/CardWithdrawn";
+import { ActivityInput as DeleteCgnExpirationActivityInput } from "../DeleteCgnExpirationActivity/handler";
+import { ActivityInput as InvalidateOtpActivityInput } from "../InvalidateOtpActivity/handler";
 import { ActivityInput as SendMessageActivityInput } from "../SendMessageActivity/handler";
 import { ActivityInput as StoreCgnExpirationActivityInput } from "../StoreCgnExpirationActivity/handler";
 import { ActivityInput as UpsertSpecialServiceActivationActivityInput } from "../UpsertSpecialServiceActivationActivity/handler";
+import { ActivityInput as RestoreEycaActivityInput } from "../RestoreEycaActivity/handler";
+import { ActivityInput as RevokeEycaActivityInput } from "../RevokeEycaActivity/handler";
 import { ActivityInput } from "../UpdateCgnStatusActivity/handler";
+import { ActivityInput as WithdrawEycaActivityInput } from "../WithdrawEycaActivity/handler";
 import { ActivityResult } from "../utils/activity";
 import { isEycaEligible } from "../utils/cgn_checks";
-import { getErrorMessage, getMessage } from "../utils/messages";
+import { fixedClock } from "../utils/clock";
+import { EligibilityPolicy } from "../utils/eligibility_policy";
 import {
+  getErrorMessage,
+  getMessage,
+  getReactivationMessage,
+  getResumptionMessage
+} from "../utils/messages";
+import {
+  createLongTimer,
   getTrackExceptionAndThrowWithErrorStatus,
   trackEventIfNotReplaying,
   trackExceptionAndThrow,
@@ -27,10 +42,25 @@ import {
 import { internalRetryOptions } from "../utils/retry_policies";
 import { ActivationStatusEnum } from "../generated/services-api/ActivationStatus";
 
-export const OrchestratorInput = t.interface({
-  fiscalCode: FiscalCode,
-  newStatusCard: Card
-});
+/**
+ * The statuses an activated card can be restored from,
+ * rather than being activated for the first time
+ */
+export const RestoredStatus = t.union([
+  enumType<RevokedStatusEnum>(RevokedStatusEnum, "RevokedStatus"),
+  enumType<SuspendedStatusEnum>(SuspendedStatusEnum, "SuspendedStatus")
+]);
+export type RestoredStatus = t.TypeOf<typeof RestoredStatus>;
+
+export const OrchestratorInput = t.intersection([
+  t.interface({
+    fiscalCode: FiscalCode,
+    newStatusCard: Card
+  }),
+  t.partial({
+    restoredFrom: RestoredStatus
+  })
+]);
 export type OrchestratorInput = t.TypeOf<typeof OrchestratorInput>;
 
 const NOTIFICATION_DELAY_SECONDS = 10;
@@ -73,10 +103,54 @@ const upsertSpecialServiceGenerator = (
     );
   };
 
+/**
+ * A reactivated CGN gets back the EYCA card revoked along with it,
+ * while a resumed CGN has kept its EYCA card all along
+ */
+const restoreEycaGenerator = (context: IOrchestrationFunctionContext) =>
+  function*(
+    fiscalCode: FiscalCode,
+    restoredFrom: RestoredStatus | undefined,
+    trackExAndThrow: ReturnType<typeof trackExceptionAndThrow>
+  ): Generator {
+    if (restoredFrom !== RevokedStatusEnum.REVOKED) {
+      return;
+    }
+    pipe(
+      yield context.df.callActivityWithRetry(
+        "RestoreEycaActivity",
+        internalRetryOptions,
+        RestoreEycaActivityInput.encode({ fiscalCode })
+      ),
+      ActivityResult.decode,
+      E.getOrElseW(e =>
+        trackExAndThrow(
+          e,
+          "cgn.update.exception.eyca.restoration.activityOutput"
+        )
+      ),
+      E.fromPredicate(
+        restoreEycaOutput => restoreEycaOutput.kind === "SUCCESS",
+        () =>
+          trackExceptionIfNotReplaying(context)({
+            exception: new Error("Cannot restore the EYCA Card"),
+            properties: {
+              id: fiscalCode,
+              name: "cgn.update.eyca.restoration.error"
+            },
+            tagOverrides: {
+              "ai.operation.id": fiscalCode,
+              "ai.operation.parentId": fiscalCode
+            }
+          })
+      )
+    );
+  };
+
 // eslint-disable-next-line sonarjs/cognitive-complexity
 export const UpdateCgnOrchestratorHandler = function*(
   context: IOrchestrationFunctionContext,
-  eycaUpperBoundAge: NonNegativeInteger,
+  eligibilityPolicy: EligibilityPolicy,
   logPrefix: string = "UpdateCgnOrchestrator"
 ): Generator {
   const trackExAndThrow = trackExceptionAndThrow(context, logPrefix);
@@ -93,6 +167,7 @@ export const UpdateCgnOrchestratorHandler = function*(
   const callUpsertSpecialServiceActivity = upsertSpecialServiceGenerator(
     context
   );
+  const callRestoreEycaActivity = restoreEycaGenerator(context);
   const input = context.df.getInput();
   const decodedInput = pipe(
     input,
@@ -100,7 +175,8 @@ export const UpdateCgnOrchestratorHandler = function*(
     E.getOrElseW(e => trackExAndThrow(e, "cgn.update.exception.decode.input"))
   );
 
-  const { fiscalCode, newStatusCard } = decodedInput;
+  const { fiscalCode, newStatusCard, restoredFrom } = decodedInput;
+  const isRestoration = restoredFrom !== undefined;
   const tagOverrides = {
     "ai.operation.id": fiscalCode,
     "ai.operation.parentId": fiscalCode
@@ -191,7 +267,11 @@ export const UpdateCgnOrchestratorHandler = function*(
         );
       }
     } catch (err) {
-      if (newStatusCard.status === ActivatedStatusEnum.ACTIVATED) {
+      // a restoration is not requested by the citizen, who cannot retry it
+      if (
+        newStatusCard.status === ActivatedStatusEnum.ACTIVATED &&
+        !isRestoration
+      ) {
         // CGN Activation is failed so we try to send error message if sync flow is stopped
         yield context.df.createTimer(
           addSeconds(context.df.currentUtcDateTime, NOTIFICATION_DELAY_SECONDS)
@@ -220,10 +300,148 @@ export const UpdateCgnOrchestratorHandler = function*(
       throw err;
     }
 
-    if (newStatusCard.status === ActivatedStatusEnum.ACTIVATED) {
-      // now we try to enqueue an EYCA activation if user is eligible for eyca
+    if (newStatusCard.status !== ActivatedStatusEnum.ACTIVATED) {
+      // the CGN is no more activated so we invalidate any outstanding OTP
+      // that could still be used until its TTL runs out
+      pipe(
+        yield context.df.callActivityWithRetry(
+          "InvalidateOtpActivity",
+          internalRetryOptions,
+          InvalidateOtpActivityInput.encode({ fiscalCode })
+        ),
+        ActivityResult.decode,
+        E.getOrElseW(e =>
+          trackExAndThrow(
+            e,
+            "cgn.update.exception.invalidateOtp.activityOutput"
+          )
+        ),
+        E.fromPredicate(
+          invalidateOtpOutput => invalidateOtpOutput.kind === "SUCCESS",
+          () =>
+            trackExIfNotReplaying({
+              exception: new Error("Cannot invalidate CGN OTP"),
+              properties: {
+                id: fiscalCode,
+                name: "cgn.update.invalidateOtp.error"
+              },
+              tagOverrides
+            })
+        )
+      );
+    }
+
+    if (newStatusCard.status === RevokedStatusEnum.REVOKED) {
+      // a revoked CGN revokes its EYCA card too, even abroad
+      pipe(
+        yield context.df.callActivityWithRetry(
+          "RevokeEycaActivity",
+          internalRetryOptions,
+          RevokeEycaActivityInput.encode({
+            fiscalCode,
+            revocationDate: newStatusCard.revocation_date,
+            revocationReason: newStatusCard.revocation_reason
+          })
+        ),
+        ActivityResult.decode,
+        E.getOrElseW(e =>
+          trackExAndThrow(
+            e,
+            "cgn.update.exception.eyca.revocation.activityOutput"
+          )
+        ),
+        E.fromPredicate(
+          revokeEycaOutput => revokeEycaOutput.kind === "SUCCESS",
+          () =>
+            trackExIfNotReplaying({
+              exception: new Error("Cannot revoke the EYCA Card"),
+              properties: {
+                id: fiscalCode,
+                name: "cgn.update.eyca.revocation.error"
+              },
+              tagOverrides
+            })
+        )
+      );
+    }
+
+    if (newStatusCard.status === WithdrawnStatusEnum.WITHDRAWN) {
+      // a withdrawn CGN gives up the special service, the expiration tuple
+      // and any EYCA card, so that the citizen can activate it again later
+      yield* callUpsertSpecialServiceActivity(
+        UpsertSpecialServiceActivationActivityInput.encode({
+          activationStatus: ActivationStatusEnum.INACTIVE,
+          fiscalCode
+        }),
+        trackExAndThrowWithError
+      );
+
+      pipe(
+        yield context.df.callActivityWithRetry(
+          "DeleteCgnExpirationActivity",
+          internalRetryOptions,
+          DeleteCgnExpirationActivityInput.encode({
+            expirationDate: newStatusCard.expiration_date,
+            fiscalCode
+          })
+        ),
+        ActivityResult.decode,
+        E.getOrElseW(e =>
+          trackExAndThrowWithError(
+            e,
+            "cgn.update.exception.decode.deleteCgnExpirationActivityOutput"
+          )
+        ),
+        E.fromPredicate(
+          deleteCgnExpirationResult =>
+            deleteCgnExpirationResult.kind === "SUCCESS",
+          () =>
+            trackExAndThrowWithError(
+              new Error("Cannot delete CGN Expiration"),
+              "cgn.update.exception.failure.deleteCgnExpirationActivityOutput"
+            )
+        )
+      );
+
+      pipe(
+        yield context.df.callActivityWithRetry(
+          "WithdrawEycaActivity",
+          internalRetryOptions,
+          WithdrawEycaActivityInput.encode({ fiscalCode })
+        ),
+        ActivityResult.decode,
+        E.getOrElseW(e =>
+          trackExAndThrowWithError(
+            e,
+            "cgn.update.exception.decode.withdrawEycaActivityOutput"
+          )
+        ),
+        E.fromPredicate(
+          withdrawEycaResult => withdrawEycaResult.kind === "SUCCESS",
+          () =>
+            trackExAndThrowWithError(
+              new Error("Cannot withdraw EYCA Card"),
+              "cgn.update.exception.failure.withdrawEycaActivityOutput"
+            )
+        )
+      );
+    }
+
+    yield* callRestoreEycaActivity(fiscalCode, restoredFrom, trackExAndThrow);
+
+    if (
+      newStatusCard.status === ActivatedStatusEnum.ACTIVATED &&
+      !isRestoration
+    ) {
+      // now we try to enqueue an EYCA activation if user is eligible for eyca.
+      // A restored CGN keeps or gets back the EYCA card it had before.
+      // The orchestrator time is replayed, so the check has the same outcome
       const isEycaEligibleResult = pipe(
-        isEycaEligible(fiscalCode, eycaUpperBoundAge),
+        isEycaEligible(
+          fiscalCode,
+          eligibilityPolicy,
+          fixedClock(context.df.currentUtcDateTime)
+        ),
         E.getOrElseW(e =>
           trackExAndThrow(e, "cgn.update.exception.eyca.eligibilityCheck")
         )
@@ -273,7 +491,9 @@ export const UpdateCgnOrchestratorHandler = function*(
     const hasSendMessageActivity = [
       RevokedStatusEnum.REVOKED.toString(),
       ActivatedStatusEnum.ACTIVATED.toString(),
-      ExpiredStatusEnum.EXPIRED.toString()
+      ExpiredStatusEnum.EXPIRED.toString(),
+      SuspendedStatusEnum.SUSPENDED.toString(),
+      WithdrawnStatusEnum.WITHDRAWN.toString()
     ].includes(newStatusCard.status);
 
     if (hasSendMessageActivity) {
@@ -291,7 +511,12 @@ export const UpdateCgnOrchestratorHandler = function*(
         tagOverrides
       });
 
-      const content = getMessage(newStatusCard);
+      const content =
+        restoredFrom === RevokedStatusEnum.REVOKED
+          ? getReactivationMessage()
+          : restoredFrom === SuspendedStatusEnum.SUSPENDED
+          ? getResumptionMessage()
+          : getMessage(newStatusCard);
       yield context.df.callActivityWithRetry(
         "SendMessageActivity",
         internalRetryOptions,
@@ -302,6 +527,35 @@ export const UpdateCgnOrchestratorHandler = function*(
         })
       );
     }
+
+    if (
+      newStatusCard.status === SuspendedStatusEnum.SUSPENDED &&
+      newStatusCard.resume_date !== undefined
+    ) {
+      // wait until the resume date, unless the suspended card is updated
+      // in the meantime, which terminates this orchestrator
+      yield* createLongTimer(context, newStatusCard.resume_date);
+
+      trackEvtIfNotReplaying({
+        name: "cgn.update.resume",
+        properties: {
+          id: fiscalCode
+        },
+        tagOverrides
+      });
+
+      yield context.df.continueAsNew(
+        OrchestratorInput.encode({
+          fiscalCode,
+          newStatusCard: {
+            activation_date: newStatusCard.activation_date,
+            expiration_date: newStatusCard.expiration_date,
+            status: ActivatedStatusEnum.ACTIVATED
+          },
+          restoredFrom: SuspendedStatusEnum.SUSPENDED
+        })
+      );
+    }
   } catch (err) {
     context.log.error(`${logPrefix}|ERROR|${String(err)}`);
     trackExIfNotReplaying({
@@ -1,9 +1,12 @@
 ﻿import * as df from "durable-functions";
 import { getConfigOrThrow } from "../utils/config";
+import { getEligibilityPolicy } from "../utils/eligibility_policy";
 import { UpdateCgnOrchestratorHandler } from "./handler";
 
 const config = getConfigOrThrow();
 
+const eligibilityPolicy = getEligibilityPolicy(config);
+
 export const index = df.orchestrator(ctx =>
-  UpdateCgnOrchestratorHandler(ctx, config.EYCA_UPPER_BOUND_AGE)
+  UpdateCgnOrchestratorHandler(ctx, eligibilityPolicy)
 );
@@ -19,7 +19,7 @@ import { toError } from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
 
 const now = new Date();
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const aRevocationRequest = {
   reason: "aMotivation" as NonEmptyString
 };
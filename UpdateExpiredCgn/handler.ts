@@ -1,18 +1,35 @@
-﻿import { Context } from "@azure/functions";
-import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+﻿/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { ExponentialRetryPolicyFilter, TableService } from "azure-storage";
-import * as date_fns from "date-fns";
 import * as df from "durable-functions";
-import * as A from "fp-ts/lib/Array";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as T from "fp-ts/lib/Task";
 import * as TE from "fp-ts/lib/TaskEither";
 import { StatusEnum as CardActivatedStatusEnum } from "../generated/definitions/CardActivated";
 import { StatusEnum as CardExpiredStatusEnum } from "../generated/definitions/CardExpired";
 import { StatusEnum as CardRevokedStatusEnum } from "../generated/definitions/CardRevoked";
+import { StatusEnum as CardSuspendedStatusEnum } from "../generated/definitions/CardSuspended";
 import { OrchestratorInput } from "../UpdateCgnOrchestrator/handler";
 import { initTelemetryClient, trackException } from "../utils/appinsights";
-import { getExpiredCardUsers } from "../utils/card_expiration";
+import {
+  ExpiredCardRowKey,
+  ExpiringCardTypeEnum,
+  getExpiredCardUsers,
+  ICardExpirationOrchestratorIds,
+  runExpirationTasks,
+  toFailedFiscalCodes
+} from "../utils/card_expiration";
+import { Clock } from "../utils/clock";
+import { formatRomeDate } from "../utils/dates";
+import {
+  ProcessDay,
+  processDaysFromWatermark
+} from "../utils/expiration_watermark";
 import {
   makeUpdateCgnOrchestratorId,
   terminateUpdateCgnOrchestratorTask
@@ -23,26 +40,145 @@ const finish = (): Promise<void> => Promise.resolve(void 0);
 initTelemetryClient();
 const ORCHESTRATION_TERMINATION_REASON = "An highest priority CGN update orchestrator needs to start" as NonEmptyString;
 
+// the update orchestrators terminated before expiring a CGN,
+// as a suspended card could be waiting to be resumed
+const TERMINATED_CGN_STATUSES: ReadonlyArray<string> = [
+  CardActivatedStatusEnum.ACTIVATED,
+  CardRevokedStatusEnum.REVOKED,
+  CardSuspendedStatusEnum.SUSPENDED
+];
+
+export const getCgnExpirationOrchestratorIds = (
+  fiscalCode: FiscalCode
+): ICardExpirationOrchestratorIds => ({
+  toStart: makeUpdateCgnOrchestratorId(
+    fiscalCode,
+    CardExpiredStatusEnum.EXPIRED
+  ),
+  toTerminate: TERMINATED_CGN_STATUSES.map(status =>
+    makeUpdateCgnOrchestratorId(fiscalCode, status)
+  )
+});
+
+/**
+ * Returns a task that triggers an update orchestrator
+ * for a user's CGN that expires
+ *
+ * @returns the id of the started orchestrator
+ */
+export const getExpireCgnTask = (
+  client: DurableOrchestrationClient,
+  context: Context,
+  logPrefix: string
+) => ({
+  fiscalCode,
+  activationDate,
+  expirationDate
+}: ExpiredCardRowKey): TE.TaskEither<Error, string> =>
+  // first we terminate other possible Cgn update orchestrators
+  pipe(
+    TERMINATED_CGN_STATUSES,
+    RA.traverse(TE.ApplicativeSeq)(status =>
+      terminateUpdateCgnOrchestratorTask(
+        client,
+        fiscalCode,
+        status,
+        ORCHESTRATION_TERMINATION_REASON
+      )
+    ),
+    TE.chain(() => {
+      context.log.info(
+        `${logPrefix}| Starting new expire orchestrator for fiscalCode=${fiscalCode.substr(
+          0,
+          6
+        )}`
+      );
+      // Now we try to start Expire operation
+      return TE.tryCatch(
+        () =>
+          client.startNew(
+            "UpdateCgnOrchestrator",
+            getCgnExpirationOrchestratorIds(fiscalCode).toStart,
+            OrchestratorInput.encode({
+              fiscalCode,
+              newStatusCard: {
+                activation_date: activationDate,
+                expiration_date: expirationDate,
+                status: CardExpiredStatusEnum.EXPIRED
+              }
+            })
+          ),
+        E.toError
+      );
+    }),
+    TE.mapLeft(err => {
+      context.log.error(
+        `${logPrefix}|Error while starting CGN expiration for fiscalCode=${fiscalCode.substr(
+          0,
+          6
+        )}|ERROR=${err.message}`
+      );
+      trackException({
+        exception: err,
+        properties: {
+          id: fiscalCode,
+          name: "cgn.expiration.error"
+        },
+        tagOverrides: { samplingEnabled: "false" }
+      });
+      return err;
+    })
+  );
+
 export const getUpdateExpiredCgnHandler = (
   tableService: TableService,
   cgnExpirationTableName: NonEmptyString,
+  watermarkTableName: NonEmptyString,
+  maxCatchUpDays: NonNegativeInteger,
+  clock: Clock,
   logPrefix: string = "UpdateExpiredCgnHandler"
 ) => async (context: Context): Promise<unknown> => {
-  const today = date_fns.format(Date.now(), "yyyy-MM-dd");
+  const now = clock();
+  const today = formatRomeDate(now);
+  const expireCgn = getExpireCgnTask(df.getClient(context), context, logPrefix);
+  // using custom Exponential backoff retry policy for expired card's query operation
+  const expiredCardTableService = tableService.withFilter(
+    new ExponentialRetryPolicyFilter(5)
+  );
+
+  // a CGN has expired once its expire orchestrator has started
+  const processDay: ProcessDay = (day, isToProcess) =>
+    pipe(
+      getExpiredCardUsers(expiredCardTableService, cgnExpirationTableName, day),
+      TE.map(RA.filter(_ => isToProcess(_.fiscalCode))),
+      TE.chain(expiredCgnUsers => {
+        context.log.info(
+          `${logPrefix}|Processing ${expiredCgnUsers.length} CGNs expired on ${day}`
+        );
+        return TE.fromTask(
+          pipe(
+            runExpirationTasks(expiredCgnUsers.map(expireCgn)),
+            T.map(toFailedFiscalCodes(expiredCgnUsers))
+          )
+        );
+      })
+    );
 
-  const errorOrExpiredCgnUsers = await getExpiredCardUsers(
-    // using custom Exponential backoff retry policy for expired card's query operation
-    tableService.withFilter(new ExponentialRetryPolicyFilter(5)),
-    cgnExpirationTableName,
-    today
+  const errorOrProcessedDays = await processDaysFromWatermark(
+    tableService,
+    watermarkTableName,
+    ExpiringCardTypeEnum.CGN,
+    now,
+    maxCatchUpDays,
+    processDay
   )();
 
-  if (E.isLeft(errorOrExpiredCgnUsers)) {
+  if (E.isLeft(errorOrProcessedDays)) {
     context.log.verbose(
-      `${logPrefix}|ERROR=${errorOrExpiredCgnUsers.left.message}`
+      `${logPrefix}|ERROR=${errorOrProcessedDays.left.message}`
     );
     trackException({
-      exception: errorOrExpiredCgnUsers.left,
+      exception: errorOrProcessedDays.left,
       properties: {
         id: `${today}.cgn.expiration`,
         name: "cgn.expiration.error"
@@ -52,87 +188,8 @@ export const getUpdateExpiredCgnHandler = (
     return finish();
   }
 
-  const expiredCgnUsers = errorOrExpiredCgnUsers.right;
   context.log.info(
-    `${logPrefix}|Processing ${expiredCgnUsers.length} expired CGNs`
+    `${logPrefix}|Processed CGN expirations of ${errorOrProcessedDays.right.processedDays.length} days|FAILED=${errorOrProcessedDays.right.failedExpirations}`
   );
-
-  const client = df.getClient(context);
-  // trigger an update orchestrator for each user's CGN that expires
-
-  const tasks = expiredCgnUsers.map(
-    ({ fiscalCode, activationDate, expirationDate }) =>
-      // first we terminate other possible Cgn update orchestrators
-      pipe(
-        terminateUpdateCgnOrchestratorTask(
-          client,
-          fiscalCode,
-          CardActivatedStatusEnum.ACTIVATED,
-          ORCHESTRATION_TERMINATION_REASON
-        ),
-        TE.chain(() =>
-          terminateUpdateCgnOrchestratorTask(
-            client,
-            fiscalCode,
-            CardRevokedStatusEnum.REVOKED,
-            ORCHESTRATION_TERMINATION_REASON
-          )
-        ),
-        TE.chain(() => {
-          context.log.info(
-            `${logPrefix}| Starting new expire orchestrator for fiscalCode=${fiscalCode.substr(
-              0,
-              6
-            )}`
-          );
-          // Now we try to start Expire operation
-          return TE.tryCatch(
-            () =>
-              client.startNew(
-                "UpdateCgnOrchestrator",
-                makeUpdateCgnOrchestratorId(
-                  fiscalCode,
-                  CardExpiredStatusEnum.EXPIRED
-                ),
-                OrchestratorInput.encode({
-                  fiscalCode,
-                  newStatusCard: {
-                    activation_date: activationDate,
-                    expiration_date: expirationDate,
-                    status: CardExpiredStatusEnum.EXPIRED
-                  }
-                })
-              ),
-            E.toError
-          );
-        }),
-        TE.mapLeft(err => {
-          context.log.error(
-            `${logPrefix}|Error while starting CGN expiration for fiscalCode=${fiscalCode.substr(
-              0,
-              6
-            )}|ERROR=${err.message}`
-          );
-          trackException({
-            exception: err,
-            properties: {
-              id: fiscalCode,
-              name: "cgn.expiration.error"
-            },
-            tagOverrides: { samplingEnabled: "false" }
-          });
-          return err;
-        })
-      )
-  );
-
-  // eslint-disable-next-line functional/prefer-readonly-type
-  const results = [];
-  const tasksChunks = A.chunksOf(100)(tasks);
-  for (const tasksChunk of tasksChunks) {
-    // eslint-disable-next-line functional/prefer-readonly-type
-    // eslint-disable-next-line functional/immutable-data
-    results.push(await A.sequence(TE.ApplicativePar)(tasksChunk)());
-  }
-  return results;
+  return errorOrProcessedDays.right;
 };
@@ -1,13 +1,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { ExponentialRetryPolicyFilter } from "azure-storage";
+import * as date_fns from "date-fns";
+import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 import { context, mockStartNew } from "../../__mocks__/durable-functions";
 import { getClient } from "../../__mocks__/durable-functions";
 import { cgnActivatedDates } from "../../__mocks__/mock";
 import * as aInsights from "../../utils/appinsights";
 import * as tableUtils from "../../utils/card_expiration";
+import { systemClock } from "../../utils/clock";
+import * as watermarkUtils from "../../utils/expiration_watermark";
 import * as orchUtils from "../../utils/orchestrators";
 import { getUpdateExpiredEycaHandler } from "../handler";
 
@@ -18,11 +23,11 @@ const activationAndExpirationDates = {
 // eslint-disable-next-line functional/prefer-readonly-type
 const aSetOfExpiredRows: tableUtils.ExpiredCardRowKey[] = [
   {
-    fiscalCode: "RODFDS82S10H501T" as FiscalCode,
+    fiscalCode: "RODFDS82S10H501K" as FiscalCode,
     ...activationAndExpirationDates
   },
   {
-    fiscalCode: "RODEDS80S10H501T" as FiscalCode,
+    fiscalCode: "RODEDS80S10H501H" as FiscalCode,
     ...activationAndExpirationDates
   }
 ];
@@ -34,6 +39,42 @@ const tableServiceMock = {
 };
 
 const expiredEycaTableName = "aTable" as NonEmptyString;
+const aWatermarkTableName = "aWatermarkTable" as NonEmptyString;
+const aMaxCatchUpDays = 7 as NonNegativeInteger;
+
+const getExpirationWatermarkMock = jest.fn();
+jest
+  .spyOn(watermarkUtils, "getExpirationWatermark")
+  .mockImplementation(getExpirationWatermarkMock);
+
+const updateExpirationWatermarkMock = jest.fn();
+jest
+  .spyOn(watermarkUtils, "updateExpirationWatermark")
+  .mockImplementation(() => updateExpirationWatermarkMock);
+
+const getFailedExpirationsMock = jest.fn();
+jest
+  .spyOn(watermarkUtils, "getFailedExpirations")
+  .mockImplementation(getFailedExpirationsMock);
+
+const storeFailedExpirationsMock = jest.fn();
+jest
+  .spyOn(watermarkUtils, "storeFailedExpirations")
+  .mockImplementation(() => storeFailedExpirationsMock);
+
+const deleteFailedExpirationsMock = jest.fn();
+jest
+  .spyOn(watermarkUtils, "deleteFailedExpirations")
+  .mockImplementation(() => deleteFailedExpirationsMock);
+
+const aDaysAgo = (days: number): string =>
+  date_fns.format(date_fns.subDays(Date.now(), days), "yyyy-MM-dd");
+
+const aWatermark = (lastProcessedDate: string, lastVisitedDate?: string) =>
+  O.some({
+    lastProcessedDate,
+    lastVisitedDate: lastVisitedDate ?? lastProcessedDate
+  });
 
 const getExpiredEycaUsersMock = jest.fn();
 jest
@@ -52,6 +93,11 @@ jest
 describe("UpdateExpiredCgn", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    getExpirationWatermarkMock.mockImplementation(() => TE.of(O.none));
+    updateExpirationWatermarkMock.mockImplementation(() => TE.of(void 0));
+    getFailedExpirationsMock.mockImplementation(() => TE.of([]));
+    storeFailedExpirationsMock.mockImplementation(() => TE.of(void 0));
+    deleteFailedExpirationsMock.mockImplementation(() => TE.of(void 0));
   });
   it("should process all fiscalCodes present on table", async () => {
     getExpiredEycaUsersMock.mockImplementationOnce(() =>
@@ -59,7 +105,10 @@ describe("UpdateExpiredCgn", () => {
     );
     const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
       tableServiceMock as any,
-      expiredEycaTableName
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
     );
     await updateExpiredEycaHandler(context);
     expect(withFilterMock).toHaveBeenCalledWith(aTableServiceFilter);
@@ -72,7 +121,10 @@ describe("UpdateExpiredCgn", () => {
     );
     const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
       tableServiceMock as any,
-      expiredEycaTableName
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
     );
     await updateExpiredEycaHandler(context);
     expect(withFilterMock).toHaveBeenCalledWith(aTableServiceFilter);
@@ -83,7 +135,10 @@ describe("UpdateExpiredCgn", () => {
     getExpiredEycaUsersMock.mockImplementationOnce(() => TE.of([]));
     const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
       tableServiceMock as any,
-      expiredEycaTableName
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
     );
     await updateExpiredEycaHandler(context);
     expect(withFilterMock).toHaveBeenCalledWith(aTableServiceFilter);
@@ -96,7 +151,10 @@ describe("UpdateExpiredCgn", () => {
     );
     const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
       tableServiceMock as any,
-      expiredEycaTableName
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
     );
     await updateExpiredEycaHandler(context);
     expect(withFilterMock).toHaveBeenCalledWith(aTableServiceFilter);
@@ -119,7 +177,10 @@ describe("UpdateExpiredCgn", () => {
     );
     const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
       tableServiceMock as any,
-      expiredEycaTableName
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
     );
     await updateExpiredEycaHandler(context);
     expect(withFilterMock).toHaveBeenCalledWith(aTableServiceFilter);
@@ -128,7 +189,139 @@ describe("UpdateExpiredCgn", () => {
     expect(trackExceptionMock).toHaveBeenCalledWith({
       exception: expect.anything(),
       properties: {
-        id: "RODFDS82S10H501T",
+        id: "RODFDS82S10H501K",
+        name: "eyca.expiration.error"
+      },
+      tagOverrides: { samplingEnabled: "false" }
+    });
+  });
+
+  it("should process every day following the watermark up to today", async () => {
+    getExpirationWatermarkMock.mockImplementationOnce(() =>
+      TE.of(aWatermark(aDaysAgo(3)))
+    );
+    getExpiredEycaUsersMock.mockImplementation(() => TE.of(aSetOfExpiredRows));
+    const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
+      tableServiceMock as any,
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
+    );
+    const run = await updateExpiredEycaHandler(context);
+    expect(run).toEqual({
+      failedExpirations: 0,
+      processedDays: [aDaysAgo(2), aDaysAgo(1), aDaysAgo(0)]
+    });
+    expect(getExpiredEycaUsersMock).toHaveBeenCalledTimes(3);
+    expect(getExpiredEycaUsersMock).toHaveBeenNthCalledWith(
+      1,
+      undefined,
+      expiredEycaTableName,
+      aDaysAgo(2)
+    );
+    expect(mockStartNew).toBeCalledTimes(aSetOfExpiredRows.length * 3);
+    expect(updateExpirationWatermarkMock).toHaveBeenCalledTimes(3);
+    expect(updateExpirationWatermarkMock).toHaveBeenLastCalledWith({
+      lastProcessedDate: aDaysAgo(0),
+      lastVisitedDate: aDaysAgo(0)
+    });
+  });
+
+  it("should not process any day if the watermark is already up to date", async () => {
+    getExpirationWatermarkMock.mockImplementationOnce(() =>
+      TE.of(aWatermark(aDaysAgo(0)))
+    );
+    const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
+      tableServiceMock as any,
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
+    );
+    await updateExpiredEycaHandler(context);
+    expect(getExpiredEycaUsersMock).not.toHaveBeenCalled();
+    expect(updateExpirationWatermarkMock).not.toHaveBeenCalled();
+  });
+
+  it("should process the following days when a card fails to expire", async () => {
+    getExpirationWatermarkMock.mockImplementationOnce(() =>
+      TE.of(aWatermark(aDaysAgo(3)))
+    );
+    getExpiredEycaUsersMock.mockImplementation(() => TE.of(aSetOfExpiredRows));
+    mockStartNew
+      .mockImplementationOnce(async () => "id")
+      .mockImplementationOnce(async () => "id")
+      .mockImplementationOnce(() => Promise.reject(new Error("Error")));
+    const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
+      tableServiceMock as any,
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
+    );
+    const run = await updateExpiredEycaHandler(context);
+    expect(run).toEqual({
+      failedExpirations: 1,
+      processedDays: [aDaysAgo(2), aDaysAgo(1), aDaysAgo(0)]
+    });
+    expect(mockStartNew).toBeCalledTimes(aSetOfExpiredRows.length * 3);
+    expect(storeFailedExpirationsMock).toHaveBeenCalledWith([
+      { day: aDaysAgo(1), fiscalCode: aSetOfExpiredRows[0].fiscalCode }
+    ]);
+    // the watermark is kept at the day before the failed expiration
+    expect(updateExpirationWatermarkMock).toHaveBeenLastCalledWith({
+      lastProcessedDate: aDaysAgo(2),
+      lastVisitedDate: aDaysAgo(0)
+    });
+  });
+
+  it("should retry only the cards that failed to expire", async () => {
+    getExpirationWatermarkMock.mockImplementationOnce(() =>
+      TE.of(aWatermark(aDaysAgo(2), aDaysAgo(0)))
+    );
+    getFailedExpirationsMock.mockImplementationOnce(() =>
+      TE.of([{ day: aDaysAgo(1), fiscalCode: aSetOfExpiredRows[0].fiscalCode }])
+    );
+    getExpiredEycaUsersMock.mockImplementation(() => TE.of(aSetOfExpiredRows));
+    const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
+      tableServiceMock as any,
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
+    );
+    const run = await updateExpiredEycaHandler(context);
+    expect(run).toEqual({ failedExpirations: 0, processedDays: [] });
+    expect(getExpiredEycaUsersMock).toHaveBeenCalledTimes(1);
+    expect(mockStartNew).toBeCalledTimes(1);
+    expect(deleteFailedExpirationsMock).toHaveBeenCalledWith([
+      { day: aDaysAgo(1), fiscalCode: aSetOfExpiredRows[0].fiscalCode }
+    ]);
+    expect(updateExpirationWatermarkMock).toHaveBeenCalledWith({
+      lastProcessedDate: aDaysAgo(0),
+      lastVisitedDate: aDaysAgo(0)
+    });
+  });
+
+  it("should not process any day if the watermark cannot be retrieved", async () => {
+    getExpirationWatermarkMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot retrieve watermark"))
+    );
+    const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
+      tableServiceMock as any,
+      expiredEycaTableName,
+      aWatermarkTableName,
+      aMaxCatchUpDays,
+      systemClock
+    );
+    await updateExpiredEycaHandler(context);
+    expect(getExpiredEycaUsersMock).not.toHaveBeenCalled();
+    expect(mockStartNew).not.toHaveBeenCalled();
+    expect(trackExceptionMock).toHaveBeenCalledWith({
+      exception: expect.anything(),
+      properties: {
+        id: expect.anything(),
         name: "eyca.expiration.error"
       },
       tagOverrides: { samplingEnabled: "false" }
@@ -1,17 +1,34 @@
-﻿import { Context } from "@azure/functions";
-import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+﻿/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { ExponentialRetryPolicyFilter, TableService } from "azure-storage";
-import * as date_fns from "date-fns";
 import * as df from "durable-functions";
-import * as A from "fp-ts/lib/Array";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as T from "fp-ts/lib/Task";
 import * as TE from "fp-ts/lib/TaskEither";
 import { OrchestratorInput } from "../ExpireEycaOrchestrator/index";
 import { StatusEnum as CardExpiredStatusEnum } from "../generated/definitions/CardExpired";
 import { StatusEnum } from "../generated/definitions/CardPending";
 import { initTelemetryClient, trackException } from "../utils/appinsights";
-import { getExpiredCardUsers } from "../utils/card_expiration";
+import {
+  ExpiredCardRowKey,
+  ExpiringCardTypeEnum,
+  getExpiredCardUsers,
+  ICardExpirationOrchestratorIds,
+  runExpirationTasks,
+  toFailedFiscalCodes
+} from "../utils/card_expiration";
+import { Clock } from "../utils/clock";
+import { formatRomeDate } from "../utils/dates";
+import {
+  IExpirationRun,
+  ProcessDay,
+  processDaysFromWatermark
+} from "../utils/expiration_watermark";
 import {
   makeEycaOrchestratorId,
   terminateOrchestratorById
@@ -22,28 +39,130 @@ const finish = (): Promise<void> => Promise.resolve(void 0);
 initTelemetryClient();
 const ORCHESTRATION_TERMINATION_REASON = "An highest priority EYCA expire orchestrator needs to start" as NonEmptyString;
 
+export const getEycaExpirationOrchestratorIds = (
+  fiscalCode: FiscalCode
+): ICardExpirationOrchestratorIds => ({
+  toStart: makeEycaOrchestratorId(fiscalCode, CardExpiredStatusEnum.EXPIRED),
+  toTerminate: [makeEycaOrchestratorId(fiscalCode, StatusEnum.PENDING)]
+});
+
+/**
+ * Returns a task that triggers an expire orchestrator
+ * for a user's EYC Card that expires
+ *
+ * @returns the id of the started orchestrator
+ */
+export const getExpireEycaCardTask = (
+  client: DurableOrchestrationClient,
+  context: Context,
+  logPrefix: string
+) => ({ fiscalCode }: ExpiredCardRowKey): TE.TaskEither<Error, string> =>
+  // first we terminate other possible EYCA activation orchestrators
+  pipe(
+    getEycaExpirationOrchestratorIds(fiscalCode).toTerminate,
+    RA.traverse(TE.ApplicativeSeq)(orchestratorId =>
+      terminateOrchestratorById(
+        orchestratorId,
+        client,
+        ORCHESTRATION_TERMINATION_REASON
+      )
+    ),
+    TE.chain(() => {
+      context.log.info(
+        `${logPrefix}| Starting new EYCA expire orchestrator for fiscalCode=${fiscalCode.substr(
+          0,
+          6
+        )}`
+      );
+      // Now we try to start Expire operation
+      return TE.tryCatch(
+        () =>
+          client.startNew(
+            "ExpireEycaOrchestrator",
+            getEycaExpirationOrchestratorIds(fiscalCode).toStart,
+            OrchestratorInput.encode({
+              fiscalCode
+            })
+          ),
+        E.toError
+      );
+    }),
+    TE.mapLeft(err => {
+      context.log.error(
+        `${logPrefix}|Error while starting EYCA expiration for fiscalCode=${fiscalCode.substr(
+          0,
+          6
+        )}|ERROR=${err.message}`
+      );
+      trackException({
+        exception: err,
+        properties: {
+          id: fiscalCode,
+          name: "eyca.expiration.error"
+        },
+        tagOverrides: { samplingEnabled: "false" }
+      });
+      return err;
+    })
+  );
+
 export const getUpdateExpiredEycaHandler = (
   tableService: TableService,
   eycaExpirationTableName: NonEmptyString,
+  watermarkTableName: NonEmptyString,
+  maxCatchUpDays: NonNegativeInteger,
+  clock: Clock,
   logPrefix: string = "UpdateExpiredEycaHandler"
-) => async (
-  context: Context
-): Promise<ReadonlyArray<E.Either<Error, ReadonlyArray<string>>> | void> => {
-  const today = date_fns.format(Date.now(), "yyyy-MM-dd");
+) => async (context: Context): Promise<IExpirationRun | void> => {
+  const now = clock();
+  const today = formatRomeDate(now);
+  const expireEycaCard = getExpireEycaCardTask(
+    df.getClient(context),
+    context,
+    logPrefix
+  );
+  // using custom Exponential backoff retry policy for expired card's query operation
+  const expiredCardTableService = tableService.withFilter(
+    new ExponentialRetryPolicyFilter(5)
+  );
 
-  const errorOrExpiredEycaUsers = await getExpiredCardUsers(
-    // using custom Exponential backoff retry policy for expired card's query operation
-    tableService.withFilter(new ExponentialRetryPolicyFilter(5)),
-    eycaExpirationTableName,
-    today
+  // an EYCA card has expired once its expire orchestrator has started
+  const processDay: ProcessDay = (day, isToProcess) =>
+    pipe(
+      getExpiredCardUsers(
+        expiredCardTableService,
+        eycaExpirationTableName,
+        day
+      ),
+      TE.map(RA.filter(_ => isToProcess(_.fiscalCode))),
+      TE.chain(expiredEycaUsers => {
+        context.log.info(
+          `${logPrefix}|Processing ${expiredEycaUsers.length} Eyca cards expired on ${day}`
+        );
+        return TE.fromTask(
+          pipe(
+            runExpirationTasks(expiredEycaUsers.map(expireEycaCard)),
+            T.map(toFailedFiscalCodes(expiredEycaUsers))
+          )
+        );
+      })
+    );
+
+  const errorOrProcessedDays = await processDaysFromWatermark(
+    tableService,
+    watermarkTableName,
+    ExpiringCardTypeEnum.EYCA,
+    now,
+    maxCatchUpDays,
+    processDay
   )();
 
-  if (E.isLeft(errorOrExpiredEycaUsers)) {
+  if (E.isLeft(errorOrProcessedDays)) {
     context.log.verbose(
-      `${logPrefix}|ERROR=${errorOrExpiredEycaUsers.left.message}`
+      `${logPrefix}|ERROR=${errorOrProcessedDays.left.message}`
     );
     trackException({
-      exception: errorOrExpiredEycaUsers.left,
+      exception: errorOrProcessedDays.left,
       properties: {
         id: `${today}.eyca.expiration`,
         name: "eyca.expiration.error"
@@ -53,69 +172,8 @@ export const getUpdateExpiredEycaHandler = (
     return finish();
   }
 
-  const expiredEycaUsers = errorOrExpiredEycaUsers.right;
   context.log.info(
-    `${logPrefix}|Processing ${expiredEycaUsers.length} expired Eyca cards`
-  );
-
-  const client = df.getClient(context);
-  // trigger an update orchestrator for each user's EYC Card that expires
-
-  const tasks = expiredEycaUsers.map(({ fiscalCode }) =>
-    // first we terminate other possible EYCA activation orchestrators
-    pipe(
-      terminateOrchestratorById(
-        makeEycaOrchestratorId(fiscalCode, StatusEnum.PENDING),
-        client,
-        ORCHESTRATION_TERMINATION_REASON
-      ),
-      TE.chain(() => {
-        context.log.info(
-          `${logPrefix}| Starting new EYCA expire orchestrator for fiscalCode=${fiscalCode.substr(
-            0,
-            6
-          )}`
-        );
-        // Now we try to start Expire operation
-        return TE.tryCatch(
-          () =>
-            client.startNew(
-              "ExpireEycaOrchestrator",
-              makeEycaOrchestratorId(fiscalCode, CardExpiredStatusEnum.EXPIRED),
-              OrchestratorInput.encode({
-                fiscalCode
-              })
-            ),
-          E.toError
-        );
-      }),
-      TE.mapLeft(err => {
-        context.log.error(
-          `${logPrefix}|Error while starting EYCA expiration for fiscalCode=${fiscalCode.substr(
-            0,
-            6
-          )}|ERROR=${err.message}`
-        );
-        trackException({
-          exception: err,
-          properties: {
-            id: fiscalCode,
-            name: "eyca.expiration.error"
-          },
-          tagOverrides: { samplingEnabled: "false" }
-        });
-        return err;
-      })
-    )
+    `${logPrefix}|Processed Eyca card expirations of ${errorOrProcessedDays.right.processedDays.length} days|FAILED=${errorOrProcessedDays.right.failedExpirations}`
   );
-
-  // eslint-disable-next-line functional/prefer-readonly-type
-  const results = [];
-  const tasksChunks = A.chunksOf(100)(tasks);
-  for (const tasksChunk of tasksChunks) {
-    // eslint-disable-next-line functional/prefer-readonly-type
-    // eslint-disable-next-line functional/immutable-data
-    results.push(await A.sequence(TE.ApplicativePar)(tasksChunk)());
-  }
-  return results;
+  return errorOrProcessedDays.right;
 };
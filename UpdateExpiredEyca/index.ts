@@ -1,14 +1,20 @@
 ﻿import { createTableService } from "azure-storage";
+import { getClock } from "../utils/clock";
 import { getConfigOrThrow } from "../utils/config";
 import { getUpdateExpiredEycaHandler } from "./handler";
 
 const config = getConfigOrThrow();
 
+const clock = getClock(config);
+
 const tableService = createTableService(config.CGN_STORAGE_CONNECTION_STRING);
 
 const updateExpiredEycaHandler = getUpdateExpiredEycaHandler(
   tableService,
-  config.EYCA_EXPIRATION_TABLE_NAME
+  config.EYCA_EXPIRATION_TABLE_NAME,
+  config.CARD_EXPIRATION_WATERMARK_TABLE_NAME,
+  config.CARD_EXPIRATION_MAX_CATCH_UP_DAYS,
+  clock
 );
 
 export default updateExpiredEycaHandler;
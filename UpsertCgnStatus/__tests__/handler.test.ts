@@ -5,6 +5,7 @@ import {
   ResponseSuccessAccepted
 } from "@pagopa/ts-commons/lib/responses";
 import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { addDays } from "date-fns";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 import { mockStartNew } from "../../__mocks__/durable-functions";
@@ -17,16 +18,27 @@ import {
   CardRevoked,
   StatusEnum as RevokedStatusEnum
 } from "../../generated/definitions/CardRevoked";
+import { StatusEnum as ActivatedStatusEnum } from "../../generated/definitions/CardActivated";
 import {
-  ActionEnum,
-  CgnStatusUpsertRequest
-} from "../../generated/definitions/CgnStatusUpsertRequest";
+  CardActivated,
+  StatusEnum as ActivatedCardStatusEnum
+} from "../../generated/definitions/CardActivated";
+import {
+  CardSuspended,
+  StatusEnum as SuspendedStatusEnum
+} from "../../generated/definitions/CardSuspended";
+import { ActionEnum as ReactivationActionEnum } from "../../generated/definitions/CgnStatusReactivationRequest";
+import { ActionEnum as ResumptionActionEnum } from "../../generated/definitions/CgnStatusResumptionRequest";
+import { ActionEnum as SuspensionActionEnum } from "../../generated/definitions/CgnStatusSuspensionRequest";
+import { ActionEnum } from "../../generated/definitions/CgnStatusRevocationRequest";
+import { CgnStatusUpsertRequest } from "../../generated/definitions/CgnStatusUpsertRequest";
 import { UserCgn } from "../../models/user_cgn";
+import { systemClock } from "../../utils/clock";
 import * as orchUtils from "../../utils/orchestrators";
 import { UpsertCgnStatusHandler } from "../handler";
 
 const now = new Date();
-const aFiscalCode = "RODFDS82S10H501T" as FiscalCode;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
 const aCgnUpsertStatusRequest: CgnStatusUpsertRequest = {
   action: ActionEnum.REVOKE,
   revocation_reason: "aMotivation" as NonEmptyString
@@ -39,6 +51,32 @@ const aUserCardRevoked: CardRevoked = {
   status: RevokedStatusEnum.REVOKED
 };
 
+const aCgnReactivationRequest: CgnStatusUpsertRequest = {
+  action: ReactivationActionEnum.REACTIVATE
+};
+
+const aCgnSuspensionRequest: CgnStatusUpsertRequest = {
+  action: SuspensionActionEnum.SUSPEND,
+  reason: "aSuspensionReason" as NonEmptyString,
+  resume_date: addDays(now, 7)
+};
+
+const aCgnResumptionRequest: CgnStatusUpsertRequest = {
+  action: ResumptionActionEnum.RESUME
+};
+
+const aUserCardActivated: CardActivated = {
+  ...cgnActivatedDates,
+  status: ActivatedCardStatusEnum.ACTIVATED
+};
+
+const aUserCardSuspended: CardSuspended = {
+  ...cgnActivatedDates,
+  reason: "aSuspensionReason" as NonEmptyString,
+  status: SuspendedStatusEnum.SUSPENDED,
+  suspension_date: now
+};
+
 const aUserCardPending: CardPending = {
   status: StatusEnum.PENDING
 };
@@ -58,6 +96,12 @@ const checkUpdateCardIsRunningMock = jest.fn();
 jest
   .spyOn(orchUtils, "checkUpdateCardIsRunning")
   .mockImplementation(checkUpdateCardIsRunningMock);
+const terminateUpdateCgnOrchestratorTaskMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(void 0));
+jest
+  .spyOn(orchUtils, "terminateUpdateCgnOrchestratorTask")
+  .mockImplementation(terminateUpdateCgnOrchestratorTaskMock);
 describe("UpsertCgnStatus", () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -68,7 +112,8 @@ describe("UpsertCgnStatus", () => {
       TE.left(toCosmosErrorResponse(new Error("query error")))
     );
     const upsertCgnStatusHandler = UpsertCgnStatusHandler(
-      userCgnModelMock as any
+      userCgnModelMock as any,
+      systemClock
     );
     const response = await upsertCgnStatusHandler(
       {} as any,
@@ -81,7 +126,8 @@ describe("UpsertCgnStatus", () => {
   it("should return Not Found if no UserCgn was found for the provided fiscal code", async () => {
     findLastVersionByModelIdMock.mockImplementationOnce(() => TE.of(O.none));
     const upsertCgnStatusHandler = UpsertCgnStatusHandler(
-      userCgnModelMock as any
+      userCgnModelMock as any,
+      systemClock
     );
     const response = await upsertCgnStatusHandler(
       {} as any,
@@ -99,7 +145,8 @@ describe("UpsertCgnStatus", () => {
       TE.left(ResponseErrorInternal("Error"))
     );
     const upsertCgnStatusHandler = UpsertCgnStatusHandler(
-      userCgnModelMock as any
+      userCgnModelMock as any,
+      systemClock
     );
     const response = await upsertCgnStatusHandler(
       {} as any,
@@ -117,7 +164,8 @@ describe("UpsertCgnStatus", () => {
       TE.left(ResponseSuccessAccepted())
     );
     const upsertCgnStatusHandler = UpsertCgnStatusHandler(
-      userCgnModelMock as any
+      userCgnModelMock as any,
+      systemClock
     );
     const response = await upsertCgnStatusHandler(
       {} as any,
@@ -133,7 +181,8 @@ describe("UpsertCgnStatus", () => {
     );
     checkUpdateCardIsRunningMock.mockImplementationOnce(() => TE.of(false));
     const upsertCgnStatusHandler = UpsertCgnStatusHandler(
-      userCgnModelMock as any
+      userCgnModelMock as any,
+      systemClock
     );
     await upsertCgnStatusHandler(
       {} as any,
@@ -142,4 +191,216 @@ describe("UpsertCgnStatus", () => {
     );
     expect(mockStartNew).toBeCalledTimes(1);
   });
+
+  it("should return Conflict when reactivating a CGN which is not revoked", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aRevokedUserCgn, card: aUserCardPending }))
+    );
+    const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await upsertCgnStatusHandler(
+      {} as any,
+      aFiscalCode,
+      aCgnReactivationRequest
+    );
+    expect(response.kind).toBe("IResponseErrorConflict");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return Conflict when reactivating a revoked CGN which is expired", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...aRevokedUserCgn,
+          card: { ...aUserCardRevoked, expiration_date: addDays(now, -1) }
+        })
+      )
+    );
+    const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await upsertCgnStatusHandler(
+      {} as any,
+      aFiscalCode,
+      aCgnReactivationRequest
+    );
+    expect(response.kind).toBe("IResponseErrorConflict");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should start a new orchestrator restoring the original dates of a revoked CGN", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some(aRevokedUserCgn))
+    );
+    checkUpdateCardIsRunningMock.mockImplementationOnce(() => TE.of(false));
+    const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await upsertCgnStatusHandler(
+      {} as any,
+      aFiscalCode,
+      aCgnReactivationRequest
+    );
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(mockStartNew).toBeCalledWith(
+      "UpdateCgnOrchestrator",
+      `${aFiscalCode}-UPDCGN-ACTIVATED`,
+      {
+        fiscalCode: aFiscalCode,
+        restoredFrom: RevokedStatusEnum.REVOKED,
+        newStatusCard: {
+          activation_date: cgnActivatedDates.activation_date.toISOString(),
+          expiration_date: cgnActivatedDates.expiration_date.toISOString(),
+          status: ActivatedStatusEnum.ACTIVATED
+        }
+      }
+    );
+  });
+
+  it("should return Conflict when suspending a CGN which is not activated", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some(aRevokedUserCgn))
+    );
+    const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await upsertCgnStatusHandler(
+      {} as any,
+      aFiscalCode,
+      aCgnSuspensionRequest
+    );
+    expect(response.kind).toBe("IResponseErrorConflict");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it.each`
+    title                          | resumeDate
+    ${"in the past"}               | ${addDays(now, -1)}
+    ${"after the card expiration"} | ${addDays(cgnActivatedDates.expiration_date, 1)}
+  `(
+    "should return a Validation Error when suspending a CGN with a resume date $title",
+    async ({ resumeDate }) => {
+      findLastVersionByModelIdMock.mockImplementationOnce(() =>
+        TE.of(O.some({ ...aRevokedUserCgn, card: aUserCardActivated }))
+      );
+      const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+        userCgnModelMock as any,
+        systemClock
+      );
+      const response = await upsertCgnStatusHandler({} as any, aFiscalCode, {
+        ...aCgnSuspensionRequest,
+        resume_date: resumeDate
+      });
+      expect(response.kind).toBe("IResponseErrorValidation");
+      expect(mockStartNew).not.toHaveBeenCalled();
+    }
+  );
+
+  it("should start a new orchestrator suspending an activated CGN", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aRevokedUserCgn, card: aUserCardActivated }))
+    );
+    checkUpdateCardIsRunningMock.mockImplementationOnce(() => TE.of(false));
+    const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await upsertCgnStatusHandler(
+      {} as any,
+      aFiscalCode,
+      aCgnSuspensionRequest
+    );
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(terminateUpdateCgnOrchestratorTaskMock).not.toHaveBeenCalled();
+    expect(mockStartNew).toBeCalledWith(
+      "UpdateCgnOrchestrator",
+      `${aFiscalCode}-UPDCGN-SUSPENDED`,
+      {
+        fiscalCode: aFiscalCode,
+        newStatusCard: expect.objectContaining({
+          reason: "aSuspensionReason",
+          resume_date: addDays(now, 7).toISOString(),
+          status: SuspendedStatusEnum.SUSPENDED
+        })
+      }
+    );
+  });
+
+  it("should return Conflict when resuming a CGN which is not suspended", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some(aRevokedUserCgn))
+    );
+    const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await upsertCgnStatusHandler(
+      {} as any,
+      aFiscalCode,
+      aCgnResumptionRequest
+    );
+    expect(response.kind).toBe("IResponseErrorConflict");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should terminate the pending resume before resuming a suspended CGN", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aRevokedUserCgn, card: aUserCardSuspended }))
+    );
+    checkUpdateCardIsRunningMock.mockImplementationOnce(() => TE.of(false));
+    const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await upsertCgnStatusHandler(
+      {} as any,
+      aFiscalCode,
+      aCgnResumptionRequest
+    );
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(terminateUpdateCgnOrchestratorTaskMock).toHaveBeenCalledWith(
+      expect.anything(),
+      aFiscalCode,
+      SuspendedStatusEnum.SUSPENDED,
+      expect.any(String)
+    );
+    expect(mockStartNew).toBeCalledWith(
+      "UpdateCgnOrchestrator",
+      `${aFiscalCode}-UPDCGN-ACTIVATED`,
+      {
+        fiscalCode: aFiscalCode,
+        newStatusCard: {
+          activation_date: cgnActivatedDates.activation_date.toISOString(),
+          expiration_date: cgnActivatedDates.expiration_date.toISOString(),
+          status: ActivatedStatusEnum.ACTIVATED
+        },
+        restoredFrom: SuspendedStatusEnum.SUSPENDED
+      }
+    );
+  });
+
+  it("should return an Internal Error if the pending resume cannot be terminated", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aRevokedUserCgn, card: aUserCardSuspended }))
+    );
+    terminateUpdateCgnOrchestratorTaskMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot terminate"))
+    );
+    const upsertCgnStatusHandler = UpsertCgnStatusHandler(
+      userCgnModelMock as any,
+      systemClock
+    );
+    const response = await upsertCgnStatusHandler(
+      {} as any,
+      aFiscalCode,
+      aCgnUpsertStatusRequest
+    );
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
 });
@@ -12,31 +12,60 @@ import {
   IResponseErrorConflict,
   IResponseErrorInternal,
   IResponseErrorNotFound,
+  IResponseErrorValidation,
   IResponseSuccessAccepted,
   IResponseSuccessRedirectToResource,
+  ResponseErrorConflict,
   ResponseErrorInternal,
   ResponseErrorNotFound,
+  ResponseErrorValidation,
   ResponseSuccessRedirectToResource
 } from "@pagopa/ts-commons/lib/responses";
 import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
 import * as df from "durable-functions";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
 import * as TE from "fp-ts/lib/TaskEither";
+import { Card } from "../generated/definitions/Card";
+import {
+  CardActivated,
+  StatusEnum as ActivatedStatusEnum
+} from "../generated/definitions/CardActivated";
 import { StatusEnum as PendingStatusEnum } from "../generated/definitions/CardPending";
 
-import { StatusEnum } from "../generated/definitions/CardRevoked";
+import { CardRevoked, StatusEnum } from "../generated/definitions/CardRevoked";
+import {
+  CardSuspended,
+  StatusEnum as SuspendedStatusEnum
+} from "../generated/definitions/CardSuspended";
+import { ActionEnum as ReactivationActionEnum } from "../generated/definitions/CgnStatusReactivationRequest";
+import { ActionEnum as ResumptionActionEnum } from "../generated/definitions/CgnStatusResumptionRequest";
+import { CgnStatusRevocationRequest } from "../generated/definitions/CgnStatusRevocationRequest";
+import {
+  ActionEnum as SuspensionActionEnum,
+  CgnStatusSuspensionRequest
+} from "../generated/definitions/CgnStatusSuspensionRequest";
 import { CgnStatusUpsertRequest } from "../generated/definitions/CgnStatusUpsertRequest";
 import { InstanceId } from "../generated/definitions/InstanceId";
 import { UserCgnModel } from "../models/user_cgn";
-import { OrchestratorInput } from "../UpdateCgnOrchestrator/handler";
-import { makeUpdateCgnOrchestratorId } from "../utils/orchestrators";
+import {
+  OrchestratorInput,
+  RestoredStatus
+} from "../UpdateCgnOrchestrator/handler";
+import { Clock } from "../utils/clock";
+import {
+  makeUpdateCgnOrchestratorId,
+  terminateUpdateCgnOrchestratorTask
+} from "../utils/orchestrators";
 import { checkUpdateCardIsRunning } from "../utils/orchestrators";
 
 type ErrorTypes =
   | IResponseErrorInternal
   | IResponseErrorNotFound
-  | IResponseErrorConflict;
+  | IResponseErrorConflict
+  | IResponseErrorValidation;
 type ReturnTypes =
   | IResponseSuccessAccepted
   | IResponseSuccessRedirectToResource<InstanceId, InstanceId>
@@ -48,15 +77,149 @@ type IUpsertCgnStatusHandler = (
   cgnStatusUpsertRequest: CgnStatusUpsertRequest
 ) => Promise<ReturnTypes>;
 
+const RESUME_TERMINATION_REASON = "The suspended CGN has been updated before its resume date" as NonEmptyString;
+
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-const toCgnStatus = (cgnStatusUpsertRequest: CgnStatusUpsertRequest) => ({
-  revocation_date: new Date(),
+const toCgnStatus = (
+  cgnStatusUpsertRequest: CgnStatusRevocationRequest,
+  now: Date
+) => ({
+  revocation_date: now,
   revocation_reason: cgnStatusUpsertRequest.revocation_reason,
   status: StatusEnum.REVOKED
 });
 
+const toRevokedCard = (
+  card: Card,
+  cgnStatusRevocationRequest: CgnStatusRevocationRequest,
+  now: Date
+): Card =>
+  card.status !== PendingStatusEnum.PENDING
+    ? {
+        ...toCgnStatus(cgnStatusRevocationRequest, now),
+        activation_date: card.activation_date,
+        expiration_date: card.expiration_date
+      }
+    : {
+        status: card.status
+      };
+
+/**
+ * Restores a revoked or suspended card with its original activation
+ * and expiration dates, provided that it has not passed its expiration yet.
+ */
+const toRestoredCard = (
+  card: CardRevoked | CardSuspended,
+  now: Date
+): E.Either<IResponseErrorConflict, CardActivated> =>
+  !date_fns.isAfter(card.expiration_date, now)
+    ? E.left(ResponseErrorConflict("An expired CGN cannot be restored"))
+    : E.right({
+        activation_date: card.activation_date,
+        expiration_date: card.expiration_date,
+        status: ActivatedStatusEnum.ACTIVATED
+      });
+
+const toSuspendedCard = (
+  card: Card,
+  cgnStatusSuspensionRequest: CgnStatusSuspensionRequest,
+  now: Date
+): E.Either<IResponseErrorConflict | IResponseErrorValidation, Card> =>
+  !CardActivated.is(card)
+    ? E.left(ResponseErrorConflict("Only an activated CGN can be suspended"))
+    : cgnStatusSuspensionRequest.resume_date !== undefined &&
+      (!date_fns.isAfter(cgnStatusSuspensionRequest.resume_date, now) ||
+        !date_fns.isBefore(
+          cgnStatusSuspensionRequest.resume_date,
+          card.expiration_date
+        ))
+    ? E.left(
+        ResponseErrorValidation(
+          "Invalid resume date",
+          "The resume date must be in the future and precede the CGN expiration"
+        )
+      )
+    : E.right({
+        activation_date: card.activation_date,
+        expiration_date: card.expiration_date,
+        reason: cgnStatusSuspensionRequest.reason,
+        resume_date: cgnStatusSuspensionRequest.resume_date,
+        status: SuspendedStatusEnum.SUSPENDED,
+        suspension_date: now
+      });
+
+/**
+ * Returns the card resulting from the requested action,
+ * or the reason why the action cannot be applied to the current card.
+ */
+const toNewStatusCard = (
+  card: Card,
+  cgnStatusUpsertRequest: CgnStatusUpsertRequest,
+  now: Date
+): E.Either<IResponseErrorConflict | IResponseErrorValidation, Card> => {
+  switch (cgnStatusUpsertRequest.action) {
+    case ReactivationActionEnum.REACTIVATE:
+      return CardRevoked.is(card)
+        ? toRestoredCard(card, now)
+        : E.left(
+            ResponseErrorConflict("Only a revoked CGN can be reactivated")
+          );
+    case ResumptionActionEnum.RESUME:
+      return CardSuspended.is(card)
+        ? toRestoredCard(card, now)
+        : E.left(ResponseErrorConflict("Only a suspended CGN can be resumed"));
+    case SuspensionActionEnum.SUSPEND:
+      return toSuspendedCard(card, cgnStatusUpsertRequest, now);
+    default:
+      return E.right(toRevokedCard(card, cgnStatusUpsertRequest, now));
+  }
+};
+
+/**
+ * The status the update orchestrator is named after for each action
+ */
+const toUpdateStatus = (
+  cgnStatusUpsertRequest: CgnStatusUpsertRequest
+): string => {
+  switch (cgnStatusUpsertRequest.action) {
+    case ReactivationActionEnum.REACTIVATE:
+    case ResumptionActionEnum.RESUME:
+      return ActivatedStatusEnum.ACTIVATED;
+    case SuspensionActionEnum.SUSPEND:
+      return SuspendedStatusEnum.SUSPENDED;
+    default:
+      return StatusEnum.REVOKED;
+  }
+};
+
+/**
+ * A suspended card could have an orchestrator still waiting to resume it,
+ * which has to be terminated before the card is updated again.
+ */
+const terminateWaitingResume = (
+  client: DurableOrchestrationClient,
+  fiscalCode: FiscalCode,
+  card: Card
+): TE.TaskEither<IResponseErrorInternal, void> =>
+  CardSuspended.is(card)
+    ? pipe(
+        terminateUpdateCgnOrchestratorTask(
+          client,
+          fiscalCode,
+          SuspendedStatusEnum.SUSPENDED,
+          RESUME_TERMINATION_REASON
+        ),
+        TE.mapLeft(err =>
+          ResponseErrorInternal(
+            `Cannot terminate the pending CGN resume| ${err.message}`
+          )
+        )
+      )
+    : TE.of(void 0);
+
 export const UpsertCgnStatusHandler = (
   userCgnModel: UserCgnModel,
+  clock: Clock,
   logPrefix: string = "UpsertCgnStatusHandler"
 ): IUpsertCgnStatusHandler => async (
   context,
@@ -66,41 +229,28 @@ export const UpsertCgnStatusHandler = (
   const client = df.getClient(context);
   const orchestratorId = makeUpdateCgnOrchestratorId(
     fiscalCode,
-    StatusEnum.REVOKED
+    toUpdateStatus(cgnStatusUpsertRequest)
   ) as NonEmptyString;
   return pipe(
-    cgnStatusUpsertRequest,
-    TE.of,
-    TE.chain(upsertRequest =>
-      pipe(
-        userCgnModel.findLastVersionByModelId([fiscalCode]),
-        TE.bimap(
-          () =>
-            ResponseErrorInternal("Cannot retrieve CGN infos for this user"),
-          maybeUserCgn => ({ maybeUserCgn, card: toCgnStatus(upsertRequest) })
-        )
+    userCgnModel.findLastVersionByModelId([fiscalCode]),
+    TE.mapLeft(() =>
+      ResponseErrorInternal("Cannot retrieve CGN infos for this user")
+    ),
+    TE.chainW(
+      TE.fromOption(() =>
+        ResponseErrorNotFound("Not Found", "User's CGN status not found")
       )
     ),
-    TE.chainW(({ card, maybeUserCgn }) =>
+    TE.chainEitherKW(userCgn =>
       pipe(
-        maybeUserCgn,
-        TE.fromOption(() =>
-          ResponseErrorNotFound("Not Found", "User's CGN status not found")
-        ),
-        TE.map(userCgn =>
-          userCgn.card.status !== PendingStatusEnum.PENDING
-            ? {
-                ...card,
-                activation_date: userCgn.card.activation_date,
-                expiration_date: userCgn.card.expiration_date
-              }
-            : {
-                status: userCgn.card.status
-              }
-        )
+        toNewStatusCard(userCgn.card, cgnStatusUpsertRequest, clock()),
+        E.map(card => ({ card, currentCard: userCgn.card }))
       )
     ),
-    TE.chainW(card =>
+    TE.chainFirstW(({ currentCard }) =>
+      terminateWaitingResume(client, fiscalCode, currentCard)
+    ),
+    TE.chainW(({ card, currentCard }) =>
       pipe(
         checkUpdateCardIsRunning(client, fiscalCode, card),
         TE.chainW(() =>
@@ -112,7 +262,11 @@ export const UpsertCgnStatusHandler = (
                   orchestratorId,
                   OrchestratorInput.encode({
                     fiscalCode,
-                    newStatusCard: card
+                    newStatusCard: card,
+                    ...(CardActivated.is(card) &&
+                    RestoredStatus.is(currentCard.status)
+                      ? { restoredFrom: currentCard.status }
+                      : {})
                   })
                 ),
               E.toError
@@ -151,9 +305,10 @@ export const UpsertCgnStatusHandler = (
 };
 
 export const UpsertCgnStatus = (
-  userCgnModel: UserCgnModel
+  userCgnModel: UserCgnModel,
+  clock: Clock
 ): express.RequestHandler => {
-  const handler = UpsertCgnStatusHandler(userCgnModel);
+  const handler = UpsertCgnStatusHandler(userCgnModel, clock);
 
   const middlewaresWrap = withRequestMiddlewares(
     ContextMiddleware(),
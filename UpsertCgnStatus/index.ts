@@ -8,6 +8,7 @@ import { AzureContextTransport } from "@pagopa/io-functions-commons/dist/src/uti
 import { setAppContext } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
 
 import { USER_CGN_COLLECTION_NAME, UserCgnModel } from "../models/user_cgn";
+import { getClock } from "../utils/clock";
 import { getConfigOrThrow } from "../utils/config";
 import { cosmosdbClient } from "../utils/cosmosdb";
 import { UpsertCgnStatus } from "./handler";
@@ -18,6 +19,8 @@ import { UpsertCgnStatus } from "./handler";
 
 const config = getConfigOrThrow();
 
+const clock = getClock(config);
+
 const userCgnsContainer = cosmosdbClient
   .database(config.COSMOSDB_CGN_DATABASE_NAME)
   .container(USER_CGN_COLLECTION_NAME);
@@ -36,7 +39,10 @@ const app = express();
 secureExpressApp(app);
 
 // Add express route
-app.post("/api/v1/cgn/:fiscalcode/status", UpsertCgnStatus(userCgnModel));
+app.post(
+  "/api/v1/cgn/:fiscalcode/status",
+  UpsertCgnStatus(userCgnModel, clock)
+);
 
 const azureFunctionHandler = createAzureFunctionHandler(app);
 
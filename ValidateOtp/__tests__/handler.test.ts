@@ -0,0 +1,366 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode, cgnActivatedDates } from "../../__mocks__/mock";
+import * as redis_util from "../../GenerateOtp/redis";
+import {
+  CardActivated,
+  StatusEnum as ActivatedStatusEnum
+} from "../../generated/definitions/CardActivated";
+import {
+  CardRevoked,
+  StatusEnum as RevokedStatusEnum
+} from "../../generated/definitions/CardRevoked";
+import { DiscountId } from "../../generated/definitions/DiscountId";
+import { MerchantId } from "../../generated/definitions/MerchantId";
+import { OtpCode } from "../../generated/definitions/OtpCode";
+import { OtpValidationRequest } from "../../generated/definitions/OtpValidationRequest";
+import { UserCgn } from "../../models/user_cgn";
+import { systemClock } from "../../utils/clock";
+import { OtpModeEnum } from "../../utils/config";
+import { encrypt } from "../../utils/encryption";
+import { toKeyedHash } from "../../utils/hash";
+import {
+  generateTotpCode,
+  getTotpCounter,
+  TOTP_PERIOD_IN_SECONDS
+} from "../../utils/totp";
+import { ValidateOtpHandler } from "../handler";
+import { OtpRedemptionOutcomeEnum } from "../ledger";
+
+const anOtpCode = "AAAAAAAA123" as OtpCode;
+const aMerchantId = "A_MERCHANT_ID" as MerchantId;
+const aDiscountId = "A_DISCOUNT_ID" as DiscountId;
+const anOtpTtl = 600 as NonNegativeInteger;
+const anOtpSecretKey = "AN_OTP_SECRET_KEY" as NonEmptyString;
+const aTotpSkewWindow = 1 as NonNegativeInteger;
+
+const anOtpValidationRequest: OtpValidationRequest = {
+  merchant_id: aMerchantId,
+  otp_code: anOtpCode
+};
+
+const anOtpPayload: redis_util.OtpPayload = {
+  expiresAt: new Date(),
+  fiscalCode: aFiscalCode,
+  ttl: anOtpTtl
+};
+
+const anActivatedCgn: CardActivated = {
+  ...cgnActivatedDates,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const aRevokedCgn: CardRevoked = {
+  ...cgnActivatedDates,
+  revocation_date: new Date(),
+  revocation_reason: "A reason" as NonEmptyString,
+  status: RevokedStatusEnum.REVOKED
+};
+
+const aTotpSecret = "0123456789abcdef0123456789abcdef01234567" as NonEmptyString;
+
+const aUserCgn: UserCgn = {
+  card: anActivatedCgn,
+  fiscalCode: aFiscalCode,
+  id: "AN_ID" as NonEmptyString
+};
+
+const retrieveOtpPayloadByCodeMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(O.some(anOtpPayload)));
+jest
+  .spyOn(redis_util, "retrieveOtpPayloadByCode")
+  .mockImplementation(retrieveOtpPayloadByCodeMock);
+const consumeOtpMock = jest.fn().mockImplementation(() => TE.of(true));
+jest.spyOn(redis_util, "consumeOtp").mockImplementation(consumeOtpMock);
+const consumeTotpMock = jest.fn().mockImplementation(() => TE.of(true));
+jest.spyOn(redis_util, "consumeTotp").mockImplementation(consumeTotpMock);
+
+const findLastVersionByModelIdMock = jest
+  .fn()
+  .mockImplementation(() => TE.of(O.some(aUserCgn)));
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock
+};
+
+const storeOtpRedemptionMock = jest.fn().mockImplementation(() => TE.of({}));
+
+const getHandler = (otpMode: OtpModeEnum = OtpModeEnum.REDIS) =>
+  ValidateOtpHandler(
+    userCgnModelMock as any,
+    {} as any,
+    anOtpSecretKey,
+    storeOtpRedemptionMock,
+    otpMode,
+    aTotpSkewWindow,
+    systemClock
+  );
+
+describe("ValidateOtpHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return an internal error if OTP retrieve fails", async () => {
+    retrieveOtpPayloadByCodeMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot retrieve OTP"))
+    );
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(storeOtpRedemptionMock).not.toHaveBeenCalled();
+  });
+
+  it("should return not found and store the redemption if OTP does not exist", async () => {
+    retrieveOtpPayloadByCodeMock.mockImplementationOnce(() => TE.of(O.none));
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(response.kind).toBe("IResponseErrorNotFound");
+    expect(consumeOtpMock).not.toHaveBeenCalled();
+    expect(storeOtpRedemptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        merchantId: aMerchantId,
+        otpCodeHash: toKeyedHash(anOtpSecretKey, anOtpCode),
+        outcome: OtpRedemptionOutcomeEnum.NOT_FOUND
+      })
+    );
+  });
+
+  it("should return an internal error if user's CGN retrieve fails", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.left(new Error("Query Error"))
+    );
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(consumeOtpMock).not.toHaveBeenCalled();
+  });
+
+  it("should return forbidden if user's CGN is not activated", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aUserCgn, card: aRevokedCgn }))
+    );
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+    expect(consumeOtpMock).not.toHaveBeenCalled();
+    expect(storeOtpRedemptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fiscalCode: aFiscalCode,
+        outcome: OtpRedemptionOutcomeEnum.CARD_NOT_ACTIVATED
+      })
+    );
+  });
+
+  it("should return an internal error if OTP consume fails", async () => {
+    consumeOtpMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot delete OTP"))
+    );
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(storeOtpRedemptionMock).not.toHaveBeenCalled();
+  });
+
+  it("should return not found if OTP has been consumed concurrently", async () => {
+    consumeOtpMock.mockImplementationOnce(() => TE.of(false));
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(response.kind).toBe("IResponseErrorNotFound");
+    expect(storeOtpRedemptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fiscalCode: aFiscalCode,
+        outcome: OtpRedemptionOutcomeEnum.NOT_FOUND
+      })
+    );
+  });
+
+  it("should return success even if the redemption ledger store fails", async () => {
+    storeOtpRedemptionMock.mockImplementationOnce(() =>
+      TE.left(new Error("Cannot store redemption"))
+    );
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(response.kind).toBe("IResponseSuccessJson");
+  });
+
+  it("should return success if the OTP is validated and consumed", async () => {
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(consumeOtpMock).toHaveBeenCalledWith({}, anOtpSecretKey, anOtpCode);
+    expect(storeOtpRedemptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fiscalCode: aFiscalCode,
+        merchantId: aMerchantId,
+        outcome: OtpRedemptionOutcomeEnum.VALIDATED
+      })
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        code: anOtpCode,
+        expires_at: anOtpPayload.expiresAt,
+        validated_at: expect.any(Date)
+      });
+    }
+  });
+
+  it("should return forbidden if the OTP is scoped to another merchant", async () => {
+    retrieveOtpPayloadByCodeMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anOtpPayload,
+          merchantId: "ANOTHER_MERCHANT_ID" as MerchantId
+        })
+      )
+    );
+    const response = await getHandler()(context, anOtpValidationRequest);
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+    expect(findLastVersionByModelIdMock).not.toHaveBeenCalled();
+    expect(consumeOtpMock).not.toHaveBeenCalled();
+    expect(storeOtpRedemptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fiscalCode: aFiscalCode,
+        outcome: OtpRedemptionOutcomeEnum.OUT_OF_SCOPE
+      })
+    );
+  });
+
+  it("should return forbidden if the OTP is scoped to another discount", async () => {
+    retrieveOtpPayloadByCodeMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anOtpPayload,
+          discountId: aDiscountId,
+          merchantId: aMerchantId
+        })
+      )
+    );
+    const response = await getHandler()(context, {
+      ...anOtpValidationRequest,
+      discount_id: "ANOTHER_DISCOUNT_ID" as DiscountId
+    });
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+    expect(consumeOtpMock).not.toHaveBeenCalled();
+  });
+
+  it("should return success if the OTP is scoped to the requesting merchant and discount", async () => {
+    retrieveOtpPayloadByCodeMock.mockImplementationOnce(() =>
+      TE.of(
+        O.some({
+          ...anOtpPayload,
+          discountId: aDiscountId,
+          maxUses: 3,
+          merchantId: aMerchantId
+        })
+      )
+    );
+    const response = await getHandler()(context, {
+      ...anOtpValidationRequest,
+      discount_id: aDiscountId
+    });
+    expect(consumeOtpMock).toHaveBeenCalledWith({}, anOtpSecretKey, anOtpCode);
+    expect(response.kind).toBe("IResponseSuccessJson");
+  });
+});
+
+describe("ValidateOtpHandler in TOTP mode", () => {
+  const aUserCgnWithTotpSecret: UserCgn = {
+    ...aUserCgn,
+    totpSecret: encrypt(anOtpSecretKey, aTotpSecret) as NonEmptyString
+  };
+  const aTotpValidationRequest: OtpValidationRequest = {
+    fiscal_code: aFiscalCode,
+    merchant_id: aMerchantId,
+    otp_code: generateTotpCode(aTotpSecret, getTotpCounter(new Date()))
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.of(O.some(aUserCgnWithTotpSecret))
+    );
+  });
+
+  afterAll(() => {
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.of(O.some(aUserCgn))
+    );
+  });
+
+  it("should return a validation error if the fiscal code is missing", async () => {
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      anOtpValidationRequest
+    );
+    expect(response.kind).toBe("IResponseErrorValidation");
+    expect(storeOtpRedemptionMock).not.toHaveBeenCalled();
+  });
+
+  it("should return forbidden if user's CGN is not activated", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some({ ...aUserCgnWithTotpSecret, card: aRevokedCgn }))
+    );
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      aTotpValidationRequest
+    );
+    expect(response.kind).toBe("IResponseErrorForbiddenNotAuthorized");
+    expect(consumeTotpMock).not.toHaveBeenCalled();
+  });
+
+  it("should return not found if user has no TOTP secret", async () => {
+    findLastVersionByModelIdMock.mockImplementationOnce(() =>
+      TE.of(O.some(aUserCgn))
+    );
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      aTotpValidationRequest
+    );
+    expect(response.kind).toBe("IResponseErrorNotFound");
+    expect(consumeTotpMock).not.toHaveBeenCalled();
+  });
+
+  it("should return not found if the code does not match", async () => {
+    const response = await getHandler(OtpModeEnum.TOTP)(context, {
+      ...aTotpValidationRequest,
+      otp_code: generateTotpCode(aTotpSecret, getTotpCounter(new Date()) - 10)
+    });
+    expect(response.kind).toBe("IResponseErrorNotFound");
+    expect(consumeTotpMock).not.toHaveBeenCalled();
+    expect(storeOtpRedemptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fiscalCode: aFiscalCode,
+        outcome: OtpRedemptionOutcomeEnum.NOT_FOUND
+      })
+    );
+  });
+
+  it("should return not found if the code has already been redeemed", async () => {
+    consumeTotpMock.mockImplementationOnce(() => TE.of(false));
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      aTotpValidationRequest
+    );
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return success if the code is valid", async () => {
+    const response = await getHandler(OtpModeEnum.TOTP)(
+      context,
+      aTotpValidationRequest
+    );
+    expect(retrieveOtpPayloadByCodeMock).not.toHaveBeenCalled();
+    expect(consumeTotpMock).toHaveBeenCalledWith(
+      {},
+      anOtpSecretKey,
+      aFiscalCode,
+      expect.any(Number),
+      4 * TOTP_PERIOD_IN_SECONDS
+    );
+    expect(storeOtpRedemptionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fiscalCode: aFiscalCode,
+        outcome: OtpRedemptionOutcomeEnum.VALIDATED
+      })
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+  });
+});
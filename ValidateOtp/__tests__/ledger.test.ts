@@ -0,0 +1,87 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { aFiscalCode } from "../../__mocks__/mock";
+import { anonymiseOtpRedemptionsByFiscalCode } from "../ledger";
+
+const anOtpRedemptionTableName = "otpredemptions" as NonEmptyString;
+
+const aRedemptionKeys = (merchantId: string, rowKey: string) => ({
+  PartitionKey: { _: merchantId },
+  RowKey: { _: rowKey }
+});
+
+const queryEntitiesMock = jest.fn();
+const mergeEntityMock = jest.fn();
+const tableServiceMock = {
+  mergeEntity: mergeEntityMock,
+  queryEntities: queryEntitiesMock
+};
+
+describe("anonymiseOtpRedemptionsByFiscalCode", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mergeEntityMock.mockImplementation((_, __, cb) => cb(null, {}));
+  });
+
+  it("should remove the fiscalCode from every redemption of the citizen, a page at a time", async () => {
+    queryEntitiesMock
+      .mockImplementationOnce((_, __, ___, cb) =>
+        cb(
+          null,
+          {
+            continuationToken: "aToken",
+            entries: [aRedemptionKeys("aMerchant", "aRowKey")]
+          },
+          { isSuccessful: true }
+        )
+      )
+      .mockImplementationOnce((_, __, ___, cb) =>
+        cb(
+          null,
+          { entries: [aRedemptionKeys("anotherMerchant", "anotherRowKey")] },
+          { isSuccessful: true }
+        )
+      );
+    const result = await anonymiseOtpRedemptionsByFiscalCode(
+      tableServiceMock as any,
+      anOtpRedemptionTableName,
+      aFiscalCode
+    )();
+    expect(result).toEqual(E.right(2));
+    expect(queryEntitiesMock.mock.calls[0][1]._where).toEqual([
+      `FiscalCode eq '${aFiscalCode}'`
+    ]);
+    expect(mergeEntityMock.mock.calls.map(([, entity]) => entity)).toEqual([
+      {
+        FiscalCode: expect.objectContaining({ _: "" }),
+        PartitionKey: expect.objectContaining({ _: "aMerchant" }),
+        RowKey: expect.objectContaining({ _: "aRowKey" })
+      },
+      {
+        FiscalCode: expect.objectContaining({ _: "" }),
+        PartitionKey: expect.objectContaining({ _: "anotherMerchant" }),
+        RowKey: expect.objectContaining({ _: "anotherRowKey" })
+      }
+    ]);
+  });
+
+  it("should return an error if a redemption cannot be anonymised", async () => {
+    queryEntitiesMock.mockImplementationOnce((_, __, ___, cb) =>
+      cb(
+        null,
+        { entries: [aRedemptionKeys("aMerchant", "aRowKey")] },
+        { isSuccessful: true }
+      )
+    );
+    mergeEntityMock.mockImplementationOnce((_, __, cb) =>
+      cb(new Error("Cannot merge"))
+    );
+    const result = await anonymiseOtpRedemptionsByFiscalCode(
+      tableServiceMock as any,
+      anOtpRedemptionTableName,
+      aFiscalCode
+    )();
+    expect(E.isLeft(result)).toBe(true);
+  });
+});
@@ -0,0 +1,407 @@
+/* eslint-disable max-params */
+import * as express from "express";
+
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredBodyPayloadMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_body_payload";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorForbiddenNotAuthorized,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorForbiddenNotAuthorized,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseErrorValidation,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { RedisClient } from "redis";
+import {
+  consumeOtp,
+  consumeTotp,
+  OtpPayload,
+  retrieveOtpPayloadByCode
+} from "../GenerateOtp/redis";
+import { CardActivated } from "../generated/definitions/CardActivated";
+import { OtpCode } from "../generated/definitions/OtpCode";
+import { OtpValidationRequest } from "../generated/definitions/OtpValidationRequest";
+import { OtpValidationResponse } from "../generated/definitions/OtpValidationResponse";
+import { UserCgnModel } from "../models/user_cgn";
+import { retrieveTotpSecret } from "../ProvisionTotp/secret";
+import { trackException } from "../utils/appinsights";
+import { Clock } from "../utils/clock";
+import { OtpModeEnum } from "../utils/config";
+import { toKeyedHash } from "../utils/hash";
+import {
+  getTotpCounterExpiration,
+  TOTP_PERIOD_IN_SECONDS,
+  verifyTotpCode
+} from "../utils/totp";
+import { OtpRedemptionOutcomeEnum, StoreOtpRedemptionT } from "./ledger";
+
+type ResponseTypes =
+  | IResponseSuccessJson<OtpValidationResponse>
+  | IResponseErrorForbiddenNotAuthorized
+  | IResponseErrorNotFound
+  | IResponseErrorValidation
+  | IResponseErrorInternal;
+
+type IValidateOtpHandler = (
+  context: Context,
+  otpValidationRequest: OtpValidationRequest
+) => Promise<ResponseTypes>;
+
+type Redemption =
+  | {
+      readonly fiscalCode: FiscalCode;
+      readonly otpPayload: OtpPayload;
+      readonly outcome: OtpRedemptionOutcomeEnum.VALIDATED;
+    }
+  | {
+      readonly fiscalCode?: FiscalCode;
+      readonly outcome:
+        | OtpRedemptionOutcomeEnum.CARD_NOT_ACTIVATED
+        | OtpRedemptionOutcomeEnum.NOT_FOUND
+        | OtpRedemptionOutcomeEnum.OUT_OF_SCOPE;
+    };
+
+/**
+ * Checks whether the OTP can be redeemed by the requesting merchant
+ * for the requested discount, according to the scope it was generated for.
+ */
+const isInScope = (
+  otpPayload: OtpPayload,
+  otpValidationRequest: OtpValidationRequest
+): boolean =>
+  (otpPayload.merchantId === undefined ||
+    otpPayload.merchantId === otpValidationRequest.merchant_id) &&
+  (otpPayload.discountId === undefined ||
+    otpPayload.discountId === otpValidationRequest.discount_id);
+
+const redeemOtp = (
+  userCgnModel: UserCgnModel,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  otpPayload: OtpPayload,
+  otpValidationRequest: OtpValidationRequest
+): TE.TaskEither<IResponseErrorInternal, Redemption> =>
+  pipe(
+    userCgnModel.findLastVersionByModelId([otpPayload.fiscalCode]),
+    TE.mapLeft(() =>
+      ResponseErrorInternal("Error trying to retrieve user's CGN status")
+    ),
+    TE.map(O.filter(userCgn => CardActivated.is(userCgn.card))),
+    TE.chain(
+      O.fold(
+        () =>
+          TE.of<IResponseErrorInternal, Redemption>({
+            fiscalCode: otpPayload.fiscalCode,
+            outcome: OtpRedemptionOutcomeEnum.CARD_NOT_ACTIVATED
+          }),
+        () =>
+          pipe(
+            consumeOtp(
+              redisClient,
+              otpSecretKey,
+              otpValidationRequest.otp_code
+            ),
+            TE.bimap(
+              e => ResponseErrorInternal(`Cannot consume OTP| ${e.message}`),
+              (isConsumed): Redemption =>
+                // another redemption could have consumed the same OTP in the meantime
+                isConsumed
+                  ? {
+                      fiscalCode: otpPayload.fiscalCode,
+                      otpPayload,
+                      outcome: OtpRedemptionOutcomeEnum.VALIDATED
+                    }
+                  : {
+                      fiscalCode: otpPayload.fiscalCode,
+                      outcome: OtpRedemptionOutcomeEnum.NOT_FOUND
+                    }
+            )
+          )
+      )
+    )
+  );
+
+const redeemRedisOtp = (
+  userCgnModel: UserCgnModel,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  otpValidationRequest: OtpValidationRequest
+): TE.TaskEither<IResponseErrorInternal, Redemption> =>
+  pipe(
+    retrieveOtpPayloadByCode(
+      redisClient,
+      otpSecretKey,
+      otpValidationRequest.otp_code
+    ),
+    TE.mapLeft(e =>
+      ResponseErrorInternal(`Cannot retrieve OTP from code| ${e.message}`)
+    ),
+    TE.chain(
+      O.fold(
+        () =>
+          TE.of<IResponseErrorInternal, Redemption>({
+            outcome: OtpRedemptionOutcomeEnum.NOT_FOUND
+          }),
+        otpPayload =>
+          isInScope(otpPayload, otpValidationRequest)
+            ? redeemOtp(
+                userCgnModel,
+                redisClient,
+                otpSecretKey,
+                otpPayload,
+                otpValidationRequest
+              )
+            : TE.of({
+                fiscalCode: otpPayload.fiscalCode,
+                outcome: OtpRedemptionOutcomeEnum.OUT_OF_SCOPE
+              })
+      )
+    )
+  );
+
+const notFoundRedemption = (
+  fiscalCode: FiscalCode
+): TE.TaskEither<IResponseErrorInternal, Redemption> =>
+  TE.of({
+    fiscalCode,
+    outcome: OtpRedemptionOutcomeEnum.NOT_FOUND
+  });
+
+const redeemTotpCode = (
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  totpSkewWindow: NonNegativeInteger,
+  fiscalCode: FiscalCode,
+  totpSecret: NonEmptyString,
+  otpCode: OtpCode,
+  now: Date
+): TE.TaskEither<IResponseErrorInternal, Redemption> =>
+  pipe(
+    verifyTotpCode(totpSecret, otpCode, now, totpSkewWindow),
+    O.fold(
+      () => notFoundRedemption(fiscalCode),
+      counter =>
+        pipe(
+          consumeTotp(
+            redisClient,
+            otpSecretKey,
+            fiscalCode,
+            counter,
+            // the code is accepted until the skew window slides past its counter
+            (2 * totpSkewWindow + 2) * TOTP_PERIOD_IN_SECONDS
+          ),
+          TE.bimap(
+            e => ResponseErrorInternal(`Cannot consume TOTP| ${e.message}`),
+            (isConsumed): Redemption =>
+              isConsumed
+                ? {
+                    fiscalCode,
+                    otpPayload: {
+                      expiresAt: getTotpCounterExpiration(counter),
+                      fiscalCode,
+                      ttl: TOTP_PERIOD_IN_SECONDS as NonNegativeInteger
+                    },
+                    outcome: OtpRedemptionOutcomeEnum.VALIDATED
+                  }
+                : {
+                    fiscalCode,
+                    outcome: OtpRedemptionOutcomeEnum.NOT_FOUND
+                  }
+          )
+        )
+    )
+  );
+
+const redeemTotp = (
+  userCgnModel: UserCgnModel,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  totpSkewWindow: NonNegativeInteger,
+  otpValidationRequest: OtpValidationRequest,
+  now: Date
+): TE.TaskEither<
+  IResponseErrorInternal | IResponseErrorValidation,
+  Redemption
+> =>
+  pipe(
+    // a time-based OTP can be verified only against its owner's secret
+    O.fromNullable(otpValidationRequest.fiscal_code),
+    TE.fromOption(() =>
+      ResponseErrorValidation(
+        "Bad request",
+        "fiscal_code is required to validate a time-based OTP"
+      )
+    ),
+    TE.chainW(fiscalCode =>
+      pipe(
+        userCgnModel.findLastVersionByModelId([fiscalCode]),
+        TE.mapLeft(() =>
+          ResponseErrorInternal("Error trying to retrieve user's CGN status")
+        ),
+        TE.chain(
+          O.fold(
+            () => notFoundRedemption(fiscalCode),
+            userCgn =>
+              !CardActivated.is(userCgn.card)
+                ? TE.of({
+                    fiscalCode,
+                    outcome: OtpRedemptionOutcomeEnum.CARD_NOT_ACTIVATED
+                  })
+                : pipe(
+                    retrieveTotpSecret(otpSecretKey, userCgn),
+                    E.mapLeft(e =>
+                      ResponseErrorInternal(
+                        `Cannot retrieve TOTP secret| ${e.message}`
+                      )
+                    ),
+                    TE.fromEither,
+                    TE.chain(
+                      O.fold(
+                        // without a provisioned secret no code can be valid
+                        () => notFoundRedemption(fiscalCode),
+                        totpSecret =>
+                          redeemTotpCode(
+                            redisClient,
+                            otpSecretKey,
+                            totpSkewWindow,
+                            fiscalCode,
+                            totpSecret,
+                            otpValidationRequest.otp_code,
+                            now
+                          )
+                      )
+                    )
+                  )
+          )
+        )
+      )
+    )
+  );
+
+const toResponse = (
+  redemption: Redemption,
+  otpValidationRequest: OtpValidationRequest,
+  redeemedAt: Date
+): ResponseTypes => {
+  switch (redemption.outcome) {
+    case OtpRedemptionOutcomeEnum.VALIDATED:
+      return ResponseSuccessJson({
+        code: otpValidationRequest.otp_code,
+        expires_at: redemption.otpPayload.expiresAt,
+        validated_at: redeemedAt
+      });
+    case OtpRedemptionOutcomeEnum.CARD_NOT_ACTIVATED:
+    case OtpRedemptionOutcomeEnum.OUT_OF_SCOPE:
+      return ResponseErrorForbiddenNotAuthorized;
+    default:
+      return ResponseErrorNotFound(
+        "Not Found",
+        "OTP not found, expired or already consumed"
+      );
+  }
+};
+
+export const ValidateOtpHandler = (
+  userCgnModel: UserCgnModel,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  storeOtpRedemption: StoreOtpRedemptionT,
+  otpMode: OtpModeEnum,
+  totpSkewWindow: NonNegativeInteger,
+  clock: Clock,
+  logPrefix: string = "ValidateOtpHandler"
+): IValidateOtpHandler => async (
+  context,
+  otpValidationRequest
+): Promise<ResponseTypes> => {
+  const redeemedAt = clock();
+  return pipe(
+    otpMode === OtpModeEnum.TOTP
+      ? redeemTotp(
+          userCgnModel,
+          redisClient,
+          otpSecretKey,
+          totpSkewWindow,
+          otpValidationRequest,
+          redeemedAt
+        )
+      : redeemRedisOtp(
+          userCgnModel,
+          redisClient,
+          otpSecretKey,
+          otpValidationRequest
+        ),
+    TE.chainFirstW(redemption =>
+      pipe(
+        storeOtpRedemption({
+          fiscalCode: redemption.fiscalCode,
+          merchantId: otpValidationRequest.merchant_id,
+          otpCodeHash: toKeyedHash(otpSecretKey, otpValidationRequest.otp_code),
+          outcome: redemption.outcome,
+          redeemedAt
+        }),
+        // the OTP could be already consumed at this point, so a failure
+        // while writing the ledger must not change the merchant's response
+        TE.orElseW(err => {
+          context.log.error(
+            `${logPrefix}|Cannot store OTP redemption|ERROR=${err.message}`
+          );
+          trackException({
+            exception: err,
+            properties: {
+              name: "cgn.otp.redemption.ledger.error",
+              outcome: redemption.outcome
+            }
+          });
+          return TE.of(void 0);
+        })
+      )
+    ),
+    TE.map(redemption =>
+      toResponse(redemption, otpValidationRequest, redeemedAt)
+    ),
+    TE.toUnion
+  )();
+};
+
+export const ValidateOtp = (
+  userCgnModel: UserCgnModel,
+  redisClient: RedisClient,
+  otpSecretKey: NonEmptyString,
+  storeOtpRedemption: StoreOtpRedemptionT,
+  otpMode: OtpModeEnum,
+  totpSkewWindow: NonNegativeInteger,
+  clock: Clock
+): express.RequestHandler => {
+  const handler = ValidateOtpHandler(
+    userCgnModel,
+    redisClient,
+    otpSecretKey,
+    storeOtpRedemption,
+    otpMode,
+    totpSkewWindow,
+    clock
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredBodyPayloadMiddleware(OtpValidationRequest)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -0,0 +1,120 @@
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableQuery, TableService, TableUtilities } from "azure-storage";
+import { pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import { MerchantId } from "../generated/definitions/MerchantId";
+import { foldPages } from "../utils/pages";
+import { getPagedQuery, iterateOnPages } from "../utils/table_storage";
+
+export enum OtpRedemptionOutcomeEnum {
+  CARD_NOT_ACTIVATED = "CARD_NOT_ACTIVATED",
+  NOT_FOUND = "NOT_FOUND",
+  OUT_OF_SCOPE = "OUT_OF_SCOPE",
+  VALIDATED = "VALIDATED"
+}
+
+/**
+ * A redemption attempt of an OTP made by a merchant.
+ * The OTP is identified by the same keyed hash used for its Redis lookup
+ * key, so that the ledger never holds a code that could be redeemed.
+ */
+export type OtpRedemption = Readonly<{
+  readonly fiscalCode?: FiscalCode;
+  readonly merchantId: MerchantId;
+  readonly otpCodeHash: NonEmptyString;
+  readonly outcome: OtpRedemptionOutcomeEnum;
+  readonly redeemedAt: Date;
+}>;
+
+/**
+ * Store an OTP redemption into `otpRedemptionTableName` table.
+ * Redemptions are partitioned by merchant so that support can audit
+ * every attempt made by a single merchant.
+ */
+export const insertOtpRedemption = (
+  tableService: TableService,
+  otpRedemptionTableName: NonEmptyString
+) => (
+  redemption: OtpRedemption
+): TE.TaskEither<Error, TableService.EntityMetadata> => {
+  const eg = TableUtilities.entityGenerator;
+  return TE.taskify<Error, TableService.EntityMetadata>(cb =>
+    tableService.insertEntity(
+      otpRedemptionTableName,
+      {
+        FiscalCode: eg.String(redemption.fiscalCode ?? ""),
+        OtpCodeHash: eg.String(redemption.otpCodeHash),
+        Outcome: eg.String(redemption.outcome),
+        PartitionKey: eg.String(redemption.merchantId),
+        RedeemedAt: eg.DateTime(redemption.redeemedAt),
+        RowKey: eg.String(
+          `${redemption.redeemedAt.toISOString()}_${redemption.otpCodeHash}`
+        )
+      },
+      cb
+    )
+  )();
+};
+
+export type StoreOtpRedemptionT = ReturnType<typeof insertOtpRedemption>;
+
+/**
+ * The keys of an OTP redemption storage table Entry
+ */
+type OtpRedemptionTableKeys = Readonly<{
+  readonly PartitionKey: Readonly<{
+    readonly _: string;
+  }>;
+  readonly RowKey: Readonly<{
+    readonly _: string;
+  }>;
+}>;
+
+/**
+ * Removes the fiscalCode from every OTP redemption of the given citizen,
+ * so that the attempts of the merchants can still be audited once the
+ * citizen's data have been erased, as the ones of an unknown citizen.
+ * Redemptions are partitioned by merchant, so the whole table is scanned.
+ * Returns how many redemptions have been anonymised.
+ */
+export const anonymiseOtpRedemptionsByFiscalCode = (
+  tableService: TableService,
+  otpRedemptionTableName: NonEmptyString,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, number> => {
+  const eg = TableUtilities.entityGenerator;
+  return foldPages(
+    iterateOnPages(
+      getPagedQuery(
+        tableService,
+        otpRedemptionTableName
+      )(
+        new TableQuery()
+          .select("PartitionKey", "RowKey")
+          .where("FiscalCode == ?", fiscalCode)
+      )
+    ),
+    0,
+    (anonymised, page) =>
+      pipe(
+        (page as ReadonlyArray<unknown>) as ReadonlyArray<
+          OtpRedemptionTableKeys
+        >,
+        RA.traverse(TE.ApplicativeSeq)(entry =>
+          TE.taskify<Error, TableService.EntityMetadata>(cb =>
+            tableService.mergeEntity(
+              otpRedemptionTableName,
+              {
+                FiscalCode: eg.String(""),
+                PartitionKey: eg.String(entry.PartitionKey._),
+                RowKey: eg.String(entry.RowKey._)
+              },
+              cb
+            )
+          )()
+        ),
+        TE.map(merged => anonymised + merged.length)
+      )
+  );
+};
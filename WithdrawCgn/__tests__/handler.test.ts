@@ -0,0 +1,123 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import {
+  ResponseErrorInternal,
+  ResponseSuccessAccepted
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { mockStartNew } from "../../__mocks__/durable-functions";
+import { cgnActivatedDates } from "../../__mocks__/mock";
+import {
+  CardActivated,
+  StatusEnum as ActivatedStatusEnum
+} from "../../generated/definitions/CardActivated";
+import { StatusEnum as PendingStatusEnum } from "../../generated/definitions/CardPending";
+import { StatusEnum as WithdrawnStatusEnum } from "../../generated/definitions/CardWithdrawn";
+import { UserCgn } from "../../models/user_cgn";
+import { systemClock } from "../../utils/clock";
+import * as orchUtils from "../../utils/orchestrators";
+import { WithdrawCgnHandler } from "../handler";
+
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+
+const aUserCardActivated: CardActivated = {
+  ...cgnActivatedDates,
+  status: ActivatedStatusEnum.ACTIVATED
+};
+
+const anActivatedUserCgn: UserCgn = {
+  card: aUserCardActivated,
+  fiscalCode: aFiscalCode,
+  id: "A_USER_CGN_ID" as NonEmptyString
+};
+
+const findLastVersionByModelIdMock = jest.fn();
+const userCgnModelMock = {
+  findLastVersionByModelId: findLastVersionByModelIdMock
+};
+
+const checkUpdateCardIsRunningMock = jest.fn();
+jest
+  .spyOn(orchUtils, "checkUpdateCardIsRunning")
+  .mockImplementation(checkUpdateCardIsRunningMock);
+
+const withdrawCgnHandler = WithdrawCgnHandler(
+  userCgnModelMock as any,
+  systemClock
+);
+
+describe("WithdrawCgn", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.of(O.some(anActivatedUserCgn))
+    );
+    checkUpdateCardIsRunningMock.mockImplementation(() => TE.of(false));
+  });
+
+  it("should return an Internal Error if an error occurs during UserCgn retrieve", async () => {
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.left(toCosmosErrorResponse(new Error("query error")))
+    );
+    const response = await withdrawCgnHandler({} as any, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return Not Found if no UserCgn was found for the provided fiscal code", async () => {
+    findLastVersionByModelIdMock.mockImplementation(() => TE.of(O.none));
+    const response = await withdrawCgnHandler({} as any, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return Conflict if the CGN is not activated", async () => {
+    findLastVersionByModelIdMock.mockImplementation(() =>
+      TE.of(
+        O.some({
+          ...anActivatedUserCgn,
+          card: { status: PendingStatusEnum.PENDING }
+        })
+      )
+    );
+    const response = await withdrawCgnHandler({} as any, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorConflict");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Internal Error if it is not possible to check running orchestrators", async () => {
+    checkUpdateCardIsRunningMock.mockImplementation(() =>
+      TE.left(ResponseErrorInternal("Error"))
+    );
+    const response = await withdrawCgnHandler({} as any, aFiscalCode);
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should return an Accepted response if the withdrawal is already running", async () => {
+    checkUpdateCardIsRunningMock.mockImplementation(() =>
+      TE.left(ResponseSuccessAccepted())
+    );
+    const response = await withdrawCgnHandler({} as any, aFiscalCode);
+    expect(response.kind).toBe("IResponseSuccessAccepted");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should start a new orchestrator withdrawing the activated CGN", async () => {
+    const response = await withdrawCgnHandler({} as any, aFiscalCode);
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(mockStartNew).toBeCalledWith(
+      "UpdateCgnOrchestrator",
+      `${aFiscalCode}-UPDCGN-WITHDRAWN`,
+      {
+        fiscalCode: aFiscalCode,
+        newStatusCard: {
+          activation_date: aUserCardActivated.activation_date.toISOString(),
+          expiration_date: aUserCardActivated.expiration_date.toISOString(),
+          status: WithdrawnStatusEnum.WITHDRAWN,
+          withdrawal_date: expect.any(String)
+        }
+      }
+    );
+  });
+});
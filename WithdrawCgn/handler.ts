@@ -0,0 +1,149 @@
+import * as express from "express";
+import { Context } from "@azure/functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorConflict,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessAccepted,
+  IResponseSuccessRedirectToResource,
+  ResponseErrorConflict,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessRedirectToResource
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as df from "durable-functions";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { CardActivated } from "../generated/definitions/CardActivated";
+import {
+  CardWithdrawn,
+  StatusEnum as WithdrawnStatusEnum
+} from "../generated/definitions/CardWithdrawn";
+import { InstanceId } from "../generated/definitions/InstanceId";
+import { UserCgnModel } from "../models/user_cgn";
+import { OrchestratorInput } from "../UpdateCgnOrchestrator/handler";
+import { Clock } from "../utils/clock";
+import {
+  checkUpdateCardIsRunning,
+  makeUpdateCgnOrchestratorId
+} from "../utils/orchestrators";
+
+type ReturnTypes =
+  | IResponseSuccessAccepted
+  | IResponseSuccessRedirectToResource<InstanceId, InstanceId>
+  | IResponseErrorInternal
+  | IResponseErrorNotFound
+  | IResponseErrorConflict;
+
+type IWithdrawCgnHandler = (
+  context: Context,
+  fiscalCode: FiscalCode
+) => Promise<ReturnTypes>;
+
+const toWithdrawnCard = (card: CardActivated, now: Date): CardWithdrawn => ({
+  activation_date: card.activation_date,
+  expiration_date: card.expiration_date,
+  status: WithdrawnStatusEnum.WITHDRAWN,
+  withdrawal_date: now
+});
+
+export const WithdrawCgnHandler = (
+  userCgnModel: UserCgnModel,
+  clock: Clock,
+  logPrefix: string = "WithdrawCgnHandler"
+): IWithdrawCgnHandler => async (context, fiscalCode): Promise<ReturnTypes> => {
+  const client = df.getClient(context);
+  const orchestratorId = makeUpdateCgnOrchestratorId(
+    fiscalCode,
+    WithdrawnStatusEnum.WITHDRAWN
+  ) as NonEmptyString;
+  return pipe(
+    userCgnModel.findLastVersionByModelId([fiscalCode]),
+    TE.mapLeft(() =>
+      ResponseErrorInternal("Cannot retrieve CGN infos for this user")
+    ),
+    TE.chainW(
+      TE.fromOption(() =>
+        ResponseErrorNotFound("Not Found", "User's CGN status not found")
+      )
+    ),
+    TE.chainW(userCgn =>
+      pipe(
+        userCgn.card,
+        TE.fromPredicate(CardActivated.is, () =>
+          ResponseErrorConflict("Cannot withdraw a CGN that is not activated")
+        )
+      )
+    ),
+    TE.map(card => toWithdrawnCard(card, clock())),
+    TE.chainW(card =>
+      pipe(
+        checkUpdateCardIsRunning(client, fiscalCode, card),
+        TE.chainW(() =>
+          pipe(
+            TE.tryCatch(
+              () =>
+                client.startNew(
+                  "UpdateCgnOrchestrator",
+                  orchestratorId,
+                  OrchestratorInput.encode({
+                    fiscalCode,
+                    newStatusCard: card
+                  })
+                ),
+              E.toError
+            ),
+            TE.bimap(
+              err => {
+                context.log.error(
+                  `${logPrefix}|Cannot start UpdateCgnOrchestrator|ERROR=${err.message}`
+                );
+                return ResponseErrorInternal(
+                  "Cannot start UpdateCgnOrchestrator"
+                );
+              },
+              () => {
+                const instanceId: InstanceId = {
+                  id: orchestratorId
+                };
+                return ResponseSuccessRedirectToResource(
+                  instanceId,
+                  `/api/v1/cgn/status/${fiscalCode}`,
+                  instanceId
+                );
+              }
+            )
+          )
+        ),
+        TE.orElseW(response =>
+          response.kind === "IResponseSuccessAccepted"
+            ? TE.of(response)
+            : TE.left(response)
+        )
+      )
+    ),
+    TE.toUnion
+  )();
+};
+
+export const WithdrawCgn = (
+  userCgnModel: UserCgnModel,
+  clock: Clock
+): express.RequestHandler => {
+  const handler = WithdrawCgnHandler(userCgnModel, clock);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    RequiredParamMiddleware("fiscalcode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
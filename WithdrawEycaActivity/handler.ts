@@ -0,0 +1,137 @@
+/* eslint-disable max-params */
+import { Context } from "@azure/functions";
+import { toError } from "fp-ts/lib/Either";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { TableService } from "azure-storage";
+import * as t from "io-ts";
+import { RedisClient } from "redis";
+import { EycaAPIClient } from "../clients/eyca";
+import { StatusEnum as WithdrawnStatusEnum } from "../generated/definitions/CardWithdrawn";
+import { EycaCardActivated } from "../generated/definitions/EycaCardActivated";
+import {
+  RetrievedUserEycaCard,
+  UserEycaCardModel
+} from "../models/user_eyca_card";
+import { updateCard } from "../SuccessEycaActivationActivity/eyca";
+import { ActivityResult, success } from "../utils/activity";
+import { Clock } from "../utils/clock";
+import { errorsToError } from "../utils/conversions";
+import {
+  Failure,
+  toPermanentFailure,
+  toTransientFailure,
+  trackFailure
+} from "../utils/errors";
+import { deleteCardExpiration } from "../utils/table_storage";
+
+export const ActivityInput = t.interface({
+  fiscalCode: FiscalCode
+});
+
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+/**
+ * Withdraws the EYCA card of a user along with its expiration tuple.
+ * The card expires on CCDB today, so that it stops working abroad too.
+ * Users without an activated EYCA card have nothing to withdraw: an
+ * activation still pending is given up by SuccessEycaActivationActivity
+ * once it finds the CGN withdrawn.
+ */
+export const getWithdrawEycaActivityHandler = (
+  redisClient: RedisClient,
+  eycaClient: ReturnType<EycaAPIClient>,
+  eycaApiUsername: NonEmptyString,
+  eycaApiPassword: NonEmptyString,
+  userEycaCardModel: UserEycaCardModel,
+  tableService: TableService,
+  eycaExpirationTableName: NonEmptyString,
+  clock: Clock,
+  logPrefix: string = "WithdrawEycaActivity"
+) => (context: Context, input: unknown): Promise<ActivityResult> => {
+  const fail = trackFailure(context, logPrefix);
+  const deleteEycaExpirationTask = deleteCardExpiration(
+    tableService,
+    eycaExpirationTableName
+  );
+  const withdrawEycaCard = (
+    userEycaCard: RetrievedUserEycaCard,
+    card: EycaCardActivated
+  ): TE.TaskEither<Failure, ActivityResult> =>
+    pipe(
+      updateCard(
+        redisClient,
+        eycaClient,
+        eycaApiUsername,
+        eycaApiPassword,
+        card.card_number,
+        clock()
+      ),
+      TE.chain(() =>
+        pipe(
+          userEycaCardModel.update({
+            ...userEycaCard,
+            card: {
+              activation_date: card.activation_date,
+              card_number: card.card_number,
+              expiration_date: card.expiration_date,
+              status: WithdrawnStatusEnum.WITHDRAWN,
+              withdrawal_date: clock()
+            }
+          }),
+          TE.mapLeft(err =>
+            toTransientFailure(toError(err), "Cannot update User EYCA Card")
+          )
+        )
+      ),
+      TE.chain(() =>
+        pipe(
+          deleteEycaExpirationTask(
+            userEycaCard.fiscalCode,
+            card.expiration_date
+          ),
+          TE.mapLeft(err =>
+            toTransientFailure(err, "Cannot delete EYCA expiration tuple")
+          )
+        )
+      ),
+      TE.map(success)
+    );
+  return pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(
+      flow(errorsToError, e =>
+        toPermanentFailure(e, "Cannot decode activity input")
+      )
+    ),
+    TE.chain(activityInput =>
+      pipe(
+        userEycaCardModel.findLastVersionByModelId([activityInput.fiscalCode]),
+        TE.mapLeft(
+          flow(toError, e =>
+            toTransientFailure(
+              e,
+              "Cannot retrieve User EYCA Card for the provided fiscalCode"
+            )
+          )
+        )
+      )
+    ),
+    TE.chain(
+      O.fold(
+        () => TE.of(success()),
+        userEycaCard =>
+          EycaCardActivated.is(userEycaCard.card)
+            ? withdrawEycaCard(userEycaCard, userEycaCard.card)
+            : TE.of(success())
+      )
+    ),
+    TE.mapLeft(fail),
+    TE.toUnion
+  )();
+};
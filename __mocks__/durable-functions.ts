@@ -24,9 +24,13 @@ export const mockGetStatus = jest
 export const mockTerminate = jest.fn(async (_, __) => {
   return;
 });
+export const mockPurgeInstanceHistory = jest
+  .fn()
+  .mockImplementation(async () => ({ instancesDeleted: 1 }));
 
 export const getClient = jest.fn(() => ({
   getStatus: mockGetStatus,
+  purgeInstanceHistory: mockPurgeInstanceHistory,
   startNew: mockStartNew,
   terminate: mockTerminate
 }));
@@ -1,5 +1,10 @@
 import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import { addYears } from "date-fns";
+import {
+  DEFAULT_CGN_UPPER_BOUND_AGE,
+  DEFAULT_EYCA_UPPER_BOUND_AGE
+} from "../utils/config";
+import { getDefaultEligibilityPolicy } from "../utils/eligibility_policy";
 
 export const now = new Date();
 
@@ -8,6 +13,11 @@ export const cgnActivatedDates = {
   expiration_date: addYears(now, 2)
 };
 
-export const aFiscalCode = "DNLLSS99S20H501F" as FiscalCode;
+export const aFiscalCode = "DNLLSS99S20H501A" as FiscalCode;
 
 export const testFail = () => fail("Unexpected Value");
+
+export const aDefaultEligibilityPolicy = getDefaultEligibilityPolicy(
+  DEFAULT_CGN_UPPER_BOUND_AGE,
+  DEFAULT_EYCA_UPPER_BOUND_AGE
+);
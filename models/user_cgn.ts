@@ -3,22 +3,38 @@ import {
   CosmosdbModelVersioned,
   RetrievedVersionedModel
 } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model_versioned";
+import {
+  CosmosErrors,
+  toCosmosErrorResponse
+} from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
 import { wrapWithKind } from "@pagopa/io-functions-commons/dist/src/utils/types";
 import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
 import * as t from "io-ts";
 import { Card } from "../generated/definitions/Card";
+import { ExpirationOverride } from "../generated/definitions/ExpirationOverride";
+import { IVersionsPage, findVersionsPage } from "./versions_page";
 
 export const USER_CGN_COLLECTION_NAME = "user-cgns";
 export const USER_CGN_MODEL_PK_FIELD = "fiscalCode" as const;
 
-const UserCgn = t.interface({
-  // the CGN card related to the user
-  card: Card,
-  // The id of the user
-  fiscalCode: FiscalCode,
-  // The CGN identifier
-  id: NonEmptyString
-});
+const UserCgn = t.intersection([
+  t.interface({
+    // the CGN card related to the user
+    card: Card,
+    // The id of the user
+    fiscalCode: FiscalCode,
+    // The CGN identifier
+    id: NonEmptyString
+  }),
+  t.partial({
+    // The expiration date set by an operator, if any
+    expirationOverride: ExpirationOverride,
+    // The encrypted secret used to derive the user's TOTP codes
+    totpSecret: NonEmptyString
+  })
+]);
 export type UserCgn = t.TypeOf<typeof UserCgn>;
 
 export const NewUserCgn = wrapWithKind(UserCgn, "INewUserCgn" as const);
@@ -47,4 +63,44 @@ export class UserCgnModel extends CosmosdbModelVersioned<
   constructor(container: Container) {
     super(container, NewUserCgn, RetrievedUserCgn, USER_CGN_MODEL_PK_FIELD);
   }
+  /**
+   * Deletes a single version of the user's CGN,
+   * as the versions are meant to be kept forever otherwise
+   *
+   * @param fiscalCode the partition key of the version
+   * @param documentId the id of the version
+   */
+  public deleteVersion(
+    fiscalCode: FiscalCode,
+    documentId: NonEmptyString
+  ): TE.TaskEither<CosmosErrors, NonEmptyString> {
+    return pipe(
+      TE.tryCatch(
+        () => this.container.item(documentId, fiscalCode).delete(),
+        toCosmosErrorResponse
+      ),
+      TE.map(() => documentId)
+    );
+  }
+  /**
+   * Retrieves a page of the versions of the user's CGN,
+   * from the oldest to the latest one
+   *
+   * @param fiscalCode the user the versions belong to
+   * @param pageSize the maximum number of versions in the page
+   * @param continuationToken the token returned along with the previous page
+   */
+  public findVersionsPage(
+    fiscalCode: FiscalCode,
+    pageSize: number,
+    continuationToken?: string
+  ): TE.TaskEither<CosmosErrors, IVersionsPage<RetrievedUserCgn>> {
+    return findVersionsPage(
+      this.container,
+      this.retrievedItemT,
+      fiscalCode,
+      pageSize,
+      continuationToken
+    );
+  }
 }
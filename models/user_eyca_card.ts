@@ -3,20 +3,34 @@ import {
   CosmosdbModelVersioned,
   RetrievedVersionedModel
 } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model_versioned";
+import {
+  CosmosErrors,
+  toCosmosErrorResponse
+} from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
 import { wrapWithKind } from "@pagopa/io-functions-commons/dist/src/utils/types";
-import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
 import * as t from "io-ts";
 import { EycaCard } from "../generated/definitions/EycaCard";
+import { ExpirationOverride } from "../generated/definitions/ExpirationOverride";
+import { IVersionsPage, findVersionsPage } from "./versions_page";
 
 export const USER_EYCA_CARD_COLLECTION_NAME = "user-eyca-cards";
 export const USER_EYCA_CARD_MODEL_PK_FIELD = "fiscalCode" as const;
 
-const UserEycaCard = t.interface({
-  // the EYCA card related to the user
-  card: EycaCard,
-  // The id of the user
-  fiscalCode: FiscalCode
-});
+const UserEycaCard = t.intersection([
+  t.interface({
+    // the EYCA card related to the user
+    card: EycaCard,
+    // The id of the user
+    fiscalCode: FiscalCode
+  }),
+  t.partial({
+    // The expiration date set by an operator, if any
+    expirationOverride: ExpirationOverride
+  })
+]);
 export type UserEycaCard = t.TypeOf<typeof UserEycaCard>;
 
 export const NewUserEycaCard = wrapWithKind(
@@ -53,4 +67,44 @@ export class UserEycaCardModel extends CosmosdbModelVersioned<
       USER_EYCA_CARD_MODEL_PK_FIELD
     );
   }
+  /**
+   * Deletes a single version of the user's EYCA card,
+   * as the versions are meant to be kept forever otherwise
+   *
+   * @param fiscalCode the partition key of the version
+   * @param documentId the id of the version
+   */
+  public deleteVersion(
+    fiscalCode: FiscalCode,
+    documentId: NonEmptyString
+  ): TE.TaskEither<CosmosErrors, NonEmptyString> {
+    return pipe(
+      TE.tryCatch(
+        () => this.container.item(documentId, fiscalCode).delete(),
+        toCosmosErrorResponse
+      ),
+      TE.map(() => documentId)
+    );
+  }
+  /**
+   * Retrieves a page of the versions of the user's EYCA card,
+   * from the oldest to the latest one
+   *
+   * @param fiscalCode the user the versions belong to
+   * @param pageSize the maximum number of versions in the page
+   * @param continuationToken the token returned along with the previous page
+   */
+  public findVersionsPage(
+    fiscalCode: FiscalCode,
+    pageSize: number,
+    continuationToken?: string
+  ): TE.TaskEither<CosmosErrors, IVersionsPage<RetrievedUserEycaCard>> {
+    return findVersionsPage(
+      this.container,
+      this.retrievedItemT,
+      fiscalCode,
+      pageSize,
+      continuationToken
+    );
+  }
 }
@@ -0,0 +1,66 @@
+import { Container } from "@azure/cosmos";
+import {
+  CosmosDecodingError,
+  CosmosErrors,
+  toCosmosErrorResponse
+} from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+
+/**
+ * A page of the versions of a user's document
+ */
+export interface IVersionsPage<TR> {
+  readonly items: ReadonlyArray<TR>;
+  // missing when there are no more versions to fetch
+  readonly continuationToken?: string;
+}
+
+/**
+ * Fetches a page of the versions of the user's document stored
+ * in a versioned container, from the oldest to the latest one.
+ *
+ * @param container the container of the versioned model
+ * @param retrievedItemT the type of the retrieved versions
+ * @param fiscalCode the user the versions belong to
+ * @param pageSize the maximum number of versions in the page
+ * @param continuationToken the token returned along with the previous page
+ */
+export const findVersionsPage = <TR>(
+  container: Container,
+  retrievedItemT: t.Type<TR, unknown, unknown>,
+  fiscalCode: FiscalCode,
+  pageSize: number,
+  continuationToken?: string
+): TE.TaskEither<CosmosErrors, IVersionsPage<TR>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        container.items
+          .query(
+            {
+              parameters: [{ name: "@fiscalCode", value: fiscalCode }],
+              query:
+                "SELECT * FROM c WHERE c.fiscalCode = @fiscalCode ORDER BY c.version ASC"
+            },
+            { continuationToken, maxItemCount: pageSize }
+          )
+          .fetchNext(),
+      toCosmosErrorResponse
+    ),
+    TE.chainW(feedResponse =>
+      pipe(
+        feedResponse.resources,
+        RA.traverse(E.Applicative)(retrievedItemT.decode),
+        E.bimap(CosmosDecodingError, items => ({
+          continuationToken: feedResponse.continuationToken,
+          items
+        })),
+        TE.fromEither
+      )
+    )
+  );
@@ -0,0 +1,144 @@
+import { inflateSync } from "zlib";
+
+import { BarcodeImageOptions, renderBarcode } from "../barcode_image";
+import { CODE128_QUIET_ZONE_MODULES, encodeCode128 } from "../code128";
+import { encodeQrCode, QR_QUIET_ZONE_MODULES } from "../qrcode";
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const toBits = (row: ReadonlyArray<boolean>): string =>
+  row.map(isDark => (isDark ? "1" : "0")).join("");
+
+describe("encodeQrCode", () => {
+  it.each`
+    length | version
+    ${11}  | ${1}
+    ${14}  | ${1}
+    ${15}  | ${2}
+    ${60}  | ${4}
+  `(
+    "should encode $length bytes as a version $version symbol",
+    ({ length, version }) => {
+      const matrix = encodeQrCode("A".repeat(length));
+      const size = 17 + 4 * version + 2 * QR_QUIET_ZONE_MODULES;
+      expect(matrix).toHaveLength(size);
+      matrix.forEach(row => expect(row).toHaveLength(size));
+    }
+  );
+
+  it("should draw the finder patterns inside the quiet zone", () => {
+    const matrix = encodeQrCode("ABCDEFGHIJ");
+    const q = QR_QUIET_ZONE_MODULES;
+    const finderPattern = [
+      "1111111",
+      "1000001",
+      "1011101",
+      "1011101",
+      "1011101",
+      "1000001",
+      "1111111"
+    ];
+    const size = matrix.length;
+    finderPattern.forEach((bits, i) => {
+      expect(toBits(matrix[q + i].slice(q, q + 7))).toBe(bits);
+      expect(toBits(matrix[q + i].slice(size - q - 7, size - q))).toBe(bits);
+      expect(toBits(matrix[size - q - 7 + i].slice(q, q + 7))).toBe(bits);
+    });
+    expect(matrix[0].some(isDark => isDark)).toBe(false);
+  });
+
+  it("should be deterministic", () => {
+    expect(encodeQrCode("AN_OTP_CODE")).toEqual(encodeQrCode("AN_OTP_CODE"));
+  });
+
+  it("should throw if the text is too long", () => {
+    expect(() => encodeQrCode("A".repeat(3000))).toThrowError();
+  });
+});
+
+describe("encodeCode128", () => {
+  it("should encode the text with the start, checksum and stop symbols", () => {
+    const matrix = encodeCode128("AB", 3);
+    expect(matrix).toHaveLength(3);
+    const quietZone = "0".repeat(CODE128_QUIET_ZONE_MODULES);
+    // start B, A, B, checksum (104 + 33 + 2 * 34) % 103 = 102, stop
+    expect(toBits(matrix[0])).toBe(
+      [
+        quietZone,
+        "11010010000",
+        "10100011000",
+        "10001011000",
+        "11110101110",
+        "1100011101011",
+        quietZone
+      ].join("")
+    );
+  });
+
+  it("should throw for chars outside code set B", () => {
+    expect(() => encodeCode128("Aè", 1)).toThrowError();
+  });
+});
+
+describe("renderBarcode", () => {
+  it("should render a QR code as an SVG image by default", () => {
+    const image = renderBarcode("AN_OTP_CODE", {});
+    expect(image.contentType).toBe("image/svg+xml");
+    const svg = image.content.toString("utf8");
+    expect(svg).toMatch(/^<svg /);
+    expect(svg).toContain('width="256" height="256"');
+    expect(svg).toContain('viewBox="0 0 29 29"');
+  });
+
+  it("should render a Code 128 barcode as a PNG image of the given size", () => {
+    const image = renderBarcode("AN_OTP_CODE", {
+      format: "png",
+      size: 512,
+      type: "code128"
+    } as BarcodeImageOptions);
+    expect(image.contentType).toBe("image/png");
+    expect(image.content.slice(0, 8)).toEqual(PNG_SIGNATURE);
+    // 20 quiet zone modules, 13 symbols of 11 modules and a 13 modules stop
+    const width = 20 + 13 * 11 + 13;
+    const scale = Math.floor(512 / width);
+    expect(image.content.readUInt32BE(16)).toBe(width * scale);
+    expect(image.content.readUInt32BE(20)).toBe(50 * scale);
+  });
+
+  it("should render every module of a PNG image as a square of pixels", () => {
+    const text = "AN_OTP_CODE";
+    const matrix = encodeQrCode(text);
+    const image = renderBarcode(text, {
+      format: "png",
+      size: 64
+    } as BarcodeImageOptions);
+    // IDAT data starts after the signature, the IHDR chunk and its header
+    const idatLength = image.content.readUInt32BE(33);
+    const scanlines = inflateSync(image.content.slice(41, 41 + idatLength));
+    const width = matrix.length * 2;
+    expect(scanlines).toHaveLength(width * (1 + width));
+    matrix.forEach((row, y) =>
+      row.forEach((isDark, x) =>
+        expect(scanlines[2 * y * (1 + width) + 1 + 2 * x]).toBe(
+          isDark ? 0x00 : 0xff
+        )
+      )
+    );
+  });
+});
+
+describe("BarcodeImageOptions", () => {
+  it("should decode query parameters", () => {
+    expect(
+      BarcodeImageOptions.decode({ format: "png", size: "128", type: "qr" })
+    ).toEqual(
+      expect.objectContaining({
+        right: { format: "png", size: 128, type: "qr" }
+      })
+    );
+  });
+
+  it.each(["63", "1025", "12.5", "abc"])("should reject the size %s", size => {
+    expect(BarcodeImageOptions.decode({ size })._tag).toBe("Left");
+  });
+});
@@ -0,0 +1,60 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { getExpiredCardUsers } from "../card_expiration";
+
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const anActivationDate = new Date("2021-03-01T10:00:00Z");
+
+const queryEntitiesMock = jest.fn();
+const tableServiceMock = {
+  queryEntities: queryEntitiesMock
+};
+
+const mockExpirationRows = (expirationDate: Date) =>
+  queryEntitiesMock.mockImplementationOnce((_, __, ___, cb) =>
+    cb(
+      null,
+      {
+        entries: [
+          {
+            ActivationDate: { _: anActivationDate },
+            ExpirationDate: { _: expirationDate },
+            RowKey: { _: aFiscalCode }
+          }
+        ]
+      },
+      { isSuccessful: true }
+    )
+  );
+
+describe("getExpiredCardUsers", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each`
+    title                        | expirationDate
+    ${"at the start of the day"} | ${new Date("2030-07-01T22:00:00Z")}
+    ${"at the end of the day"}   | ${new Date("2030-07-02T21:59:59.999Z")}
+  `(
+    "should return the start of the expiration day in Rome of the cards stored $title",
+    async ({ expirationDate }) => {
+      mockExpirationRows(expirationDate);
+      const result = await getExpiredCardUsers(
+        tableServiceMock as any,
+        "anExpirationTable",
+        "2030-07-02"
+      )();
+      expect(result).toEqual({
+        _tag: "Right",
+        right: [
+          {
+            activationDate: anActivationDate,
+            expirationDate: new Date("2030-07-01T22:00:00Z"),
+            fiscalCode: aFiscalCode
+          }
+        ]
+      });
+    }
+  );
+});
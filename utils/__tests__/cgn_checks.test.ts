@@ -1,27 +1,48 @@
 import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
-import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
-import * as date_fns from "date-fns";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import * as E from "fp-ts/lib/Either";
-import {
-  DEFAULT_CGN_UPPER_BOUND_AGE,
-  DEFAULT_EYCA_UPPER_BOUND_AGE
-} from "../../utils/config";
+import * as O from "fp-ts/lib/Option";
+import { aDefaultEligibilityPolicy } from "../../__mocks__/mock";
+import { EligibilityStatusEnum } from "../../generated/definitions/EligibilityStatus";
 import {
   checkCgnRequirements,
   extractCgnExpirationDate,
   extractEycaExpirationDate,
-  isEycaEligible
+  getCgnAgeEligibility,
+  getEycaAgeEligibility,
+  isEycaEligible,
+  toBirthDate
 } from "../cgn_checks";
+import { fixedClock, systemClock } from "../clock";
+import { formatRomeDate, toRomeDate } from "../dates";
+import {
+  EligibilityRule,
+  getDefaultEligibilityPolicy
+} from "../eligibility_policy";
 
-const anElibibleFiscalCode = "DROLSS95S20H501F" as FiscalCode;
-const anUnElibibleFiscalCode = "DROLSS84S20H501F" as FiscalCode;
-const anEycaElibibleFiscalCode = "DROLSS02S20H501F" as FiscalCode;
+const anElibibleFiscalCode = "DROLSS95S20H501H" as FiscalCode;
+const anUnElibibleFiscalCode = "DROLSS84S20H501E" as FiscalCode;
+const anEycaElibibleFiscalCode = "DROLSS02S20H501K" as FiscalCode;
 const aWrongFiscalCode = "AAAAAADSB00H000F" as FiscalCode;
+const aLeapDayFiscalCode = "DROLSS00B29H501Q" as FiscalCode;
+const aForeignBornFiscalCode = "RSSMRA80A41Z404V" as FiscalCode;
+
+const anOverwrittenEligibilityPolicy = getDefaultEligibilityPolicy(
+  90 as NonNegativeInteger,
+  90 as NonNegativeInteger
+);
+const [aCgnDefaultRule, anEycaDefaultRule] = aDefaultEligibilityPolicy;
+const toRuleFields = (rule: EligibilityRule) => ({
+  explanation: rule.explanation,
+  rule_id: rule.id
+});
+
 describe("checkCgnRequirements", () => {
   it("should return an Error if birthDate extraction from FiscalCode fails", async () => {
     const result = await checkCgnRequirements(
       aWrongFiscalCode,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     )();
     expect(E.isLeft(result)).toBeTruthy();
   });
@@ -29,7 +50,8 @@ describe("checkCgnRequirements", () => {
   it("should return true if the given fiscalCode is eligible for CGN", async () => {
     const result = await checkCgnRequirements(
       anElibibleFiscalCode,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     )();
     expect(E.isRight(result)).toBeTruthy();
     if (E.isRight(result)) {
@@ -40,7 +62,8 @@ describe("checkCgnRequirements", () => {
   it("should return false if the given fiscalCode is not eligible for CGN", async () => {
     const result = await checkCgnRequirements(
       anUnElibibleFiscalCode,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     )();
     expect(E.isRight(result)).toBeTruthy();
     if (E.isRight(result)) {
@@ -51,7 +74,8 @@ describe("checkCgnRequirements", () => {
   it("should return true if the given fiscalCode is eligible for overwritten max age bound related to CGN", async () => {
     const result = await checkCgnRequirements(
       anUnElibibleFiscalCode,
-      90 as NonNegativeInteger
+      anOverwrittenEligibilityPolicy,
+      systemClock
     )();
 
     expect(E.isRight(result)).toBeTruthy();
@@ -64,7 +88,8 @@ describe("extractCgnExpirationDate", () => {
   it("should return an Error if there is an error extracting birthDate from FiscalCode", async () => {
     const result = await extractCgnExpirationDate(
       aWrongFiscalCode,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     )();
     expect(E.isLeft(result)).toBeTruthy();
   });
@@ -72,11 +97,12 @@ describe("extractCgnExpirationDate", () => {
   it("should return an expiration Date", async () => {
     const result = await extractCgnExpirationDate(
       anElibibleFiscalCode,
-      DEFAULT_CGN_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     )();
     expect(E.isRight(result)).toBeTruthy();
     if (E.isRight(result)) {
-      expect(date_fns.format(result.right, "yyyy-MM-dd")).toEqual("2031-11-20");
+      expect(formatRomeDate(result.right)).toEqual("2031-11-20");
     }
   });
 });
@@ -85,7 +111,8 @@ describe("isEycaEligible", () => {
   it("should return an Error if it cannot extract birthDate from FiscalCode", async () => {
     const result = isEycaEligible(
       aWrongFiscalCode,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     expect(E.isLeft(result)).toBeTruthy();
   });
@@ -93,7 +120,8 @@ describe("isEycaEligible", () => {
   it("should return false if user is not eligible for EYCA", async () => {
     const result = isEycaEligible(
       anUnElibibleFiscalCode,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     expect(E.isRight(result)).toBeTruthy();
     if (E.isRight(result)) {
@@ -104,7 +132,8 @@ describe("isEycaEligible", () => {
   it("should return true if user is eligible for EYCA", async () => {
     const result = isEycaEligible(
       anEycaElibibleFiscalCode,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     expect(E.isRight(result)).toBeTruthy();
     if (E.isRight(result)) {
@@ -115,7 +144,8 @@ describe("isEycaEligible", () => {
   it("should return true if user is a Beta tester", async () => {
     const result = isEycaEligible(
       anUnElibibleFiscalCode,
-      90 as NonNegativeInteger
+      anOverwrittenEligibilityPolicy,
+      systemClock
     );
     expect(E.isRight(result)).toBeTruthy();
     if (E.isRight(result)) {
@@ -128,7 +158,8 @@ describe("extractEycaExpirationDate", () => {
   it("should return an Error if there is an error extracting birthDate from FiscalCode", async () => {
     const result = extractEycaExpirationDate(
       aWrongFiscalCode,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     expect(E.isLeft(result)).toBeTruthy();
   });
@@ -136,11 +167,196 @@ describe("extractEycaExpirationDate", () => {
   it("should return an expiration Date", async () => {
     const result = extractEycaExpirationDate(
       anEycaElibibleFiscalCode,
-      DEFAULT_EYCA_UPPER_BOUND_AGE
+      aDefaultEligibilityPolicy,
+      systemClock
     );
     expect(E.isRight(result)).toBeTruthy();
     if (E.isRight(result)) {
-      expect(date_fns.format(result.right, "yyyy-MM-dd")).toEqual("2033-11-20");
+      expect(formatRomeDate(result.right)).toEqual("2033-11-20");
     }
   });
+
+  it("should return the 1st of March for the ones born on 29 February", () => {
+    const result = extractEycaExpirationDate(
+      aLeapDayFiscalCode,
+      aDefaultEligibilityPolicy,
+      systemClock
+    );
+    expect(result).toEqual(E.right(toRomeDate(2031, 3, 1)));
+  });
+});
+
+describe("getCgnAgeEligibility", () => {
+  // the citizen is born on 1995-11-20
+  it("should return INVALID_FISCAL_CODE if it cannot extract birthDate from FiscalCode", () => {
+    expect(
+      getCgnAgeEligibility(
+        aWrongFiscalCode,
+        aDefaultEligibilityPolicy,
+        fixedClock(new Date("2020-01-01"))
+      )
+    ).toEqual({ status: EligibilityStatusEnum.INVALID_FISCAL_CODE });
+  });
+
+  it("should return TOO_YOUNG along with the 18th birthday", () => {
+    const result = getCgnAgeEligibility(
+      anElibibleFiscalCode,
+      aDefaultEligibilityPolicy,
+      fixedClock(toRomeDate(2013, 11, 19))
+    );
+    expect(result.status).toEqual(EligibilityStatusEnum.TOO_YOUNG);
+    expect(result.eligible_from).toEqual(toRomeDate(2013, 11, 20));
+  });
+
+  it("should return TOO_YOUNG until the 1st of March for the ones born on 29 February", () => {
+    // the citizen is born on 2000-02-29 and 2018 is not a leap year
+    const result = getCgnAgeEligibility(
+      aLeapDayFiscalCode,
+      aDefaultEligibilityPolicy,
+      fixedClock(new Date("2018-02-28T22:59:59Z"))
+    );
+    expect(result.status).toEqual(EligibilityStatusEnum.TOO_YOUNG);
+    expect(result.eligible_from).toEqual(toRomeDate(2018, 3, 1));
+  });
+
+  it("should check the age by the day in Rome", () => {
+    // it is already 2013-11-20 in Rome
+    expect(
+      getCgnAgeEligibility(
+        anElibibleFiscalCode,
+        aDefaultEligibilityPolicy,
+        fixedClock(new Date("2013-11-19T23:30:00Z"))
+      )
+    ).toEqual({
+      ...toRuleFields(aCgnDefaultRule),
+      status: EligibilityStatusEnum.ELIGIBLE
+    });
+  });
+
+  it("should return ELIGIBLE from the 18th birthday", () => {
+    expect(
+      getCgnAgeEligibility(
+        anElibibleFiscalCode,
+        aDefaultEligibilityPolicy,
+        fixedClock(toRomeDate(2013, 11, 20))
+      )
+    ).toEqual({
+      ...toRuleFields(aCgnDefaultRule),
+      status: EligibilityStatusEnum.ELIGIBLE
+    });
+  });
+
+  it("should return TOO_OLD from the upper bound birthday", () => {
+    expect(
+      getCgnAgeEligibility(
+        anElibibleFiscalCode,
+        aDefaultEligibilityPolicy,
+        fixedClock(toRomeDate(2031, 11, 20))
+      )
+    ).toEqual({
+      ...toRuleFields(aCgnDefaultRule),
+      status: EligibilityStatusEnum.TOO_OLD
+    });
+  });
+});
+
+describe("getEycaAgeEligibility", () => {
+  it("should return ELIGIBLE until the day before the upper bound birthday", () => {
+    expect(
+      getEycaAgeEligibility(
+        anElibibleFiscalCode,
+        aDefaultEligibilityPolicy,
+        fixedClock(toRomeDate(2026, 11, 19))
+      )
+    ).toEqual({
+      ...toRuleFields(anEycaDefaultRule),
+      status: EligibilityStatusEnum.ELIGIBLE
+    });
+  });
+
+  it("should return TOO_OLD from the upper bound birthday", () => {
+    expect(
+      getEycaAgeEligibility(
+        anElibibleFiscalCode,
+        aDefaultEligibilityPolicy,
+        fixedClock(toRomeDate(2026, 11, 20))
+      )
+    ).toEqual({
+      ...toRuleFields(anEycaDefaultRule),
+      status: EligibilityStatusEnum.TOO_OLD
+    });
+  });
+});
+
+describe("eligibility policy", () => {
+  const aForeignBornRule = {
+    ...aCgnDefaultRule,
+    birthplaces: ["Z" as NonEmptyString],
+    explanation: "Citizens born abroad are eligible until they turn 50" as NonEmptyString,
+    id: "CGN_FOREIGN_BORN" as NonEmptyString,
+    upperBoundAge: 50 as NonNegativeInteger
+  };
+  const aFutureRule = {
+    ...aCgnDefaultRule,
+    effectiveFrom: "2030-01-01" as EligibilityRule["effectiveFrom"],
+    id: "CGN_2030" as NonEmptyString
+  };
+  const aClock = fixedClock(toRomeDate(2026, 1, 1));
+
+  it("should check the citizens born abroad against their own rule", () => {
+    const aPolicy = [...aDefaultEligibilityPolicy, aForeignBornRule];
+    // the citizen is born abroad on 1980-01-01
+    expect(
+      getCgnAgeEligibility(aForeignBornFiscalCode, aPolicy, aClock)
+    ).toEqual({
+      ...toRuleFields(aForeignBornRule),
+      status: EligibilityStatusEnum.ELIGIBLE
+    });
+    expect(getCgnAgeEligibility(anElibibleFiscalCode, aPolicy, aClock)).toEqual(
+      {
+        ...toRuleFields(aCgnDefaultRule),
+        status: EligibilityStatusEnum.ELIGIBLE
+      }
+    );
+  });
+
+  it("should return NO_RULE_IN_FORCE if no rule applies to the citizen", () => {
+    expect(
+      getCgnAgeEligibility(anElibibleFiscalCode, [aFutureRule], aClock)
+    ).toEqual({ status: EligibilityStatusEnum.NO_RULE_IN_FORCE });
+  });
+
+  it("should not be eligible if no rule applies to the citizen", async () => {
+    const result = await checkCgnRequirements(
+      anElibibleFiscalCode,
+      [aFutureRule],
+      aClock
+    )();
+    expect(result).toEqual(E.right(false));
+  });
+
+  it("should return an Error extracting the expiration date if no rule applies to the citizen", async () => {
+    const result = await extractCgnExpirationDate(
+      anElibibleFiscalCode,
+      [aFutureRule],
+      aClock
+    )();
+    expect(result).toEqual(
+      E.left(new Error("No CGN eligibility rule in force for given fiscalCode"))
+    );
+  });
+});
+
+describe("toBirthDate", () => {
+  it("should extract the birth date of an omocodic fiscal code", () => {
+    expect(toBirthDate("DROLSSVRS20H50MA" as FiscalCode, systemClock)).toEqual(
+      O.some(toRomeDate(1995, 11, 20))
+    );
+  });
+
+  it("should return none if the check character does not match", () => {
+    expect(toBirthDate("DROLSS95S20H501F" as FiscalCode, systemClock)).toEqual(
+      O.none
+    );
+  });
 });
@@ -0,0 +1,71 @@
+import { fixedClock, getClock, offsetClock, systemClock } from "../clock";
+
+const aFixedTime = new Date("2021-03-01T10:00:00Z");
+const aSystemTime = new Date("2022-06-15T08:30:00Z").getTime();
+
+describe("fixedClock", () => {
+  it("should always tell the given moment", () => {
+    const clock = fixedClock(aFixedTime);
+    expect(clock()).toEqual(aFixedTime);
+    expect(clock()).toEqual(aFixedTime);
+  });
+
+  it("should not be affected by changes to the returned dates", () => {
+    const clock = fixedClock(aFixedTime);
+    clock().setFullYear(2000);
+    expect(clock()).toEqual(aFixedTime);
+  });
+});
+
+describe("offsetClock", () => {
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockImplementation(() => aSystemTime);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should run ahead of the system clock", () => {
+    expect(offsetClock(3600)()).toEqual(new Date("2022-06-15T09:30:00Z"));
+  });
+
+  it("should run behind the system clock with a negative offset", () => {
+    expect(offsetClock(-86400)()).toEqual(new Date("2022-06-14T08:30:00Z"));
+  });
+});
+
+describe("getClock", () => {
+  it("should return the system clock in production", () => {
+    expect(
+      getClock({
+        CLOCK_FIXED_TIME: aFixedTime,
+        CLOCK_OFFSET_IN_SECONDS: 3600,
+        isProduction: true
+      })
+    ).toBe(systemClock);
+  });
+
+  it("should return the system clock if no time is configured", () => {
+    expect(getClock({ isProduction: false })).toBe(systemClock);
+  });
+
+  it("should prefer the fixed time to the offset", () => {
+    const clock = getClock({
+      CLOCK_FIXED_TIME: aFixedTime,
+      CLOCK_OFFSET_IN_SECONDS: 3600,
+      isProduction: false
+    });
+    expect(clock()).toEqual(aFixedTime);
+  });
+
+  it("should apply the configured offset", () => {
+    jest.spyOn(Date, "now").mockImplementationOnce(() => aSystemTime);
+    const clock = getClock({
+      CLOCK_OFFSET_IN_SECONDS: -3600,
+      isProduction: false
+    });
+    expect(clock()).toEqual(new Date("2022-06-15T07:30:00Z"));
+    jest.restoreAllMocks();
+  });
+});
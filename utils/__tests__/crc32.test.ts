@@ -0,0 +1,7 @@
+import { crc32 } from "../crc32";
+
+describe("crc32", () => {
+  it("should compute the CRC-32 checksum", () => {
+    expect(crc32(Buffer.from("123456789", "ascii"))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  addRomeDays,
+  addYearsToBirthDate,
+  endOfRomeDay,
+  formatRomeDate,
+  startOfRomeDay,
+  toRomeDate
+} from "../dates";
+
+// Rome is 1 hour ahead of UTC in winter and 2 hours ahead in summer
+const aWinterEvening = new Date("2021-03-01T23:30:00Z");
+const aSummerEvening = new Date("2021-07-01T22:30:00Z");
+
+describe("toRomeDate", () => {
+  it("should return the moment the day starts in Rome", () => {
+    expect(toRomeDate(2021, 3, 2)).toEqual(new Date("2021-03-01T23:00:00Z"));
+    expect(toRomeDate(2021, 7, 2)).toEqual(new Date("2021-07-01T22:00:00Z"));
+  });
+});
+
+describe("formatRomeDate", () => {
+  it("should format the day of the moment in Rome", () => {
+    expect(formatRomeDate(aWinterEvening)).toEqual("2021-03-02");
+    expect(formatRomeDate(aSummerEvening)).toEqual("2021-07-02");
+  });
+
+  it("should format the day with the given pattern", () => {
+    expect(formatRomeDate(aWinterEvening, "dd-MM-yyyy")).toEqual("02-03-2021");
+  });
+});
+
+describe("startOfRomeDay", () => {
+  it("should return the moment the day starts in Rome", () => {
+    expect(startOfRomeDay(aWinterEvening)).toEqual(
+      new Date("2021-03-01T23:00:00Z")
+    );
+    expect(startOfRomeDay(aSummerEvening)).toEqual(
+      new Date("2021-07-01T22:00:00Z")
+    );
+  });
+});
+
+describe("endOfRomeDay", () => {
+  it("should return the last millisecond of the day in Rome", () => {
+    expect(endOfRomeDay(aWinterEvening)).toEqual(
+      new Date("2021-03-02T22:59:59.999Z")
+    );
+    expect(endOfRomeDay(aSummerEvening)).toEqual(
+      new Date("2021-07-02T21:59:59.999Z")
+    );
+  });
+
+  it("should be the same day in Rome", () => {
+    expect(formatRomeDate(endOfRomeDay(aWinterEvening))).toEqual(
+      formatRomeDate(aWinterEvening)
+    );
+  });
+});
+
+describe("addRomeDays", () => {
+  it("should return the start of the following days in Rome", () => {
+    expect(addRomeDays(aWinterEvening, 1)).toEqual(toRomeDate(2021, 3, 3));
+    expect(addRomeDays(aWinterEvening, 30)).toEqual(toRomeDate(2021, 4, 1));
+  });
+
+  it("should add whole days across a daylight saving time change", () => {
+    const theDayBeforeTheChange = new Date("2021-03-27T12:00:00Z");
+    expect(addRomeDays(theDayBeforeTheChange, 1)).toEqual(
+      new Date("2021-03-27T23:00:00Z")
+    );
+    expect(addRomeDays(theDayBeforeTheChange, 2)).toEqual(
+      new Date("2021-03-28T22:00:00Z")
+    );
+  });
+});
+
+describe("addYearsToBirthDate", () => {
+  it("should return the start of the birthday in Rome", () => {
+    expect(addYearsToBirthDate(toRomeDate(1995, 11, 20), 36)).toEqual(
+      toRomeDate(2031, 11, 20)
+    );
+  });
+
+  it("should return the 1st of March for the ones born on 29 February in a common year", () => {
+    expect(addYearsToBirthDate(toRomeDate(2000, 2, 29), 18)).toEqual(
+      toRomeDate(2018, 3, 1)
+    );
+  });
+
+  it("should return the 29th of February for the ones born on 29 February in a leap year", () => {
+    expect(addYearsToBirthDate(toRomeDate(2000, 2, 29), 20)).toEqual(
+      toRomeDate(2020, 2, 29)
+    );
+  });
+});
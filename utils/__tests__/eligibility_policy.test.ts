@@ -0,0 +1,185 @@
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
+import { ExpiringCardTypeEnum } from "../../generated/definitions/ExpiringCardType";
+import {
+  EligibilityPolicy,
+  EligibilityPolicyFromString,
+  EligibilityRule,
+  getDefaultEligibilityPolicy,
+  getEligibilityPolicy,
+  getEligibilityRule
+} from "../eligibility_policy";
+
+const aRule = (
+  id: string,
+  upperBoundAge: number,
+  rule: Partial<EligibilityRule> = {}
+): EligibilityRule => ({
+  cardType: ExpiringCardTypeEnum.CGN,
+  explanation: `Explanation of ${id}` as NonEmptyString,
+  id: id as NonEmptyString,
+  lowerBoundAge: 18 as NonNegativeInteger,
+  upperBoundAge: upperBoundAge as NonNegativeInteger,
+  ...rule
+});
+
+const aGeneralRule = aRule("GENERAL", 36);
+const aLaterRule = aRule("LATER", 31, {
+  effectiveFrom: "2024-01-01" as EligibilityRule["effectiveFrom"]
+});
+const aForeignBornRule = aRule("FOREIGN_BORN", 40, {
+  birthplaces: ["Z" as NonEmptyString]
+});
+const anEycaRule = aRule("EYCA", 31, { cardType: ExpiringCardTypeEnum.EYCA });
+
+const aPolicy: EligibilityPolicy = [
+  aGeneralRule,
+  aLaterRule,
+  aForeignBornRule,
+  anEycaRule
+];
+
+const aDayBeforeTheLaterRule = new Date("2023-12-31T22:30:00Z");
+const theDayOfTheLaterRule = new Date("2023-12-31T23:30:00Z");
+
+describe("getDefaultEligibilityPolicy", () => {
+  it("should return a rule for each card with the given upper bound ages", () => {
+    const policy = getDefaultEligibilityPolicy(
+      36 as NonNegativeInteger,
+      31 as NonNegativeInteger
+    );
+    expect(policy).toEqual([
+      expect.objectContaining({
+        cardType: ExpiringCardTypeEnum.CGN,
+        id: "CGN_DEFAULT",
+        lowerBoundAge: 18,
+        upperBoundAge: 36
+      }),
+      expect.objectContaining({
+        cardType: ExpiringCardTypeEnum.EYCA,
+        id: "EYCA_DEFAULT",
+        lowerBoundAge: 18,
+        upperBoundAge: 31
+      })
+    ]);
+  });
+});
+
+describe("getEligibilityPolicy", () => {
+  it("should return the default policy if none is configured", () => {
+    expect(
+      getEligibilityPolicy({
+        CGN_UPPER_BOUND_AGE: 36 as NonNegativeInteger,
+        EYCA_UPPER_BOUND_AGE: 31 as NonNegativeInteger
+      })
+    ).toEqual(
+      getDefaultEligibilityPolicy(
+        36 as NonNegativeInteger,
+        31 as NonNegativeInteger
+      )
+    );
+  });
+
+  it("should return the configured policy", () => {
+    expect(
+      getEligibilityPolicy({
+        CGN_UPPER_BOUND_AGE: 36 as NonNegativeInteger,
+        ELIGIBILITY_POLICY: aPolicy,
+        EYCA_UPPER_BOUND_AGE: 31 as NonNegativeInteger
+      })
+    ).toBe(aPolicy);
+  });
+});
+
+describe("getEligibilityRule", () => {
+  it("should return the rule for the given card", () => {
+    expect(
+      getEligibilityRule(
+        aPolicy,
+        ExpiringCardTypeEnum.EYCA,
+        "H501",
+        theDayOfTheLaterRule
+      )
+    ).toEqual(O.some(anEycaRule));
+  });
+
+  it("should not return the rules that are not in force yet", () => {
+    expect(
+      getEligibilityRule(
+        aPolicy,
+        ExpiringCardTypeEnum.CGN,
+        "H501",
+        aDayBeforeTheLaterRule
+      )
+    ).toEqual(O.some(aGeneralRule));
+  });
+
+  it("should return the latest rule to come into force, in Rome", () => {
+    expect(
+      getEligibilityRule(
+        aPolicy,
+        ExpiringCardTypeEnum.CGN,
+        "H501",
+        theDayOfTheLaterRule
+      )
+    ).toEqual(O.some(aLaterRule));
+  });
+
+  it("should prefer the rules restricted to the citizen's birthplace", () => {
+    expect(
+      getEligibilityRule(
+        aPolicy,
+        ExpiringCardTypeEnum.CGN,
+        "Z404",
+        theDayOfTheLaterRule
+      )
+    ).toEqual(O.some(aForeignBornRule));
+  });
+
+  it("should prefer the latest listed rule among equivalent ones", () => {
+    const anotherGeneralRule = aRule("ANOTHER_GENERAL", 30);
+    expect(
+      getEligibilityRule(
+        [aGeneralRule, anotherGeneralRule],
+        ExpiringCardTypeEnum.CGN,
+        "H501",
+        theDayOfTheLaterRule
+      )
+    ).toEqual(O.some(anotherGeneralRule));
+  });
+
+  it("should return none if no rule is in force", () => {
+    expect(
+      getEligibilityRule(
+        [aLaterRule],
+        ExpiringCardTypeEnum.CGN,
+        "H501",
+        aDayBeforeTheLaterRule
+      )
+    ).toEqual(O.none);
+  });
+});
+
+describe("EligibilityPolicyFromString", () => {
+  it("should decode a JSON array of rules", () => {
+    expect(EligibilityPolicyFromString.decode(JSON.stringify(aPolicy))).toEqual(
+      E.right(aPolicy)
+    );
+  });
+
+  it("should not decode an invalid JSON", () => {
+    expect(E.isLeft(EligibilityPolicyFromString.decode("[{"))).toBeTruthy();
+  });
+
+  it("should not decode an invalid rule", () => {
+    expect(
+      E.isLeft(
+        EligibilityPolicyFromString.decode(
+          JSON.stringify([{ ...aGeneralRule, upperBoundAge: -1 }])
+        )
+      )
+    ).toBeTruthy();
+  });
+});
@@ -0,0 +1,38 @@
+import { decrypt, encrypt } from "../encryption";
+
+const aSecret = "A_SECRET";
+const aPlaintext = "A_PLAINTEXT";
+
+describe("encrypt", () => {
+  it("should not expose the plaintext", () => {
+    expect(encrypt(aSecret, aPlaintext)).not.toContain(aPlaintext);
+  });
+
+  it("should produce a different value on each call", () => {
+    expect(encrypt(aSecret, aPlaintext)).not.toEqual(
+      encrypt(aSecret, aPlaintext)
+    );
+  });
+});
+
+describe("decrypt", () => {
+  it("should return the plaintext of an encrypted value", () => {
+    expect(decrypt(aSecret, encrypt(aSecret, aPlaintext))).toEqual({
+      _tag: "Right",
+      right: aPlaintext
+    });
+  });
+
+  it("should return an error if the secret does not match", () => {
+    expect(decrypt("ANOTHER_SECRET", encrypt(aSecret, aPlaintext))._tag).toBe(
+      "Left"
+    );
+  });
+
+  it("should return an error if the value has been tampered with", () => {
+    const encrypted = Buffer.from(encrypt(aSecret, aPlaintext), "base64");
+    // eslint-disable-next-line no-bitwise, functional/immutable-data
+    encrypted[encrypted.length - 1] ^= 1;
+    expect(decrypt(aSecret, encrypted.toString("base64"))._tag).toBe("Left");
+  });
+});
@@ -0,0 +1,75 @@
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { aFiscalCode } from "../../__mocks__/mock";
+import {
+  isValidCgnDataErasureReceipt,
+  signCgnDataErasureReceipt
+} from "../erasure_receipt";
+import { toKeyedHash } from "../hash";
+
+const aSigningKey = "A_SIGNING_KEY";
+
+const anUnsignedReceipt = {
+  completed_at: new Date("2021-01-01T10:00:05.000Z"),
+  erased_items: {
+    cgn_expirations: 1 as NonNegativeInteger,
+    eyca_expirations: 0 as NonNegativeInteger,
+    orchestrations: 2 as NonNegativeInteger,
+    user_cgns: 3 as NonNegativeInteger,
+    user_eyca_cards: 0 as NonNegativeInteger
+  },
+  fiscal_code: aFiscalCode,
+  instance_id: `${aFiscalCode}-ERASURE`,
+  requested_at: new Date("2021-01-01T10:00:00.000Z")
+};
+
+describe("signCgnDataErasureReceipt", () => {
+  it("should sign the receipt fields in a fixed order", () => {
+    expect(signCgnDataErasureReceipt(aSigningKey, anUnsignedReceipt)).toEqual({
+      ...anUnsignedReceipt,
+      signature: toKeyedHash(
+        aSigningKey,
+        JSON.stringify([
+          aFiscalCode,
+          `${aFiscalCode}-ERASURE`,
+          "2021-01-01T10:00:00.000Z",
+          "2021-01-01T10:00:05.000Z",
+          3,
+          0,
+          1,
+          0,
+          2
+        ])
+      )
+    });
+  });
+});
+
+describe("isValidCgnDataErasureReceipt", () => {
+  const aReceipt = signCgnDataErasureReceipt(aSigningKey, anUnsignedReceipt);
+
+  it("should accept a receipt signed with the same key", () => {
+    expect(isValidCgnDataErasureReceipt(aSigningKey, aReceipt)).toBe(true);
+  });
+
+  it("should reject a receipt signed with another key", () => {
+    expect(isValidCgnDataErasureReceipt("ANOTHER_KEY", aReceipt)).toBe(false);
+  });
+
+  it("should reject an altered receipt", () => {
+    expect(
+      isValidCgnDataErasureReceipt(aSigningKey, {
+        ...aReceipt,
+        erased_items: {
+          ...aReceipt.erased_items,
+          user_cgns: 0 as NonNegativeInteger
+        }
+      })
+    ).toBe(false);
+    expect(
+      isValidCgnDataErasureReceipt(aSigningKey, {
+        ...aReceipt,
+        signature: "short"
+      })
+    ).toBe(false);
+  });
+});
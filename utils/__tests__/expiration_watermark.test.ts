@@ -0,0 +1,394 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { ExpiringCardTypeEnum } from "../card_expiration";
+import {
+  deleteFailedExpirationsByFiscalCode,
+  getDaysToProcess,
+  getExpirationWatermark,
+  getFailedExpirations,
+  processDaysFromWatermark,
+  toLastProcessedDate
+} from "../expiration_watermark";
+
+const aWatermarkTableName = "aWatermarkTable" as NonEmptyString;
+const aToday = new Date("2021-03-01T00:00:05Z");
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const anotherFiscalCode = "RODEDS80S10H501H" as FiscalCode;
+
+const retrieveEntityMock = jest.fn();
+const insertOrReplaceEntityMock = jest.fn();
+const deleteEntityMock = jest.fn();
+const queryEntitiesMock = jest.fn();
+const tableServiceMock = {
+  deleteEntity: deleteEntityMock,
+  insertOrReplaceEntity: insertOrReplaceEntityMock,
+  queryEntities: queryEntitiesMock,
+  retrieveEntity: retrieveEntityMock
+};
+
+const aWatermarkEntry = (
+  lastProcessedDate: string,
+  lastVisitedDate: string
+) => ({
+  LastProcessedDate: { _: lastProcessedDate },
+  LastVisitedDate: { _: lastVisitedDate }
+});
+
+const mockFailedExpirationRows = (rowKeys: ReadonlyArray<string>) =>
+  queryEntitiesMock.mockImplementationOnce((_, __, ___, cb) =>
+    cb(
+      null,
+      { entries: rowKeys.map(rowKey => ({ RowKey: { _: rowKey } })) },
+      { isSuccessful: true }
+    )
+  );
+
+const insertedWatermarks = () =>
+  insertOrReplaceEntityMock.mock.calls
+    .map(([, entity]) => entity)
+    .filter(entity => entity.RowKey._ === "LAST_PROCESSED_DATE")
+    .map(entity => [entity.LastProcessedDate._, entity.LastVisitedDate._]);
+
+const insertedFailures = () =>
+  insertOrReplaceEntityMock.mock.calls
+    .map(([, entity]) => entity)
+    .filter(entity => entity.RowKey._ !== "LAST_PROCESSED_DATE")
+    .map(entity => [entity.PartitionKey._, entity.RowKey._]);
+
+describe("getDaysToProcess", () => {
+  it("should return only today if no day has ever been processed", () => {
+    expect(getDaysToProcess(O.none, aToday, 7)).toEqual(["2021-03-01"]);
+  });
+
+  it("should return every day following the last visited one up to today", () => {
+    expect(getDaysToProcess(O.some("2021-02-26"), aToday, 7)).toEqual([
+      "2021-02-27",
+      "2021-02-28",
+      "2021-03-01"
+    ]);
+  });
+
+  it("should return at most the given number of days", () => {
+    expect(getDaysToProcess(O.some("2021-02-20"), aToday, 2)).toEqual([
+      "2021-02-21",
+      "2021-02-22"
+    ]);
+  });
+
+  it("should return no day if today has already been processed", () => {
+    expect(getDaysToProcess(O.some("2021-03-01"), aToday, 7)).toEqual([]);
+  });
+
+  it("should return the days up to today in Rome", () => {
+    // it is already 2021-03-02 in Rome
+    expect(
+      getDaysToProcess(
+        O.some("2021-02-28"),
+        new Date("2021-03-01T23:30:00Z"),
+        7
+      )
+    ).toEqual(["2021-03-01", "2021-03-02"]);
+  });
+});
+
+describe("toLastProcessedDate", () => {
+  it("should return the last visited day if no expiration failed", () => {
+    expect(toLastProcessedDate("2021-03-01", [])).toEqual("2021-03-01");
+  });
+
+  it("should return the day before the first failed expiration", () => {
+    expect(
+      toLastProcessedDate("2021-03-01", [
+        { day: "2021-02-27", fiscalCode: aFiscalCode },
+        { day: "2021-02-25", fiscalCode: anotherFiscalCode }
+      ])
+    ).toEqual("2021-02-24");
+  });
+});
+
+describe("getExpirationWatermark", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the last processed and visited dates of the card type", async () => {
+    retrieveEntityMock.mockImplementationOnce((_, __, ___, cb) =>
+      cb(null, aWatermarkEntry("2021-02-26", "2021-02-28"))
+    );
+    const result = await getExpirationWatermark(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.EYCA
+    )();
+    expect(result).toEqual(
+      E.right(
+        O.some({
+          lastProcessedDate: "2021-02-26",
+          lastVisitedDate: "2021-02-28"
+        })
+      )
+    );
+    expect(retrieveEntityMock).toHaveBeenCalledWith(
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.EYCA,
+      "LAST_PROCESSED_DATE",
+      expect.any(Function)
+    );
+  });
+
+  it("should return none if no day has ever been processed", async () => {
+    retrieveEntityMock.mockImplementationOnce((_, __, ___, cb) =>
+      cb({ statusCode: 404 })
+    );
+    const result = await getExpirationWatermark(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN
+    )();
+    expect(result).toEqual(E.right(O.none));
+  });
+
+  it("should return an error if the watermark cannot be retrieved", async () => {
+    retrieveEntityMock.mockImplementationOnce((_, __, ___, cb) =>
+      cb({ statusCode: 500 })
+    );
+    const result = await getExpirationWatermark(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN
+    )();
+    expect(E.isLeft(result)).toBe(true);
+  });
+});
+
+describe("getFailedExpirations", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the failed expirations of the card type", async () => {
+    mockFailedExpirationRows([`2021-02-27_${aFiscalCode}`]);
+    const result = await getFailedExpirations(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN
+    )();
+    expect(result).toEqual(
+      E.right([{ day: "2021-02-27", fiscalCode: aFiscalCode }])
+    );
+  });
+
+  it("should return an error if the failed expirations cannot be retrieved", async () => {
+    queryEntitiesMock.mockImplementationOnce((_, __, ___, cb) =>
+      cb(new Error("Cannot query"), undefined, { isSuccessful: false })
+    );
+    const result = await getFailedExpirations(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN
+    )();
+    expect(E.isLeft(result)).toBe(true);
+  });
+});
+
+describe("deleteFailedExpirationsByFiscalCode", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    deleteEntityMock.mockImplementation((_, __, cb) => cb(null, {}));
+  });
+
+  it("should delete only the failed expirations of the fiscalCode", async () => {
+    mockFailedExpirationRows([
+      `2021-02-26_${aFiscalCode}`,
+      `2021-02-26_${anotherFiscalCode}`,
+      `2021-02-27_${aFiscalCode}`
+    ]);
+    const result = await deleteFailedExpirationsByFiscalCode(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.EYCA,
+      aFiscalCode
+    )();
+    expect(E.isRight(result)).toBe(true);
+    expect(deleteEntityMock.mock.calls.map(([, entity]) => entity)).toEqual([
+      {
+        PartitionKey: expect.objectContaining({ _: "EYCA_FAILED" }),
+        RowKey: expect.objectContaining({ _: `2021-02-26_${aFiscalCode}` })
+      },
+      {
+        PartitionKey: expect.objectContaining({ _: "EYCA_FAILED" }),
+        RowKey: expect.objectContaining({ _: `2021-02-27_${aFiscalCode}` })
+      }
+    ]);
+  });
+
+  it("should return an error if a failed expiration cannot be deleted", async () => {
+    mockFailedExpirationRows([`2021-02-26_${aFiscalCode}`]);
+    deleteEntityMock.mockImplementationOnce((_, __, cb) =>
+      cb({ statusCode: 500 })
+    );
+    const result = await deleteFailedExpirationsByFiscalCode(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.EYCA,
+      aFiscalCode
+    )();
+    expect(E.isLeft(result)).toBe(true);
+  });
+});
+
+describe("processDaysFromWatermark", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    retrieveEntityMock.mockImplementation((_, __, ___, cb) =>
+      cb(null, aWatermarkEntry("2021-02-27", "2021-02-27"))
+    );
+    queryEntitiesMock.mockImplementation((_, __, ___, cb) =>
+      cb(null, { entries: [] }, { isSuccessful: true })
+    );
+    insertOrReplaceEntityMock.mockImplementation((_, __, cb) => cb(null, {}));
+    deleteEntityMock.mockImplementation((_, __, cb) => cb(null, {}));
+  });
+
+  it("should move the watermark forward after each processed day", async () => {
+    const processDayMock = jest.fn(() => TE.of([]));
+    const result = await processDaysFromWatermark(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN,
+      aToday,
+      7,
+      processDayMock
+    )();
+    expect(result).toEqual(
+      E.right({
+        failedExpirations: 0,
+        processedDays: ["2021-02-28", "2021-03-01"]
+      })
+    );
+    expect(processDayMock).toHaveBeenCalledTimes(2);
+    expect(insertedWatermarks()).toEqual([
+      ["2021-02-28", "2021-02-28"],
+      ["2021-03-01", "2021-03-01"]
+    ]);
+    expect(insertOrReplaceEntityMock).toHaveBeenLastCalledWith(
+      aWatermarkTableName,
+      expect.objectContaining({
+        PartitionKey: expect.objectContaining({ _: ExpiringCardTypeEnum.CGN })
+      }),
+      expect.any(Function)
+    );
+  });
+
+  it("should process the following days when a card fails to expire", async () => {
+    const processDayMock = jest
+      .fn()
+      .mockImplementationOnce(() => TE.of([aFiscalCode]))
+      .mockImplementationOnce(() => TE.of([]));
+    const result = await processDaysFromWatermark(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN,
+      aToday,
+      7,
+      processDayMock
+    )();
+    expect(result).toEqual(
+      E.right({
+        failedExpirations: 1,
+        processedDays: ["2021-02-28", "2021-03-01"]
+      })
+    );
+    expect(insertedFailures()).toEqual([
+      ["CGN_FAILED", `2021-02-28_${aFiscalCode}`]
+    ]);
+    // the watermark is kept at the day before the failed expiration
+    expect(insertedWatermarks()).toEqual([
+      ["2021-02-27", "2021-02-28"],
+      ["2021-02-27", "2021-03-01"]
+    ]);
+  });
+
+  it("should retry only the cards that failed to expire", async () => {
+    retrieveEntityMock.mockImplementationOnce((_, __, ___, cb) =>
+      cb(null, aWatermarkEntry("2021-02-26", "2021-03-01"))
+    );
+    mockFailedExpirationRows([
+      `2021-02-27_${aFiscalCode}`,
+      `2021-02-28_${anotherFiscalCode}`
+    ]);
+    const processDayMock = jest
+      .fn()
+      .mockImplementationOnce(() => TE.of([]))
+      .mockImplementationOnce(() => TE.of([anotherFiscalCode]));
+    const result = await processDaysFromWatermark(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN,
+      aToday,
+      7,
+      processDayMock
+    )();
+    expect(result).toEqual(
+      E.right({ failedExpirations: 1, processedDays: [] })
+    );
+    expect(processDayMock).toHaveBeenCalledTimes(2);
+    const [
+      [firstDay, isToProcessOnFirstDay],
+      [secondDay, isToProcessOnSecondDay]
+    ] = processDayMock.mock.calls;
+    expect(firstDay).toEqual("2021-02-27");
+    expect(isToProcessOnFirstDay(aFiscalCode)).toBe(true);
+    expect(isToProcessOnFirstDay(anotherFiscalCode)).toBe(false);
+    expect(secondDay).toEqual("2021-02-28");
+    expect(isToProcessOnSecondDay(anotherFiscalCode)).toBe(true);
+    expect(deleteEntityMock).toHaveBeenCalledTimes(1);
+    expect(deleteEntityMock).toHaveBeenCalledWith(
+      aWatermarkTableName,
+      expect.objectContaining({
+        RowKey: expect.objectContaining({ _: `2021-02-27_${aFiscalCode}` })
+      }),
+      expect.any(Function)
+    );
+    expect(insertedWatermarks()).toEqual([["2021-02-27", "2021-03-01"]]);
+  });
+
+  it("should catch up at most the given number of days", async () => {
+    retrieveEntityMock.mockImplementationOnce((_, __, ___, cb) =>
+      cb(null, aWatermarkEntry("2021-02-20", "2021-02-20"))
+    );
+    const processDayMock = jest.fn(() => TE.of([]));
+    const result = await processDaysFromWatermark(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN,
+      aToday,
+      2,
+      processDayMock
+    )();
+    expect(result).toEqual(
+      E.right({
+        failedExpirations: 0,
+        processedDays: ["2021-02-21", "2021-02-22"]
+      })
+    );
+  });
+
+  it("should not move the watermark forward if a day cannot be processed", async () => {
+    const processDayMock = jest.fn(() => TE.left(new Error("Cannot query")));
+    const result = await processDaysFromWatermark(
+      tableServiceMock as any,
+      aWatermarkTableName,
+      ExpiringCardTypeEnum.CGN,
+      aToday,
+      7,
+      processDayMock
+    )();
+    expect(E.isLeft(result)).toBe(true);
+    expect(processDayMock).toHaveBeenCalledTimes(1);
+    expect(insertedWatermarks()).toEqual([]);
+  });
+});
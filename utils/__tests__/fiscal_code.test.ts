@@ -0,0 +1,128 @@
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { fixedClock, systemClock } from "../clock";
+import { toRomeDate } from "../dates";
+import {
+  computeCheckCharacter,
+  decodeOmocodia,
+  parseFiscalCode
+} from "../fiscal_code";
+
+const aFiscalCode = "DROLSS95S20H501H" as FiscalCode;
+const anOmocodicFiscalCode = "DROLSS95S20H50MZ" as FiscalCode;
+const aFullyOmocodicFiscalCode = "DROLSSVRS20H50MA" as FiscalCode;
+const aFemaleFiscalCode = "DROLSS95S60H501L" as FiscalCode;
+const aForeignBornFiscalCode = "RSSMRA80A41Z404V" as FiscalCode;
+
+describe("computeCheckCharacter", () => {
+  it("should compute the check character of a fiscal code", () => {
+    expect(computeCheckCharacter(aFiscalCode)).toEqual("H");
+  });
+
+  it("should compute the check character of an omocodic fiscal code", () => {
+    expect(computeCheckCharacter(anOmocodicFiscalCode)).toEqual("Z");
+  });
+});
+
+describe("decodeOmocodia", () => {
+  it("should replace the omocodic letters with digits", () => {
+    expect(decodeOmocodia(aFullyOmocodicFiscalCode)).toEqual(
+      "DROLSS95S20H501A"
+    );
+  });
+
+  it("should not replace the letters of the name and of the month", () => {
+    expect(decodeOmocodia(aFiscalCode)).toEqual(aFiscalCode);
+  });
+});
+
+describe("parseFiscalCode", () => {
+  it("should extract the data of a fiscal code", () => {
+    expect(parseFiscalCode(aFiscalCode, systemClock)).toEqual(
+      E.right({
+        birthDate: toRomeDate(1995, 11, 20),
+        birthPlace: "H501",
+        sex: "M"
+      })
+    );
+  });
+
+  it("should extract the data of an omocodic fiscal code", () => {
+    expect(parseFiscalCode(aFullyOmocodicFiscalCode, systemClock)).toEqual(
+      E.right({
+        birthDate: toRomeDate(1995, 11, 20),
+        birthPlace: "H501",
+        sex: "M"
+      })
+    );
+  });
+
+  it("should guess the century of the birth date by the clock", () => {
+    const aYoungFiscalCode = "DROLSS02S20H501K" as FiscalCode;
+    expect(
+      parseFiscalCode(aYoungFiscalCode, fixedClock(toRomeDate(2010, 1, 1)))
+    ).toEqual(
+      E.right({
+        birthDate: toRomeDate(2002, 11, 20),
+        birthPlace: "H501",
+        sex: "M"
+      })
+    );
+    expect(
+      parseFiscalCode(aYoungFiscalCode, fixedClock(toRomeDate(2001, 1, 1)))
+    ).toEqual(
+      E.right({
+        birthDate: toRomeDate(1902, 11, 20),
+        birthPlace: "H501",
+        sex: "M"
+      })
+    );
+  });
+
+  it("should extract the data of a female citizen born abroad", () => {
+    expect(parseFiscalCode(aForeignBornFiscalCode, systemClock)).toEqual(
+      E.right({
+        birthDate: toRomeDate(1980, 1, 1),
+        birthPlace: "Z404",
+        sex: "F"
+      })
+    );
+    expect(parseFiscalCode(aFemaleFiscalCode, systemClock)).toEqual(
+      E.right({
+        birthDate: toRomeDate(1995, 11, 20),
+        birthPlace: "H501",
+        sex: "F"
+      })
+    );
+  });
+
+  it("should return an error if the check character does not match", () => {
+    const result = parseFiscalCode(
+      "DROLSS95S20H501F" as FiscalCode,
+      systemClock
+    );
+    expect(E.isLeft(result)).toBeTruthy();
+    if (E.isLeft(result)) {
+      expect(result.left.message).toEqual(
+        "Invalid fiscal code check character"
+      );
+    }
+  });
+
+  it("should return an error if the birth day does not exist", () => {
+    const result = parseFiscalCode(
+      "DROLSS95B30H501W" as FiscalCode,
+      systemClock
+    );
+    expect(E.isLeft(result)).toBeTruthy();
+    if (E.isLeft(result)) {
+      expect(result.left.message).toEqual("Invalid birth date in fiscal code");
+    }
+  });
+
+  it("should return an error if the fiscal code is malformed", () => {
+    expect(
+      E.isLeft(parseFiscalCode("AAAAAADSB00H000F" as FiscalCode, systemClock))
+    ).toBeTruthy();
+  });
+});
@@ -0,0 +1,38 @@
+import * as E from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
+import * as t from "io-ts";
+import { OptionalBodyPayloadMiddleware } from "../middlewares";
+
+const aPayloadType = t.partial({ name: t.string });
+
+describe("OptionalBodyPayloadMiddleware", () => {
+  it("should return none if the body is missing", async () => {
+    expect(
+      await OptionalBodyPayloadMiddleware(aPayloadType)({} as any)
+    ).toEqual(E.right(O.none));
+  });
+
+  it("should return none if the body is empty", async () => {
+    expect(
+      await OptionalBodyPayloadMiddleware(aPayloadType)({ body: "" } as any)
+    ).toEqual(E.right(O.none));
+  });
+
+  it("should return the decoded payload if the body is valid", async () => {
+    expect(
+      await OptionalBodyPayloadMiddleware(aPayloadType)({
+        body: { name: "A_NAME" }
+      } as any)
+    ).toEqual(E.right(O.some({ name: "A_NAME" })));
+  });
+
+  it("should return a validation error if the body is invalid", async () => {
+    const result = await OptionalBodyPayloadMiddleware(aPayloadType)({
+      body: { name: 1 }
+    } as any);
+    expect(E.isLeft(result)).toBe(true);
+    if (E.isLeft(result)) {
+      expect(result.left.kind).toBe("IResponseErrorValidation");
+    }
+  });
+});
@@ -73,6 +73,37 @@ describe("isOrchestratorRunning", () => {
   });
 });
 
+describe("isOrchestratorInProgress", () => {
+  it.each`
+    runtimeStatus                                   | expected
+    ${df.OrchestrationRuntimeStatus.Pending}        | ${true}
+    ${df.OrchestrationRuntimeStatus.Running}        | ${true}
+    ${df.OrchestrationRuntimeStatus.ContinuedAsNew} | ${true}
+    ${df.OrchestrationRuntimeStatus.Completed}      | ${false}
+  `(
+    "should return $expected if the orchestrator is $runtimeStatus",
+    async ({ runtimeStatus, expected }) => {
+      mockGetOrchestratorStatus.mockImplementationOnce(() =>
+        TE.of({ runtimeStatus })
+      );
+      const result = await orchUtils.isOrchestratorInProgress(
+        getClient as any,
+        "ID"
+      )();
+      expect(result).toEqual(E.right(expected));
+    }
+  );
+
+  it("should return false if the orchestrator never run", async () => {
+    mockGetOrchestratorStatus.mockImplementationOnce(() => TE.of(undefined));
+    const result = await orchUtils.isOrchestratorInProgress(
+      getClient as any,
+      "ID"
+    )();
+    expect(result).toEqual(E.right(false));
+  });
+});
+
 describe("checkUpdateCardIsRunning", () => {
   it("should return an accepted response if an orchestrator is running", async () => {
     mockGetOrchestratorStatus.mockImplementationOnce(() =>
@@ -151,3 +182,45 @@ describe("terminateUpdateCgnOrchestratorTask", () => {
     expect(E.isRight(terminateUpdateCgnOrchestratorTaskResult));
   });
 });
+
+describe("createLongTimer", () => {
+  const now = new Date("2021-01-01T10:00:00.000Z");
+  const createTimerMock = jest.fn().mockImplementation(date => date);
+  const orchestratorContext = {
+    df: { createTimer: createTimerMock, currentUtcDateTime: now }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should chain timers of at most 6 days until the given date", () => {
+    const timers = Array.from(
+      orchUtils.createLongTimer(
+        orchestratorContext as any,
+        new Date("2021-01-15T12:00:00.000Z")
+      )
+    );
+    expect(timers).toEqual([
+      new Date("2021-01-07T10:00:00.000Z"),
+      new Date("2021-01-13T10:00:00.000Z"),
+      new Date("2021-01-15T12:00:00.000Z")
+    ]);
+  });
+
+  it("should create a single timer for a date within 6 days", () => {
+    const aDate = new Date("2021-01-03T10:00:00.000Z");
+    expect(
+      Array.from(orchUtils.createLongTimer(orchestratorContext as any, aDate))
+    ).toEqual([aDate]);
+  });
+
+  it("should create a single timer for a past date", () => {
+    const aPastDate = new Date("2020-12-01T10:00:00.000Z");
+    expect(
+      Array.from(
+        orchUtils.createLongTimer(orchestratorContext as any, aPastDate)
+      )
+    ).toEqual([aPastDate]);
+  });
+});
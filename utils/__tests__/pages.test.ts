@@ -0,0 +1,57 @@
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { foldPages } from "../pages";
+
+async function* aPagesIterable(
+  pages: ReadonlyArray<ReadonlyArray<number>>,
+  error?: Error
+): AsyncIterable<ReadonlyArray<number>> {
+  for (const page of pages) {
+    yield page;
+  }
+  if (error) {
+    throw error;
+  }
+}
+
+const sumPage = (acc: number, page: ReadonlyArray<number>) =>
+  TE.of(page.reduce((sum, n) => sum + n, acc));
+
+describe("foldPages", () => {
+  it("should fold every page in order", async () => {
+    const f = jest.fn(sumPage);
+    const result = await foldPages(aPagesIterable([[1, 2], [3], []]), 0, f)();
+    expect(result).toEqual({ _tag: "Right", right: 6 });
+    expect(f.mock.calls.map(([acc, page]) => [acc, page])).toEqual([
+      [0, [1, 2]],
+      [3, [3]],
+      [6, []]
+    ]);
+  });
+
+  it("should return the initial value if there is no page", async () => {
+    const result = await foldPages(aPagesIterable([]), 0, sumPage)();
+    expect(result).toEqual({ _tag: "Right", right: 0 });
+  });
+
+  it("should stop at the first page that cannot be folded", async () => {
+    const f = jest
+      .fn()
+      .mockImplementationOnce(() => TE.left(new Error("Cannot fold page")));
+    const result = await foldPages(aPagesIterable([[1], [2]]), 0, f)();
+    expect(result._tag).toBe("Left");
+    expect(f).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return an error if a page cannot be read", async () => {
+    const result = await foldPages(
+      aPagesIterable([[1]], new Error("Cannot read page")),
+      0,
+      sumPage
+    )();
+    expect(result).toEqual({
+      _tag: "Left",
+      left: new Error("Cannot read page")
+    });
+  });
+});
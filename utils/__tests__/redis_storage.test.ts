@@ -4,8 +4,12 @@ import { pipe } from "fp-ts/lib/function";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 import {
+  deleteTask,
+  evalTask,
   existsKeyTask,
+  getSetMembersTask,
   getTask,
+  setIfNotExistsWithExpirationTask,
   setWithExpirationTask
 } from "../redis_storage";
 
@@ -18,10 +22,18 @@ const setMock = jest
   .mockImplementation((_, __, ___, ____, cb) => cb(undefined, "OK"));
 const getMock = jest.fn().mockImplementation((_, cb) => cb(null, aRedisValue));
 const existsMock = jest.fn().mockImplementation((_, cb) => cb(null, 1));
+const delMock = jest.fn().mockImplementation((_, cb) => cb(null, 1));
+const evalMock = jest.fn().mockImplementation((...args) => args[6](null, 1));
+const smembersMock = jest
+  .fn()
+  .mockImplementation((_, cb) => cb(null, ["A_MEMBER", "ANOTHER_MEMBER"]));
 const redisClientMock = {
+  del: delMock,
+  eval: evalMock,
   exists: existsMock,
   get: getMock,
-  set: setMock
+  set: setMock,
+  smembers: smembersMock
 };
 
 describe("setWithExpirationTask", () => {
@@ -77,6 +89,70 @@ describe("setWithExpirationTask", () => {
   });
 });
 
+describe("setIfNotExistsWithExpirationTask", () => {
+  it("should return true if the key did not exist and has been stored", async () => {
+    setMock.mockImplementationOnce((_, __, ___, ____, _____, cb) =>
+      cb(null, "OK")
+    );
+    await pipe(
+      setIfNotExistsWithExpirationTask(
+        redisClientMock as any,
+        aRedisKey,
+        aRedisValue,
+        aRedisDefaultExpiration
+      ),
+      TE.bimap(
+        _ => fail(),
+        value => expect(value).toEqual(true)
+      )
+    )();
+    expect(setMock).toHaveBeenCalledWith(
+      aRedisKey,
+      aRedisValue,
+      "EX",
+      aRedisDefaultExpiration,
+      "NX",
+      expect.any(Function)
+    );
+  });
+
+  it("should return false if the key already exists", async () => {
+    setMock.mockImplementationOnce((_, __, ___, ____, _____, cb) =>
+      cb(null, null)
+    );
+    await pipe(
+      setIfNotExistsWithExpirationTask(
+        redisClientMock as any,
+        aRedisKey,
+        aRedisValue,
+        aRedisDefaultExpiration
+      ),
+      TE.bimap(
+        _ => fail(),
+        value => expect(value).toEqual(false)
+      )
+    )();
+  });
+
+  it("should return an error if redis store fails", async () => {
+    setMock.mockImplementationOnce((_, __, ___, ____, _____, cb) =>
+      cb(new Error("Cannot store key-value pair"), undefined)
+    );
+    await pipe(
+      setIfNotExistsWithExpirationTask(
+        redisClientMock as any,
+        aRedisKey,
+        aRedisValue,
+        aRedisDefaultExpiration
+      ),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+  });
+});
+
 describe("getTask", () => {
   it("should return a value if redis get key-value pair correctly", async () => {
     await pipe(
@@ -151,3 +227,119 @@ describe("existsTask", () => {
     )();
   });
 });
+
+describe("deleteTask", () => {
+  it("should return true if the key has been deleted", async () => {
+    await pipe(
+      deleteTask(redisClientMock as any, aRedisKey),
+      TE.bimap(
+        () => fail(),
+        deleted => expect(deleted).toBeTruthy()
+      )
+    )();
+  });
+
+  it("should return false if the key does not exists in redis", async () => {
+    delMock.mockImplementationOnce((_, cb) => cb(null, 0));
+    await pipe(
+      deleteTask(redisClientMock as any, aRedisKey),
+      TE.bimap(
+        () => fail(),
+        deleted => expect(deleted).toBeFalsy()
+      )
+    )();
+  });
+
+  it("should return an error if redis del fails", async () => {
+    delMock.mockImplementationOnce((_, cb) =>
+      cb(new Error("Cannot delete key on redis"), null)
+    );
+    await pipe(
+      deleteTask(redisClientMock as any, aRedisKey),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+  });
+});
+
+describe("getSetMembersTask", () => {
+  it("should return the members of the set", async () => {
+    await pipe(
+      getSetMembersTask(redisClientMock as any, aRedisKey),
+      TE.bimap(
+        _ => fail(),
+        value => expect(value).toEqual(["A_MEMBER", "ANOTHER_MEMBER"])
+      )
+    )();
+  });
+
+  it("should return an empty array if the set does not exist", async () => {
+    smembersMock.mockImplementationOnce((_, cb) => cb(null, undefined));
+    await pipe(
+      getSetMembersTask(redisClientMock as any, aRedisKey),
+      TE.bimap(
+        _ => fail(),
+        value => expect(value).toEqual([])
+      )
+    )();
+  });
+
+  it("should return an error if redis smembers fails", async () => {
+    smembersMock.mockImplementationOnce((_, cb) =>
+      cb(new Error("Cannot read set"), undefined)
+    );
+    await pipe(
+      getSetMembersTask(redisClientMock as any, aRedisKey),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+  });
+});
+
+describe("evalTask", () => {
+  it("should run the script with its keys and arguments", async () => {
+    await pipe(
+      evalTask(
+        redisClientMock as any,
+        "A_SCRIPT",
+        [aRedisKey, "ANOTHER_KEY"],
+        [aRedisValue, aRedisDefaultExpiration]
+      ),
+      TE.bimap(
+        () => fail(),
+        value => expect(value).toEqual(1)
+      )
+    )();
+    expect(evalMock).toHaveBeenCalledWith(
+      "A_SCRIPT",
+      2,
+      aRedisKey,
+      "ANOTHER_KEY",
+      aRedisValue,
+      aRedisDefaultExpiration,
+      expect.any(Function)
+    );
+  });
+
+  it("should return an error if redis eval fails", async () => {
+    evalMock.mockImplementationOnce((...args) =>
+      args[6](new Error("Cannot run script on redis"), null)
+    );
+    await pipe(
+      evalTask(
+        redisClientMock as any,
+        "A_SCRIPT",
+        [aRedisKey, "ANOTHER_KEY"],
+        [aRedisValue, aRedisDefaultExpiration]
+      ),
+      TE.bimap(
+        _ => expect(_).toBeDefined(),
+        () => fail()
+      )
+    )();
+  });
+});
@@ -0,0 +1,56 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { insertCardExpiration } from "../table_storage";
+
+const anExpirationTableName = "anExpirationTable" as NonEmptyString;
+const aFiscalCode = "RODFDS82S10H501K" as FiscalCode;
+const anActivationDate = new Date("2021-03-01T10:00:00Z");
+
+const insertOrReplaceEntityMock = jest.fn();
+const tableServiceMock = {
+  insertOrReplaceEntity: insertOrReplaceEntityMock
+};
+
+describe("insertCardExpiration", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    insertOrReplaceEntityMock.mockImplementation((_, __, cb) => cb(null, {}));
+  });
+
+  it.each`
+    title                  | expirationDate                      | partitionKey    | storedExpirationDate
+    ${"in winter"}         | ${new Date("2030-03-02T15:00:00Z")} | ${"2030-03-02"} | ${new Date("2030-03-02T22:59:59.999Z")}
+    ${"in summer"}         | ${new Date("2030-07-02T15:00:00Z")} | ${"2030-07-02"} | ${new Date("2030-07-02T21:59:59.999Z")}
+    ${"late in the night"} | ${new Date("2030-07-02T22:30:00Z")} | ${"2030-07-03"} | ${new Date("2030-07-03T21:59:59.999Z")}
+  `(
+    "should store the end of the expiration day in Rome $title",
+    async ({ expirationDate, partitionKey, storedExpirationDate }) => {
+      const result = await insertCardExpiration(
+        tableServiceMock as any,
+        anExpirationTableName
+      )(aFiscalCode, anActivationDate, expirationDate)();
+      expect(result._tag).toBe("Right");
+      expect(insertOrReplaceEntityMock).toHaveBeenCalledWith(
+        anExpirationTableName,
+        expect.objectContaining({
+          ActivationDate: expect.objectContaining({ _: anActivationDate }),
+          ExpirationDate: expect.objectContaining({ _: storedExpirationDate }),
+          PartitionKey: expect.objectContaining({ _: partitionKey }),
+          RowKey: expect.objectContaining({ _: aFiscalCode })
+        }),
+        expect.any(Function)
+      );
+    }
+  );
+
+  it("should return an error if the expiration cannot be stored", async () => {
+    insertOrReplaceEntityMock.mockImplementationOnce((_, __, cb) =>
+      cb(new Error("Cannot insert entity"))
+    );
+    const result = await insertCardExpiration(
+      tableServiceMock as any,
+      anExpirationTableName
+    )(aFiscalCode, anActivationDate, new Date("2030-03-02T15:00:00Z"))();
+    expect(result._tag).toBe("Left");
+  });
+});
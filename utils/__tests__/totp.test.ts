@@ -0,0 +1,118 @@
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as O from "fp-ts/lib/Option";
+import { OtpCode } from "../../generated/definitions/OtpCode";
+import {
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpCounter,
+  getTotpCounterExpiration,
+  TOTP_PERIOD_IN_SECONDS,
+  verifyTotpCode
+} from "../totp";
+
+const aTotpSecret = "0123456789abcdef0123456789abcdef01234567" as NonEmptyString;
+const aSkewWindow = 1 as NonNegativeInteger;
+const aDate = new Date("2021-06-01T10:00:10.000Z");
+
+describe("generateTotpSecret", () => {
+  it("should generate a 160 bits hex encoded secret", async () => {
+    expect(await generateTotpSecret()).toMatch(/^[0-9a-f]{40}$/);
+  });
+});
+
+describe("getTotpCounter", () => {
+  it("should return the same counter within a period", () => {
+    expect(getTotpCounter(aDate)).toEqual(
+      getTotpCounter(new Date(aDate.getTime() + 19 * 1000))
+    );
+  });
+
+  it("should expire the counter at the end of its period", () => {
+    const counter = getTotpCounter(aDate);
+    expect(getTotpCounterExpiration(counter)).toEqual(
+      new Date("2021-06-01T10:00:30.000Z")
+    );
+    expect(
+      getTotpCounter(new Date(getTotpCounterExpiration(counter).getTime()))
+    ).toEqual(counter + 1);
+  });
+});
+
+describe("generateTotpCode", () => {
+  it("should generate a valid OTP code", () => {
+    const code = generateTotpCode(aTotpSecret, getTotpCounter(aDate));
+    expect(OtpCode.is(code)).toBe(true);
+  });
+
+  it("should be deterministic for the same secret and counter", () => {
+    expect(generateTotpCode(aTotpSecret, 42)).toEqual(
+      generateTotpCode(aTotpSecret, 42)
+    );
+  });
+
+  it("should change with the counter and the secret", () => {
+    expect(generateTotpCode(aTotpSecret, 42)).not.toEqual(
+      generateTotpCode(aTotpSecret, 43)
+    );
+    expect(generateTotpCode(aTotpSecret, 42)).not.toEqual(
+      generateTotpCode(
+        "76543210fedcba9876543210fedcba9876543210" as NonEmptyString,
+        42
+      )
+    );
+  });
+});
+
+describe("verifyTotpCode", () => {
+  const counter = getTotpCounter(aDate);
+
+  it("should return the counter of a current code", () => {
+    expect(
+      verifyTotpCode(
+        aTotpSecret,
+        generateTotpCode(aTotpSecret, counter),
+        aDate,
+        aSkewWindow
+      )
+    ).toEqual(O.some(counter));
+  });
+
+  it("should accept codes within the skew window", () => {
+    expect(
+      verifyTotpCode(
+        aTotpSecret,
+        generateTotpCode(aTotpSecret, counter - 1),
+        aDate,
+        aSkewWindow
+      )
+    ).toEqual(O.some(counter - 1));
+    expect(
+      verifyTotpCode(
+        aTotpSecret,
+        generateTotpCode(aTotpSecret, counter + 1),
+        aDate,
+        aSkewWindow
+      )
+    ).toEqual(O.some(counter + 1));
+  });
+
+  it("should reject codes outside the skew window", () => {
+    expect(
+      verifyTotpCode(
+        aTotpSecret,
+        generateTotpCode(aTotpSecret, counter - 2),
+        aDate,
+        aSkewWindow
+      )
+    ).toEqual(O.none);
+    expect(
+      verifyTotpCode(
+        aTotpSecret,
+        generateTotpCode(aTotpSecret, counter + 1),
+        new Date(aDate.getTime() - 2 * TOTP_PERIOD_IN_SECONDS * 1000),
+        0 as NonNegativeInteger
+      )
+    ).toEqual(O.none);
+  });
+});
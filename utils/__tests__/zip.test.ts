@@ -0,0 +1,74 @@
+import { inflateRawSync } from "zlib";
+
+import { crc32 } from "../crc32";
+import { createZipArchive, IZipEntry } from "../zip";
+
+// ZIP archives store the local time of their entries
+const aModificationDate = new Date(2021, 2, 4, 5, 6, 8);
+
+describe("createZipArchive", () => {
+  it("should create an empty archive", () => {
+    const archive = createZipArchive([], aModificationDate);
+    expect(archive).toHaveLength(22);
+    expect(archive.readUInt32LE(0)).toBe(0x06054b50);
+  });
+
+  it("should pack every deflated entry with its header", () => {
+    const entries = [
+      { content: Buffer.from("first", "utf8"), name: "first.json" },
+      { content: Buffer.from("second ".repeat(100), "utf8"), name: "èx.json" }
+    ];
+    const archive = createZipArchive(entries, aModificationDate);
+
+    const endOfCentralDirectory = archive.slice(archive.length - 22);
+    expect(endOfCentralDirectory.readUInt32LE(0)).toBe(0x06054b50);
+    expect(endOfCentralDirectory.readUInt16LE(10)).toBe(2);
+    const centralDirectoryOffset = endOfCentralDirectory.readUInt32LE(16);
+    expect(
+      centralDirectoryOffset + endOfCentralDirectory.readUInt32LE(12)
+    ).toBe(archive.length - 22);
+
+    const extracted = entries.reduce(
+      ({ centralHeaderOffset, extractedEntries }) => {
+        const centralHeader = archive.slice(centralHeaderOffset);
+        expect(centralHeader.readUInt32LE(0)).toBe(0x02014b50);
+        const localHeader = archive.slice(centralHeader.readUInt32LE(42));
+        expect(localHeader.readUInt32LE(0)).toBe(0x04034b50);
+        // 2021-03-04 05:06:08 in MS-DOS format
+        expect(localHeader.readUInt16LE(10)).toBe((5 << 11) | (6 << 5) | 4);
+        expect(localHeader.readUInt16LE(12)).toBe((41 << 9) | (3 << 5) | 4);
+        const nameLength = localHeader.readUInt16LE(26);
+        const dataOffset = 30 + nameLength + localHeader.readUInt16LE(28);
+        const content = inflateRawSync(
+          localHeader.slice(
+            dataOffset,
+            dataOffset + localHeader.readUInt32LE(18)
+          )
+        );
+        expect(localHeader.readUInt32LE(14)).toBe(crc32(content));
+        expect(localHeader.readUInt32LE(22)).toBe(content.length);
+        return {
+          centralHeaderOffset:
+            centralHeaderOffset +
+            46 +
+            centralHeader.readUInt16LE(28) +
+            centralHeader.readUInt16LE(30) +
+            centralHeader.readUInt16LE(32),
+          extractedEntries: [
+            ...extractedEntries,
+            {
+              content,
+              name: localHeader.toString("utf8", 30, 30 + nameLength)
+            }
+          ]
+        };
+      },
+      {
+        centralHeaderOffset: centralDirectoryOffset,
+        extractedEntries: [] as ReadonlyArray<IZipEntry>
+      }
+    ).extractedEntries;
+    expect(extracted).toHaveLength(entries.length);
+    expect(extracted).toEqual(expect.arrayContaining(entries));
+  });
+});
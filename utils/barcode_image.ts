@@ -0,0 +1,202 @@
+import { deflateSync } from "zlib";
+
+import {
+  IntegerFromString,
+  IWithinRangeIntegerTag,
+  WithinRangeInteger
+} from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponseErrorInternal,
+  ResponseErrorInternal
+} from "@pagopa/ts-commons/lib/responses";
+import { enumType } from "@pagopa/ts-commons/lib/types";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+import { encodeCode128 } from "./code128";
+import { crc32 } from "./crc32";
+import { BitMatrix, encodeQrCode } from "./qrcode";
+import {
+  IResponseSuccessImage,
+  ResponseSuccessImage,
+  withCacheExpiration
+} from "./responses";
+
+export enum BarcodeTypeEnum {
+  CODE128 = "code128",
+  QR = "qr"
+}
+
+export const BarcodeType = enumType<BarcodeTypeEnum>(
+  BarcodeTypeEnum,
+  "BarcodeType"
+);
+
+export enum ImageFormatEnum {
+  PNG = "png",
+  SVG = "svg"
+}
+
+export const ImageFormat = enumType<ImageFormatEnum>(
+  ImageFormatEnum,
+  "ImageFormat"
+);
+
+const DEFAULT_IMAGE_SIZE = 256;
+
+/**
+ * The width of the image in pixels, between 64 and 1024,
+ * as provided by a query parameter
+ */
+export const ImageSizeFromString = IntegerFromString.pipe(
+  WithinRangeInteger<64, 1025, IWithinRangeIntegerTag<64, 1025>>(64, 1025)
+);
+
+/**
+ * The options of a barcode image, as provided by the query parameters.
+ * Images default to a QR code rendered as a 256 pixels wide SVG.
+ */
+export const BarcodeImageOptions = t.partial({
+  format: ImageFormat,
+  size: ImageSizeFromString,
+  type: BarcodeType
+});
+
+export type BarcodeImageOptions = t.TypeOf<typeof BarcodeImageOptions>;
+
+// Code 128 barcodes are a single row of modules stretched vertically
+const CODE128_HEIGHT_MODULES = 50;
+
+export interface IBarcodeImage {
+  readonly content: Buffer;
+  readonly contentType: string;
+}
+
+const toSvgPath = (matrix: BitMatrix): string =>
+  matrix
+    .map((row, y) =>
+      row
+        .reduce<ReadonlyArray<{ readonly x: number; readonly length: number }>>(
+          (runs, isDark, x) => {
+            if (!isDark) {
+              return runs;
+            }
+            const last = runs[runs.length - 1];
+            return last !== undefined && last.x + last.length === x
+              ? [...runs.slice(0, -1), { length: last.length + 1, x: last.x }]
+              : [...runs, { length: 1, x }];
+          },
+          []
+        )
+        .map(run => `M${run.x} ${y}h${run.length}v1h-${run.length}z`)
+        .join("")
+    )
+    .join("");
+
+/**
+ * Renders the modules as an SVG image of the given width,
+ * where every module is a unit of the view box.
+ */
+export const renderSvg = (matrix: BitMatrix, size: number): string => {
+  const width = matrix[0].length;
+  const height = matrix.length;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${Math.round(
+      (size * height) / width
+    )}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">`,
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+    `<path fill="#000" d="${toSvgPath(matrix)}"/>`,
+    "</svg>"
+  ].join("");
+};
+
+const toPngChunk = (type: string, data: Buffer): Buffer => {
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+const PNG_GRAYSCALE_COLOR_TYPE = 0;
+
+/**
+ * Renders the modules as a grayscale PNG image at most as wide as the given
+ * size. Every module is rendered as a square of the same number of pixels,
+ * so that the image is never blurred, but at least one pixel is used.
+ */
+export const renderPng = (matrix: BitMatrix, size: number): Buffer => {
+  const scale = Math.max(1, Math.floor(size / matrix[0].length));
+  const width = matrix[0].length * scale;
+  const height = matrix.length * scale;
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8); // bit depth
+  header.writeUInt8(PNG_GRAYSCALE_COLOR_TYPE, 9);
+  // compression, filter and interlace methods are left to 0
+
+  const scanlines = Buffer.concat(
+    matrix.map(row => {
+      // every scanline starts with the filter type, 0 stands for none
+      const scanline = Buffer.alloc(1 + width);
+      row.forEach((isDark, x) =>
+        scanline.fill(isDark ? 0x00 : 0xff, 1 + x * scale, 1 + (x + 1) * scale)
+      );
+      return Buffer.concat(new Array(scale).fill(scanline));
+    })
+  );
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    toPngChunk("IHDR", header),
+    toPngChunk("IDAT", deflateSync(scanlines)),
+    toPngChunk("IEND", Buffer.alloc(0))
+  ]);
+};
+
+/**
+ * Encodes the text as a barcode and renders it as an image,
+ * according to the given options.
+ */
+export const renderBarcode = (
+  text: string,
+  options: BarcodeImageOptions
+): IBarcodeImage => {
+  const size = options.size ?? DEFAULT_IMAGE_SIZE;
+  const matrix =
+    options.type === BarcodeTypeEnum.CODE128
+      ? encodeCode128(text, CODE128_HEIGHT_MODULES)
+      : encodeQrCode(text);
+  return options.format === ImageFormatEnum.PNG
+    ? { content: renderPng(matrix, size), contentType: "image/png" }
+    : {
+        content: Buffer.from(renderSvg(matrix, size), "utf8"),
+        contentType: "image/svg+xml"
+      };
+};
+
+/**
+ * Renders the text as a barcode image response, which can be cached
+ * by clients until the code it carries expires.
+ */
+export const toBarcodeImageResponse = (
+  text: string,
+  options: BarcodeImageOptions,
+  expiresAt: Date,
+  now: Date
+): E.Either<IResponseErrorInternal, IResponseSuccessImage> =>
+  pipe(
+    E.tryCatch(() => renderBarcode(text, options), E.toError),
+    E.bimap(
+      e => ResponseErrorInternal(`Cannot render barcode image| ${e.message}`),
+      image =>
+        withCacheExpiration(
+          expiresAt,
+          now
+        )(ResponseSuccessImage(image.content, image.contentType))
+    )
+  );
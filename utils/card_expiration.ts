@@ -1,18 +1,51 @@
-import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { TableService } from "azure-storage";
+import * as A from "fp-ts/lib/Array";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as T from "fp-ts/lib/Task";
 import * as TE from "fp-ts/lib/TaskEither";
 import * as t from "io-ts";
+import { Card } from "../generated/definitions/Card";
+import { StatusEnum as ActivatedStatusEnum } from "../generated/definitions/CardActivated";
+import { StatusEnum as SuspendedStatusEnum } from "../generated/definitions/CardSuspended";
+import { CommonCard } from "../generated/definitions/CommonCard";
+import { EycaCard } from "../generated/definitions/EycaCard";
 import { Timestamp } from "../generated/definitions/Timestamp";
 import {
+  deleteCardExpiration,
   getPagedQuery,
   iterateOnPages,
   PagedQuery,
   queryFilterForKey,
+  queryFilterFromKey,
+  queryFilterForRowKey,
   TableEntry
 } from "../utils/table_storage";
+import { startOfRomeDay } from "./dates";
+import { foldPages } from "./pages";
 
+// the kinds of cards whose expirations are stored in a table
+export {
+  ExpiringCardType,
+  ExpiringCardTypeEnum
+} from "../generated/definitions/ExpiringCardType";
+
+/**
+ * The orchestrators involved in the expiration of a user's card:
+ * the ones terminated first, if running, and the one expiring the card
+ */
+export interface ICardExpirationOrchestratorIds {
+  readonly toStart: string;
+  readonly toTerminate: ReadonlyArray<string>;
+}
+
+/**
+ * A stored card expiration, whose expiration date is the start of the
+ * expiration day in Rome as for the expiration dates of the cards
+ */
 const ExpiredCardRowKey = t.interface({
   activationDate: Timestamp,
   expirationDate: Timestamp,
@@ -21,17 +54,52 @@ const ExpiredCardRowKey = t.interface({
 
 export type ExpiredCardRowKey = t.TypeOf<typeof ExpiredCardRowKey>;
 
+// a suspended card keeps its expiration, so that it expires anyway
+export const ACTIVE_CARD_STATUSES: ReadonlyArray<string> = [
+  ActivatedStatusEnum.ACTIVATED,
+  SuspendedStatusEnum.SUSPENDED
+];
+
+/**
+ * A card that is due to expire
+ */
+export interface IActiveCard {
+  readonly activationDate: Date;
+  readonly expirationDate: Date;
+  readonly fiscalCode: FiscalCode;
+}
+
+export const toActiveCard = (userCard: {
+  readonly card: Card | EycaCard;
+  readonly fiscalCode: FiscalCode;
+}): O.Option<IActiveCard> =>
+  pipe(
+    userCard.card,
+    O.fromPredicate(CommonCard.is),
+    O.chain(card =>
+      pipe(
+        O.fromNullable(card.expiration_date),
+        O.map(expirationDate => ({
+          activationDate: card.activation_date,
+          expirationDate,
+          fiscalCode: userCard.fiscalCode
+        }))
+      )
+    )
+  );
+
+const toExpiredCardRowKey = (e: TableEntry): ExpiredCardRowKey => ({
+  activationDate: e.ActivationDate._,
+  expirationDate: startOfRomeDay(e.ExpirationDate._),
+  fiscalCode: e.RowKey._
+});
+
 /**
  * Do something with the user hash extracted from the table entry
  */
 const withExpiredCardRowFromEntry = (f: (s: ExpiredCardRowKey) => void) => (
   e: TableEntry
-): void =>
-  f({
-    activationDate: e.ActivationDate._,
-    expirationDate: e.ExpirationDate._,
-    fiscalCode: e.RowKey._
-  });
+): void => f(toExpiredCardRowKey(e));
 
 /**
  * Fetches all user hashed returned by the provided paged query
@@ -63,3 +131,109 @@ export const getExpiredCardUsers = (
       )
     )
   );
+
+/**
+ * Runs the tasks expiring the users' cards in parallel chunks of 100,
+ * so that a single failure doesn't prevent the other cards from expiring
+ *
+ * @returns the result of each task, in the same order
+ */
+export const runExpirationTasks = <R>(
+  tasks: ReadonlyArray<TE.TaskEither<Error, R>>
+): T.Task<ReadonlyArray<E.Either<Error, R>>> => async (): Promise<
+  ReadonlyArray<E.Either<Error, R>>
+> => {
+  // eslint-disable-next-line functional/prefer-readonly-type
+  const results: Array<E.Either<Error, R>> = [];
+  for (const tasksChunk of A.chunksOf(100)([...tasks])) {
+    // eslint-disable-next-line functional/immutable-data
+    results.push(...(await A.sequence(T.ApplicativePar)(tasksChunk)()));
+  }
+  return results;
+};
+
+/**
+ * Returns the fiscal codes of the cards whose expiration task failed,
+ * given the results of the tasks in the same order as the cards
+ */
+export const toFailedFiscalCodes = (
+  expiredCards: ReadonlyArray<ExpiredCardRowKey>
+) => (
+  results: ReadonlyArray<E.Either<Error, unknown>>
+): ReadonlyArray<FiscalCode> =>
+  pipe(
+    RA.zip(expiredCards, results),
+    RA.filter(([_, result]) => E.isLeft(result)),
+    RA.map(([expiredCard]) => expiredCard.fiscalCode)
+  );
+
+// how many card expirations are read, and checked in parallel, at a time
+const CARD_EXPIRATIONS_PAGE_SIZE = 100;
+
+/**
+ * Folds, a page at a time, every card expiration due on the given date
+ * or later, so that the expirations are never loaded in memory all together
+ */
+export const foldCardExpirationsFrom = <B>(
+  tableService: TableService,
+  cardExpirationTableName: string,
+  refDate: string,
+  initial: B,
+  f: (
+    acc: B,
+    expirations: ReadonlyArray<ExpiredCardRowKey>
+  ) => TE.TaskEither<Error, B>
+): TE.TaskEither<Error, B> =>
+  foldPages(
+    iterateOnPages(
+      getPagedQuery(
+        tableService,
+        cardExpirationTableName
+      )(queryFilterFromKey(refDate).top(CARD_EXPIRATIONS_PAGE_SIZE))
+    ),
+    initial,
+    (acc, page) => f(acc, page.map(toExpiredCardRowKey))
+  );
+
+/**
+ * Fetches every card expiration stored for the given fiscalCode.
+ * Expirations are partitioned by date, so the whole table is scanned.
+ */
+export const getCardExpirationsByFiscalCode = (
+  tableService: TableService,
+  cardExpirationTableName: string,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, ReadonlyArray<ExpiredCardRowKey>> =>
+  pipe(
+    getPagedQuery(tableService, cardExpirationTableName),
+    pagedQuery => pagedQuery(queryFilterForRowKey(fiscalCode)),
+    cardExpirationQuery =>
+      TE.tryCatch(() => queryUsers(cardExpirationQuery), E.toError),
+    TE.map(readSet => Array.from(readSet.values()))
+  );
+
+/**
+ * Deletes every card expiration stored for the given fiscalCode
+ * and returns how many expirations have been deleted.
+ */
+export const deleteCardExpirationsByFiscalCode = (
+  tableService: TableService,
+  cardExpirationTableName: NonEmptyString,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, number> =>
+  pipe(
+    getCardExpirationsByFiscalCode(
+      tableService,
+      cardExpirationTableName,
+      fiscalCode
+    ),
+    TE.chain(
+      RA.traverse(TE.ApplicativeSeq)(cardExpiration =>
+        deleteCardExpiration(tableService, cardExpirationTableName)(
+          fiscalCode,
+          cardExpiration.expirationDate
+        )
+      )
+    ),
+    TE.map(deletedExpirations => deletedExpirations.length)
+  );
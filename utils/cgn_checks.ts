@@ -1,14 +1,20 @@
-import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
-import { addYears, isAfter } from "date-fns";
+import { isAfter } from "date-fns";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
-
-const CGN_LOWER_BOUND_AGE = 18;
-
-const EYCA_LOWER_BOUND_AGE = 18;
+import { CardEligibility } from "../generated/definitions/CardEligibility";
+import { EligibilityStatusEnum } from "../generated/definitions/EligibilityStatus";
+import { ExpiringCardTypeEnum } from "../generated/definitions/ExpiringCardType";
+import { Clock } from "./clock";
+import { addYearsToBirthDate } from "./dates";
+import {
+  EligibilityPolicy,
+  EligibilityRule,
+  getEligibilityRule
+} from "./eligibility_policy";
+import { parseFiscalCode } from "./fiscal_code";
 
 /**
  * Returns a comparator of two dates that returns true if
@@ -16,7 +22,7 @@ const EYCA_LOWER_BOUND_AGE = 18;
  */
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 export const isOlderThan = (years: number) => (dateOfBirth: Date, when: Date) =>
-  !isAfter(addYears(dateOfBirth, years), when);
+  !isAfter(addYearsToBirthDate(dateOfBirth, years), when);
 
 /**
  * Returns a comparator of two dates that returns true if
@@ -26,139 +32,256 @@ export const isOlderThan = (years: number) => (dateOfBirth: Date, when: Date) =>
 export const isYoungerThan = (years: number) => (
   dateOfBirth: Date,
   when: Date
-) => isAfter(addYears(dateOfBirth, years), when);
-
-export const isValidDate = (d: Date): boolean =>
-  d instanceof Date && !isNaN(d.getTime());
-
-const months: { readonly [k: string]: number } = {
-  ["A"]: 1,
-  ["B"]: 2,
-  ["C"]: 3,
-  ["D"]: 4,
-  ["E"]: 5,
-  ["H"]: 6,
-  ["L"]: 7,
-  ["M"]: 8,
-  ["P"]: 9,
-  ["R"]: 10,
-  ["S"]: 11,
-  ["T"]: 12
-};
-
-export const toBirthDate = (fiscalCode: FiscalCode): O.Option<Date> =>
-  O.tryCatch(() => {
-    const tempDay = parseInt(fiscalCode.substring(9, 11), 10);
-    if (isNaN(tempDay)) {
-      throw new Error();
-    }
-
-    const monthIndx = fiscalCode.charAt(8);
-    if (!(monthIndx in months)) {
-      throw new Error();
-    }
-
-    const month = months[fiscalCode.charAt(8)];
-
-    // female subjects have 40 added to their birth day
-    const day = tempDay - 40 > 0 ? tempDay - 40 : tempDay;
-
-    const tempYear = parseInt(fiscalCode.substring(6, 8), 10);
-    if (isNaN(tempYear)) {
-      throw new Error();
-    }
-
-    // to avoid the century date collision (01 could mean 1901 or 2001)
-    // we assume that if the birth date is grater than a century, the date
-    // refers to the new century
-    const year =
-      tempYear +
-      (new Date().getFullYear() - (1900 + tempYear) >= 100 ? 2000 : 1900);
-
-    // months are 0-index
-    const birthDay = new Date(year, month - 1, day);
-    if (!isValidDate(birthDay)) {
-      throw new Error();
-    }
-
-    return birthDay;
-  });
+) => isAfter(addYearsToBirthDate(dateOfBirth, years), when);
+
+/**
+ * Extracts the birth date of a citizen from their fiscal code,
+ * when it is a valid one.
+ *
+ * @param fiscalCode the citizen's fiscalCode
+ * @param clock the clock the century of the birth date is guessed by
+ */
+export const toBirthDate = (
+  fiscalCode: FiscalCode,
+  clock: Clock
+): O.Option<Date> =>
+  pipe(
+    parseFiscalCode(fiscalCode, clock),
+    O.fromEither,
+    O.map(fiscalCodeData => fiscalCodeData.birthDate)
+  );
+
+interface ICitizenRule {
+  readonly birthDate: Date;
+  // missing when no rule of the policy applies to the citizen
+  readonly rule: O.Option<EligibilityRule>;
+}
+
+/**
+ * Returns the birth date of a citizen along with the rule of the policy
+ * their eligibility for a card is checked against at the time of the clock
+ */
+const toCitizenRule = (
+  fiscalCode: FiscalCode,
+  cardType: ExpiringCardTypeEnum,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
+): O.Option<ICitizenRule> =>
+  pipe(
+    parseFiscalCode(fiscalCode, clock),
+    O.fromEither,
+    O.map(({ birthDate, birthPlace }) => ({
+      birthDate,
+      rule: getEligibilityRule(eligibilityPolicy, cardType, birthPlace, clock())
+    }))
+  );
+
+const isWithinAgeBounds = (birthDate: Date, when: Date) => (
+  rule: EligibilityRule
+): boolean =>
+  isOlderThan(rule.lowerBoundAge)(birthDate, when) &&
+  isYoungerThan(rule.upperBoundAge)(birthDate, when);
+
+/**
+ * Returns whether a citizen is within the age bounds of the rule
+ * they are checked against, if any, at the time of the clock
+ */
+const isEligible = (
+  fiscalCode: FiscalCode,
+  cardType: ExpiringCardTypeEnum,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock,
+  onInvalidFiscalCode: () => Error
+): E.Either<Error, boolean> =>
+  pipe(
+    toCitizenRule(fiscalCode, cardType, eligibilityPolicy, clock),
+    E.fromOption(onInvalidFiscalCode),
+    E.map(({ birthDate, rule }) =>
+      pipe(rule, O.exists(isWithinAgeBounds(birthDate, clock())))
+    )
+  );
+
+/**
+ * Returns the upper bound birthday of a citizen,
+ * by the rule they are checked against at the time of the clock
+ */
+const extractExpirationDate = (
+  fiscalCode: FiscalCode,
+  cardType: ExpiringCardTypeEnum,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock,
+  onInvalidFiscalCode: () => Error
+): E.Either<Error, Date> =>
+  pipe(
+    toCitizenRule(fiscalCode, cardType, eligibilityPolicy, clock),
+    E.fromOption(onInvalidFiscalCode),
+    E.chain(({ birthDate, rule }) =>
+      pipe(
+        rule,
+        E.fromOption(
+          () =>
+            new Error(
+              `No ${cardType} eligibility rule in force for given fiscalCode`
+            )
+        ),
+        E.map(_ => addYearsToBirthDate(birthDate, _.upperBoundAge))
+      )
+    )
+  );
 
 /**
  * Returns the CGN expiration date by a given fiscalCode.
- * Namely the CGN expiration date is the 36th birthday
+ * Namely the CGN expiration date is the start of the upper bound birthday
+ * in Rome, by the rule of the policy the citizen is checked against
  *
  * @param fiscalCode: the citizen's fiscalCode
  */
 export const extractCgnExpirationDate = (
   fiscalCode: FiscalCode,
-  cgnUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): TE.TaskEither<Error, Date> =>
-  pipe(
-    TE.of(fiscalCode),
-    TE.map(toBirthDate),
-    TE.chain(
-      O.fold(
-        () =>
-          TE.left<Error, Date>(
-            new Error("Cannot extract birth date from given fiscalCode")
-          ),
-        TE.of
-      )
-    ),
-    TE.chain(birthDate => TE.of(addYears(birthDate, cgnUpperBoundAge)))
+  TE.fromEither(
+    extractExpirationDate(
+      fiscalCode,
+      ExpiringCardTypeEnum.CGN,
+      eligibilityPolicy,
+      clock,
+      () => new Error("Cannot extract birth date from given fiscalCode")
+    )
   );
 
 /**
  * Check if a citizen is eligible for getting a CGN
- * A citizen is eligible while it is from 18 to 36 years old
+ * A citizen is eligible while their age is within the bounds
+ * of the rule of the policy they are checked against
  *
  * @param fiscalCode the citizen's fiscalCode
  */
 export const checkCgnRequirements = (
   fiscalCode: FiscalCode,
-  cgnUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): TE.TaskEither<Error, boolean> =>
-  pipe(
-    TE.of(fiscalCode),
-    TE.map(toBirthDate),
-    TE.chain(
-      O.fold(
-        () =>
-          TE.left(new Error("Cannot extract birth date from given fiscalCode")),
-        birthDate => TE.of<Error, Date>(birthDate)
-      )
-    ),
-    TE.chain(birthDate =>
-      TE.of(
-        isOlderThan(CGN_LOWER_BOUND_AGE)(birthDate, new Date()) &&
-          isYoungerThan(cgnUpperBoundAge)(birthDate, new Date())
-      )
+  TE.fromEither(
+    isEligible(
+      fiscalCode,
+      ExpiringCardTypeEnum.CGN,
+      eligibilityPolicy,
+      clock,
+      () => new Error("Cannot extract birth date from given fiscalCode")
     )
   );
 
 export const isEycaEligible = (
   fiscalCode: FiscalCode,
-  eycaUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): E.Either<Error, boolean> =>
-  pipe(
-    E.fromOption(() => new Error("Cannot recognize EYCA eligibility"))(
-      toBirthDate(fiscalCode)
-    ),
-    E.map(
-      birthDate =>
-        isOlderThan(EYCA_LOWER_BOUND_AGE)(birthDate, new Date()) &&
-        isYoungerThan(eycaUpperBoundAge)(birthDate, new Date())
-    )
+  isEligible(
+    fiscalCode,
+    ExpiringCardTypeEnum.EYCA,
+    eligibilityPolicy,
+    clock,
+    () => new Error("Cannot recognize EYCA eligibility")
   );
 
 export const extractEycaExpirationDate = (
   fiscalCode: FiscalCode,
-  eycaUpperBoundAge: NonNegativeInteger
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
 ): E.Either<Error, Date> =>
+  extractExpirationDate(
+    fiscalCode,
+    ExpiringCardTypeEnum.EYCA,
+    eligibilityPolicy,
+    clock,
+    () => new Error("Cannot extract birth date from FiscalCode")
+  );
+
+/**
+ * Returns the age eligibility of a citizen by the given rule.
+ * A citizen who is too young is returned along with the date
+ * they reach the lower bound age.
+ */
+const toAgeEligibility = (
+  birthDate: Date,
+  rule: EligibilityRule,
+  when: Date
+): CardEligibility => ({
+  ...(isYoungerThan(rule.lowerBoundAge)(birthDate, when)
+    ? {
+        eligible_from: addYearsToBirthDate(birthDate, rule.lowerBoundAge),
+        status: EligibilityStatusEnum.TOO_YOUNG
+      }
+    : isYoungerThan(rule.upperBoundAge)(birthDate, when)
+    ? { status: EligibilityStatusEnum.ELIGIBLE }
+    : { status: EligibilityStatusEnum.TOO_OLD }),
+  explanation: rule.explanation,
+  rule_id: rule.id
+});
+
+/**
+ * Returns the age eligibility of a citizen at the time of the clock,
+ * along with the rule of the policy they are checked against
+ */
+const getAgeEligibility = (
+  fiscalCode: FiscalCode,
+  cardType: ExpiringCardTypeEnum,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
+): CardEligibility =>
   pipe(
-    E.fromOption(() => new Error("Cannot extract birth date from FiscalCode"))(
-      toBirthDate(fiscalCode)
-    ),
-    E.map(birthDate => addYears(birthDate, eycaUpperBoundAge))
+    toCitizenRule(fiscalCode, cardType, eligibilityPolicy, clock),
+    O.fold<ICitizenRule, CardEligibility>(
+      () => ({ status: EligibilityStatusEnum.INVALID_FISCAL_CODE }),
+      ({ birthDate, rule }) =>
+        pipe(
+          rule,
+          O.fold<EligibilityRule, CardEligibility>(
+            () => ({ status: EligibilityStatusEnum.NO_RULE_IN_FORCE }),
+            _ => toAgeEligibility(birthDate, _, clock())
+          )
+        )
+    )
+  );
+
+/**
+ * Returns whether a citizen is old enough, and not too old,
+ * to get a CGN at the time of the clock
+ *
+ * @param fiscalCode the citizen's fiscalCode
+ * @param eligibilityPolicy the policy the citizen is checked against
+ * @param clock the clock the eligibility is checked by
+ */
+export const getCgnAgeEligibility = (
+  fiscalCode: FiscalCode,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
+): CardEligibility =>
+  getAgeEligibility(
+    fiscalCode,
+    ExpiringCardTypeEnum.CGN,
+    eligibilityPolicy,
+    clock
+  );
+
+/**
+ * Returns whether a citizen is old enough, and not too old,
+ * to get an EYCA card at the time of the clock
+ *
+ * @param fiscalCode the citizen's fiscalCode
+ * @param eligibilityPolicy the policy the citizen is checked against
+ * @param clock the clock the eligibility is checked by
+ */
+export const getEycaAgeEligibility = (
+  fiscalCode: FiscalCode,
+  eligibilityPolicy: EligibilityPolicy,
+  clock: Clock
+): CardEligibility =>
+  getAgeEligibility(
+    fiscalCode,
+    ExpiringCardTypeEnum.EYCA,
+    eligibilityPolicy,
+    clock
   );
@@ -0,0 +1,40 @@
+import * as date_fns from "date-fns";
+import { ClockParams } from "./config";
+
+/**
+ * Returns the current time.
+ * Handlers are given a clock instead of reading the system time,
+ * so that it can be moved in tests and in non-production environments.
+ */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+/**
+ * Returns a clock that always tells the given moment
+ */
+export const fixedClock = (at: Date): Clock => (): Date =>
+  new Date(at.getTime());
+
+/**
+ * Returns a clock that runs the given number of seconds ahead
+ * of the system clock, or behind it when the offset is negative
+ */
+export const offsetClock = (offsetInSeconds: number): Clock => (): Date =>
+  date_fns.addSeconds(Date.now(), offsetInSeconds);
+
+/**
+ * Returns the clock configured for the environment.
+ * A fixed time takes precedence over an offset, while production
+ * always runs on the system clock.
+ */
+export const getClock = (
+  config: ClockParams & { readonly isProduction: boolean }
+): Clock =>
+  config.isProduction
+    ? systemClock
+    : config.CLOCK_FIXED_TIME !== undefined
+    ? fixedClock(config.CLOCK_FIXED_TIME)
+    : config.CLOCK_OFFSET_IN_SECONDS !== undefined
+    ? offsetClock(config.CLOCK_OFFSET_IN_SECONDS)
+    : systemClock;
@@ -0,0 +1,69 @@
+import { BitMatrix } from "./qrcode";
+
+// Code 128 symbols are made of 3 bars and 3 spaces, whose widths in modules
+// are listed below by symbol value, followed by the start and stop symbols.
+// @see ISO/IEC 15417:2007
+const SYMBOL_WIDTHS: ReadonlyArray<string> = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213",
+  "122312", "132212", "221213", "221312", "231212", "112232", "122132",
+  "122231", "113222", "123122", "123221", "223211", "221132", "221231",
+  "213212", "223112", "312131", "311222", "321122", "321221", "312212",
+  "322112", "322211", "212123", "212321", "232121", "111323", "131123",
+  "131321", "112313", "132113", "132311", "211313", "231113", "231311",
+  "112133", "112331", "132131", "113123", "113321", "133121", "313121",
+  "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111",
+  "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114",
+  "413111", "241112", "134111", "111242", "121142", "121241", "114212",
+  "124112", "124211", "411212", "421112", "421211", "212141", "214121",
+  "412121", "111143", "111341", "131141", "114113", "114311", "411113",
+  "411311", "113141", "114131", "311141", "411131", "211412", "211214",
+  "211232"
+]; // prettier-ignore
+
+const START_B = 104;
+const STOP_WIDTHS = "2331112";
+// the first char of code set B is the space
+const CODE_SET_B_OFFSET = 32;
+export const CODE128_QUIET_ZONE_MODULES = 10;
+
+const toModules = (widths: string): ReadonlyArray<boolean> =>
+  [...widths].reduce<ReadonlyArray<boolean>>(
+    (modules, width, i) => [
+      ...modules,
+      // bars and spaces alternate, starting with a bar
+      ...new Array<boolean>(Number(width)).fill(i % 2 === 0)
+    ],
+    []
+  );
+
+/**
+ * Encodes the given text as a Code 128 barcode using the code set B,
+ * which covers every printable ASCII char.
+ *
+ * @param height the number of rows of modules of the barcode
+ * @returns the modules of the barcode surrounded by its quiet zone
+ */
+export const encodeCode128 = (text: string, height: number): BitMatrix => {
+  const values = [...text].map(char => {
+    const code = char.charCodeAt(0);
+    if (code < CODE_SET_B_OFFSET || code > 126) {
+      throw new Error(`Char [${char}] cannot be encoded in Code 128 set B`);
+    }
+    return code - CODE_SET_B_OFFSET;
+  });
+  const checksum =
+    values.reduce((sum, value, i) => sum + value * (i + 1), START_B) % 103;
+  const quietZone = new Array<boolean>(CODE128_QUIET_ZONE_MODULES).fill(false);
+  const row = [
+    ...quietZone,
+    ...[START_B, ...values, checksum].reduce<ReadonlyArray<boolean>>(
+      (modules, value) => [...modules, ...toModules(SYMBOL_WIDTHS[value])],
+      []
+    ),
+    ...toModules(STOP_WIDTHS),
+    ...quietZone
+  ];
+  return new Array(height).fill(row);
+};
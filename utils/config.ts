@@ -6,17 +6,23 @@
  */
 /* eslint-disable sort-keys */
 
+import { CommaSeparatedListOf } from "@pagopa/ts-commons/lib/comma-separated-list";
 import {
   IntegerFromString,
-  NonNegativeInteger
+  IWithinRangeIntegerTag,
+  NonNegativeInteger,
+  WithinRangeInteger
 } from "@pagopa/ts-commons/lib/numbers";
+import { UTCISODateFromString } from "@pagopa/ts-commons/lib/dates";
 import { readableReport } from "@pagopa/ts-commons/lib/reporters";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { enumType } from "@pagopa/ts-commons/lib/types";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
 import * as O from "fp-ts/lib/Option";
 import * as t from "io-ts";
 import { ServiceId } from "../generated/services-api/ServiceId";
+import { EligibilityPolicyFromString } from "./eligibility_policy";
 
 export const RedisParams = t.intersection([
   t.interface({
@@ -34,6 +40,36 @@ export type RedisParams = t.TypeOf<typeof RedisParams>;
 export const DEFAULT_CGN_UPPER_BOUND_AGE = 36 as NonNegativeInteger;
 export const DEFAULT_EYCA_UPPER_BOUND_AGE = 31 as NonNegativeInteger;
 
+export const DEFAULT_OTP_GENERATION_HOURLY_LIMIT = 10 as NonNegativeInteger;
+export const DEFAULT_OTP_GENERATION_DAILY_LIMIT = 50 as NonNegativeInteger;
+
+export enum OtpModeEnum {
+  // OTPs are random codes stored on Redis until they expire
+  REDIS = "REDIS",
+  // OTPs are time-based codes derived from a per-user secret
+  TOTP = "TOTP"
+}
+
+export const DEFAULT_TOTP_SKEW_WINDOW = 1 as NonNegativeInteger;
+
+/**
+ * How many days before its expiration the owner of a card is reminded of it
+ */
+export const ExpirationReminderDays = WithinRangeInteger<
+  1,
+  366,
+  IWithinRangeIntegerTag<1, 366>
+>(1, 366);
+export type ExpirationReminderDays = t.TypeOf<typeof ExpirationReminderDays>;
+
+export const DEFAULT_CARD_EXPIRATION_REMINDER_DAYS = "30,7";
+
+// how many missed days of card expirations a single run catches up
+export const DEFAULT_CARD_EXPIRATION_MAX_CATCH_UP_DAYS = 7 as NonNegativeInteger;
+
+// how many days past the upper bound birthday an overridden expiration can be
+export const DEFAULT_CARD_EXPIRATION_OVERRIDE_MARGIN_DAYS = 365 as NonNegativeInteger;
+
 export const CgnServiceParams = t.interface({
   CGN_SERVICE_ID: ServiceId,
   SERVICES_API_KEY: NonEmptyString,
@@ -41,6 +77,30 @@ export const CgnServiceParams = t.interface({
 });
 export type CgnServiceParams = t.TypeOf<typeof CgnServiceParams>;
 
+/**
+ * Moves the clock of non-production environments,
+ * so that time-dependent behaviours can be tried out
+ */
+export const ClockParams = t.partial({
+  // a moment the clock is fixed at, such as "2030-01-01T00:00:00.000Z"
+  CLOCK_FIXED_TIME: UTCISODateFromString,
+  // how many seconds the clock runs ahead, or behind when negative
+  CLOCK_OFFSET_IN_SECONDS: IntegerFromString
+});
+export type ClockParams = t.TypeOf<typeof ClockParams>;
+
+/**
+ * The rules the citizens' eligibility for the cards is checked against.
+ * When missing, the policy is made of the upper bound ages only.
+ */
+export const EligibilityPolicyParams = t.partial({
+  // a JSON array of rules, such as
+  // [{ "cardType": "CGN", "id": "...", "explanation": "...",
+  //    "lowerBoundAge": 18, "upperBoundAge": 36 }]
+  ELIGIBILITY_POLICY: EligibilityPolicyFromString
+});
+export type EligibilityPolicyParams = t.TypeOf<typeof EligibilityPolicyParams>;
+
 // global app configuration
 export type IConfig = t.TypeOf<typeof IConfig>;
 export const IConfig = t.intersection([
@@ -49,6 +109,10 @@ export const IConfig = t.intersection([
 
     CGN_EXPIRATION_TABLE_NAME: NonEmptyString,
     EYCA_EXPIRATION_TABLE_NAME: NonEmptyString,
+    OTP_REDEMPTION_TABLE_NAME: NonEmptyString,
+    CARD_EXPIRATION_WATERMARK_TABLE_NAME: NonEmptyString,
+    CARD_EXPIRATION_MAX_CATCH_UP_DAYS: NonNegativeInteger,
+    CARD_EXPIRATION_OVERRIDE_MARGIN_DAYS: NonNegativeInteger,
 
     CGN_UPPER_BOUND_AGE: NonNegativeInteger,
     EYCA_UPPER_BOUND_AGE: NonNegativeInteger,
@@ -64,16 +128,46 @@ export const IConfig = t.intersection([
     EYCA_API_PASSWORD: NonEmptyString,
     EYCA_API_USERNAME: NonEmptyString,
 
+    OTP_MODE: enumType<OtpModeEnum>(OtpModeEnum, "OtpMode"),
+    OTP_SECRET_KEY: NonEmptyString,
     OTP_TTL_IN_SECONDS: NonNegativeInteger,
+    OTP_GENERATION_DAILY_LIMIT: NonNegativeInteger,
+    OTP_GENERATION_HOURLY_LIMIT: NonNegativeInteger,
+    TOTP_SKEW_WINDOW: NonNegativeInteger,
+
+    ERASURE_RECEIPT_SIGNING_KEY: NonEmptyString,
+
+    // a comma separated list of days, such as "30,7"
+    CARD_EXPIRATION_REMINDER_DAYS: CommaSeparatedListOf(
+      IntegerFromString.pipe(ExpirationReminderDays)
+    ) as t.Type<ReadonlyArray<ExpirationReminderDays>, string>,
+
     isProduction: t.boolean
   }),
   RedisParams,
-  CgnServiceParams
+  CgnServiceParams,
+  ClockParams,
+  EligibilityPolicyParams
 ]);
 
 // No need to re-evaluate this object for each call
 const errorOrConfig: t.Validation<IConfig> = IConfig.decode({
   ...process.env,
+  CARD_EXPIRATION_REMINDER_DAYS:
+    process.env.CARD_EXPIRATION_REMINDER_DAYS ??
+    DEFAULT_CARD_EXPIRATION_REMINDER_DAYS,
+  CARD_EXPIRATION_MAX_CATCH_UP_DAYS: pipe(
+    process.env.CARD_EXPIRATION_MAX_CATCH_UP_DAYS,
+    IntegerFromString.decode,
+    E.map(_ => _ as NonNegativeInteger),
+    E.getOrElse(() => DEFAULT_CARD_EXPIRATION_MAX_CATCH_UP_DAYS)
+  ),
+  CARD_EXPIRATION_OVERRIDE_MARGIN_DAYS: pipe(
+    process.env.CARD_EXPIRATION_OVERRIDE_MARGIN_DAYS,
+    IntegerFromString.decode,
+    E.map(_ => _ as NonNegativeInteger),
+    E.getOrElse(() => DEFAULT_CARD_EXPIRATION_OVERRIDE_MARGIN_DAYS)
+  ),
   CGN_UPPER_BOUND_AGE: pipe(
     process.env.CGN_UPPER_BOUND_AGE,
     IntegerFromString.decode,
@@ -92,6 +186,25 @@ const errorOrConfig: t.Validation<IConfig> = IConfig.decode({
     E.map(_ => _ as NonNegativeInteger),
     E.getOrElse(() => 600 as NonNegativeInteger)
   ),
+  OTP_GENERATION_DAILY_LIMIT: pipe(
+    process.env.OTP_GENERATION_DAILY_LIMIT,
+    IntegerFromString.decode,
+    E.map(_ => _ as NonNegativeInteger),
+    E.getOrElse(() => DEFAULT_OTP_GENERATION_DAILY_LIMIT)
+  ),
+  OTP_GENERATION_HOURLY_LIMIT: pipe(
+    process.env.OTP_GENERATION_HOURLY_LIMIT,
+    IntegerFromString.decode,
+    E.map(_ => _ as NonNegativeInteger),
+    E.getOrElse(() => DEFAULT_OTP_GENERATION_HOURLY_LIMIT)
+  ),
+  OTP_MODE: process.env.OTP_MODE ?? OtpModeEnum.REDIS,
+  TOTP_SKEW_WINDOW: pipe(
+    process.env.TOTP_SKEW_WINDOW,
+    IntegerFromString.decode,
+    E.map(_ => _ as NonNegativeInteger),
+    E.getOrElse(() => DEFAULT_TOTP_SKEW_WINDOW)
+  ),
   REDIS_CLUSTER_ENABLED: pipe(
     O.fromNullable(process.env.REDIS_CLUSTER_ENABLED),
     O.map(_ => _.toLowerCase() === "true"),
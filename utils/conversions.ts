@@ -1,5 +1,13 @@
 import { errorsToReadableMessages } from "@pagopa/ts-commons/lib/reporters";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import { Errors } from "io-ts";
 
 export const errorsToError = (errors: Errors): Error =>
   new Error(errorsToReadableMessages(errors).join(" / "));
+
+/**
+ * Masks a fiscal code, leaving only the characters
+ * derived from the surname and the name of the user
+ */
+export const maskFiscalCode = (fiscalCode: FiscalCode): string =>
+  `${fiscalCode.substr(0, 6)}${"*".repeat(fiscalCode.length - 6)}`;
@@ -0,0 +1,21 @@
+const CRC32_TABLE: ReadonlyArray<number> = Array.from({ length: 256 }, (_, n) =>
+  Array.from({ length: 8 }).reduce<number>(
+    // eslint-disable-next-line no-bitwise
+    c => (c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1),
+    n
+  )
+);
+
+/**
+ * Computes the CRC-32 checksum of the data,
+ * as required by PNG chunks.
+ */
+export const crc32 = (data: Buffer): number => {
+  const crc = data.reduce(
+    // eslint-disable-next-line no-bitwise
+    (c, b) => CRC32_TABLE[(c ^ b) & 0xff] ^ (c >>> 8),
+    0xffffffff
+  );
+  // eslint-disable-next-line no-bitwise
+  return (crc ^ 0xffffffff) >>> 0;
+};
@@ -0,0 +1,138 @@
+import * as date_fns from "date-fns";
+
+/**
+ * The time zone every card date is computed in, whatever
+ * the time zone of the host the functions run on is
+ */
+export const CARD_TIME_ZONE = "Europe/Rome";
+
+// the calendar day, with months 1-indexed
+interface ICalendarDay {
+  readonly day: number;
+  readonly month: number;
+  readonly year: number;
+}
+
+const romeDateTimeFormat = new Intl.DateTimeFormat("en-US", {
+  day: "numeric",
+  hour: "numeric",
+  hour12: false,
+  minute: "numeric",
+  month: "numeric",
+  second: "numeric",
+  timeZone: CARD_TIME_ZONE,
+  year: "numeric"
+});
+
+const toRomeDateTimeParts = (date: Date): Record<string, number> =>
+  romeDateTimeFormat
+    .formatToParts(date)
+    .filter(part => part.type !== "literal")
+    .reduce(
+      (parts, part) => ({ ...parts, [part.type]: parseInt(part.value, 10) }),
+      {} as Record<string, number>
+    );
+
+// how far the Rome wall clock is ahead of UTC at the given moment
+const getRomeOffsetInMs = (date: Date): number => {
+  const parts = toRomeDateTimeParts(date);
+  return (
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      // midnight can be formatted as the 24th hour
+      parts.hour % 24,
+      parts.minute,
+      parts.second
+    ) -
+    Math.floor(date.getTime() / 1000) * 1000
+  );
+};
+
+const toRomeCalendarDay = (date: Date): ICalendarDay => {
+  const { day, month, year } = toRomeDateTimeParts(date);
+  return { day, month, year };
+};
+
+// out of range days and months are carried over, as Date.UTC does
+const fromRomeWallTime = (
+  { day, month, year }: ICalendarDay,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  ms: number
+): Date => {
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds, ms);
+  // the offset is checked again at the guessed moment, in case
+  // a daylight saving time change occurs in between
+  const guess = asUtc - getRomeOffsetInMs(new Date(asUtc));
+  return new Date(asUtc - getRomeOffsetInMs(new Date(guess)));
+};
+
+const toStartOfRomeDay = (calendarDay: ICalendarDay): Date =>
+  fromRomeWallTime(calendarDay, 0, 0, 0, 0);
+
+/**
+ * Returns the moment the given day starts in Rome
+ *
+ * @param year the year of the day
+ * @param month the month of the day, from 1 to 12
+ * @param day the day of the month
+ */
+export const toRomeDate = (year: number, month: number, day: number): Date =>
+  toStartOfRomeDay({ day, month, year });
+
+/**
+ * Formats the day a moment falls on in Rome
+ *
+ * @param date the moment to format
+ * @param pattern a date-fns pattern, yyyy-MM-dd (the expiration tables'
+ * partition key) when omitted
+ */
+export const formatRomeDate = (
+  date: Date,
+  pattern: string = "yyyy-MM-dd"
+): string => {
+  const { day, month, year } = toRomeCalendarDay(date);
+  return date_fns.format(new Date(year, month - 1, day), pattern);
+};
+
+/**
+ * Returns the moment the day of the given moment starts in Rome
+ */
+export const startOfRomeDay = (date: Date): Date =>
+  toStartOfRomeDay(toRomeCalendarDay(date));
+
+/**
+ * Returns the last millisecond of the day of the given moment in Rome
+ */
+export const endOfRomeDay = (date: Date): Date =>
+  fromRomeWallTime(toRomeCalendarDay(date), 23, 59, 59, 999);
+
+/**
+ * Returns the moment the day that comes the given number of days
+ * after the day of the given moment starts in Rome
+ */
+export const addRomeDays = (date: Date, days: number): Date => {
+  const { day, month, year } = toRomeCalendarDay(date);
+  return toStartOfRomeDay({ day: day + days, month, year });
+};
+
+/**
+ * Returns the moment a citizen turns the given age, in Rome.
+ * The ones born on 29 February turn a year older on 1 March
+ * when the year is not a leap year.
+ *
+ * @param birthDate the moment the citizen's birth day starts
+ * @param years the age to reach
+ */
+export const addYearsToBirthDate = (birthDate: Date, years: number): Date => {
+  const { day, month, year } = toRomeCalendarDay(birthDate);
+  const anniversaryYear = year + years;
+  return month === 2 &&
+    day === 29 &&
+    !date_fns.isLeapYear(new Date(anniversaryYear, 0, 1))
+    ? toStartOfRomeDay({ day: 1, month: 3, year: anniversaryYear })
+    : toStartOfRomeDay({ day, month, year: anniversaryYear });
+};
@@ -0,0 +1,160 @@
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as t from "io-ts";
+import { ExpirationDay } from "../generated/definitions/ExpirationDay";
+import {
+  ExpiringCardType,
+  ExpiringCardTypeEnum
+} from "../generated/definitions/ExpiringCardType";
+import { formatRomeDate } from "./dates";
+
+const CGN_LOWER_BOUND_AGE = 18 as NonNegativeInteger;
+
+const EYCA_LOWER_BOUND_AGE = 18 as NonNegativeInteger;
+
+/**
+ * A rule of the eligibility policy.
+ * The citizens the rule applies to are eligible for the card
+ * from their lower bound birthday until the day before their
+ * upper bound one, when their card expires.
+ */
+export const EligibilityRule = t.intersection([
+  t.interface({
+    cardType: ExpiringCardType,
+    // why the citizens checked against the rule are eligible or not,
+    // such as the decree that introduced it
+    explanation: NonEmptyString,
+    id: NonEmptyString,
+    lowerBoundAge: NonNegativeInteger,
+    upperBoundAge: NonNegativeInteger
+  }),
+  t.partial({
+    // the prefixes of the Belfiore codes of the birthplaces the rule
+    // is restricted to, such as "Z" for the citizens born abroad
+    birthplaces: t.readonlyArray(NonEmptyString),
+    // the day the rule comes into force in Rome, such as "2024-01-01"
+    effectiveFrom: ExpirationDay
+  })
+]);
+export type EligibilityRule = t.TypeOf<typeof EligibilityRule>;
+
+export const EligibilityPolicy = t.readonlyArray(EligibilityRule);
+export type EligibilityPolicy = t.TypeOf<typeof EligibilityPolicy>;
+
+/**
+ * An eligibility policy provided as a JSON array of rules
+ */
+export const EligibilityPolicyFromString = new t.Type<
+  EligibilityPolicy,
+  string,
+  unknown
+>(
+  "EligibilityPolicyFromString",
+  EligibilityPolicy.is,
+  (u, c) =>
+    pipe(
+      t.string.validate(u, c),
+      E.chain(s =>
+        pipe(
+          E.tryCatch(() => JSON.parse(s) as unknown, E.toError),
+          E.fold(
+            () => t.failure(u, c, "Invalid JSON"),
+            json => EligibilityPolicy.validate(json, c)
+          )
+        )
+      )
+    ),
+  policy => JSON.stringify(EligibilityPolicy.encode(policy))
+);
+
+/**
+ * Returns the policy that has always been in force:
+ * every citizen is eligible for the cards from 18 years old
+ * until they turn the given upper bound ages
+ */
+export const getDefaultEligibilityPolicy = (
+  cgnUpperBoundAge: NonNegativeInteger,
+  eycaUpperBoundAge: NonNegativeInteger
+): EligibilityPolicy => [
+  {
+    cardType: ExpiringCardTypeEnum.CGN,
+    explanation: `Citizens are eligible for a CGN from the age of ${CGN_LOWER_BOUND_AGE} until they turn ${cgnUpperBoundAge}` as NonEmptyString,
+    id: "CGN_DEFAULT" as NonEmptyString,
+    lowerBoundAge: CGN_LOWER_BOUND_AGE,
+    upperBoundAge: cgnUpperBoundAge
+  },
+  {
+    cardType: ExpiringCardTypeEnum.EYCA,
+    explanation: `Citizens are eligible for an EYCA card from the age of ${EYCA_LOWER_BOUND_AGE} until they turn ${eycaUpperBoundAge}` as NonEmptyString,
+    id: "EYCA_DEFAULT" as NonEmptyString,
+    lowerBoundAge: EYCA_LOWER_BOUND_AGE,
+    upperBoundAge: eycaUpperBoundAge
+  }
+];
+
+/**
+ * Returns the eligibility policy configured for the environment.
+ * A configured policy replaces the default one as a whole.
+ */
+export const getEligibilityPolicy = (config: {
+  readonly CGN_UPPER_BOUND_AGE: NonNegativeInteger;
+  readonly ELIGIBILITY_POLICY?: EligibilityPolicy;
+  readonly EYCA_UPPER_BOUND_AGE: NonNegativeInteger;
+}): EligibilityPolicy =>
+  config.ELIGIBILITY_POLICY ??
+  getDefaultEligibilityPolicy(
+    config.CGN_UPPER_BOUND_AGE,
+    config.EYCA_UPPER_BOUND_AGE
+  );
+
+const isInForce = (day: string) => (rule: EligibilityRule): boolean =>
+  rule.effectiveFrom === undefined || rule.effectiveFrom <= day;
+
+const isForBirthplace = (birthplace: string) => (
+  rule: EligibilityRule
+): boolean =>
+  rule.birthplaces === undefined ||
+  rule.birthplaces.some(prefix => birthplace.startsWith(prefix));
+
+// the rules restricted to some birthplaces prevail over the general ones,
+// then the latest one to come into force prevails, or the latest listed
+const prevails = (rule: EligibilityRule, other: EligibilityRule): boolean =>
+  rule.birthplaces !== undefined && other.birthplaces === undefined
+    ? true
+    : rule.birthplaces === undefined && other.birthplaces !== undefined
+    ? false
+    : (rule.effectiveFrom ?? "") >= (other.effectiveFrom ?? "");
+
+/**
+ * Returns the rule of the policy the eligibility of a citizen
+ * for a card is checked against at the given moment
+ *
+ * @param policy the eligibility policy
+ * @param cardType the card the eligibility is checked for
+ * @param birthplace the Belfiore code of the citizen's birthplace
+ * @param asOf the moment the eligibility is checked at
+ */
+export const getEligibilityRule = (
+  policy: EligibilityPolicy,
+  cardType: ExpiringCardType,
+  birthplace: string,
+  asOf: Date
+): O.Option<EligibilityRule> =>
+  pipe(
+    policy,
+    RA.filter(
+      rule =>
+        rule.cardType === cardType &&
+        isInForce(formatRomeDate(asOf))(rule) &&
+        isForBirthplace(birthplace)(rule)
+    ),
+    RA.reduce(O.none as O.Option<EligibilityRule>, (prevailing, rule) =>
+      O.isSome(prevailing) && !prevails(rule, prevailing.value)
+        ? prevailing
+        : O.some(rule)
+    )
+  );
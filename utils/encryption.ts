@@ -0,0 +1,55 @@
+import * as crypto from "crypto";
+import * as E from "fp-ts/lib/Either";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+// the cipher needs a 32 bytes key, so it is derived from the
+// configured secret instead of using the secret as is
+const toEncryptionKey = (secret: string): Buffer =>
+  crypto
+    .createHmac("sha256", secret)
+    .update("encryption")
+    .digest();
+
+/**
+ * Encrypts the given plaintext with AES-256-GCM.
+ *
+ * @returns the base64 encoding of the iv, the auth tag and the ciphertext
+ */
+export const encrypt = (secret: string, plaintext: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, toEncryptionKey(secret), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final()
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64"
+  );
+};
+
+/**
+ * Decrypts a value produced by `encrypt`.
+ * Fails if the value has been tampered with or the secret does not match.
+ */
+export const decrypt = (
+  secret: string,
+  encrypted: string
+): E.Either<Error, string> =>
+  E.tryCatch(() => {
+    const buffer = Buffer.from(encrypted, "base64");
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      toEncryptionKey(secret),
+      buffer.subarray(0, IV_LENGTH)
+    );
+    decipher.setAuthTag(
+      buffer.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
+    );
+    return Buffer.concat([
+      decipher.update(buffer.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+      decipher.final()
+    ]).toString("utf8");
+  }, E.toError);
@@ -0,0 +1,57 @@
+import * as crypto from "crypto";
+
+import { CgnDataErasureReceipt } from "../generated/definitions/CgnDataErasureReceipt";
+import { toKeyedHash } from "./hash";
+
+export type UnsignedCgnDataErasureReceipt = Omit<
+  CgnDataErasureReceipt,
+  "signature"
+>;
+
+/**
+ * Serializes the signed fields of a receipt in a fixed order,
+ * so that the signature can be verified whatever the JSON keys order is.
+ */
+const toSignedContent = (receipt: UnsignedCgnDataErasureReceipt): string =>
+  JSON.stringify([
+    receipt.fiscal_code,
+    receipt.instance_id,
+    receipt.requested_at.toISOString(),
+    receipt.completed_at.toISOString(),
+    receipt.erased_items.user_cgns,
+    receipt.erased_items.user_eyca_cards,
+    receipt.erased_items.cgn_expirations,
+    receipt.erased_items.eyca_expirations,
+    receipt.erased_items.orchestrations
+  ]);
+
+/**
+ * Signs the receipt of an erasure with the given key,
+ * as a proof that the erasure has been completed.
+ */
+export const signCgnDataErasureReceipt = (
+  signingKey: string,
+  receipt: UnsignedCgnDataErasureReceipt
+): CgnDataErasureReceipt => ({
+  ...receipt,
+  signature: toKeyedHash(signingKey, toSignedContent(receipt))
+});
+
+/**
+ * Checks that the receipt of an erasure has been signed with the given key
+ * and that it has not been altered since then.
+ */
+export const isValidCgnDataErasureReceipt = (
+  signingKey: string,
+  receipt: CgnDataErasureReceipt
+): boolean => {
+  const expected = Buffer.from(
+    signCgnDataErasureReceipt(signingKey, receipt).signature,
+    "utf8"
+  );
+  const actual = Buffer.from(receipt.signature, "utf8");
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
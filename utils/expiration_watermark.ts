@@ -0,0 +1,470 @@
+/* eslint-disable max-params */
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import {
+  StorageError,
+  TableQuery,
+  TableService,
+  TableUtilities
+} from "azure-storage";
+import * as date_fns from "date-fns";
+import * as E from "fp-ts/lib/Either";
+import { constVoid, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as S from "fp-ts/lib/string";
+import * as TE from "fp-ts/lib/TaskEither";
+import { ExpiringCardTypeEnum } from "./card_expiration";
+import { formatRomeDate } from "./dates";
+import { getPagedQuery, iterateOnPages } from "./table_storage";
+
+const WATERMARK_ROW_KEY = "LAST_PROCESSED_DATE";
+
+// the days are formatted as the partition keys of the expiration tables
+const DAY_FORMAT = "yyyy-MM-dd";
+const DAY_LENGTH = DAY_FORMAT.length;
+
+/**
+ * How far the card expirations of a card type have been processed,
+ * as days formatted as the partition keys of the expiration tables (yyyy-MM-dd)
+ */
+export interface IExpirationWatermark {
+  // every card expiring up to this day has expired
+  readonly lastProcessedDate: string;
+  // every day up to this one has been processed at least once,
+  // while the cards that failed to expire since then are retried on their own
+  readonly lastVisitedDate: string;
+}
+
+/**
+ * A card that failed to expire on a day already processed
+ */
+export interface IFailedExpiration {
+  readonly day: string;
+  readonly fiscalCode: FiscalCode;
+}
+
+/**
+ * The outcome of a run over the card expirations
+ */
+export interface IExpirationRun {
+  // the cards still failing to expire, retried on the next run
+  readonly failedExpirations: number;
+  // the days processed for the first time
+  readonly processedDays: ReadonlyArray<string>;
+}
+
+/**
+ * Processes the cards expiring on a day, only the ones that
+ * satisfy the given predicate, and returns the ones that failed to expire
+ */
+export type ProcessDay = (
+  day: string,
+  isToProcess: (fiscalCode: FiscalCode) => boolean
+) => TE.TaskEither<Error, ReadonlyArray<FiscalCode>>;
+
+/**
+ * A watermark storage table Entry
+ */
+type WatermarkTableEntry = Readonly<{
+  readonly LastProcessedDate: Readonly<{
+    readonly _: string;
+  }>;
+  readonly LastVisitedDate: Readonly<{
+    readonly _: string;
+  }>;
+}>;
+
+/**
+ * Retrieves how far the card expirations of a card type have been processed
+ */
+export const getExpirationWatermark = (
+  tableService: TableService,
+  watermarkTableName: NonEmptyString,
+  cardType: ExpiringCardTypeEnum
+): TE.TaskEither<Error, O.Option<IExpirationWatermark>> =>
+  pipe(
+    TE.taskify<Error, WatermarkTableEntry>(cb =>
+      tableService.retrieveEntity(
+        watermarkTableName,
+        cardType,
+        WATERMARK_ROW_KEY,
+        cb
+      )
+    )(),
+    TE.map(entry =>
+      O.some({
+        lastProcessedDate: entry.LastProcessedDate._,
+        lastVisitedDate: entry.LastVisitedDate._
+      })
+    ),
+    TE.orElse(err =>
+      (err as StorageError).statusCode === 404
+        ? TE.of<Error, O.Option<IExpirationWatermark>>(O.none)
+        : TE.left(err)
+    )
+  );
+
+/**
+ * Stores how far the card expirations of a card type have been processed
+ */
+export const updateExpirationWatermark = (
+  tableService: TableService,
+  watermarkTableName: NonEmptyString,
+  cardType: ExpiringCardTypeEnum
+) => (watermark: IExpirationWatermark): TE.TaskEither<Error, void> => {
+  const eg = TableUtilities.entityGenerator;
+  return pipe(
+    TE.taskify<Error, TableService.EntityMetadata>(cb =>
+      tableService.insertOrReplaceEntity(
+        watermarkTableName,
+        {
+          LastProcessedDate: eg.String(watermark.lastProcessedDate),
+          LastVisitedDate: eg.String(watermark.lastVisitedDate),
+          PartitionKey: eg.String(cardType),
+          RowKey: eg.String(WATERMARK_ROW_KEY)
+        },
+        cb
+      )
+    )(),
+    TE.map(constVoid)
+  );
+};
+
+// the failed expirations are stored along with the watermark,
+// one per row keyed by the day and the fiscal code
+const toFailedExpirationsPartitionKey = (
+  cardType: ExpiringCardTypeEnum
+): string => `${cardType}_FAILED`;
+
+const toFailedExpirationRowKey = ({
+  day,
+  fiscalCode
+}: IFailedExpiration): string => `${day}_${fiscalCode}`;
+
+const fromFailedExpirationRowKey = (rowKey: string): IFailedExpiration => ({
+  day: rowKey.substr(0, DAY_LENGTH),
+  fiscalCode: rowKey.substr(DAY_LENGTH + 1) as FiscalCode
+});
+
+/**
+ * Retrieves the cards of a card type that failed to expire,
+ * in chronological order
+ */
+export const getFailedExpirations = (
+  tableService: TableService,
+  watermarkTableName: NonEmptyString,
+  cardType: ExpiringCardTypeEnum
+): TE.TaskEither<Error, ReadonlyArray<IFailedExpiration>> =>
+  pipe(
+    getPagedQuery(
+      tableService,
+      watermarkTableName
+    )(
+      new TableQuery()
+        .select("RowKey")
+        .where("PartitionKey == ?", toFailedExpirationsPartitionKey(cardType))
+    ),
+    pagedQuery =>
+      TE.tryCatch(async () => {
+        // eslint-disable-next-line functional/prefer-readonly-type
+        const failedExpirations: IFailedExpiration[] = [];
+        for await (const page of iterateOnPages(pagedQuery)) {
+          // eslint-disable-next-line functional/immutable-data
+          failedExpirations.push(
+            ...page.map(entry => fromFailedExpirationRowKey(entry.RowKey._))
+          );
+        }
+        return failedExpirations;
+      }, E.toError)
+  );
+
+/**
+ * Stores the cards of a card type that failed to expire,
+ * so that they are retried on the next runs
+ */
+export const storeFailedExpirations = (
+  tableService: TableService,
+  watermarkTableName: NonEmptyString,
+  cardType: ExpiringCardTypeEnum
+) => (
+  failedExpirations: ReadonlyArray<IFailedExpiration>
+): TE.TaskEither<Error, void> => {
+  const eg = TableUtilities.entityGenerator;
+  return pipe(
+    failedExpirations,
+    RA.traverse(TE.ApplicativeSeq)(failedExpiration =>
+      TE.taskify<Error, TableService.EntityMetadata>(cb =>
+        tableService.insertOrReplaceEntity(
+          watermarkTableName,
+          {
+            PartitionKey: eg.String(toFailedExpirationsPartitionKey(cardType)),
+            RowKey: eg.String(toFailedExpirationRowKey(failedExpiration))
+          },
+          cb
+        )
+      )()
+    ),
+    TE.map(constVoid)
+  );
+};
+
+/**
+ * Deletes the cards of a card type that are no more to be retried.
+ * A missing one is not an error, so that the deletion can be retried
+ */
+export const deleteFailedExpirations = (
+  tableService: TableService,
+  watermarkTableName: NonEmptyString,
+  cardType: ExpiringCardTypeEnum
+) => (
+  failedExpirations: ReadonlyArray<IFailedExpiration>
+): TE.TaskEither<Error, void> => {
+  const eg = TableUtilities.entityGenerator;
+  return pipe(
+    failedExpirations,
+    RA.traverse(TE.ApplicativeSeq)(failedExpiration =>
+      pipe(
+        TE.taskify<Error, unknown>(cb =>
+          tableService.deleteEntity(
+            watermarkTableName,
+            {
+              PartitionKey: eg.String(
+                toFailedExpirationsPartitionKey(cardType)
+              ),
+              RowKey: eg.String(toFailedExpirationRowKey(failedExpiration))
+            },
+            cb
+          )
+        )(),
+        TE.map(constVoid),
+        TE.orElse(err =>
+          (err as StorageError).statusCode === 404
+            ? TE.of<Error, void>(void 0)
+            : TE.left(err)
+        )
+      )
+    ),
+    TE.map(constVoid)
+  );
+};
+
+/**
+ * Deletes the failed expirations of a card type stored for the given
+ * fiscalCode. They are keyed by day first, so every one of them is scanned.
+ */
+export const deleteFailedExpirationsByFiscalCode = (
+  tableService: TableService,
+  watermarkTableName: NonEmptyString,
+  cardType: ExpiringCardTypeEnum,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, void> =>
+  pipe(
+    getFailedExpirations(tableService, watermarkTableName, cardType),
+    TE.map(RA.filter(_ => _.fiscalCode === fiscalCode)),
+    TE.chain(
+      deleteFailedExpirations(tableService, watermarkTableName, cardType)
+    )
+  );
+
+/**
+ * Returns the days following the last visited one up to today,
+ * in chronological order and at most the given number of them.
+ * Only today is returned when no day has ever been processed.
+ * Today is the current day in Rome, as the expiration tables are
+ * partitioned by it.
+ */
+export const getDaysToProcess = (
+  lastVisitedDate: O.Option<string>,
+  now: Date,
+  maxDays: number
+): ReadonlyArray<string> => {
+  // the days are handled as calendar dates from here on
+  const today = date_fns.parseISO(formatRomeDate(now));
+  return pipe(
+    lastVisitedDate,
+    O.map(lastDate => date_fns.addDays(date_fns.parseISO(lastDate), 1)),
+    O.getOrElse(() => today),
+    firstDay =>
+      date_fns.isAfter(firstDay, today)
+        ? []
+        : date_fns.eachDayOfInterval({ end: today, start: firstDay }),
+    RA.takeLeft(maxDays),
+    RA.map(day => date_fns.format(day, DAY_FORMAT))
+  );
+};
+
+/**
+ * Returns the last day every card has expired up to:
+ * the day before the first one with a failed expiration, if any
+ */
+export const toLastProcessedDate = (
+  lastVisitedDate: string,
+  failedExpirations: ReadonlyArray<IFailedExpiration>
+): string =>
+  pipe(
+    failedExpirations,
+    RA.map(_ => _.day),
+    RA.reduce(lastVisitedDate, (firstFailedDay, day) =>
+      day <= firstFailedDay
+        ? date_fns.format(
+            date_fns.subDays(date_fns.parseISO(day), 1),
+            DAY_FORMAT
+          )
+        : firstFailedDay
+    )
+  );
+
+const groupByDay = (
+  failedExpirations: ReadonlyArray<IFailedExpiration>
+): ReadonlyArray<readonly [string, ReadonlyArray<IFailedExpiration>]> =>
+  pipe(
+    failedExpirations,
+    RA.map(_ => _.day),
+    RA.uniq(S.Eq),
+    RA.sort(S.Ord),
+    RA.map(day => [day, failedExpirations.filter(_ => _.day === day)] as const)
+  );
+
+/**
+ * Processes the card expirations of a card type:
+ * first the cards that failed to expire on the previous runs, on their own,
+ * then every day following the last visited one up to today,
+ * at most the given number of days per run.
+ * A card that fails to expire is stored to be retried on the next runs,
+ * so that it doesn't prevent the following days from being processed,
+ * while the other cards of its day are not processed again.
+ * The watermark is kept at the day before the first failed expiration.
+ *
+ * @param maxDaysPerRun how many days are caught up at most
+ * @param processDay processes the expirations of a day and returns
+ * the cards that failed to expire
+ */
+export const processDaysFromWatermark = (
+  tableService: TableService,
+  watermarkTableName: NonEmptyString,
+  cardType: ExpiringCardTypeEnum,
+  today: Date,
+  maxDaysPerRun: number,
+  processDay: ProcessDay
+): TE.TaskEither<Error, IExpirationRun> => {
+  const updateWatermark = updateExpirationWatermark(
+    tableService,
+    watermarkTableName,
+    cardType
+  );
+  const storeFailures = storeFailedExpirations(
+    tableService,
+    watermarkTableName,
+    cardType
+  );
+  const deleteFailures = deleteFailedExpirations(
+    tableService,
+    watermarkTableName,
+    cardType
+  );
+
+  // retries the cards of a day that failed to expire,
+  // and returns the ones that still fail
+  const retryDay = ([day, failedExpirations]: readonly [
+    string,
+    ReadonlyArray<IFailedExpiration>
+  ]): TE.TaskEither<Error, ReadonlyArray<IFailedExpiration>> =>
+    pipe(
+      processDay(day, fiscalCode =>
+        failedExpirations.some(_ => _.fiscalCode === fiscalCode)
+      ),
+      TE.map(stillFailing =>
+        RA.partition((_: IFailedExpiration) =>
+          stillFailing.includes(_.fiscalCode)
+        )(failedExpirations)
+      ),
+      TE.chain(({ left: expired, right: stillFailing }) =>
+        pipe(
+          deleteFailures(expired),
+          TE.map(() => stillFailing)
+        )
+      )
+    );
+
+  const processDays = (
+    days: ReadonlyArray<string>,
+    failedExpirations: ReadonlyArray<IFailedExpiration>
+  ): TE.TaskEither<Error, IExpirationRun> =>
+    pipe(
+      days,
+      RA.matchLeft(
+        () =>
+          TE.of({
+            failedExpirations: failedExpirations.length,
+            processedDays: []
+          }),
+        (day, nextDays) =>
+          pipe(
+            processDay(day, () => true),
+            TE.map(RA.map(fiscalCode => ({ day, fiscalCode }))),
+            TE.chainFirst(storeFailures),
+            TE.map(newFailures => [...failedExpirations, ...newFailures]),
+            TE.chainFirst(allFailures =>
+              updateWatermark({
+                lastProcessedDate: toLastProcessedDate(day, allFailures),
+                lastVisitedDate: day
+              })
+            ),
+            TE.chain(allFailures => processDays(nextDays, allFailures)),
+            TE.map(run => ({
+              ...run,
+              processedDays: [day, ...run.processedDays]
+            }))
+          )
+      )
+    );
+
+  return pipe(
+    TE.Do,
+    TE.bind("watermark", () =>
+      getExpirationWatermark(tableService, watermarkTableName, cardType)
+    ),
+    TE.bind("failedExpirations", () =>
+      pipe(
+        getFailedExpirations(tableService, watermarkTableName, cardType),
+        TE.map(groupByDay),
+        TE.chain(RA.traverse(TE.ApplicativeSeq)(retryDay)),
+        TE.map(RA.flatten)
+      )
+    ),
+    // the watermark moves forward once the failed expirations
+    // of its following day have been retried successfully
+    TE.chainFirst(({ watermark, failedExpirations }) =>
+      pipe(
+        watermark,
+        O.map(({ lastVisitedDate }) => ({
+          lastProcessedDate: toLastProcessedDate(
+            lastVisitedDate,
+            failedExpirations
+          ),
+          lastVisitedDate
+        })),
+        O.filter(
+          updatedWatermark =>
+            O.isSome(watermark) &&
+            updatedWatermark.lastProcessedDate !==
+              watermark.value.lastProcessedDate
+        ),
+        O.fold(() => TE.of<Error, void>(void 0), updateWatermark)
+      )
+    ),
+    TE.chain(({ watermark, failedExpirations }) =>
+      processDays(
+        getDaysToProcess(
+          pipe(
+            watermark,
+            O.map(_ => _.lastVisitedDate)
+          ),
+          today,
+          maxDaysPerRun
+        ),
+        failedExpirations
+      )
+    )
+  );
+};
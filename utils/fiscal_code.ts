@@ -0,0 +1,176 @@
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import { Clock } from "./clock";
+import { formatRomeDate, toRomeDate } from "./dates";
+
+/**
+ * The data encoded in an Italian fiscal code
+ */
+export interface IFiscalCodeData {
+  // the moment the birth day starts in Rome
+  readonly birthDate: Date;
+  // the Belfiore code of the municipality, or of the foreign country,
+  // the citizen is born in
+  readonly birthPlace: string;
+  readonly sex: "F" | "M";
+}
+
+// when two citizens share the same fiscal code, the digits of the later one
+// are replaced, from the rightmost one, by these letters (omocodia)
+const OMOCODIC_DIGITS = "LMNPQRSTUV";
+
+const OMOCODIC_POSITIONS: ReadonlyArray<number> = [6, 7, 9, 10, 12, 13, 14];
+
+const months: { readonly [k: string]: number } = {
+  ["A"]: 1,
+  ["B"]: 2,
+  ["C"]: 3,
+  ["D"]: 4,
+  ["E"]: 5,
+  ["H"]: 6,
+  ["L"]: 7,
+  ["M"]: 8,
+  ["P"]: 9,
+  ["R"]: 10,
+  ["S"]: 11,
+  ["T"]: 12
+};
+
+// the values of the characters in odd positions, from A (or 0) to Z
+const ODD_POSITION_VALUES: ReadonlyArray<number> = [
+  1,
+  0,
+  5,
+  7,
+  9,
+  13,
+  15,
+  17,
+  19,
+  21,
+  2,
+  4,
+  18,
+  20,
+  11,
+  3,
+  6,
+  8,
+  12,
+  14,
+  16,
+  10,
+  22,
+  25,
+  24,
+  23
+];
+
+// female subjects have 40 added to their birth day
+const FEMALE_DAY_OFFSET = 40;
+
+const FISCAL_CODE_PATTERN = /^[A-Z]{6}\d{2}[ABCDEHLMPRST]\d{2}[A-Z]\d{3}[A-Z]$/;
+
+// digits count as the letters in the same position of the alphabet
+const toCharacterIndex = (c: string): number =>
+  /\d/.test(c) ? parseInt(c, 10) : c.charCodeAt(0) - "A".charCodeAt(0);
+
+/**
+ * Computes the check character of a fiscal code
+ * from its first 15 characters, omocodic ones included.
+ */
+export const computeCheckCharacter = (fiscalCode: string): string =>
+  String.fromCharCode(
+    "A".charCodeAt(0) +
+      (fiscalCode
+        .substring(0, 15)
+        .split("")
+        .map(toCharacterIndex)
+        // positions are 1-indexed, so the odd ones have an even index
+        .map((value, index) =>
+          index % 2 === 0 ? ODD_POSITION_VALUES[value] : value
+        )
+        .reduce((acc, value) => acc + value, 0) %
+        26)
+  );
+
+/**
+ * Replaces the omocodic letters of a fiscal code with the digits
+ * they stand for, so that its data can be read.
+ */
+export const decodeOmocodia = (fiscalCode: string): string =>
+  fiscalCode
+    .split("")
+    .map((c, index) =>
+      OMOCODIC_POSITIONS.includes(index) && OMOCODIC_DIGITS.includes(c)
+        ? OMOCODIC_DIGITS.indexOf(c).toString()
+        : c
+    )
+    .join("");
+
+const toBirthDate = (
+  decodedFiscalCode: string,
+  clock: Clock
+): E.Either<Error, Date> => {
+  const tempYear = parseInt(decodedFiscalCode.substring(6, 8), 10);
+  const month = months[decodedFiscalCode.charAt(8)];
+  const tempDay = parseInt(decodedFiscalCode.substring(9, 11), 10);
+  const day =
+    tempDay > FEMALE_DAY_OFFSET ? tempDay - FEMALE_DAY_OFFSET : tempDay;
+
+  // to avoid the century date collision (01 could mean 1901 or 2001)
+  // we assume that if the birth date is grater than a century, the date
+  // refers to the new century
+  const currentYear = parseInt(formatRomeDate(clock(), "yyyy"), 10);
+  const year =
+    tempYear + (currentYear - (1900 + tempYear) >= 100 ? 2000 : 1900);
+
+  // months are 0-index
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  // a day out of the month would silently move the date to the next one
+  return calendarDate.getUTCDate() === day &&
+    calendarDate.getUTCMonth() === month - 1
+    ? E.right(toRomeDate(year, month, day))
+    : E.left(new Error("Invalid birth date in fiscal code"));
+};
+
+/**
+ * Extracts the birth date, the sex and the birthplace of a citizen
+ * from their fiscal code, omocodic ones included.
+ * The fiscal code is rejected when its check character does not match.
+ *
+ * @param fiscalCode the citizen's fiscalCode
+ * @param clock the clock the century of the birth date is guessed by
+ */
+export const parseFiscalCode = (
+  fiscalCode: FiscalCode,
+  clock: Clock
+): E.Either<Error, IFiscalCodeData> =>
+  pipe(
+    fiscalCode,
+    E.fromPredicate(
+      fc => computeCheckCharacter(fc) === fc.charAt(15),
+      () => new Error("Invalid fiscal code check character")
+    ),
+    E.map(decodeOmocodia),
+    E.chain(
+      E.fromPredicate(
+        decoded => FISCAL_CODE_PATTERN.test(decoded),
+        () => new Error("Invalid fiscal code format")
+      )
+    ),
+    E.chain(decoded =>
+      pipe(
+        toBirthDate(decoded, clock),
+        E.map(birthDate => ({
+          birthDate,
+          birthPlace: decoded.substring(11, 15),
+          sex:
+            parseInt(decoded.substring(9, 11), 10) > FEMALE_DAY_OFFSET
+              ? ("F" as const)
+              : ("M" as const)
+        }))
+      )
+    )
+  );
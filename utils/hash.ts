@@ -6,3 +6,13 @@ export const toHash = (s: string): NonEmptyString => {
   hash.update(s);
   return hash.digest("hex") as NonEmptyString;
 };
+
+/**
+ * Returns the HMAC-SHA256 of the given string, so that the hash
+ * cannot be recomputed by anyone not knowing the key.
+ */
+export const toKeyedHash = (key: string, s: string): NonEmptyString => {
+  const hmac = crypto.createHmac("sha256", key);
+  hmac.update(s);
+  return hmac.digest("hex") as NonEmptyString;
+};
@@ -1,11 +1,13 @@
 /* eslint-disable sonarjs/no-duplicate-string, sort-keys */
 import { MessageContent } from "@pagopa/io-functions-commons/dist/generated/definitions/MessageContent";
-import { format } from "date-fns";
 import { Card } from "../generated/definitions/Card";
 import { CardActivated } from "../generated/definitions/CardActivated";
 import { CardExpired } from "../generated/definitions/CardExpired";
 import { CardPending } from "../generated/definitions/CardPending";
 import { CardRevoked } from "../generated/definitions/CardRevoked";
+import { CardSuspended } from "../generated/definitions/CardSuspended";
+import { CardWithdrawn } from "../generated/definitions/CardWithdrawn";
+import { formatRomeDate } from "./dates";
 import { assertNever } from "./types";
 
 export const MESSAGES = {
@@ -13,7 +15,7 @@ export const MESSAGES = {
     ({
       subject: "La tua carta è stata revocata",
       markdown: `
-Ti avvisiamo che la tua Carta Giovani Nazionale è stata revocata il giorno ${format(
+Ti avvisiamo che la tua Carta Giovani Nazionale è stata revocata il giorno ${formatRomeDate(
         card.revocation_date,
         "dd-MM-yyyy"
       )} per ${card.revocation_reason}.
@@ -30,6 +32,31 @@ Ti ricordiamo che solo tu puoi usufruire degli sconti presentando la Carta press
 La Carta Giovani Nazionale sarà valida da oggi fino al compimento dei 36 anni. Inizia subito a usarla!
 `
     } as MessageContent),
+  CardSuspended: (card: CardSuspended): MessageContent =>
+    ({
+      subject: "La tua carta è stata sospesa",
+      markdown: `
+Ti avvisiamo che la tua Carta Giovani Nazionale è stata sospesa il giorno ${formatRomeDate(
+        card.suspension_date,
+        "dd-MM-yyyy"
+      )} per ${card.reason}.
+
+Fino alla riattivazione non sarà possibile utilizzare la carta nè nei punti fisici nè online.${
+        card.resume_date === undefined
+          ? ""
+          : ` La carta tornerà attiva il giorno ${formatRomeDate(
+              card.resume_date,
+              "dd-MM-yyyy"
+            )}.`
+      }`
+    } as MessageContent),
+  CardWithdrawn: (): MessageContent =>
+    ({
+      subject: "Hai rinunciato alla tua Carta Giovani Nazionale",
+      markdown: `Ti confermiamo che hai rinunciato alla tua Carta Giovani Nazionale e alla carta EYCA, se ne avevi una.
+
+Se cambi idea, potrai richiedere una nuova Carta Giovani Nazionale in qualsiasi momento dall'app IO.`
+    } as MessageContent),
   CardExpired: (): MessageContent =>
     ({
       subject: "La tua Carta Giovani Nazionale è scaduta",
@@ -46,6 +73,12 @@ export const getMessage = (card: Card): MessageContent => {
   if (CardActivated.is(card)) {
     return MESSAGES.CardActivated();
   }
+  if (CardSuspended.is(card)) {
+    return MESSAGES.CardSuspended(card);
+  }
+  if (CardWithdrawn.is(card)) {
+    return MESSAGES.CardWithdrawn();
+  }
   if (CardExpired.is(card)) {
     return MESSAGES.CardExpired();
   }
@@ -56,6 +89,22 @@ export const getMessage = (card: Card): MessageContent => {
   return assertNever(card);
 };
 
+export const getReactivationMessage = (): MessageContent =>
+  ({
+    subject: "La tua Carta Giovani è di nuovo attiva",
+    markdown: `Ti avvisiamo che la revoca della tua Carta Giovani Nazionale è stata annullata e **la tua carta è di nuovo attiva**.
+
+Puoi tornare a usarla fino alla sua scadenza presso gli esercenti aderenti, sia fisici che online.`
+  } as MessageContent);
+
+export const getResumptionMessage = (): MessageContent =>
+  ({
+    subject: "La tua Carta Giovani è di nuovo attiva",
+    markdown: `Ti avvisiamo che la sospensione della tua Carta Giovani Nazionale è terminata e **la tua carta è di nuovo attiva**.
+
+Puoi tornare a usarla fino alla sua scadenza presso gli esercenti aderenti, sia fisici che online.`
+  } as MessageContent);
+
 export const getEycaExpirationMessage = (): MessageContent =>
   ({
     subject: "La tua Carta EYCA è scaduta",
@@ -63,6 +112,63 @@ export const getEycaExpirationMessage = (): MessageContent =>
 
 La Carta rimane valida per gli acquisti in Italia!`
   } as MessageContent);
+
+export const getCgnExpirationReminderMessage = (
+  expirationDate: Date,
+  daysBefore: number
+): MessageContent =>
+  ({
+    subject: "La tua Carta Giovani Nazionale sta per scadere",
+    markdown: `Ti ricordiamo che la tua Carta Giovani Nazionale scadrà tra ${daysBefore} giorni, il giorno ${formatRomeDate(
+      expirationDate,
+      "dd-MM-yyyy"
+    )}.
+
+Fino ad allora potrai continuare a usarla presso gli esercenti aderenti, sia fisici che online.`,
+    due_date: expirationDate
+  } as MessageContent);
+
+export const getEycaExpirationReminderMessage = (
+  expirationDate: Date,
+  daysBefore: number
+): MessageContent =>
+  ({
+    subject: "La tua Carta EYCA sta per scadere",
+    markdown: `Ti ricordiamo che tra ${daysBefore} giorni, il giorno ${formatRomeDate(
+      expirationDate,
+      "dd-MM-yyyy"
+    )}, non sarà più possibile utilizzare la tua Carta Giovani Nazionale per acquisti sul circuito EYCA.
+
+La Carta rimarrà valida per gli acquisti in Italia!`,
+    due_date: expirationDate
+  } as MessageContent);
+
+export const getCgnExpirationChangedMessage = (
+  expirationDate: Date
+): MessageContent =>
+  ({
+    subject: "La scadenza della tua Carta Giovani Nazionale è cambiata",
+    markdown: `Ti avvisiamo che, a seguito dell'aggiornamento dei limiti di età previsti, la tua Carta Giovani Nazionale scadrà il giorno ${formatRomeDate(
+      expirationDate,
+      "dd-MM-yyyy"
+    )}.
+
+Fino ad allora potrai continuare a usarla presso gli esercenti aderenti, sia fisici che online.`,
+    due_date: expirationDate
+  } as MessageContent);
+
+export const getEycaExpirationChangedMessage = (
+  expirationDate: Date
+): MessageContent =>
+  ({
+    subject: "La scadenza della tua Carta EYCA è cambiata",
+    markdown: `Ti avvisiamo che, a seguito dell'aggiornamento dei limiti di età previsti, potrai utilizzare la tua Carta Giovani Nazionale per acquisti sul circuito EYCA fino al giorno ${formatRomeDate(
+      expirationDate,
+      "dd-MM-yyyy"
+    )}.`,
+    due_date: expirationDate
+  } as MessageContent);
+
 export const getErrorMessage = (): MessageContent =>
   ({
     subject: "Abbiamo riscontrato dei problemi",
@@ -0,0 +1,46 @@
+import { IRequestMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { ResponseErrorFromValidationErrors } from "@pagopa/ts-commons/lib/responses";
+import * as E from "fp-ts/lib/Either";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as t from "io-ts";
+
+/**
+ * Returns a request middleware that validates the request.body object
+ * if a payload has been provided, or resolves to none otherwise.
+ *
+ * @param type  The io-ts Type for validating the payload
+ */
+export const OptionalBodyPayloadMiddleware = <S, A>(
+  type: t.Type<A, S>
+): IRequestMiddleware<"IResponseErrorValidation", O.Option<A>> => async (
+  request
+): ReturnType<IRequestMiddleware<"IResponseErrorValidation", O.Option<A>>> =>
+  pipe(
+    request.body,
+    // the Azure runtime could provide an empty body as an empty string
+    O.fromPredicate(body => body !== undefined && body !== null && body !== ""),
+    O.fold(
+      () => E.right(O.none),
+      flow(
+        type.decode,
+        E.bimap(ResponseErrorFromValidationErrors(type), O.some)
+      )
+    )
+  );
+
+/**
+ * Returns a request middleware that validates the request.query object
+ * as a whole, so that related query parameters can be decoded together.
+ *
+ * @param type  The io-ts Type for validating the query parameters
+ */
+export const QueryParamsMiddleware = <S, A>(
+  type: t.Type<A, S>
+): IRequestMiddleware<"IResponseErrorValidation", A> => async (
+  request
+): ReturnType<IRequestMiddleware<"IResponseErrorValidation", A>> =>
+  pipe(
+    type.decode(request.query),
+    E.mapLeft(ResponseErrorFromValidationErrors(type))
+  );
@@ -4,13 +4,24 @@ import {
   ResponseErrorInternal,
   ResponseErrorNotFound
 } from "@pagopa/ts-commons/lib/responses";
+import { FeedOptions, SqlQuerySpec } from "@azure/cosmos";
+import {
+  asyncIterableToArray,
+  flattenAsyncIterable
+} from "@pagopa/io-functions-commons/dist/src/utils/async";
 import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { QueueService } from "azure-storage";
-import { pipe } from "fp-ts/lib/function";
+import * as E from "fp-ts/lib/Either";
+import { flow, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
 import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
 import { ContinueEycaActivationInput } from "../ContinueEycaActivation/handler";
 import { UserCgn, UserCgnModel } from "../models/user_cgn";
 import { UserEycaCard, UserEycaCardModel } from "../models/user_eyca_card";
+import { errorsToError } from "./conversions";
+import { foldPages } from "./pages";
 
 export const retrieveUserCgn = (
   userCgnModel: UserCgnModel,
@@ -47,6 +58,239 @@ export const retrieveUserEycaCard = (
     )
   );
 
+/**
+ * A versioned model whose documents can be queried
+ */
+interface IQueryableModel<TR> {
+  readonly getQueryIterator: (
+    query: SqlQuerySpec,
+    options?: FeedOptions
+  ) => AsyncIterable<ReadonlyArray<t.Validation<TR>>>;
+}
+
+const findAllByQuery = <TR>(
+  model: IQueryableModel<TR>,
+  query: SqlQuerySpec
+): TE.TaskEither<Error, ReadonlyArray<TR>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        asyncIterableToArray(
+          flattenAsyncIterable(model.getQueryIterator(query))
+        ),
+      E.toError
+    ),
+    TE.chainEitherK(flow(RA.sequence(E.Applicative), E.mapLeft(errorsToError)))
+  );
+
+/**
+ * Retrieves every version of the user's documents stored by a versioned
+ * model, such as `UserCgnModel` or `UserEycaCardModel`,
+ * from the oldest to the latest one.
+ */
+export const findAllVersionsByFiscalCode = <TR>(
+  model: IQueryableModel<TR>,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, ReadonlyArray<TR>> =>
+  findAllByQuery(model, {
+    parameters: [{ name: "@fiscalCode", value: fiscalCode }],
+    query:
+      "SELECT * FROM c WHERE c.fiscalCode = @fiscalCode ORDER BY c.version ASC"
+  });
+
+/**
+ * A versioned model of the users' cards
+ */
+interface ICardModel<
+  TR extends {
+    readonly card: { readonly status: string };
+    readonly fiscalCode: FiscalCode;
+    readonly id: NonEmptyString;
+  }
+> extends IQueryableModel<TR> {
+  readonly findLastVersionByModelId: (
+    // eslint-disable-next-line functional/prefer-readonly-type
+    searchKey: [FiscalCode]
+  ) => TE.TaskEither<unknown, O.Option<TR>>;
+}
+
+// how many card versions are read, and checked in parallel, at a time
+const CARD_VERSIONS_PAGE_SIZE = 100;
+
+/**
+ * Keeps only the card versions that are also the latest version of their
+ * card and still have one of the given statuses
+ */
+const filterLatestVersions = <
+  TR extends {
+    readonly card: { readonly status: string };
+    readonly fiscalCode: FiscalCode;
+    readonly id: NonEmptyString;
+  }
+>(
+  model: ICardModel<TR>,
+  statuses: ReadonlyArray<string>
+) => (versions: ReadonlyArray<TR>): TE.TaskEither<Error, ReadonlyArray<TR>> =>
+  pipe(
+    versions,
+    RA.traverse(TE.ApplicativePar)(version =>
+      pipe(
+        model.findLastVersionByModelId([version.fiscalCode]),
+        TE.mapLeft(() => new Error("Cannot retrieve the latest card version")),
+        TE.map(
+          O.filter(
+            latestVersion =>
+              latestVersion.id === version.id &&
+              statuses.includes(latestVersion.card.status)
+          )
+        )
+      )
+    ),
+    TE.map(RA.compact)
+  );
+
+/**
+ * Folds, a page at a time, the latest version of every card that currently
+ * has one of the given statuses, so that the cards are never loaded in memory
+ * all together. As the older versions of a card are never updated, every
+ * version found with such statuses is checked against the latest one: only
+ * the version that is also the latest is folded, so each card is folded once.
+ */
+export const foldLatestVersionsByCardStatus = <
+  TR extends {
+    readonly card: { readonly status: string };
+    readonly fiscalCode: FiscalCode;
+    readonly id: NonEmptyString;
+  },
+  B
+>(
+  model: ICardModel<TR>,
+  statuses: ReadonlyArray<string>,
+  initial: B,
+  f: (acc: B, latestVersions: ReadonlyArray<TR>) => TE.TaskEither<Error, B>
+): TE.TaskEither<Error, B> =>
+  foldPages(
+    model.getQueryIterator(
+      {
+        parameters: [{ name: "@statuses", value: [...statuses] }],
+        query: "SELECT * FROM c WHERE ARRAY_CONTAINS(@statuses, c.card.status)"
+      },
+      { maxItemCount: CARD_VERSIONS_PAGE_SIZE }
+    ),
+    initial,
+    (acc, page) =>
+      pipe(
+        page,
+        RA.sequence(E.Applicative),
+        E.mapLeft(errorsToError),
+        TE.fromEither,
+        TE.chain(filterLatestVersions(model, statuses)),
+        TE.chain(latestVersions => f(acc, latestVersions))
+      )
+  );
+
+/**
+ * A page of the latest versions of the cards that have one of some statuses,
+ * along with the id of the card version to resume the scan after,
+ * missing once every card version has been scanned
+ */
+export interface ILatestVersionsPage<TR> {
+  readonly latestVersions: ReadonlyArray<TR>;
+  readonly nextId: O.Option<NonEmptyString>;
+}
+
+/**
+ * Finds the latest versions among a page of the card versions that currently
+ * have one of the given statuses, following the card version with the given
+ * id, if any. The card versions are scanned in order of id, so that the scan
+ * can be resumed later on from the last one read, even by another process.
+ * As for `foldLatestVersionsByCardStatus`, each card is found once.
+ */
+export const findLatestVersionsPageByCardStatus = <
+  TR extends {
+    readonly card: { readonly status: string };
+    readonly fiscalCode: FiscalCode;
+    readonly id: NonEmptyString;
+  }
+>(
+  model: ICardModel<TR>,
+  statuses: ReadonlyArray<string>,
+  afterId: O.Option<NonEmptyString>
+): TE.TaskEither<Error, ILatestVersionsPage<TR>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        asyncIterableToArray(
+          flattenAsyncIterable(
+            model.getQueryIterator({
+              parameters: [
+                { name: "@statuses", value: [...statuses] },
+                {
+                  name: "@afterId",
+                  value: pipe(
+                    afterId,
+                    O.getOrElse(() => "")
+                  )
+                },
+                { name: "@pageSize", value: CARD_VERSIONS_PAGE_SIZE }
+              ],
+              query:
+                "SELECT TOP @pageSize * FROM c WHERE ARRAY_CONTAINS(@statuses, c.card.status) AND c.id > @afterId ORDER BY c.id ASC"
+            })
+          )
+        ),
+      E.toError
+    ),
+    TE.chainEitherK(flow(RA.sequence(E.Applicative), E.mapLeft(errorsToError))),
+    TE.chain(versions =>
+      pipe(
+        filterLatestVersions(model, statuses)(versions),
+        TE.map(latestVersions => ({
+          latestVersions,
+          // a page shorter than the requested size is the last one
+          nextId:
+            versions.length < CARD_VERSIONS_PAGE_SIZE
+              ? O.none
+              : pipe(
+                  RA.last(versions),
+                  O.map(_ => _.id)
+                )
+        }))
+      )
+    )
+  );
+
+/**
+ * A versioned model whose single versions can be deleted
+ */
+interface IErasableModel<TR extends { readonly id: NonEmptyString }>
+  extends IQueryableModel<TR> {
+  readonly deleteVersion: (
+    fiscalCode: FiscalCode,
+    documentId: NonEmptyString
+  ) => TE.TaskEither<unknown, NonEmptyString>;
+}
+
+/**
+ * Deletes every version of the user's documents stored by a versioned model
+ * and returns how many versions have been deleted.
+ */
+export const deleteAllVersionsByFiscalCode = <
+  TR extends { readonly id: NonEmptyString }
+>(
+  model: IErasableModel<TR>,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, number> =>
+  pipe(
+    findAllVersionsByFiscalCode(model, fiscalCode),
+    TE.chain(
+      RA.traverse(TE.ApplicativeSeq)(version =>
+        pipe(model.deleteVersion(fiscalCode, version.id), TE.mapLeft(E.toError))
+      )
+    ),
+    TE.map(deletedVersions => deletedVersions.length)
+  );
+
 /**
  * Enqueue an EYCA activation's process
  */
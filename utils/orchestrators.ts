@@ -14,6 +14,7 @@ import {
 } from "@pagopa/ts-commons/lib/responses";
 import { toError } from "fp-ts/lib/Either";
 import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
 import * as TE from "fp-ts/lib/TaskEither";
 
 import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
@@ -22,6 +23,7 @@ import {
   EventTelemetry,
   ExceptionTelemetry
 } from "applicationinsights/out/Declarations/Contracts";
+import { addDays, min } from "date-fns";
 import { array } from "fp-ts";
 import { constVoid, flow, Lazy, pipe } from "fp-ts/lib/function";
 import * as t from "io-ts";
@@ -30,7 +32,11 @@ import { StatusEnum as CardActivatedStatusEnum } from "../generated/definitions/
 import { StatusEnum as CardExpiredStatusEnum } from "../generated/definitions/CardExpired";
 import { StatusEnum as CardPendingStatusEnum } from "../generated/definitions/CardPending";
 import { StatusEnum as CardRevokedStatusEnum } from "../generated/definitions/CardRevoked";
+import { StatusEnum as CardSuspendedStatusEnum } from "../generated/definitions/CardSuspended";
+import { StatusEnum as CardWithdrawnStatusEnum } from "../generated/definitions/CardWithdrawn";
+import { ExpiringCardTypeEnum } from "../generated/definitions/ExpiringCardType";
 import { trackEvent, trackException } from "./appinsights";
+import { ExpirationReminderDays } from "./config";
 
 /**
  * The identifier for UpdateCgnOrchestrator
@@ -53,6 +59,44 @@ export const makeEycaOrchestratorId = (
   cardStatus: string
 ): string => `${fiscalCode}-EYCA-${cardStatus}`;
 
+/**
+ * The identifier for the orchestrator erasing the data of a user
+ *
+ * @param fiscalCode the id of the user
+ */
+export const makeCgnDataErasureOrchestratorId = (
+  fiscalCode: FiscalCode
+): string => `${fiscalCode}-ERASURE`;
+
+/**
+ * The identifier for the orchestrator reconciling the card expirations,
+ * so that a single reconciliation runs at a time
+ */
+export const CARD_EXPIRATION_RECONCILIATION_ORCHESTRATOR_ID =
+  "CARD-EXPIRATION-RECONCILIATION";
+
+/**
+ * The identifier for the orchestrator migrating the card expiration dates,
+ * so that a single migration runs at a time
+ */
+export const CARD_EXPIRATION_MIGRATION_ORCHESTRATOR_ID =
+  "CARD-EXPIRATION-MIGRATION";
+
+/**
+ * The identifier for the orchestrator reminding a user that a card expires
+ * in the given number of days. The reminders of the following expirations
+ * of the same card reuse the same identifier.
+ *
+ * @param fiscalCode the id of the user
+ * @param cardType the kind of the expiring card, either CGN or EYCA
+ * @param daysBefore how many days before the expiration the user is reminded
+ */
+export const makeExpirationReminderOrchestratorId = (
+  fiscalCode: FiscalCode,
+  cardType: string,
+  daysBefore: number
+): string => `${fiscalCode}-${cardType}-REMINDER-${daysBefore}`;
+
 export const getOrchestratorStatus = (
   client: DurableOrchestrationClient,
   orchestratorId: string
@@ -81,11 +125,66 @@ export const isOrchestratorRunning = (
     }))
   );
 
+/**
+ * Checks whether an orchestrator is running, even between two executions
+ * of an orchestrator that continues as new,
+ * considering that the status of an orchestrator that never run is undefined
+ */
+export const isOrchestratorInProgress = (
+  client: DurableOrchestrationClient,
+  orchestratorId: string
+): TE.TaskEither<Error, boolean> =>
+  pipe(
+    getOrchestratorStatus(client, orchestratorId),
+    TE.map(
+      flow(
+        O.fromNullable,
+        O.exists(
+          ({ runtimeStatus }) =>
+            runtimeStatus === df.OrchestrationRuntimeStatus.Running ||
+            runtimeStatus === df.OrchestrationRuntimeStatus.Pending ||
+            runtimeStatus === df.OrchestrationRuntimeStatus.ContinuedAsNew
+        )
+      )
+    )
+  );
+
 const cgnStatuses: ReadonlyArray<string> = [
   CardRevokedStatusEnum.REVOKED.toString(),
   CardActivatedStatusEnum.ACTIVATED.toString(),
   CardExpiredStatusEnum.EXPIRED.toString(),
-  CardPendingStatusEnum.PENDING.toString()
+  CardPendingStatusEnum.PENDING.toString(),
+  CardSuspendedStatusEnum.SUSPENDED.toString(),
+  CardWithdrawnStatusEnum.WITHDRAWN.toString()
+];
+
+const eycaStatuses: ReadonlyArray<string> = [
+  CardPendingStatusEnum.PENDING.toString(),
+  CardExpiredStatusEnum.EXPIRED.toString()
+];
+
+/**
+ * The identifiers of every orchestrator which could have been started
+ * for the given user, either to update its CGN or its EYCA card
+ * or to remind it of their expiration
+ *
+ * @param fiscalCode the id of the user
+ * @param reminderDays how many days before an expiration the users are reminded
+ */
+export const makeUserOrchestratorIds = (
+  fiscalCode: FiscalCode,
+  reminderDays: ReadonlyArray<ExpirationReminderDays>
+): ReadonlyArray<string> => [
+  ...cgnStatuses.map(status => makeUpdateCgnOrchestratorId(fiscalCode, status)),
+  ...eycaStatuses.map(status => makeEycaOrchestratorId(fiscalCode, status)),
+  ...pipe(
+    [ExpiringCardTypeEnum.CGN, ExpiringCardTypeEnum.EYCA],
+    RA.chain(cardType =>
+      reminderDays.map(daysBefore =>
+        makeExpirationReminderOrchestratorId(fiscalCode, cardType, daysBefore)
+      )
+    )
+  )
 ];
 
 export type CheckUpdateCardIsRunningErrorTypes =
@@ -254,3 +353,25 @@ export const trackExceptionIfNotReplaying = (
   evt: ExceptionTelemetry
 ): void | Lazy<void> =>
   context.df.isReplaying ? constVoid : trackException(evt);
+
+// a durable timer cannot last longer than about 7 days
+// @see https://docs.microsoft.com/en-us/azure/azure-functions/durable/durable-functions-timers
+const MAX_TIMER_DAYS = 6;
+
+/**
+ * Waits until the given date by a chain of durable timers lasting at most
+ * MAX_TIMER_DAYS each, as this version of durable-functions doesn't split
+ * long timers by itself. The timers are computed from the orchestrator time,
+ * which is replayed, so that every replay yields the same timers.
+ */
+export const createLongTimer = function*(
+  context: IOrchestrationFunctionContext,
+  fireAt: Date
+): Generator<unknown, void> {
+  // eslint-disable-next-line functional/no-let
+  let timerDate = context.df.currentUtcDateTime;
+  do {
+    timerDate = min([fireAt, addDays(timerDate, MAX_TIMER_DAYS)]);
+    yield context.df.createTimer(timerDate);
+  } while (timerDate < fireAt);
+};
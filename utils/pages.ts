@@ -0,0 +1,32 @@
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+
+/**
+ * Folds the pages returned by an async iterable one at a time: the next
+ * page is requested only once the previous one has been processed, so that
+ * the pages are never held in memory all together.
+ * The first error, either while reading a page or returned by `f`,
+ * stops the iteration.
+ */
+export const foldPages = <A, B>(
+  pages: AsyncIterable<A>,
+  initial: B,
+  f: (acc: B, page: A) => TE.TaskEither<Error, B>
+): TE.TaskEither<Error, B> => {
+  const foldFrom = (iterator: AsyncIterator<A>) => (
+    acc: B
+  ): TE.TaskEither<Error, B> =>
+    pipe(
+      TE.tryCatch(() => iterator.next(), E.toError),
+      TE.chain(result =>
+        result.done
+          ? TE.of(acc)
+          : pipe(f(acc, result.value), TE.chain(foldFrom(iterator)))
+      )
+    );
+  return pipe(
+    TE.rightIO<Error, AsyncIterator<A>>(() => pages[Symbol.asyncIterator]()),
+    TE.chain(iterator => foldFrom(iterator)(initial))
+  );
+};
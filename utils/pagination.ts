@@ -0,0 +1,46 @@
+import { CosmosErrors } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import {
+  IntegerFromString,
+  IWithinRangeIntegerTag,
+  WithinRangeInteger
+} from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponseErrorInternal,
+  IResponseErrorValidation,
+  ResponseErrorInternal,
+  ResponseErrorValidation
+} from "@pagopa/ts-commons/lib/responses";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as t from "io-ts";
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * The maximum number of items in a page, between 1 and 100,
+ * as provided by a query parameter
+ */
+export const PageSizeFromString = IntegerFromString.pipe(
+  WithinRangeInteger<1, 101, IWithinRangeIntegerTag<1, 101>>(1, 101)
+);
+
+/**
+ * The options of a paginated request, as provided by the query parameters.
+ * The first page is returned when no continuation token is provided.
+ */
+export const PaginationOptions = t.partial({
+  continuation_token: NonEmptyString,
+  page_size: PageSizeFromString
+});
+
+export type PaginationOptions = t.TypeOf<typeof PaginationOptions>;
+
+/**
+ * Maps the error occurred while fetching a page to a response.
+ * CosmosDB rejects a malformed continuation token as a bad request.
+ */
+export const toPageErrorResponse = (
+  err: CosmosErrors
+): IResponseErrorValidation | IResponseErrorInternal =>
+  err.kind === "COSMOS_ERROR_RESPONSE" && err.error.code === 400
+    ? ResponseErrorValidation("Bad Request", "Invalid continuation token")
+    : ResponseErrorInternal("Cannot retrieve the requested page");
@@ -0,0 +1,484 @@
+/* eslint-disable no-bitwise, functional/no-let, functional/immutable-data, functional/prefer-readonly-type */
+// The encoder works on mutable bit buffers and module grids
+// for the sake of readability, so the functional rules are disabled here.
+
+/**
+ * A grid of modules indexed by row then column, where true is a dark module.
+ */
+export type BitMatrix = ReadonlyArray<ReadonlyArray<boolean>>;
+
+// QR codes are encoded in byte mode with the medium error correction level,
+// which restores up to 15% of the codewords of a damaged symbol.
+// @see ISO/IEC 18004:2015
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+const BYTE_MODE_INDICATOR = 0x4;
+const ECC_LEVEL_M_FORMAT_BITS = 0;
+export const QR_QUIET_ZONE_MODULES = 4;
+
+// error correction codewords of each block and number of blocks by version,
+// for the medium error correction level (index 0 is unused)
+// prettier-ignore
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+  26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28
+];
+// prettier-ignore
+const NUM_ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+  17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49
+];
+
+const getBit = (value: number, index: number): boolean =>
+  ((value >>> index) & 1) !== 0;
+
+const getSize = (version: number): number => version * 4 + 17;
+
+/**
+ * Returns the number of modules available for data and error correction
+ * codewords, after excluding every function pattern.
+ */
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number): number =>
+  Math.floor(getNumRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[version] * NUM_ECC_BLOCKS[version];
+
+const getCharCountBits = (version: number): number => (version < 10 ? 8 : 16);
+
+const getAlignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) {
+    return [];
+  }
+  const numAlign = Math.floor(version / 7) + 2;
+  const step =
+    Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (
+    let position = getSize(version) - 7;
+    result.length < numAlign;
+    position -= step
+  ) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+// Galois field GF(2^8) arithmetic modulo x^8 + x^4 + x^3 + x^2 + 1
+const multiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const computeReedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+};
+
+const computeReedSolomonRemainder = (
+  data: ReadonlyArray<number>,
+  divisor: ReadonlyArray<number>
+): number[] => {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+/**
+ * Encodes the data as a sequence of data codewords of the given version,
+ * padded up to the version capacity.
+ */
+const encodeDataCodewords = (data: Buffer, version: number): number[] => {
+  const capacityBits = getNumDataCodewords(version) * 8;
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number): void => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  appendBits(BYTE_MODE_INDICATOR, 4);
+  appendBits(data.length, getCharCountBits(version));
+  data.forEach(b => appendBits(b, 8));
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let padByte = 0xec; bits.length < capacityBits; padByte ^= 0xec ^ 0x11) {
+    appendBits(padByte, 8);
+  }
+  const codewords = new Array<number>(bits.length / 8).fill(0);
+  bits.forEach((bit, i) => {
+    codewords[i >>> 3] |= bit << (7 - (i & 7));
+  });
+  return codewords;
+};
+
+/**
+ * Splits the data codewords in blocks, appends the error correction
+ * codewords to each block and interleaves the blocks.
+ */
+const addEccAndInterleave = (
+  data: ReadonlyArray<number>,
+  version: number
+): number[] => {
+  const numBlocks = NUM_ECC_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = computeReedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(
+      k,
+      k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1)
+    );
+    k += block.length;
+    const ecc = computeReedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) {
+      // short blocks are padded so that every block has the same length
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // skips the padding of the short blocks
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+interface IQrGrid {
+  readonly isFunction: boolean[][];
+  readonly modules: boolean[][];
+  readonly size: number;
+}
+
+const setFunctionModule = (
+  grid: IQrGrid,
+  x: number,
+  y: number,
+  isDark: boolean
+): void => {
+  grid.modules[y][x] = isDark;
+  grid.isFunction[y][x] = true;
+};
+
+const drawFinderPattern = (grid: IQrGrid, x: number, y: number): void => {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const distance = Math.max(Math.abs(dx), Math.abs(dy));
+      const xx = x + dx;
+      const yy = y + dy;
+      if (xx >= 0 && xx < grid.size && yy >= 0 && yy < grid.size) {
+        setFunctionModule(grid, xx, yy, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+};
+
+const drawAlignmentPattern = (grid: IQrGrid, x: number, y: number): void => {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      setFunctionModule(
+        grid,
+        x + dx,
+        y + dy,
+        Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+      );
+    }
+  }
+};
+
+const drawFormatBits = (grid: IQrGrid, mask: number): void => {
+  const data = (ECC_LEVEL_M_FORMAT_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const { size } = grid;
+
+  // first copy, around the top left finder pattern
+  for (let i = 0; i <= 5; i++) {
+    setFunctionModule(grid, 8, i, getBit(bits, i));
+  }
+  setFunctionModule(grid, 8, 7, getBit(bits, 6));
+  setFunctionModule(grid, 8, 8, getBit(bits, 7));
+  setFunctionModule(grid, 7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) {
+    setFunctionModule(grid, 14 - i, 8, getBit(bits, i));
+  }
+
+  // second copy, split between the other finder patterns
+  for (let i = 0; i < 8; i++) {
+    setFunctionModule(grid, size - 1 - i, 8, getBit(bits, i));
+  }
+  for (let i = 8; i < 15; i++) {
+    setFunctionModule(grid, 8, size - 15 + i, getBit(bits, i));
+  }
+  setFunctionModule(grid, 8, size - 8, true);
+};
+
+const drawVersionBits = (grid: IQrGrid, version: number): void => {
+  if (version < 7) {
+    return;
+  }
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  const bits = (version << 12) | remainder;
+  for (let i = 0; i < 18; i++) {
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(grid, a, b, getBit(bits, i));
+    setFunctionModule(grid, b, a, getBit(bits, i));
+  }
+};
+
+const drawFunctionPatterns = (grid: IQrGrid, version: number): void => {
+  const { size } = grid;
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+  drawFinderPattern(grid, 3, 3);
+  drawFinderPattern(grid, size - 4, 3);
+  drawFinderPattern(grid, 3, size - 4);
+
+  const positions = getAlignmentPatternPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((x, i) =>
+    positions.forEach((y, j) => {
+      // the corners overlapping the finder patterns are skipped
+      if (
+        !(i === 0 && j === 0) &&
+        !(i === 0 && j === last) &&
+        !(i === last && j === 0)
+      ) {
+        drawAlignmentPattern(grid, x, y);
+      }
+    })
+  );
+
+  // reserves the format bits area, which is drawn once the mask is chosen
+  drawFormatBits(grid, 0);
+  drawVersionBits(grid, version);
+};
+
+const drawCodewords = (
+  grid: IQrGrid,
+  codewords: ReadonlyArray<number>
+): void => {
+  const { size } = grid;
+  let i = 0;
+  // codewords are placed in pairs of columns, from the bottom right corner,
+  // going up and down alternately and skipping the vertical timing pattern
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!grid.isFunction[y][x] && i < codewords.length * 8) {
+          grid.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+};
+
+const MASK_PATTERNS: ReadonlyArray<(x: number, y: number) => boolean> = [
+  (x, y): boolean => (x + y) % 2 === 0,
+  (_, y): boolean => y % 2 === 0,
+  (x): boolean => x % 3 === 0,
+  (x, y): boolean => (x + y) % 3 === 0,
+  (x, y): boolean => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y): boolean => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y): boolean => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y): boolean => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+// applying a mask twice restores the original modules
+const applyMask = (grid: IQrGrid, mask: number): void => {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction[y][x] && MASK_PATTERNS[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+};
+
+const FINDER_LIKE_PATTERNS = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true]
+];
+
+const getLinePenalty = (line: ReadonlyArray<boolean>): number => {
+  let penalty = 0;
+  // adjacent modules of the same color
+  let runLength = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      runLength++;
+    } else {
+      if (runLength >= 5) {
+        penalty += 3 + (runLength - 5);
+      }
+      runLength = 1;
+    }
+  }
+  // patterns which could be mistaken for a finder pattern
+  for (let i = 0; i + 11 <= line.length; i++) {
+    if (
+      FINDER_LIKE_PATTERNS.some(pattern =>
+        pattern.every((isDark, j) => line[i + j] === isDark)
+      )
+    ) {
+      penalty += 40;
+    }
+  }
+  return penalty;
+};
+
+/**
+ * Scores how hard the symbol could be to read, the lower the better.
+ */
+const getPenaltyScore = (grid: IQrGrid): number => {
+  const { modules, size } = grid;
+  let penalty = 0;
+  for (let i = 0; i < size; i++) {
+    penalty += getLinePenalty(modules[i]);
+    penalty += getLinePenalty(modules.map(row => row[i]));
+  }
+  // blocks of 2x2 modules of the same color
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const isDark = modules[y][x];
+      if (
+        isDark === modules[y][x + 1] &&
+        isDark === modules[y + 1][x] &&
+        isDark === modules[y + 1][x + 1]
+      ) {
+        penalty += 3;
+      }
+    }
+  }
+  // unbalanced proportion of dark modules
+  const dark = modules.reduce(
+    (count, row) => count + row.filter(isDark => isDark).length,
+    0
+  );
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+};
+
+const withQuietZone = (
+  modules: ReadonlyArray<ReadonlyArray<boolean>>
+): BitMatrix => {
+  const size = modules.length + 2 * QR_QUIET_ZONE_MODULES;
+  const emptyRow = new Array<boolean>(size).fill(false);
+  const border = new Array<boolean>(QR_QUIET_ZONE_MODULES).fill(false);
+  return [
+    ...new Array(QR_QUIET_ZONE_MODULES).fill(emptyRow),
+    ...modules.map(row => [...border, ...row, ...border]),
+    ...new Array(QR_QUIET_ZONE_MODULES).fill(emptyRow)
+  ];
+};
+
+/**
+ * Encodes the given text as a QR code, picking the smallest version
+ * able to hold it and the mask which makes the symbol easiest to read.
+ *
+ * @returns the modules of the symbol surrounded by its quiet zone
+ */
+export const encodeQrCode = (text: string): BitMatrix => {
+  const data = Buffer.from(text, "utf8");
+  let version = MIN_VERSION;
+  while (
+    4 + getCharCountBits(version) + data.length * 8 >
+    getNumDataCodewords(version) * 8
+  ) {
+    if (version >= MAX_VERSION) {
+      throw new Error("Data too long to be encoded as a QR code");
+    }
+    version++;
+  }
+
+  const size = getSize(version);
+  const grid: IQrGrid = {
+    isFunction: Array.from({ length: size }, () =>
+      new Array<boolean>(size).fill(false)
+    ),
+    modules: Array.from({ length: size }, () =>
+      new Array<boolean>(size).fill(false)
+    ),
+    size
+  };
+  drawFunctionPatterns(grid, version);
+  drawCodewords(
+    grid,
+    addEccAndInterleave(encodeDataCodewords(data, version), version)
+  );
+
+  let bestMask = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < MASK_PATTERNS.length; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const penalty = getPenaltyScore(grid);
+    if (penalty < minPenalty) {
+      bestMask = mask;
+      minPenalty = penalty;
+    }
+    applyMask(grid, mask);
+  }
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, bestMask);
+
+  return withQuietZone(grid.modules);
+};
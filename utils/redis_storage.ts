@@ -101,6 +101,33 @@ export const setWithExpirationTask = (
     TE.chain(TE.fromEither)
   );
 
+export const setIfNotExistsWithExpirationTask = (
+  redisClient: RedisClient,
+  key: string,
+  value: string,
+  expirationInSeconds: number
+): TE.TaskEither<Error, boolean> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        new Promise<Either<Error, boolean>>(resolve =>
+          // Set key to hold the string value only if it does not exist yet,
+          // so that only one of many concurrent callers gets true.
+          // @see https://redis.io/commands/set
+          redisClient.set(
+            key,
+            value,
+            "EX",
+            expirationInSeconds,
+            "NX",
+            (err, response) => resolve(singleStringReply(err, response))
+          )
+        ),
+      toError
+    ),
+    TE.chain(TE.fromEither)
+  );
+
 export const getTask = (
   redisClient: RedisClient,
   key: string
@@ -138,3 +165,68 @@ export const existsKeyTask = (
     ),
     TE.chain(TE.fromEither)
   );
+
+export const deleteTask = (
+  redisClient: RedisClient,
+  key: string
+): TE.TaskEither<Error, boolean> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        new Promise<Either<Error, boolean>>(resolve =>
+          // Removes the specified key. The reply is the number of keys that were removed,
+          // so a concurrent deletion of the same key is resolved with false.
+          // @see https://redis.io/commands/del
+          redisClient.del(key, (err, response) =>
+            resolve(integerRepl(err, response, 1))
+          )
+        ),
+      toError
+    ),
+    TE.chain(TE.fromEither)
+  );
+
+export const getSetMembersTask = (
+  redisClient: RedisClient,
+  key: string
+): TE.TaskEither<Error, ReadonlyArray<string>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        new Promise<Either<Error, ReadonlyArray<string>>>(resolve =>
+          // Returns all the members of the set. A missing key is considered as an empty set.
+          // @see https://redis.io/commands/smembers
+          redisClient.smembers(key, (err, response) =>
+            resolve(err ? left(err) : right(response ?? []))
+          )
+        ),
+      toError
+    ),
+    TE.chain(TE.fromEither)
+  );
+
+export const evalTask = (
+  redisClient: RedisClient,
+  script: string,
+  keys: ReadonlyArray<string>,
+  args: ReadonlyArray<string | number>
+): TE.TaskEither<Error, unknown> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        new Promise<Either<Error, unknown>>(resolve =>
+          // Runs the Lua script atomically. In cluster mode every key must hash to the same slot.
+          // @see https://redis.io/commands/eval
+          redisClient.eval(
+            script,
+            keys.length,
+            ...keys,
+            ...args,
+            (err: Error | null, response: unknown) =>
+              resolve(err ? left(err) : right(response))
+          )
+        ),
+      toError
+    ),
+    TE.chain(TE.fromEither)
+  );
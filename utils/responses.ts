@@ -0,0 +1,84 @@
+import { IResponse } from "@pagopa/ts-commons/lib/responses";
+
+/**
+ * Decorates a response so that the given header is set
+ * on the underlying express response once it is applied.
+ */
+export const withResponseHeader = (header: string, value: string) => <
+  R extends IResponse<unknown>
+>(
+  response: R
+): R => ({
+  ...response,
+  apply: (res): void => response.apply(res.set(header, value))
+});
+
+/**
+ * Decorates a response so that clients cache it privately
+ * until the given instant at most.
+ */
+export const withCacheExpiration = (expiresAt: Date, now: Date) => <
+  R extends IResponse<unknown>
+>(
+  response: R
+): R =>
+  withResponseHeader(
+    "Cache-Control",
+    `private, max-age=${Math.max(
+      0,
+      Math.floor((expiresAt.getTime() - now.getTime()) / 1000)
+    )}`
+  )(withResponseHeader("Expires", expiresAt.toUTCString())(response));
+
+export interface IResponseSuccessImage
+  extends IResponse<"IResponseSuccessImage"> {
+  readonly content: Buffer;
+  readonly contentType: string;
+}
+
+/**
+ * Returns a successful response with a binary image as its body.
+ */
+export const ResponseSuccessImage = (
+  content: Buffer,
+  contentType: string
+): IResponseSuccessImage => ({
+  apply: (res): void => {
+    res
+      .status(200)
+      .set("Content-Type", contentType)
+      .send(content);
+  },
+  content,
+  contentType,
+  kind: "IResponseSuccessImage"
+});
+
+export interface IResponseSuccessAttachment
+  extends IResponse<"IResponseSuccessAttachment"> {
+  readonly content: Buffer;
+  readonly contentType: string;
+  readonly filename: string;
+}
+
+/**
+ * Returns a successful response with a binary file as its body,
+ * which clients are asked to download with the given filename.
+ */
+export const ResponseSuccessAttachment = (
+  content: Buffer,
+  contentType: string,
+  filename: string
+): IResponseSuccessAttachment => ({
+  apply: (res): void => {
+    res
+      .status(200)
+      .set("Content-Type", contentType)
+      .set("Content-Disposition", `attachment; filename="${filename}"`)
+      .send(content);
+  },
+  content,
+  contentType,
+  filename,
+  kind: "IResponseSuccessAttachment"
+});
@@ -1,5 +1,6 @@
 import {
   ServiceResponse,
+  StorageError,
   TableQuery,
   TableService,
   TableUtilities
@@ -10,9 +11,9 @@ import * as E from "fp-ts/lib/Either";
 import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
 
-import * as date_fns from "date-fns";
-import { pipe } from "fp-ts/lib/function";
+import { constVoid, pipe } from "fp-ts/lib/function";
 import { Timestamp } from "../generated/definitions/Timestamp";
+import { endOfRomeDay, formatRomeDate } from "./dates";
 
 /**
  * A minimal Youth Card storage table Entry
@@ -102,7 +103,27 @@ export const queryFilterForKey = (partitionKey: string): TableQuery =>
     .where("PartitionKey == ?", partitionKey);
 
 /**
- * Store a card expiration into `cardExpirationTableName` table
+ * Returns a query filter to get all entries whose partition key follows
+ * or equals the provided one, as partition keys are sortable dates
+ */
+export const queryFilterFromKey = (partitionKey: string): TableQuery =>
+  new TableQuery()
+    .select("RowKey", "ActivationDate", "ExpirationDate")
+    .where("PartitionKey ge ?", partitionKey);
+
+/**
+ * Returns a query filter to get all entries that have the provided row key,
+ * whatever their partition key is
+ */
+export const queryFilterForRowKey = (rowKey: string): TableQuery =>
+  new TableQuery()
+    .select("RowKey", "ActivationDate", "ExpirationDate")
+    .where("RowKey == ?", rowKey);
+
+/**
+ * Store a card expiration into `cardExpirationTableName` table,
+ * partitioned by the day the card expires in Rome.
+ * The stored expiration date is the end of such day.
  */
 export const insertCardExpiration = (
   tableService: TableService,
@@ -118,11 +139,43 @@ export const insertCardExpiration = (
       cardExpirationTableName,
       {
         ActivationDate: eg.DateTime(activationDate),
-        ExpirationDate: eg.DateTime(expirationDate),
-        PartitionKey: eg.String(date_fns.format(expirationDate, "yyyy-MM-dd")),
+        ExpirationDate: eg.DateTime(endOfRomeDay(expirationDate)),
+        PartitionKey: eg.String(formatRomeDate(expirationDate)),
         RowKey: eg.String(fiscalCode)
       },
       cb
     )
   )();
 };
+
+/**
+ * Delete a card expiration from `cardExpirationTableName` table.
+ * A missing expiration is not an error, so that the deletion can be retried
+ */
+export const deleteCardExpiration = (
+  tableService: TableService,
+  cardExpirationTableName: NonEmptyString
+) => (
+  fiscalCode: FiscalCode,
+  expirationDate: Date
+): TE.TaskEither<Error, void> => {
+  const eg = TableUtilities.entityGenerator;
+  return pipe(
+    TE.taskify<Error, ServiceResponse>(cb =>
+      tableService.deleteEntity(
+        cardExpirationTableName,
+        {
+          PartitionKey: eg.String(formatRomeDate(expirationDate)),
+          RowKey: eg.String(fiscalCode)
+        },
+        cb
+      )
+    )(),
+    TE.map(constVoid),
+    TE.orElse(err =>
+      (err as StorageError).statusCode === 404
+        ? TE.of<Error, void>(void 0)
+        : TE.left(err)
+    )
+  );
+};
@@ -0,0 +1,119 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as date_fns from "date-fns";
+import * as E from "fp-ts/lib/Either";
+import { isLeft } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import { Otp } from "../generated/definitions/Otp";
+import { OtpCode } from "../generated/definitions/OtpCode";
+import { OTP_ALPHABET, OTPCODE_LENGTH } from "./cgnCode";
+
+// TOTP codes are derived as described by RFC 6238 with its default parameters,
+// but the HMAC bytes are mapped on the OTP alphabet instead of decimal digits
+// @see https://datatracker.ietf.org/doc/html/rfc6238
+export const TOTP_ALGORITHM = "sha1";
+export const TOTP_PERIOD_IN_SECONDS = 30;
+
+// RFC 4226 recommends a shared secret of 160 bits
+const TOTP_SECRET_LENGTH = 20;
+
+const asyncRandomBytes = promisify(randomBytes);
+
+/**
+ * Generates a new random TOTP secret, hex encoded
+ */
+export const generateTotpSecret = async (
+  getAsyncRandomBytes: typeof asyncRandomBytes = asyncRandomBytes
+): Promise<NonEmptyString> =>
+  (await getAsyncRandomBytes(TOTP_SECRET_LENGTH)).toString(
+    "hex"
+  ) as NonEmptyString;
+
+/**
+ * Returns the number of TOTP periods elapsed since the Unix epoch
+ */
+export const getTotpCounter = (date: Date): number =>
+  Math.floor(date.getTime() / 1000 / TOTP_PERIOD_IN_SECONDS);
+
+/**
+ * Returns the instant when the codes of the given counter stop being current
+ */
+export const getTotpCounterExpiration = (counter: number): Date =>
+  new Date((counter + 1) * TOTP_PERIOD_IN_SECONDS * 1000);
+
+/**
+ * Derives the TOTP code of the given counter.
+ * The code chars are picked from the HMAC bytes starting at the
+ * RFC 4226 dynamic truncation offset, the same way `generateOtpCode`
+ * maps random bytes on the OTP alphabet.
+ */
+export const generateTotpCode = (
+  secret: NonEmptyString,
+  counter: number
+): OtpCode => {
+  // the counter is an 8 bytes big-endian integer
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  counterBuffer.writeUInt32BE(counter % 0x100000000, 4);
+  const hmac = createHmac(TOTP_ALGORITHM, Buffer.from(secret, "hex"))
+    .update(counterBuffer)
+    .digest();
+  // eslint-disable-next-line no-bitwise
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = RA.makeBy(
+    OTPCODE_LENGTH,
+    i => OTP_ALPHABET[hmac[(offset + i) % hmac.length] % OTP_ALPHABET.length]
+  ).join("");
+  const otpCode = OtpCode.decode(code);
+  if (isLeft(otpCode)) {
+    // this should never happen
+    throw Error(`FATAL: generateTotpCode generated invalid OTP code [${code}]`);
+  }
+  return otpCode.right;
+};
+
+/**
+ * Verifies a TOTP code accepting the codes of `skewWindow` periods
+ * before and after the current one, to tolerate clock drifts.
+ *
+ * @returns the counter the code belongs to, or none if the code is not valid
+ */
+export const verifyTotpCode = (
+  secret: NonEmptyString,
+  otpCode: OtpCode,
+  now: Date,
+  skewWindow: NonNegativeInteger
+): O.Option<number> =>
+  pipe(
+    RA.makeBy(2 * skewWindow + 1, i => getTotpCounter(now) - skewWindow + i),
+    RA.findFirst(counter => {
+      const expected = Buffer.from(generateTotpCode(secret, counter));
+      const actual = Buffer.from(otpCode);
+      return (
+        expected.length === actual.length && timingSafeEqual(expected, actual)
+      );
+    })
+  );
+
+/**
+ * Returns the TOTP code which is current at the given instant,
+ * expiring when its period is over.
+ */
+export const getCurrentTotp = (
+  secret: NonEmptyString,
+  now: Date
+): E.Either<Error, Otp> =>
+  E.tryCatch(() => {
+    const counter = getTotpCounter(now);
+    const expiresAt = getTotpCounterExpiration(counter);
+    return {
+      code: generateTotpCode(secret, counter),
+      expires_at: expiresAt,
+      ttl: date_fns.differenceInSeconds(expiresAt, now)
+    };
+  }, E.toError);
@@ -0,0 +1,22 @@
+import * as AdmZip from "adm-zip";
+
+export interface IZipEntry {
+  readonly content: Buffer;
+  readonly name: string;
+}
+
+/**
+ * Packs the entries into a ZIP archive,
+ * each one deflated and timestamped with the given instant.
+ */
+export const createZipArchive = (
+  entries: ReadonlyArray<IZipEntry>,
+  modifiedAt: Date
+): Buffer => {
+  const zip = new AdmZip();
+  entries.forEach(entry => {
+    // eslint-disable-next-line functional/immutable-data
+    zip.addFile(entry.name, entry.content).header.time = modifiedAt;
+  });
+  return zip.toBuffer();
+};